@@ -46,7 +46,8 @@ self.addEventListener('activate', event => {
     caches.keys().then(cacheNames => {
       return Promise.all(
         cacheNames.map(cacheName => {
-          if (cacheName !== CACHE_NAME) {
+          // Spoken audio is kept across versions; the app manages that cache itself
+          if (cacheName !== CACHE_NAME && !cacheName.startsWith('truenorth-tts')) {
             console.log('Deleting old cache:', cacheName);
             return caches.delete(cacheName);
           }
@@ -11,6 +11,7 @@ import { useToast } from '@/hooks/use-toast';
 import LandingPage from './pages/LandingPage';
 import ChatPage from './pages/ChatPage';
 import JournalPage from './pages/JournalPage';
+import JournalPrintPage from './pages/JournalPrintPage';
 import LoginPage from './pages/LoginPage';
 import RegisterPage from './pages/RegisterPage';
 import DashboardPage from './pages/DashboardPage';
@@ -171,6 +172,11 @@ function App() {
               <JournalPage />
             </ProtectedRoute>
           } />
+          <Route path="/journal/print" element={
+            <ProtectedRoute>
+              <JournalPrintPage />
+            </ProtectedRoute>
+          } />
           <Route path="/prayer" element={
             <ProtectedRoute>
               <PrayerPage />
@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Loader2, RefreshCw, ShieldAlert } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/lib/supabase';
+
+interface SafetyEventStat {
+  day: string;
+  stage: 'input' | 'output';
+  risk_level: 'concern' | 'crisis';
+  category: string;
+  event_count: number;
+  user_count: number;
+}
+
+const DAYS_BACK = 30;
+
+const CATEGORY_LABELS: Record<string, string> = {
+  suicide_self_harm: 'Suicide / self-harm',
+  abuse: 'Abuse',
+  harm_to_others: 'Harm to others',
+  other: 'Other',
+};
+
+/**
+ * Daily counts of chat safety flags. Only aggregates are available here;
+ * the events themselves hold no message text.
+ */
+export function SafetyEventsPanel() {
+  const [stats, setStats] = useState<SafetyEventStat[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStats = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { data, error: rpcError } = await supabase.rpc('get_safety_event_stats', { days_back: DAYS_BACK });
+      if (rpcError) throw rpcError;
+      setStats(data || []);
+    } catch (err: any) {
+      console.error('Error loading safety event stats:', err);
+      setError(err.message || 'Failed to load safety events');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStats();
+  }, []);
+
+  const total = (filter: (stat: SafetyEventStat) => boolean) =>
+    stats.filter(filter).reduce((sum, stat) => sum + Number(stat.event_count), 0);
+
+  const totals = [
+    { label: 'Flagged messages', value: total(stat => stat.stage === 'input') },
+    { label: 'Crisis responses', value: total(stat => stat.stage === 'input' && stat.risk_level === 'crisis') },
+    { label: 'Replies withheld', value: total(stat => stat.stage === 'output') },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5 text-primary" />
+              <span>Chat Safety</span>
+            </CardTitle>
+            <CardDescription>
+              How often the chat safety check flagged risk in the last {DAYS_BACK} days. No message content is recorded.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadStats} disabled={isLoading}>
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="grid grid-cols-3 gap-4">
+          {totals.map(item => (
+            <div key={item.label} className="rounded-lg border p-4">
+              <p className="text-2xl font-bold">{item.value}</p>
+              <p className="text-sm text-muted-foreground">{item.label}</p>
+            </div>
+          ))}
+        </div>
+
+        {stats.length === 0 && !isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No safety events in this period.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Day</TableHead>
+                <TableHead>Stage</TableHead>
+                <TableHead>Level</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead className="text-right">Events</TableHead>
+                <TableHead className="text-right">Users</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stats.map(stat => (
+                <TableRow key={`${stat.day}-${stat.stage}-${stat.risk_level}-${stat.category}`}>
+                  <TableCell>{format(parseISO(stat.day), 'MMM d, yyyy')}</TableCell>
+                  <TableCell>{stat.stage === 'input' ? 'Message' : 'Reply'}</TableCell>
+                  <TableCell>
+                    <Badge variant={stat.risk_level === 'crisis' ? 'destructive' : 'secondary'}>
+                      {stat.risk_level}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{CATEGORY_LABELS[stat.category] || stat.category}</TableCell>
+                  <TableCell className="text-right">{stat.event_count}</TableCell>
+                  <TableCell className="text-right">{stat.user_count}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -14,7 +14,9 @@ import {
   Filter,
   CheckIcon,
   AlertCircle,
-  Volume2
+  Volume2,
+  Download,
+  WifiOff
 } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
@@ -39,6 +41,12 @@ import {
   type BibleSearchResult,
   type BibleBook
 } from '@/lib/bible-api';
+import {
+  isTranslationInstalled,
+  canInstallTranslation,
+  installTranslation,
+  type InstallProgress
+} from '@/lib/bible-store';
 import { 
   DropdownMenu,
   DropdownMenuContent,
@@ -64,6 +72,8 @@ interface BibleBrowserProps {
 
 type ViewMode = 'browse' | 'search' | 'chapter';
 
+const SEARCH_PAGE_SIZE = 50;
+
 export function BibleBrowser({ 
   onVerseSelect, 
   onAddToMemory, 
@@ -86,6 +96,11 @@ export function BibleBrowser({
   const [hasRandomVerseError, setHasRandomVerseError] = useState(false);
   const [translationFilter, setTranslationFilter] = useState('');
   const [translationPopoverOpen, setTranslationPopoverOpen] = useState(false);
+  const [isOfflineAvailable, setIsOfflineAvailable] = useState(false);
+  const [installProgress, setInstallProgress] = useState<InstallProgress | null>(null);
+  const [searchFromBook, setSearchFromBook] = useState(BIBLE_BOOKS[0].id);
+  const [searchToBook, setSearchToBook] = useState(BIBLE_BOOKS[BIBLE_BOOKS.length - 1].id);
+  const [visibleResults, setVisibleResults] = useState(SEARCH_PAGE_SIZE);
   const { toast } = useToast();
 
   const translations = [
@@ -184,6 +199,17 @@ export function BibleBrowser({
     }
   }, [selectedBook, selectedChapter, currentTranslation, viewMode]);
 
+  // Check whether the selected translation is available offline
+  useEffect(() => {
+    let cancelled = false;
+    isTranslationInstalled(currentTranslation).then(installed => {
+      if (!cancelled) setIsOfflineAvailable(installed);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentTranslation]);
+
   // Handle tab changes
   useEffect(() => {
     if (onTabChange) {
@@ -232,8 +258,8 @@ export function BibleBrowser({
     setViewMode('search');
     
     try {
-      // First try to parse as a reference
-      const parsed = parseReference(searchQuery);
+      // First try to parse as a reference (a bare word like "Acts" is a text search)
+      const parsed = /\d/.test(searchQuery) ? parseReference(searchQuery) : null;
       if (parsed) {
         const verse = await getVerse(searchQuery, currentTranslation);
         if (verse) {
@@ -244,8 +270,11 @@ export function BibleBrowser({
       }
       
       // Otherwise search for text
-      const results = await searchVerses(searchQuery, currentTranslation);
+      const results = await searchVerses(searchQuery, currentTranslation, {
+        bookRange: { from: searchFromBook, to: searchToBook }
+      });
       setSearchResults(results);
+      setVisibleResults(SEARCH_PAGE_SIZE);
       setSelectedVerse(null);
     } catch (error) {
       console.error('Error searching:', error);
@@ -259,6 +288,26 @@ export function BibleBrowser({
     }
   };
 
+  const handleDownloadOffline = async () => {
+    try {
+      await installTranslation(currentTranslation, setInstallProgress);
+      setIsOfflineAvailable(true);
+      toast({
+        title: 'Available Offline',
+        description: `${currentTranslation.toUpperCase()} has been downloaded for offline reading and search`,
+      });
+    } catch (error) {
+      console.error('Error downloading translation:', error);
+      toast({
+        title: 'Download Failed',
+        description: 'Could not download this translation for offline use',
+        variant: 'destructive',
+      });
+    } finally {
+      setInstallProgress(null);
+    }
+  };
+
   const handleVerseClick = async (reference: string) => {
     try {
       const verse = await getVerse(reference, currentTranslation);
@@ -389,6 +438,25 @@ export function BibleBrowser({
             </PopoverContent>
           </Popover>
           
+          {isOfflineAvailable ? (
+            <Badge variant="outline" className="shrink-0 bg-secondary/10 text-secondary">
+              <WifiOff className="mr-1 h-3 w-3" />
+              Offline
+            </Badge>
+          ) : canInstallTranslation(currentTranslation) && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleDownloadOffline}
+              disabled={installProgress !== null}
+              className="shrink-0"
+              title="Download for offline reading and full-text search"
+            >
+              <Download className="mr-1 h-4 w-4" />
+              {installProgress ? `${installProgress.percent}%` : 'Offline'}
+            </Button>
+          )}
+
           <Button
             variant="outline"
             size="icon"
@@ -423,6 +491,7 @@ export function BibleBrowser({
                     <div className="flex flex-col space-y-1 ml-4">
                       <ScriptureAudioPlayer 
                         scripture={randomVerse.text}
+                        translation={currentTranslation}
                         size="sm"
                         variant="ghost"
                       />
@@ -498,6 +567,35 @@ export function BibleBrowser({
         </Button>
       </div>
 
+      {/* Offline search scope */}
+      {isOfflineAvailable && (
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm text-muted-foreground">
+          <span>Search from</span>
+          <Select value={searchFromBook} onValueChange={setSearchFromBook}>
+            <SelectTrigger className="w-[170px] h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BIBLE_BOOKS.map(book => (
+                <SelectItem key={book.id} value={book.id}>{book.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span>to</span>
+          <Select value={searchToBook} onValueChange={setSearchToBook}>
+            <SelectTrigger className="w-[170px] h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BIBLE_BOOKS.map(book => (
+                <SelectItem key={book.id} value={book.id}>{book.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-xs">Use "quotes" for phrases and OR for alternatives</span>
+        </div>
+      )}
+
       {/* Navigation tabs */}
       <Tabs value={viewMode} onValueChange={(value) => setViewMode(value as ViewMode)}>
         <TabsList className="grid grid-cols-3 w-full">
@@ -598,6 +696,7 @@ export function BibleBrowser({
                     <div className="flex flex-col space-y-1 ml-4">
                       <ScriptureAudioPlayer 
                         scripture={selectedVerse.text}
+                        translation={currentTranslation}
                         size="sm"
                         variant="ghost"
                       />
@@ -628,7 +727,10 @@ export function BibleBrowser({
             </Card>
           ) : searchResults.length > 0 ? (
             <div className="space-y-2">
-              {searchResults.map((result, index) => (
+              <p className="text-sm text-muted-foreground">
+                {searchResults.length} {searchResults.length === 1 ? 'verse' : 'verses'} found
+              </p>
+              {searchResults.slice(0, visibleResults).map((result, index) => (
                 <Card key={index} className="cursor-pointer hover:shadow-md transition-shadow">
                   <CardContent className="pt-4">
                     <div className="space-y-2">
@@ -637,6 +739,7 @@ export function BibleBrowser({
                         <div className="flex space-x-1">
                           <ScriptureAudioPlayer
                             scripture={result.text}
+                            translation={currentTranslation}
                             size="sm"
                             variant="ghost"
                           />
@@ -685,6 +788,15 @@ export function BibleBrowser({
                   </CardContent>
                 </Card>
               ))}
+              {searchResults.length > visibleResults && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setVisibleResults(prev => prev + SEARCH_PAGE_SIZE)}
+                >
+                  Show more results
+                </Button>
+              )}
             </div>
           ) : searchQuery && (
             <div className="text-center py-8">
@@ -763,6 +875,7 @@ export function BibleBrowser({
                       </CardTitle>
                       <ScriptureAudioPlayer 
                         scripture={chapterData.verses.map(v => v.text).join(' ')}
+                        translation={currentTranslation}
                         title={`${selectedBook.name} ${selectedChapter}`}
                         showSettings={true}
                       />
@@ -789,6 +902,7 @@ export function BibleBrowser({
                               <div className="opacity-0 group-hover:opacity-100 transition-opacity flex space-x-1">
                                 <ScriptureAudioPlayer
                                   scripture={verse.text}
+                                  translation={currentTranslation}
                                   size="sm"
                                   variant="ghost"
                                 />
@@ -1,5 +1,5 @@
 // Update the import section to add missing AlertDialogFooter
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { 
   BookOpen, 
@@ -27,6 +27,7 @@ import {
   saveReflection
 } from '@/lib/reading-plans';
 import { getVerse, getChapter, BibleVerse, BibleChapter } from '@/lib/bible-api';
+import { parseScriptureReference } from '@/lib/scripture-reference';
 import { savePrayerRequest, PrayerRequest } from '@/lib/supabase';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -79,21 +80,23 @@ export function DailyReadingView({
   const [prayerSaved, setPrayerSaved] = useState(false);
   const { toast } = useToast();
 
-  // Check if reference is a full chapter (no colon)
-  const isFullChapter = !dailyReading.scripture_reference.includes(':');
+  // Check if reference is a single full chapter (e.g., "Matthew 6")
+  const fullChapter = useMemo(() => {
+    const parsed = parseScriptureReference(dailyReading.scripture_reference);
+    const segment = parsed?.segments.length === 1 ? parsed.segments[0] : null;
+    return segment && segment.startVerse === undefined && segment.startChapter === segment.endChapter
+      ? segment
+      : null;
+  }, [dailyReading.scripture_reference]);
+  const isFullChapter = fullChapter !== null;
 
   // Load the Bible scripture for this day
   useEffect(() => {
     const loadScripture = async () => {
       setIsLoadingScripture(true);
       try {
-        if (isFullChapter) {
-          // Parse the full chapter reference (e.g., "Matthew 6")
-          const parts = dailyReading.scripture_reference.split(' ');
-          const book = parts.slice(0, parts.length - 1).join(' ');
-          const chapter = parseInt(parts[parts.length - 1]);
-          
-          const chapterData = await getChapter(book, chapter);
+        if (fullChapter) {
+          const chapterData = await getChapter(fullChapter.book.name, fullChapter.startChapter);
           setChapterScripture(chapterData);
           setScripture(null);
         } else {
@@ -110,7 +113,7 @@ export function DailyReadingView({
     };
     
     loadScripture();
-  }, [dailyReading.scripture_reference, isFullChapter]);
+  }, [dailyReading.scripture_reference, fullChapter]);
 
   // Load any existing reflection
   useEffect(() => {
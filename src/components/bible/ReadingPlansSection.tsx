@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { 
   BookOpen, 
@@ -50,7 +50,13 @@ import {
 // Define view modes
 type ViewMode = 'browse' | 'reading' | 'create';
 
-const ReadingPlansSection = () => {
+interface ReadingPlansSectionProps {
+  // Open this plan on load, e.g. from a cited reading reflection
+  initialPlanId?: string;
+  initialDay?: number;
+}
+
+const ReadingPlansSection = ({ initialPlanId, initialDay }: ReadingPlansSectionProps = {}) => {
   const [viewMode, setViewMode] = useState<ViewMode>('browse');
   const [plans, setPlans] = useState<ReadingPlan[]>([]);
   const [filteredPlans, setFilteredPlans] = useState<ReadingPlan[]>([]);
@@ -66,6 +72,7 @@ const ReadingPlansSection = () => {
   const [selectedProgress, setSelectedProgress] = useState<ReadingProgress | null>(null);
   const [currentReading, setCurrentReading] = useState<DailyReading | null>(null);
   const [isLoadingReading, setIsLoadingReading] = useState(false);
+  const openedInitialPlan = useRef(false);
   
   const { toast } = useToast();
 
@@ -77,6 +84,15 @@ const ReadingPlansSection = () => {
     filterPlans();
   }, [plans, userProgress, searchQuery, themeFilter, durationFilter, activeTab]);
 
+  useEffect(() => {
+    if (!initialPlanId || openedInitialPlan.current) return;
+    const plan = plans.find(candidate => candidate.id === initialPlanId);
+    if (plan) {
+      openedInitialPlan.current = true;
+      loadReadingView(plan, getProgressForPlan(plan.id), initialDay);
+    }
+  }, [plans, userProgress, initialPlanId, initialDay]);
+
   const loadReadingPlans = async () => {
     setIsLoading(true);
     try {
@@ -164,7 +180,7 @@ const ReadingPlansSection = () => {
     loadReadingView(plan, progress);
   };
   
-  const loadReadingView = async (plan: ReadingPlan, progress?: ReadingProgress) => {
+  const loadReadingView = async (plan: ReadingPlan, progress?: ReadingProgress, day?: number) => {
     setIsLoadingReading(true);
     try {
       // Get the plan details with all readings
@@ -181,9 +197,10 @@ const ReadingPlansSection = () => {
         throw new Error('Reading progress not found');
       }
       
-      // Get the current day's reading
-      const dayNumber = userReadingProgress.current_day <= fullPlan.duration_days
-        ? userReadingProgress.current_day
+      // Get the requested or current day's reading
+      const targetDay = day || userReadingProgress.current_day;
+      const dayNumber = targetDay <= fullPlan.duration_days
+        ? targetDay
         : fullPlan.duration_days;
       
       const reading = await getDailyReading(plan.id, dayNumber);
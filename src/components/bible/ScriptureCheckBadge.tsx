@@ -0,0 +1,75 @@
+import { Fragment, type ReactNode, useMemo } from 'react';
+import { AlertTriangle, CheckCircle2, HelpCircle, PenLine } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { splitCheckedQuotes } from '@/lib/scripture-verification';
+import type { ScriptureCheck, ScriptureCheckStatus } from '@/lib/types';
+import { ScriptureLinkedText } from './ScriptureLinkedText';
+
+const CHECK_DISPLAY: Record<ScriptureCheckStatus, { label: string; icon: typeof CheckCircle2; className: string }> = {
+  verified: { label: 'Verified', icon: CheckCircle2, className: 'text-green-600 dark:text-green-400' },
+  corrected: { label: 'Corrected', icon: PenLine, className: 'text-blue-600 dark:text-blue-400' },
+  mismatch: { label: 'Check wording', icon: AlertTriangle, className: 'text-amber-600 dark:text-amber-400' },
+  unverified: { label: 'Not verified', icon: HelpCircle, className: 'text-muted-foreground' },
+};
+
+function describeCheck(check: ScriptureCheck): string {
+  const passage = `${check.reference} (${check.translation})`;
+  switch (check.status) {
+    case 'verified':
+      return `Matches ${passage}`;
+    case 'corrected':
+      return `Corrected to the text of ${passage}. It was quoted as: "${check.original}"`;
+    case 'mismatch':
+      return `Doesn't match the wording of ${passage}`;
+    default:
+      return `Couldn't look up ${passage} to check this quotation`;
+  }
+}
+
+/**
+ * Small label showing whether a quoted verse matches the Bible text
+ */
+export function ScriptureCheckBadge({ check, className }: { check: ScriptureCheck; className?: string }) {
+  const display = CHECK_DISPLAY[check.status];
+  const Icon = display.icon;
+
+  return (
+    <span
+      title={describeCheck(check)}
+      className={cn('inline-flex items-center gap-0.5 align-middle text-[10px] font-medium ml-1', display.className, className)}
+    >
+      <Icon className="h-3 w-3" />
+      {display.label}
+    </span>
+  );
+}
+
+interface ScriptureCheckedTextProps {
+  text: string;
+  checks?: ScriptureCheck[] | null;
+  // How plain stretches of text are shown; scripture references become chips by default
+  renderText?: (text: string) => ReactNode;
+}
+
+/**
+ * Render text with a badge after each scripture quotation that was checked
+ */
+export function ScriptureCheckedText({ text, checks, renderText }: ScriptureCheckedTextProps) {
+  const parts = useMemo(() => splitCheckedQuotes(text, checks), [text, checks]);
+  const render = renderText || ((part: string) => <ScriptureLinkedText text={part} />);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        typeof part === 'string' ? (
+          <Fragment key={index}>{render(part)}</Fragment>
+        ) : (
+          <Fragment key={index}>
+            {render(part.text)}
+            <ScriptureCheckBadge check={part.check} />
+          </Fragment>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,32 @@
+import { Fragment, useMemo } from 'react';
+import { splitScriptureReferences } from '@/lib/scripture-links';
+import { ScriptureReferenceChip } from './ScriptureReferenceChip';
+
+interface ScriptureLinkedTextProps {
+  text: string;
+  chipClassName?: string;
+}
+
+/**
+ * Render plain text with any scripture references turned into interactive chips
+ */
+export function ScriptureLinkedText({ text, chipClassName }: ScriptureLinkedTextProps) {
+  const parts = useMemo(() => splitScriptureReferences(text), [text]);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        typeof part === 'string' ? (
+          <Fragment key={index}>{part}</Fragment>
+        ) : (
+          <ScriptureReferenceChip
+            key={index}
+            reference={part.reference}
+            label={part.text}
+            className={chipClassName}
+          />
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,319 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { BookOpen, Brain, Heart, Loader2 } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useVerseTranslation } from '@/hooks/use-verse-translation';
+import { getVerse, BibleVerse } from '@/lib/bible-api';
+import {
+  getCurrentUser,
+  getPrayerRequests,
+  saveScriptureMemory,
+  updatePrayerRequest,
+} from '@/lib/supabase';
+import { getInitialSchedule } from '@/lib/spaced-repetition';
+import { PrayerRequest, ScriptureMemory } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface ScriptureReferenceChipProps {
+  // Canonical reference, e.g. "John 3:16"
+  reference: string;
+  // Text as it appeared in the source
+  label?: string;
+  className?: string;
+}
+
+// Delay before a hover popover closes, so the pointer can move into it
+const HOVER_CLOSE_DELAY = 200;
+
+export function ScriptureReferenceChip({ reference, label, className }: ScriptureReferenceChipProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [verse, setVerse] = useState<BibleVerse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasError, setHasError] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPrayerDialogOpen, setIsPrayerDialogOpen] = useState(false);
+  const closeTimer = useRef<ReturnType<typeof setTimeout>>();
+  const translation = useVerseTranslation();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen || verse || isLoading) return;
+    loadVerse();
+  }, [isOpen]);
+
+  useEffect(() => {
+    return () => clearTimeout(closeTimer.current);
+  }, []);
+
+  const loadVerse = async () => {
+    setIsLoading(true);
+    setHasError(false);
+    try {
+      // Fall back to KJV when the preferred translation isn't available
+      let result = await getVerse(reference, translation);
+      if (!result && translation !== 'kjv') {
+        result = await getVerse(reference, 'kjv');
+      }
+      setVerse(result);
+      setHasError(!result);
+    } catch (error) {
+      console.error('Error loading verse for reference chip:', error);
+      setHasError(true);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openOnHover = () => {
+    clearTimeout(closeTimer.current);
+    setIsOpen(true);
+  };
+
+  const closeOnHoverEnd = () => {
+    clearTimeout(closeTimer.current);
+    closeTimer.current = setTimeout(() => setIsOpen(false), HOVER_CLOSE_DELAY);
+  };
+
+  const handleOpenInBible = () => {
+    setIsOpen(false);
+    navigate(`/bible?ref=${encodeURIComponent(reference)}`);
+  };
+
+  const handleAddToMemory = async () => {
+    if (!verse) return;
+
+    setIsSaving(true);
+    try {
+      const user = await getCurrentUser();
+      if (!user) {
+        toast({
+          title: 'Authentication Required',
+          description: 'You must be logged in to add verses to memory.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      const memory: ScriptureMemory = {
+        user_id: user.id,
+        verse_reference: reference,
+        verse_text: verse.text,
+        translation: verse.translation_id,
+        tags: [],
+        notes: '',
+        ...getInitialSchedule(),
+        last_practiced: format(new Date(), 'yyyy-MM-dd'),
+      };
+
+      await saveScriptureMemory(memory);
+      toast({
+        title: 'Added to Scripture Memory',
+        description: `${reference} has been added to your scripture memory collection.`,
+      });
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Error adding to memory:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to add verse to memory.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Popover open={isOpen} onOpenChange={setIsOpen}>
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            className={cn(
+              "inline-flex items-center gap-1 rounded-full border border-current px-2 py-0.5 align-baseline text-[0.9em] font-medium leading-tight hover:bg-black/10 focus:outline-none focus-visible:ring-2 focus-visible:ring-gold",
+              className
+            )}
+            onMouseEnter={openOnHover}
+            onMouseLeave={closeOnHoverEnd}
+          >
+            <BookOpen className="h-3 w-3 shrink-0" />
+            {label || reference}
+          </button>
+        </PopoverTrigger>
+        <PopoverContent
+          className="w-80"
+          onMouseEnter={openOnHover}
+          onMouseLeave={closeOnHoverEnd}
+          onOpenAutoFocus={event => event.preventDefault()}
+        >
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="font-semibold text-foreground">{reference}</h4>
+              {verse && (
+                <span className="text-xs text-muted-foreground">{verse.translation_id}</span>
+              )}
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center text-sm text-muted-foreground">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading verse...
+              </div>
+            ) : hasError ? (
+              <p className="text-sm text-muted-foreground">
+                This passage couldn't be loaded right now.
+              </p>
+            ) : verse ? (
+              <div className="max-h-48 overflow-y-auto">
+                <p className="text-sm italic text-foreground/90">"{verse.text}"</p>
+              </div>
+            ) : null}
+
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant="outline" onClick={handleOpenInBible}>
+                <BookOpen className="mr-1 h-3 w-3" />
+                Open
+              </Button>
+              <Button size="sm" variant="outline" onClick={handleAddToMemory} disabled={!verse || isSaving}>
+                {isSaving ? (
+                  <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                ) : (
+                  <Brain className="mr-1 h-3 w-3" />
+                )}
+                Memorize
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  setIsOpen(false);
+                  setIsPrayerDialogOpen(true);
+                }}
+              >
+                <Heart className="mr-1 h-3 w-3" />
+                Pray
+              </Button>
+            </div>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {isPrayerDialogOpen && (
+        <AttachToPrayerDialog
+          reference={reference}
+          verse={verse}
+          onClose={() => setIsPrayerDialogOpen(false)}
+        />
+      )}
+    </>
+  );
+}
+
+interface AttachToPrayerDialogProps {
+  reference: string;
+  verse: BibleVerse | null;
+  onClose: () => void;
+}
+
+function AttachToPrayerDialog({ reference, verse, onClose }: AttachToPrayerDialogProps) {
+  const [prayers, setPrayers] = useState<PrayerRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadPrayers();
+  }, []);
+
+  const loadPrayers = async () => {
+    try {
+      const user = await getCurrentUser();
+      const requests = await getPrayerRequests();
+      // Only the user's own prayers that are still being prayed for
+      setPrayers(requests.filter((request: PrayerRequest) => request.user_id === user?.id && !request.is_answered));
+    } catch (error) {
+      console.error('Error loading prayer requests:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAttach = async (prayer: PrayerRequest) => {
+    if (!prayer.id) return;
+
+    setSavingId(prayer.id);
+    try {
+      const attachment = verse ? `${reference} — "${verse.text}"` : reference;
+      await updatePrayerRequest({
+        ...prayer,
+        description: prayer.description ? `${prayer.description}\n\n${attachment}` : attachment,
+      });
+
+      toast({
+        title: 'Scripture Attached',
+        description: `${reference} was added to "${prayer.title}".`,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error attaching scripture to prayer request:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to attach scripture to prayer request.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Attach {reference}</DialogTitle>
+          <DialogDescription>
+            Choose a prayer request to add this passage to.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : prayers.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">
+            You don't have any open prayer requests.
+          </p>
+        ) : (
+          <div className="max-h-72 overflow-y-auto">
+            <div className="space-y-2">
+              {prayers.map(prayer => (
+                <Button
+                  key={prayer.id}
+                  variant="outline"
+                  className="w-full justify-between"
+                  disabled={savingId !== null}
+                  onClick={() => handleAttach(prayer)}
+                >
+                  <span className="truncate">{prayer.title}</span>
+                  {savingId === prayer.id && <Loader2 className="ml-2 h-4 w-4 animate-spin" />}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
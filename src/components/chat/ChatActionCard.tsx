@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { Book, BookOpen, CheckCircle2, Hand, Loader2, Target, X, type LucideIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { useVerseTranslation } from '@/hooks/use-verse-translation';
+import { CHAT_ACTION_LABELS, confirmChatAction, declineChatAction, getChatActionLink } from '@/lib/chat-actions';
+import { ChatAction, ChatActionStatus, ChatActionType } from '@/lib/types';
+
+interface ChatActionCardProps {
+  action: ChatAction;
+}
+
+const ACTION_ICONS: Record<ChatActionType, LucideIcon> = {
+  create_prayer_request: Hand,
+  log_habit: CheckCircle2,
+  add_memory_verse: BookOpen,
+  start_reading_plan: Book,
+  create_spiritual_goal: Target,
+};
+
+const STATUS_LABELS: Record<Exclude<ChatActionStatus, 'proposed'>, string> = {
+  executed: 'Done',
+  declined: 'Declined',
+  failed: 'Failed',
+};
+
+function formatDate(date: string) {
+  return format(parseISO(date), 'MMM d, yyyy');
+}
+
+// The details the user is agreeing to, one line each
+function describeParams(action: ChatAction): { title: string; lines: string[] } {
+  const { params } = action;
+  switch (action.action_type) {
+    case 'create_prayer_request':
+      return {
+        title: params.title,
+        lines: [params.description, params.tags?.length ? `Tags: ${params.tags.join(', ')}` : ''],
+      };
+    case 'log_habit':
+      return {
+        title: params.habit_name,
+        lines: [
+          `${formatDate(params.completed_date)}${params.amount > 1 ? ` · ${params.amount}` : ''}`,
+          params.notes,
+        ],
+      };
+    case 'add_memory_verse':
+      return { title: params.reference, lines: [params.notes] };
+    case 'start_reading_plan':
+      return { title: params.plan_title, lines: [`${params.duration_days} days, starting today`] };
+    case 'create_spiritual_goal':
+      return {
+        title: params.title,
+        lines: [
+          params.description,
+          params.target_date ? `Target: ${formatDate(params.target_date)}` : '',
+          ...(params.milestones || []).map((milestone: { title: string }, i: number) => `${i + 1}. ${milestone.title}`),
+        ],
+      };
+  }
+}
+
+/**
+ * An action the coach proposed. Nothing happens until the user confirms it,
+ * and the outcome stays on the card as a record in the conversation.
+ */
+export function ChatActionCard({ action: initialAction }: ChatActionCardProps) {
+  const [action, setAction] = useState(initialAction);
+  const [pending, setPending] = useState<'confirm' | 'decline' | null>(null);
+  const translation = useVerseTranslation();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setAction(initialAction);
+  }, [initialAction.id, initialAction.status]);
+
+  const resolve = async (decision: 'confirm' | 'decline') => {
+    setPending(decision);
+    try {
+      const resolved = decision === 'confirm'
+        ? await confirmChatAction(action, translation)
+        : await declineChatAction(action);
+      setAction(resolved);
+      if (resolved.status === 'failed') {
+        toast({
+          title: 'Action failed',
+          description: resolved.error || 'The action could not be completed.',
+          variant: 'destructive',
+        });
+      }
+    } catch (error: any) {
+      console.error(`Error resolving chat action ${action.id}:`, error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update this action.',
+        variant: 'destructive',
+      });
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const Icon = ACTION_ICONS[action.action_type];
+  const { title, lines } = describeParams(action);
+  const link = getChatActionLink(action);
+
+  return (
+    <div className="rounded-md border border-cream/20 bg-cream/5 p-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1.5 text-xs text-cream/70">
+          <Icon className="h-3.5 w-3.5 text-gold" />
+          {CHAT_ACTION_LABELS[action.action_type]}
+        </div>
+        {action.status !== 'proposed' && (
+          <Badge
+            variant={action.status === 'failed' ? 'destructive' : 'secondary'}
+            className="text-[10px] px-1.5 py-0"
+          >
+            {STATUS_LABELS[action.status]}
+          </Badge>
+        )}
+      </div>
+
+      <p className="mt-1 font-medium">{title}</p>
+      {lines.filter(Boolean).map((line, i) => (
+        <p key={i} className="text-cream/80">{line}</p>
+      ))}
+      {action.status === 'failed' && action.error && (
+        <p className="mt-1 text-xs text-red-300">{action.error}</p>
+      )}
+
+      {action.status === 'proposed' && (
+        <div className="mt-3 flex gap-2">
+          <Button
+            size="sm"
+            className="bg-gold text-navy hover:bg-gold/90"
+            onClick={() => resolve('confirm')}
+            disabled={pending !== null}
+          >
+            {pending === 'confirm'
+              ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              : <CheckCircle2 className="h-4 w-4 mr-1" />}
+            Confirm
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="text-cream hover:bg-cream/10 hover:text-cream"
+            onClick={() => resolve('decline')}
+            disabled={pending !== null}
+          >
+            {pending === 'decline' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <X className="h-4 w-4 mr-1" />}
+            Decline
+          </Button>
+        </div>
+      )}
+
+      {link && (
+        <Link to={link} className="mt-2 inline-block text-xs text-gold hover:underline">
+          {action.result?.already_started ? 'Already started · open plan' : 'View'}
+        </Link>
+      )}
+    </div>
+  );
+}
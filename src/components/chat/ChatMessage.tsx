@@ -1,16 +1,132 @@
+import { Fragment, useState } from 'react';
 import { motion } from 'framer-motion';
-import { ChatMessage as ChatMessageType } from '@/lib/types';
-import { MessageCircle } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ChatMessage as ChatMessageType, ChatSource } from '@/lib/types';
+import { BookMarked, ChevronLeft, ChevronRight, MessageCircle, Pencil, RefreshCw } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
 import { cn } from '@/lib/utils';
 import { TrueNorthLogo } from '@/components/ui/TrueNorthLogo';
+import { MarkdownContent } from '@/components/ui/MarkdownContent';
+import { ScriptureLinkedText } from '@/components/bible/ScriptureLinkedText';
+import { ScriptureCheckedText } from '@/components/bible/ScriptureCheckBadge';
+import { CHAT_SOURCE_LABELS, CITATION_PATTERN, getChatSourceLink } from '@/lib/chat-sources';
+import { ChatActionCard } from './ChatActionCard';
+import { MessageFeedback } from './MessageFeedback';
 
 interface ChatMessageProps {
   message: ChatMessageType;
+  // Branch controls; only passed for messages saved on the server
+  onRegenerate?: () => void;
+  onEdit?: (content: string) => void;
+  onSwitchVersion?: (messageId: string) => void;
 }
 
-export function ChatMessage({ message }: ChatMessageProps) {
+function describeSource(source: ChatSource) {
+  const label = CHAT_SOURCE_LABELS[source.type];
+  return source.date ? `${label} · ${format(new Date(source.date), 'MMM d, yyyy')}` : label;
+}
+
+// Message text with [n] citations turned into links to the cited items
+function CitedText({ text, sources }: { text: string; sources?: ChatSource[] }) {
+  if (!sources?.length) {
+    return <ScriptureLinkedText text={text} />;
+  }
+
+  // split() with a capture group alternates plain text and citation numbers
+  const parts = text.split(CITATION_PATTERN);
+  return (
+    <>
+      {parts.map((part, i) => {
+        if (i % 2 === 0) {
+          return <ScriptureLinkedText key={i} text={part} />;
+        }
+        const source = sources.find(candidate => candidate.index === Number(part));
+        if (!source) {
+          return <Fragment key={i}>[{part}]</Fragment>;
+        }
+        return (
+          <Link
+            key={i}
+            to={getChatSourceLink(source)}
+            title={`${source.title} (${describeSource(source)})`}
+            className="inline-block align-super text-xs font-medium text-gold hover:underline px-0.5"
+          >
+            [{part}]
+          </Link>
+        );
+      })}
+    </>
+  );
+}
+
+// "‹ 2/3 ›" for moving between edited messages or regenerated replies
+function VersionSwitcher({
+  messageId,
+  siblingIds,
+  onSwitch,
+}: {
+  messageId: string;
+  siblingIds: string[];
+  onSwitch: (messageId: string) => void;
+}) {
+  const position = siblingIds.indexOf(messageId);
+  if (position < 0) return null;
+
+  return (
+    <div className="flex items-center text-xs text-muted-foreground">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        disabled={position === 0}
+        onClick={() => onSwitch(siblingIds[position - 1])}
+        title="Previous version"
+      >
+        <ChevronLeft className="h-3.5 w-3.5" />
+      </Button>
+      <span className="tabular-nums">
+        {position + 1}/{siblingIds.length}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        disabled={position === siblingIds.length - 1}
+        onClick={() => onSwitch(siblingIds[position + 1])}
+        title="Next version"
+      >
+        <ChevronRight className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+}
+
+export function ChatMessage({ message, onRegenerate, onEdit, onSwitchVersion }: ChatMessageProps) {
   const isUser = message.role === 'user';
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const isStored = Boolean(message.id) && message.parentId !== undefined;
+  const canSwitch = isStored && !!onSwitchVersion && (message.siblingIds?.length || 0) > 1;
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const saveEdit = () => {
+    const content = draft.trim();
+    setIsEditing(false);
+    if (content && content !== message.content) {
+      onEdit?.(content);
+    }
+  };
+  // Retrieved items the reply didn't cite are left out of the list
+  const citedSources = (message.sources || []).filter(source =>
+    message.content.includes(`[${source.index}]`)
+  );
   
   return (
     <motion.div
@@ -30,9 +146,11 @@ export function ChatMessage({ message }: ChatMessageProps) {
         </Avatar>
       )}
       
+      <div className={cn("max-w-[80%] flex flex-col gap-1", isUser ? "items-end" : "items-start")}>
       <div
         className={cn(
-          "max-w-[80%] rounded-lg p-4",
+          "rounded-lg p-4",
+          isEditing && "w-full min-w-[16rem]",
           isUser 
             ? "bg-gold/90 text-navy" 
             : "bg-navy text-cream"
@@ -42,9 +160,99 @@ export function ChatMessage({ message }: ChatMessageProps) {
           <div className="text-sm font-medium">
             {isUser ? 'You' : 'TrueNorth'}
           </div>
-          <div className="mt-1 whitespace-pre-wrap">{message.content}</div>
+          {isEditing ? (
+            <div className="mt-1 space-y-2">
+              <Textarea
+                value={draft}
+                onChange={event => setDraft(event.target.value)}
+                className="bg-background text-foreground min-h-[80px]"
+                autoFocus
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={saveEdit} disabled={!draft.trim()}>
+                  Save & send
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <MarkdownContent
+              className="mt-1"
+              text={message.content}
+              renderText={text => (
+                <ScriptureCheckedText
+                  text={text}
+                  checks={message.scriptureChecks}
+                  renderText={part => <CitedText text={part} sources={message.sources} />}
+                />
+              )}
+            />
+          )}
+          {!isUser && citedSources.length > 0 && (
+            <div className="mt-3 pt-2 border-t border-cream/20 space-y-1">
+              <div className="flex items-center gap-1 text-xs text-cream/70">
+                <BookMarked className="h-3 w-3" />
+                From your writing
+              </div>
+              {citedSources.map(source => (
+                <Link
+                  key={source.index}
+                  to={getChatSourceLink(source)}
+                  className="block text-xs text-cream/90 hover:text-gold hover:underline truncate"
+                >
+                  [{source.index}] {source.title}
+                  <span className="text-cream/60"> · {describeSource(source)}</span>
+                </Link>
+              ))}
+            </div>
+          )}
+          {!isUser && message.actions && message.actions.length > 0 && (
+            <div className="mt-3 space-y-2">
+              {message.actions.map(action => (
+                <ChatActionCard key={action.id} action={action} />
+              ))}
+            </div>
+          )}
         </div>
       </div>
+
+      {isStored && !isEditing && (!isUser || canSwitch || onEdit) && (
+        <div className="flex items-center gap-1">
+          {canSwitch && (
+            <VersionSwitcher
+              messageId={message.id!}
+              siblingIds={message.siblingIds!}
+              onSwitch={onSwitchVersion!}
+            />
+          )}
+          {isUser && onEdit && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-muted-foreground"
+              onClick={startEditing}
+              title="Edit message"
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+          )}
+          {!isUser && onRegenerate && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-muted-foreground"
+              onClick={onRegenerate}
+              title="Regenerate response"
+            >
+              <RefreshCw className="h-3.5 w-3.5" />
+            </Button>
+          )}
+          {!isUser && <MessageFeedback messageId={message.id!} feedback={message.feedback} />}
+        </div>
+      )}
+      </div>
       
       {isUser && (
         <Avatar className="h-8 w-8 border border-navy">
@@ -0,0 +1,335 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  Archive,
+  ArchiveRestore,
+  Loader2,
+  MessageSquarePlus,
+  MoreHorizontal,
+  Pencil,
+  Pin,
+  PinOff,
+  Search,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  deleteChatThread,
+  getChatThreads,
+  renameChatThread,
+  searchChatThreads,
+  setChatThreadArchived,
+  setChatThreadPinned,
+} from '@/lib/chat-threads';
+import { ChatThreadSummary } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface ChatThreadSidebarProps {
+  activeThreadId: string | null;
+  onSelectThread: (threadId: string) => void;
+  onNewChat: () => void;
+  onThreadDeleted?: (threadId: string) => void;
+  // Bump to reload the list, e.g. after a message creates or updates a thread
+  refreshKey?: number;
+  className?: string;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// ts_headline marks matches with « »; render them highlighted
+function renderSnippet(snippet: string) {
+  return snippet.split(/«(.*?)»/g).map((part, i) =>
+    i % 2 === 1 ? <mark key={i} className="bg-gold/40 text-foreground rounded-sm">{part}</mark> : part
+  );
+}
+
+export function ChatThreadSidebar({
+  activeThreadId,
+  onSelectThread,
+  onNewChat,
+  onThreadDeleted,
+  refreshKey = 0,
+  className,
+}: ChatThreadSidebarProps) {
+  const [threads, setThreads] = useState<ChatThreadSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showArchived, setShowArchived] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [threadToDelete, setThreadToDelete] = useState<ChatThreadSummary | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const query = searchQuery.trim();
+    const timer = setTimeout(() => {
+      loadThreads(query);
+    }, query ? SEARCH_DEBOUNCE_MS : 0);
+    return () => clearTimeout(timer);
+  }, [searchQuery, showArchived, refreshKey]);
+
+  const loadThreads = async (query: string) => {
+    setIsLoading(true);
+    try {
+      const results = query ? await searchChatThreads(query) : await getChatThreads(showArchived);
+      setThreads(results);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const replaceThread = (updated: ChatThreadSummary) => {
+    setThreads(prev => {
+      // Threads that moved between the active and archived lists drop out of view
+      if (!searchQuery.trim() && updated.is_archived !== showArchived) {
+        return prev.filter(thread => thread.id !== updated.id);
+      }
+      const next = prev.map(thread => (thread.id === updated.id ? { ...thread, ...updated } : thread));
+      return next.sort((a, b) => {
+        if (a.is_pinned !== b.is_pinned) return a.is_pinned ? -1 : 1;
+        return (b.last_message_at || '').localeCompare(a.last_message_at || '');
+      });
+    });
+  };
+
+  const runAction = async (action: () => Promise<ChatThreadSummary>, failure: string) => {
+    try {
+      replaceThread(await action());
+    } catch (error) {
+      console.error(failure, error);
+      toast({
+        title: 'Error',
+        description: failure,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const startRename = (thread: ChatThreadSummary) => {
+    setRenamingId(thread.id);
+    setRenameValue(thread.title || '');
+  };
+
+  const submitRename = async () => {
+    if (!renamingId) return;
+    const threadId = renamingId;
+    setRenamingId(null);
+    await runAction(() => renameChatThread(threadId, renameValue), 'Failed to rename conversation.');
+  };
+
+  const confirmDelete = async () => {
+    if (!threadToDelete) return;
+    const threadId = threadToDelete.id;
+    setThreadToDelete(null);
+
+    try {
+      await deleteChatThread(threadId);
+      setThreads(prev => prev.filter(thread => thread.id !== threadId));
+      onThreadDeleted?.(threadId);
+      toast({
+        title: 'Conversation Deleted',
+        description: 'The conversation and its messages have been removed.',
+      });
+    } catch (error) {
+      console.error('Error deleting chat thread:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete conversation.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const isSearching = searchQuery.trim().length > 0;
+
+  return (
+    <aside className={cn("flex flex-col bg-card rounded-lg shadow-md p-3 min-h-0", className)}>
+      <Button
+        onClick={onNewChat}
+        className="w-full bg-secondary text-secondary-foreground hover:bg-secondary/90 mb-3"
+      >
+        <MessageSquarePlus className="h-4 w-4 mr-2" />
+        New Chat
+      </Button>
+
+      <div className="relative mb-3">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={searchQuery}
+          onChange={e => setSearchQuery(e.target.value)}
+          placeholder="Search conversations"
+          className="pl-8 pr-8 h-9"
+        />
+        {isSearching && (
+          <button
+            type="button"
+            className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+            onClick={() => setSearchQuery('')}
+            aria-label="Clear search"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto -mx-1 px-1 space-y-1">
+        {isLoading && threads.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : threads.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            {isSearching
+              ? 'No conversations match your search.'
+              : showArchived
+                ? 'No archived conversations.'
+                : 'Your conversations will appear here.'}
+          </p>
+        ) : (
+          threads.map(thread => (
+            <div
+              key={thread.id}
+              className={cn(
+                "group flex items-start gap-1 rounded-md px-2 py-2 cursor-pointer hover:bg-muted",
+                thread.id === activeThreadId && "bg-muted"
+              )}
+              onClick={() => renamingId !== thread.id && onSelectThread(thread.id)}
+            >
+              <div className="flex-1 min-w-0">
+                {renamingId === thread.id ? (
+                  <Input
+                    autoFocus
+                    value={renameValue}
+                    onChange={e => setRenameValue(e.target.value)}
+                    onClick={e => e.stopPropagation()}
+                    onBlur={submitRename}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') submitRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="h-7 text-sm"
+                  />
+                ) : (
+                  <div className="flex items-center gap-1 text-sm font-medium text-foreground">
+                    {thread.is_pinned && <Pin className="h-3 w-3 shrink-0 text-gold" />}
+                    <span className="truncate">{thread.title || 'Untitled conversation'}</span>
+                  </div>
+                )}
+                {thread.snippet && thread.snippet !== thread.title ? (
+                  <p className="text-xs text-muted-foreground line-clamp-2 mt-0.5">
+                    {renderSnippet(thread.snippet)}
+                  </p>
+                ) : (
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {formatDistanceToNow(new Date(thread.last_message_at || thread.created_at), { addSuffix: true })}
+                  </p>
+                )}
+              </div>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0 opacity-60 group-hover:opacity-100"
+                    onClick={e => e.stopPropagation()}
+                    aria-label="Conversation options"
+                  >
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" onClick={e => e.stopPropagation()}>
+                  <DropdownMenuItem onSelect={() => startRename(thread)}>
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Rename
+                  </DropdownMenuItem>
+                  {!thread.is_archived && (
+                    <DropdownMenuItem
+                      onSelect={() => runAction(
+                        () => setChatThreadPinned(thread.id, !thread.is_pinned),
+                        'Failed to update conversation.'
+                      )}
+                    >
+                      {thread.is_pinned ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+                      {thread.is_pinned ? 'Unpin' : 'Pin'}
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem
+                    onSelect={() => runAction(
+                      () => setChatThreadArchived(thread.id, !thread.is_archived),
+                      'Failed to update conversation.'
+                    )}
+                  >
+                    {thread.is_archived ? <ArchiveRestore className="h-4 w-4 mr-2" /> : <Archive className="h-4 w-4 mr-2" />}
+                    {thread.is_archived ? 'Unarchive' : 'Archive'}
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    className="text-destructive focus:text-destructive"
+                    onSelect={() => setThreadToDelete(thread)}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          ))
+        )}
+      </div>
+
+      {!isSearching && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="mt-2 text-muted-foreground"
+          onClick={() => setShowArchived(!showArchived)}
+        >
+          <Archive className="h-4 w-4 mr-2" />
+          {showArchived ? 'Back to conversations' : 'Archived conversations'}
+        </Button>
+      )}
+
+      <AlertDialog open={!!threadToDelete} onOpenChange={open => !open && setThreadToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Conversation</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{threadToDelete?.title || 'Untitled conversation'}" and all of its messages will be
+              permanently deleted. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </aside>
+  );
+}
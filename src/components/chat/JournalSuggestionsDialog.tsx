@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Book, BookOpen, Check, Hand, Loader2, Plus } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useVerseTranslation } from '@/hooks/use-verse-translation';
+import { getVerse } from '@/lib/bible-api';
+import { getCurrentUser, savePrayerRequest, saveScriptureMemory } from '@/lib/supabase';
+import { getInitialSchedule } from '@/lib/spaced-repetition';
+import {
+  ChatJournalSuggestions,
+  JournalEntry,
+  ScriptureMemory,
+  SuggestedMemoryVerse,
+  SuggestedPrayerRequest,
+} from '@/lib/types';
+
+interface JournalSuggestionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  journalEntry: JournalEntry | null;
+  suggestions: ChatJournalSuggestions | null;
+}
+
+/**
+ * Shown after a chat is saved to the journal: links to the new entry and lets
+ * the user accept suggested prayer requests and memory verses one by one.
+ */
+export function JournalSuggestionsDialog({
+  open,
+  onOpenChange,
+  journalEntry,
+  suggestions,
+}: JournalSuggestionsDialogProps) {
+  // Keys of accepted suggestions, and the one currently being saved
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const translation = useVerseTranslation();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setAccepted(new Set());
+  }, [journalEntry?.id]);
+
+  const accept = async (key: string, save: () => Promise<void>, failure: string) => {
+    setSavingKey(key);
+    try {
+      await save();
+      setAccepted(prev => new Set(prev).add(key));
+    } catch (error) {
+      console.error(failure, error);
+      toast({
+        title: 'Error',
+        description: failure,
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const addPrayerRequest = (request: SuggestedPrayerRequest) =>
+    accept(
+      `prayer:${request.title}`,
+      async () => {
+        await savePrayerRequest({
+          title: request.title,
+          description: request.description,
+          is_answered: false,
+          shared: false,
+          tags: journalEntry?.tags?.slice(0, 3) || [],
+        });
+      },
+      'Failed to add prayer request.'
+    );
+
+  const addMemoryVerse = (suggestion: SuggestedMemoryVerse) =>
+    accept(
+      `verse:${suggestion.reference}`,
+      async () => {
+        const user = await getCurrentUser();
+        if (!user) {
+          throw new Error('User not authenticated');
+        }
+
+        let verse = await getVerse(suggestion.reference, translation);
+        if (!verse && translation !== 'kjv') {
+          verse = await getVerse(suggestion.reference, 'kjv');
+        }
+        if (!verse) {
+          throw new Error(`Could not load ${suggestion.reference}`);
+        }
+
+        const memory: ScriptureMemory = {
+          user_id: user.id,
+          verse_reference: suggestion.reference,
+          verse_text: verse.text,
+          translation: verse.translation_id,
+          tags: [],
+          notes: suggestion.reason,
+          ...getInitialSchedule(),
+          last_practiced: format(new Date(), 'yyyy-MM-dd'),
+        };
+        await saveScriptureMemory(memory);
+      },
+      `Failed to add ${suggestion.reference} to scripture memory.`
+    );
+
+  const renderAction = (key: string, onAccept: () => void) => {
+    if (accepted.has(key)) {
+      return (
+        <Button size="sm" variant="ghost" disabled className="shrink-0">
+          <Check className="h-4 w-4 mr-1" />
+          Added
+        </Button>
+      );
+    }
+    return (
+      <Button
+        size="sm"
+        variant="outline"
+        className="shrink-0"
+        onClick={onAccept}
+        disabled={savingKey !== null}
+      >
+        {savingKey === key ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+        Add
+      </Button>
+    );
+  };
+
+  const prayerRequests = suggestions?.prayerRequests || [];
+  const memoryVerses = suggestions?.memoryVerses || [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Saved to Your Journal</DialogTitle>
+          <DialogDescription>
+            {journalEntry?.id ? (
+              <>
+                Your conversation was saved as{' '}
+                <Link
+                  to={`/journal?entry=${journalEntry.id}`}
+                  className="font-medium text-foreground underline underline-offset-2"
+                  onClick={() => onOpenChange(false)}
+                >
+                  {journalEntry.title}
+                </Link>
+                .
+              </>
+            ) : (
+              'Your conversation was saved to your journal.'
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {prayerRequests.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium flex items-center">
+              <Hand className="h-4 w-4 mr-2 text-gold" />
+              Suggested Prayer Requests
+            </h4>
+            {prayerRequests.map(request => (
+              <div key={request.title} className="flex items-start gap-3 rounded-md border p-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium">{request.title}</p>
+                  <p className="text-sm text-muted-foreground">{request.description}</p>
+                </div>
+                {renderAction(`prayer:${request.title}`, () => addPrayerRequest(request))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {memoryVerses.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium flex items-center">
+              <BookOpen className="h-4 w-4 mr-2 text-gold" />
+              Verses to Memorize
+            </h4>
+            {memoryVerses.map(verse => (
+              <div key={verse.reference} className="flex items-start gap-3 rounded-md border p-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium">{verse.reference}</p>
+                  {verse.reason && <p className="text-sm text-muted-foreground">{verse.reason}</p>}
+                </div>
+                {renderAction(`verse:${verse.reference}`, () => addMemoryVerse(verse))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {prayerRequests.length === 0 && memoryVerses.length === 0 && (
+          <p className="text-sm text-muted-foreground flex items-center">
+            <Book className="h-4 w-4 mr-2" />
+            No follow-ups were suggested for this conversation.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button onClick={() => onOpenChange(false)}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { ThumbsDown, ThumbsUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { FEEDBACK_REASONS, clearChatMessageRating, rateChatMessage } from '@/lib/chat-feedback';
+import { ChatMessageFeedback } from '@/lib/types';
+
+interface MessageFeedbackProps {
+  messageId: string;
+  feedback?: ChatMessageFeedback | null;
+}
+
+/**
+ * Thumbs up/down on a reply. The rating is saved straight away; the popover
+ * that follows lets the user add a reason if they want to.
+ */
+export function MessageFeedback({ messageId, feedback: initialFeedback }: MessageFeedbackProps) {
+  const [feedback, setFeedback] = useState<ChatMessageFeedback | null>(initialFeedback || null);
+  const [reasonOpen, setReasonOpen] = useState(false);
+  const [reason, setReason] = useState(initialFeedback?.reason || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setFeedback(initialFeedback || null);
+    setReason(initialFeedback?.reason || '');
+  }, [messageId]);
+
+  const save = async (next: ChatMessageFeedback | null) => {
+    setIsSaving(true);
+    try {
+      if (next) {
+        setFeedback(await rateChatMessage(messageId, next.rating, next.reason));
+      } else {
+        await clearChatMessageRating(messageId);
+        setFeedback(null);
+      }
+      return true;
+    } catch (error) {
+      console.error('Error saving message feedback:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save your feedback.',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRate = async (rating: ChatMessageFeedback['rating']) => {
+    // Clicking the current rating again removes it
+    if (feedback?.rating === rating) {
+      await save(null);
+      setReason('');
+      return;
+    }
+    if (await save({ rating, reason: null })) {
+      setReason('');
+      setReasonOpen(true);
+    }
+  };
+
+  const handleSaveReason = async () => {
+    if (feedback && (await save({ rating: feedback.rating, reason }))) {
+      setReasonOpen(false);
+    }
+  };
+
+  const ratingButton = (rating: ChatMessageFeedback['rating']) => {
+    const Icon = rating === 1 ? ThumbsUp : ThumbsDown;
+    const isActive = feedback?.rating === rating;
+    return (
+      <Button
+        variant="ghost"
+        size="icon"
+        className={cn('h-7 w-7 text-muted-foreground', isActive && 'text-gold')}
+        onClick={() => handleRate(rating)}
+        disabled={isSaving}
+        aria-pressed={isActive}
+        title={rating === 1 ? 'Good response' : 'Bad response'}
+      >
+        <Icon className={cn('h-3.5 w-3.5', isActive && 'fill-current')} />
+      </Button>
+    );
+  };
+
+  return (
+    <Popover open={reasonOpen} onOpenChange={setReasonOpen}>
+      <PopoverTrigger asChild>
+        <div className="flex items-center">
+          {ratingButton(1)}
+          {ratingButton(-1)}
+        </div>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="start">
+        <p className="text-sm font-medium">
+          {feedback?.rating === -1 ? 'What could have been better?' : 'What was helpful?'}
+          <span className="font-normal text-muted-foreground"> (optional)</span>
+        </p>
+        {feedback && (
+          <div className="flex flex-wrap gap-1.5">
+            {FEEDBACK_REASONS[feedback.rating].map(option => (
+              <Button
+                key={option}
+                variant={reason === option ? 'secondary' : 'outline'}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setReason(option)}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+        )}
+        <Textarea
+          value={reason}
+          onChange={event => setReason(event.target.value)}
+          placeholder="Tell us more"
+          rows={2}
+          maxLength={500}
+        />
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setReasonOpen(false)}>
+            Skip
+          </Button>
+          <Button size="sm" onClick={handleSaveReason} disabled={isSaving || !reason.trim()}>
+            Send
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
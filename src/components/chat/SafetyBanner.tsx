@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, LifeBuoy, Phone } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { ChatMessage, SafetyNotice } from '@/lib/types';
+
+interface SafetyBannerProps {
+  notice: SafetyNotice;
+}
+
+/**
+ * The notice a thread's banner should show: its most recent crisis notice,
+ * or failing that its most recent concern.
+ */
+export function pickSafetyNotice(messages: ChatMessage[]): SafetyNotice | null {
+  const notices = messages.flatMap(message => (message.safety ? [message.safety] : [])).reverse();
+  return notices.find(notice => notice.level === 'crisis') || notices[0] || null;
+}
+
+/**
+ * Pinned above a conversation once the safety check has flagged it. It can be
+ * collapsed but not dismissed, so help stays one tap away for the whole thread.
+ */
+export function SafetyBanner({ notice }: SafetyBannerProps) {
+  const [expanded, setExpanded] = useState(notice.level === 'crisis');
+  const isCrisis = notice.level === 'crisis';
+
+  return (
+    <Alert
+      className={cn(
+        'mb-4',
+        isCrisis ? 'border-red-300 bg-red-50 text-red-950' : 'border-gold/50 bg-gold/10 text-foreground'
+      )}
+    >
+      <LifeBuoy className={cn('h-4 w-4', isCrisis ? '!text-red-700' : '!text-gold')} />
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <AlertTitle>{isCrisis ? 'You are not alone. Help is available now.' : 'Support is available'}</AlertTitle>
+          <AlertDescription>
+            If you are in immediate danger, call {notice.emergencyNumber}.
+          </AlertDescription>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 shrink-0"
+          onClick={() => setExpanded(value => !value)}
+          aria-expanded={expanded}
+        >
+          {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          <span className="sr-only">{expanded ? 'Hide resources' : 'Show resources'}</span>
+        </Button>
+      </div>
+
+      {expanded && (
+        <ul className="mt-3 space-y-2">
+          {notice.resources.map(resource => (
+            <li key={resource.name} className="flex flex-wrap items-center gap-x-2 gap-y-1">
+              <span className="font-medium">{resource.name}</span>
+              <span className="text-muted-foreground">{resource.contact}</span>
+              {resource.phone && (
+                <a
+                  href={`tel:${resource.phone}`}
+                  className="inline-flex items-center text-xs font-medium underline underline-offset-2"
+                >
+                  <Phone className="h-3 w-3 mr-1" />
+                  Call
+                </a>
+              )}
+              {resource.url && (
+                <a
+                  href={resource.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs underline underline-offset-2"
+                >
+                  Website
+                </a>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </Alert>
+  );
+}
@@ -8,9 +8,11 @@ import { Slider } from '@/components/ui/slider';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { ChatMessage } from '@/lib/types';
 import { supabase } from '@/lib/supabase';
+import { getSpeechAudio, SpeechRequestError } from '@/lib/speech-audio';
 import { useToast } from '@/hooks/use-toast';
 import { useVoiceActivityDetector } from '@/hooks/use-voice-activity-detector';
 import { normalizeAudio, trimSilence } from '@/lib/audio-processor';
+import { VoiceConversation } from './VoiceConversation';
 
 // Add voice options for OpenAI TTS
 const VOICE_OPTIONS = [
@@ -40,9 +42,11 @@ interface VoiceChatProps {
   onSendMessage: (message: string) => void;
   isProcessing: boolean;
   lastMessage: ChatMessage | null;
+  // Reply text received so far, read aloud as it arrives in hands-free mode
+  streamingText?: string;
 }
 
-export function VoiceChat({ onSendMessage, isProcessing, lastMessage }: VoiceChatProps) {
+export function VoiceChat({ onSendMessage, isProcessing, lastMessage, streamingText = '' }: VoiceChatProps) {
   const [isRecording, setIsRecording] = useState(false);
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [transcript, setTranscript] = useState('');
@@ -57,6 +61,7 @@ export function VoiceChat({ onSendMessage, isProcessing, lastMessage }: VoiceCha
   const [isMuted, setIsMuted] = useState(false);
   const [selectedVoice, setSelectedVoice] = useState('alloy'); // Default to 'alloy' OpenAI voice
   const [autoStopEnabled, setAutoStopEnabled] = useState(true); // Auto stop on silence
+  const [handsFreeEnabled, setHandsFreeEnabled] = useState(false); // Continuous conversation
   const { toast } = useToast();
   
   // Refs
@@ -416,6 +421,18 @@ export function VoiceChat({ onSendMessage, isProcessing, lastMessage }: VoiceCha
         body: formData,
       });
 
+      // Out of transcription time for the month: free users can upgrade,
+      // Pro users wait for the reset
+      if (response.status === 402 || response.status === 429) {
+        const data = await response.json().catch(() => ({}));
+        setErrorState(
+          response.status === 402
+            ? 'You have used this month\'s free voice input. Upgrade to TrueNorth Pro for more, or type your message.'
+            : data.message || 'You have reached this month\'s voice input limit. Please type your message.'
+        );
+        return;
+      }
+
       if (!response.ok) {
         throw new Error(`Transcription failed: ${response.status}`);
       }
@@ -506,46 +523,26 @@ export function VoiceChat({ onSendMessage, isProcessing, lastMessage }: VoiceCha
     setIsPaused(false);
     
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (!session) {
-        throw new Error('Not authenticated');
-      }
-      
-      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-      
-      // Use the OpenAI TTS endpoint
-      const response = await fetch(`${supabaseUrl}/functions/v1/openai-tts`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${session.access_token}`,
-        },
-        body: JSON.stringify({
-          text,
-          voice: selectedVoice,
-        }),
-      });
-      
-      // Handle subscription requirements
-      if (response.status === 402) {
-        toast({
-          title: 'Premium Feature',
-          description: 'Premium voices require a TrueNorth Pro subscription.',
-          variant: 'default',
-        });
-        
-        // Fall back to browser voices
-        playWithBrowserTTS(text);
-        return;
-      }
-      
-      if (!response.ok) {
-        throw new Error(`TTS request failed: ${response.status}`);
+      let audioBlob: Blob;
+      try {
+        audioBlob = await getSpeechAudio({ text, voice: selectedVoice });
+      } catch (error) {
+        // Handle subscription requirements
+        if (error instanceof SpeechRequestError && error.status === 402) {
+          toast({
+            title: 'Premium Feature',
+            description: 'Premium voices require a TrueNorth Pro subscription.',
+            variant: 'default',
+          });
+          
+          // Fall back to browser voices
+          playWithBrowserTTS(text);
+          return;
+        }
+        throw error;
       }
       
       // Create audio URL from response
-      const audioBlob = await response.blob();
       const audioUrl = URL.createObjectURL(audioBlob);
       
       // Set up audio element
@@ -644,6 +641,17 @@ export function VoiceChat({ onSendMessage, isProcessing, lastMessage }: VoiceCha
       <Card className="bg-card shadow-md border border-border">
         <CardContent className="p-6 flex flex-col items-center justify-center text-center">
           <div className="space-y-6 w-full max-w-sm mx-auto">
+            {handsFreeEnabled ? (
+              <VoiceConversation
+                onSendMessage={onSendMessage}
+                isProcessing={isProcessing}
+                lastMessage={lastMessage}
+                streamingText={streamingText}
+                voice={selectedVoice}
+                volume={isMuted ? 0 : volume / 100}
+              />
+            ) : (
+            <>
             {errorState && (
               <motion.div 
                 initial={{ opacity: 0 }}
@@ -777,10 +785,41 @@ export function VoiceChat({ onSendMessage, isProcessing, lastMessage }: VoiceCha
                 {isRecording ? "Tap to stop recording" : "Tap to start speaking"}
               </p>
             </div>
+            </>
+            )}
             
             {/* Voice controls */}
             <div className="flex flex-col mt-4 pt-4 border-t border-border space-y-4">
               {/* Settings */}
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium flex items-center space-x-2">
+                  <span>Hands-free conversation</span>
+                </label>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant={handsFreeEnabled ? "default" : "outline"}
+                    size="sm"
+                    className="h-8 text-xs"
+                    disabled={isRecording || isTranscribing}
+                    onClick={() => {
+                      stopAudioPlayback();
+                      setHandsFreeEnabled(true);
+                    }}
+                  >
+                    On
+                  </Button>
+                  <Button
+                    variant={!handsFreeEnabled ? "default" : "outline"}
+                    size="sm" 
+                    className="h-8 text-xs"
+                    onClick={() => setHandsFreeEnabled(false)}
+                  >
+                    Off
+                  </Button>
+                </div>
+              </div>
+
+              {!handsFreeEnabled && (
               <div className="flex items-center justify-between">
                 <label className="text-sm font-medium flex items-center space-x-2">
                   <span>Auto-stop on silence</span>
@@ -804,6 +843,7 @@ export function VoiceChat({ onSendMessage, isProcessing, lastMessage }: VoiceCha
                   </Button>
                 </div>
               </div>
+              )}
               
               {/* Voice selection */}
               <div className="flex items-center justify-between">
@@ -0,0 +1,406 @@
+import { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { Headphones, Loader2, Mic, PhoneOff, Volume2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ChatMessage } from '@/lib/types';
+import { supabase } from '@/lib/supabase';
+import { takeSpeakablePieces } from '@/lib/speech-sentences';
+import { useSentenceSpeaker } from '@/hooks/use-sentence-speaker';
+import { useVoiceActivityDetector } from '@/hooks/use-voice-activity-detector';
+import { useInterimTranscript } from '@/hooks/use-interim-transcript';
+
+type ConversationState = 'off' | 'listening' | 'hearing' | 'transcribing' | 'thinking' | 'speaking';
+
+interface VoiceConversationProps {
+  onSendMessage: (message: string) => void;
+  isProcessing: boolean;
+  lastMessage: ChatMessage | null;
+  // Reply text received so far while the assistant is answering
+  streamingText: string;
+  voice: string;
+  // 0 to 1
+  volume: number;
+}
+
+// Out of transcription time; 402 without Pro, 429 with it
+class TranscriptionLimitError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'TranscriptionLimitError';
+  }
+}
+
+// Silence recorded while waiting for speech is thrown away after this
+const IDLE_RECORDING_MS = 15000;
+// Recordings smaller than this are clicks and breaths, not speech
+const MIN_SEGMENT_BYTES = 1000;
+
+const STATE_LABELS: Record<ConversationState, string> = {
+  off: 'Start a hands-free conversation',
+  listening: 'Listening...',
+  hearing: 'Hearing you...',
+  transcribing: 'Understanding...',
+  thinking: 'Thinking...',
+  speaking: 'Speaking — just talk to interrupt',
+};
+
+async function transcribe(audio: Blob): Promise<string> {
+  const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+  if (sessionError || !session) {
+    throw new Error('Not authenticated');
+  }
+
+  const formData = new FormData();
+  formData.append('audio', new File([audio], 'recording.webm', { type: 'audio/webm' }));
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/whisper-transcription`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session.access_token}`,
+      'X-Priority': 'high',
+    },
+    body: formData,
+  });
+
+  if (response.status === 402 || response.status === 429) {
+    const data = await response.json().catch(() => ({}));
+    throw new TranscriptionLimitError(data.message || 'Voice input limit reached', response.status);
+  }
+  if (!response.ok) {
+    throw new Error(`Transcription failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.text || '').trim();
+}
+
+/**
+ * Hands-free voice chat: listens continuously, sends each thing the user says
+ * when they pause, and reads the reply aloud sentence by sentence while it is
+ * still streaming. Speaking over the assistant stops it straight away.
+ */
+export function VoiceConversation({
+  onSendMessage,
+  isProcessing,
+  lastMessage,
+  streamingText,
+  voice,
+  volume,
+}: VoiceConversationProps) {
+  const [state, setState] = useState<ConversationState>('off');
+  const [lastHeard, setLastHeard] = useState('');
+  const [errorState, setErrorState] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const activeRef = useRef(false);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const recorderStartedAtRef = useRef(0);
+  // Said while the previous reply was still being written; sent once it's done
+  const pendingMessageRef = useRef<string | null>(null);
+  // The reply being read aloud: how far it has been spoken, and whether the
+  // user talked over it
+  const replyRef = useRef<{ baselineId: string | null; spokenUpTo: number; started: boolean; interrupted: boolean } | null>(null);
+  const isProcessingRef = useRef(isProcessing);
+  isProcessingRef.current = isProcessing;
+
+  // Shown while the user speaks; only the finished recording is transcribed
+  const captions = useInterimTranscript();
+
+  const speaker = useSentenceSpeaker({
+    voice,
+    volume,
+    onFallback: reason => setNotice(
+      reason === 'subscription'
+        ? 'Premium voices need TrueNorth Pro, so your device\'s voice is reading replies.'
+        : 'Premium voice unavailable, so your device\'s voice is reading replies.'
+    ),
+  });
+
+  const vad = useVoiceActivityDetector({
+    minDecibels: -45,
+    timeThreshold: 1200,
+    // Ignore short bursts, e.g. the assistant's own voice leaking into the mic
+    minSpeechDuration: 250,
+    onSpeechStart: () => {
+      if (!activeRef.current) return;
+      // Barge-in: stop talking and drop the rest of the current reply
+      if (replyRef.current) replyRef.current.interrupted = true;
+      speaker.stop();
+      setState('hearing');
+      captions.start();
+    },
+    onSpeechEnd: () => {
+      if (!activeRef.current) return;
+      captions.stop();
+      finishSegment();
+    },
+    onNoiseLevel: () => {
+      // Don't let a recording of silence grow while waiting for speech
+      const recorder = recorderRef.current;
+      if (
+        activeRef.current &&
+        recorder?.state === 'recording' &&
+        !vad.isSpeaking &&
+        Date.now() - recorderStartedAtRef.current > IDLE_RECORDING_MS
+      ) {
+        recorder.onstop = null;
+        recorder.stop();
+        startRecorder();
+      }
+    },
+  });
+
+  // Stop everything when the conversation is closed
+  useEffect(() => {
+    return () => {
+      activeRef.current = false;
+      if (recorderRef.current?.state === 'recording') {
+        recorderRef.current.onstop = null;
+        recorderRef.current.stop();
+      }
+      vad.stop();
+    };
+  }, []);
+
+  // Read the reply aloud as complete sentences arrive
+  useEffect(() => {
+    const reply = replyRef.current;
+    if (!activeRef.current || !reply || reply.interrupted || !streamingText) return;
+
+    const { pieces, next } = takeSpeakablePieces(streamingText, reply.spokenUpTo);
+    reply.spokenUpTo = next;
+    pieces.forEach(speaker.enqueue);
+  }, [streamingText]);
+
+  // When the reply is complete, speak whatever is left and send anything the
+  // user said in the meantime
+  useEffect(() => {
+    const reply = replyRef.current;
+    if (isProcessing) {
+      if (reply) reply.started = true;
+      return;
+    }
+
+    if (reply?.started) {
+      replyRef.current = null;
+      if (
+        activeRef.current &&
+        !reply.interrupted &&
+        lastMessage?.role === 'assistant' &&
+        lastMessage.id !== reply.baselineId
+      ) {
+        const { pieces } = takeSpeakablePieces(lastMessage.content, reply.spokenUpTo, true);
+        pieces.forEach(speaker.enqueue);
+      }
+    }
+
+    const pending = pendingMessageRef.current;
+    pendingMessageRef.current = null;
+    if (pending && activeRef.current) send(pending);
+  }, [isProcessing, lastMessage]);
+
+  useEffect(() => {
+    if (!activeRef.current || state === 'hearing' || state === 'transcribing') return;
+    if (speaker.isSpeaking) {
+      setState('speaking');
+    } else {
+      setState(isProcessing ? 'thinking' : 'listening');
+    }
+  }, [speaker.isSpeaking, isProcessing]);
+
+  const send = (text: string) => {
+    replyRef.current = {
+      baselineId: lastMessage?.id || null,
+      spokenUpTo: 0,
+      started: false,
+      interrupted: false,
+    };
+    setState('thinking');
+    onSendMessage(text);
+  };
+
+  const startRecorder = () => {
+    const stream = vad.getStream();
+    if (!stream) return;
+
+    const recorder = new MediaRecorder(stream, {
+      mimeType: 'audio/webm;codecs=opus',
+      audioBitsPerSecond: 16000,
+    });
+    chunksRef.current = [];
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) chunksRef.current.push(event.data);
+    };
+    recorder.start();
+    recorderRef.current = recorder;
+    recorderStartedAtRef.current = Date.now();
+  };
+
+  // The user paused: transcribe what they said and keep listening
+  const finishSegment = () => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state !== 'recording') return;
+
+    recorder.onstop = async () => {
+      const audio = new Blob(chunksRef.current, { type: 'audio/webm' });
+      if (!activeRef.current) return;
+      startRecorder();
+      if (audio.size < MIN_SEGMENT_BYTES) {
+        setState(isProcessingRef.current ? 'thinking' : 'listening');
+        return;
+      }
+
+      setState('transcribing');
+      try {
+        const text = await transcribe(audio);
+        if (!activeRef.current) return;
+        captions.clear();
+        if (!text) {
+          setState(isProcessingRef.current ? 'thinking' : 'listening');
+          return;
+        }
+
+        setLastHeard(text);
+        if (isProcessingRef.current) {
+          // Joined with anything else said before the reply finishes
+          pendingMessageRef.current = [pendingMessageRef.current, text].filter(Boolean).join(' ');
+          setState('thinking');
+        } else {
+          send(text);
+        }
+      } catch (error) {
+        console.error('Error transcribing speech:', error);
+        if (error instanceof TranscriptionLimitError) {
+          setErrorState(
+            error.status === 402
+              ? 'You have used this month\'s free voice input. Upgrade to TrueNorth Pro for more, or type your message.'
+              : error.message
+          );
+          endConversation();
+          return;
+        }
+        setErrorState('I couldn\'t make that out. Please say it again.');
+        setState(isProcessingRef.current ? 'thinking' : 'listening');
+      }
+    };
+    recorder.stop();
+  };
+
+  const startConversation = async () => {
+    setErrorState(null);
+    setNotice(null);
+    captions.clear();
+    const started = await vad.start();
+    if (!started) {
+      setErrorState('Microphone access is needed for a voice conversation.');
+      return;
+    }
+    activeRef.current = true;
+    startRecorder();
+    setState(isProcessing ? 'thinking' : 'listening');
+  };
+
+  const endConversation = () => {
+    activeRef.current = false;
+    captions.stop();
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state === 'recording') {
+      recorder.onstop = null;
+      recorder.stop();
+    }
+    recorderRef.current = null;
+    chunksRef.current = [];
+    pendingMessageRef.current = null;
+    replyRef.current = null;
+    speaker.stop();
+    vad.stop();
+    captions.clear();
+    setState('off');
+  };
+
+  const isActive = state !== 'off';
+
+  return (
+    <div className="space-y-4 w-full">
+      {errorState && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="w-full p-3 text-center bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300 rounded-md"
+        >
+          <div className="flex items-center">
+            <X className="h-4 w-4 mr-2 flex-shrink-0" />
+            <span>{errorState}</span>
+          </div>
+        </motion.div>
+      )}
+
+      {notice && !errorState && (
+        <div className="p-2 bg-primary/10 rounded-lg text-sm text-muted-foreground">
+          {notice}
+        </div>
+      )}
+
+      {isActive && (captions.transcript || lastHeard) && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="w-full"
+        >
+          <p className="font-medium text-sm mb-1">
+            {captions.transcript ? 'Hearing:' : 'You said:'}
+          </p>
+          <div className="p-3 bg-muted/50 rounded-lg text-foreground">
+            {captions.transcript ? (
+              <span className="opacity-70">{captions.transcript}</span>
+            ) : (
+              lastHeard
+            )}
+          </div>
+        </motion.div>
+      )}
+
+      <div className="flex flex-col items-center justify-center">
+        {isActive ? (
+          <>
+            <motion.div
+              className="rounded-full w-20 h-20 flex items-center justify-center bg-primary/10 text-primary"
+              animate={state === 'hearing' || state === 'speaking' ? { scale: [1, 1.1, 1] } : { scale: 1 }}
+              transition={{ repeat: Infinity, duration: 1.5 }}
+            >
+              {state === 'speaking' ? (
+                <Volume2 className="h-10 w-10" />
+              ) : state === 'transcribing' || state === 'thinking' ? (
+                <Loader2 className="h-10 w-10 animate-spin" />
+              ) : (
+                <Mic className="h-10 w-10" />
+              )}
+            </motion.div>
+            <p className="text-sm text-muted-foreground mt-3">{STATE_LABELS[state]}</p>
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-3 flex items-center gap-2"
+              onClick={endConversation}
+            >
+              <PhoneOff className="h-4 w-4" />
+              End conversation
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button
+              onClick={startConversation}
+              size="lg"
+              className="rounded-full w-20 h-20 flex items-center justify-center bg-primary text-primary-foreground hover:bg-primary/90"
+            >
+              <Headphones className="h-10 w-10" />
+            </Button>
+            <p className="text-sm text-muted-foreground mt-3">{STATE_LABELS.off}</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -23,6 +23,7 @@ import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { ScriptureAudioPlayer } from '@/components/ui/ScriptureAudioPlayer';
+import { ScriptureCheckBadge, ScriptureCheckedText } from '@/components/bible/ScriptureCheckBadge';
 import { useToast } from '@/hooks/use-toast';
 import { AIDevotional, DevotionalInteraction, submitDevotionalInteraction, getDevotionalInteractions } from '@/lib/ai-devotionals';
 
@@ -40,6 +41,9 @@ export function AIDevotionalCard({ devotional, onInteraction }: AIDevotionalCard
   const [loadedInteractions, setLoadedInteractions] = useState(false);
   const { toast } = useToast();
 
+  const passageCheck = devotional.scripture_checks?.find(check => check.field === 'scripture_text');
+  const contentChecks = devotional.scripture_checks?.filter(check => check.field === 'content');
+
   const loadInteractions = async () => {
     if (loadedInteractions) return;
     
@@ -166,6 +170,7 @@ export function AIDevotionalCard({ devotional, onInteraction }: AIDevotionalCard
             <div className="flex items-center space-x-2 mb-2">
               <Book className="h-4 w-4 text-muted-foreground" />
               <span className="text-sm font-medium text-muted-foreground">{devotional.scripture_reference}</span>
+              {passageCheck && <ScriptureCheckBadge check={passageCheck} />}
             </div>
             <blockquote className="text-foreground italic border-l-4 border-secondary pl-4">
               "{devotional.scripture_text}"
@@ -175,7 +180,7 @@ export function AIDevotionalCard({ devotional, onInteraction }: AIDevotionalCard
           {/* Content preview */}
           <div className="prose dark:prose-invert prose-sm max-w-none text-foreground">
             <p className={isExpanded ? '' : 'line-clamp-3'}>
-              {devotional.content}
+              <ScriptureCheckedText text={devotional.content} checks={contentChecks} renderText={part => part} />
             </p>
           </div>
 
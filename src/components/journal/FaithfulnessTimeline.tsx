@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Book, BookOpen, Hand, Loader2, Lock, Trophy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { isEntryLocked } from '@/lib/journal-crypto';
+import { getFaithfulnessTimeline, TimelineItem, TimelineItemType } from '@/lib/journal-timeline';
+import { JournalEntry } from '@/lib/types';
+
+interface FaithfulnessTimelineProps {
+  onView: (entry: JournalEntry) => void;
+}
+
+const ITEM_TYPES: Record<TimelineItemType, { label: string; verb: string; icon: typeof Book; color: string; link?: string }> = {
+  journal: { label: 'Journal', verb: 'Wrote', icon: Book, color: 'bg-secondary/20 text-secondary' },
+  prayer: {
+    label: 'Answered Prayers',
+    verb: 'Prayer answered',
+    icon: Hand,
+    color: 'bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-300',
+    link: '/prayer',
+  },
+  verse: {
+    label: 'Memorized Verses',
+    verb: 'Memorized',
+    icon: BookOpen,
+    color: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+    link: '/scripture-memory',
+  },
+  goal: {
+    label: 'Completed Goals',
+    verb: 'Goal completed',
+    icon: Trophy,
+    color: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+    link: '/goals',
+  },
+};
+
+export function FaithfulnessTimeline({ onView }: FaithfulnessTimelineProps) {
+  const [items, setItems] = useState<TimelineItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filter, setFilter] = useState<TimelineItemType | 'all'>('all');
+
+  useEffect(() => {
+    let isMounted = true;
+    getFaithfulnessTimeline()
+      .then(timeline => {
+        if (isMounted) setItems(timeline);
+      })
+      .catch(error => {
+        console.error('Error loading timeline:', error);
+      })
+      .finally(() => {
+        if (isMounted) setIsLoading(false);
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  const visible = filter === 'all' ? items : items.filter(item => item.type === filter);
+  // Newest month first, items within it newest first
+  const months: { label: string; items: TimelineItem[] }[] = [];
+  for (const item of visible) {
+    const label = format(new Date(item.date), 'MMMM yyyy');
+    const current = months[months.length - 1];
+    if (current?.label === label) {
+      current.items.push(item);
+    } else {
+      months.push({ label, items: [item] });
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant={filter === 'all' ? 'default' : 'outline'} onClick={() => setFilter('all')}>
+          All
+        </Button>
+        {(Object.keys(ITEM_TYPES) as TimelineItemType[]).map(type => (
+          <Button
+            key={type}
+            size="sm"
+            variant={filter === type ? 'default' : 'outline'}
+            onClick={() => setFilter(type)}
+          >
+            {ITEM_TYPES[type].label}
+          </Button>
+        ))}
+      </div>
+
+      {months.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          Nothing here yet. Answered prayers, memorized verses and completed goals will appear alongside your journal.
+        </p>
+      ) : (
+        months.map(month => (
+          <section key={month.label}>
+            <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide mb-3">{month.label}</h3>
+            <ol className="relative border-l border-border ml-4 space-y-4">
+              {month.items.map(item => {
+                const type = ITEM_TYPES[item.type];
+                const Icon = type.icon;
+                const locked = item.entry ? isEntryLocked(item.entry) : false;
+                const body = (
+                  <>
+                    <p className="text-xs text-muted-foreground">
+                      {type.verb} · {format(new Date(item.date), 'MMM d, yyyy')}
+                    </p>
+                    <p className="font-medium text-foreground flex items-center gap-1.5">
+                      {item.entry?.is_encrypted && <Lock className="h-3.5 w-3.5 text-muted-foreground shrink-0" />}
+                      {item.title}
+                    </p>
+                    {item.detail && !locked && (
+                      <p className="text-sm text-muted-foreground line-clamp-2">{item.detail}</p>
+                    )}
+                  </>
+                );
+                const itemClass = 'block w-full text-left rounded-md p-2 hover:bg-muted/50 transition-colors';
+
+                return (
+                  <li key={item.key} className="ml-6">
+                    <span
+                      className={cn(
+                        'absolute -left-3.5 flex h-7 w-7 items-center justify-center rounded-full ring-4 ring-card',
+                        type.color
+                      )}
+                    >
+                      <Icon className="h-3.5 w-3.5" />
+                    </span>
+                    {item.entry ? (
+                      <button type="button" className={itemClass} onClick={() => onView(item.entry!)}>
+                        {body}
+                      </button>
+                    ) : type.link ? (
+                      <Link to={type.link} className={itemClass}>
+                        {body}
+                      </Link>
+                    ) : (
+                      <div className="p-2">{body}</div>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          </section>
+        ))
+      )}
+    </div>
+  );
+}
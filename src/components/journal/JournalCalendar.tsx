@@ -0,0 +1,155 @@
+import { useMemo, useState } from 'react';
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { ChevronLeft, ChevronRight, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { isEntryLocked } from '@/lib/journal-crypto';
+import { dayKey, getMoodBand, groupEntriesByDay, MoodBand } from '@/lib/journal-timeline';
+import { JournalEntry } from '@/lib/types';
+
+interface JournalCalendarProps {
+  entries: JournalEntry[];
+  onView: (entry: JournalEntry) => void;
+}
+
+const MOOD_STYLES: Record<MoodBand, { cell: string; label: string }> = {
+  low: { cell: 'bg-rose-200 text-rose-950 dark:bg-rose-900/60 dark:text-rose-50', label: 'Heavy' },
+  unsettled: { cell: 'bg-amber-200 text-amber-950 dark:bg-amber-900/60 dark:text-amber-50', label: 'Unsettled' },
+  steady: { cell: 'bg-sky-200 text-sky-950 dark:bg-sky-900/60 dark:text-sky-50', label: 'Steady' },
+  bright: { cell: 'bg-emerald-300 text-emerald-950 dark:bg-emerald-800/70 dark:text-emerald-50', label: 'Joyful' },
+  unrated: { cell: 'bg-muted text-foreground', label: 'No mood' },
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function JournalCalendar({ entries, onView }: JournalCalendarProps) {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [selectedDay, setSelectedDay] = useState<string>(() => dayKey(new Date()));
+
+  const days = useMemo(() => groupEntriesByDay(entries), [entries]);
+  const visibleDays = eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month)),
+    end: endOfWeek(endOfMonth(month)),
+  });
+  const selected = days.get(selectedDay);
+
+  const showMonth = (next: Date) => {
+    setMonth(startOfMonth(next));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" size="icon" onClick={() => showMonth(addMonths(month, -1))} aria-label="Previous month">
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <div className="flex items-center gap-2">
+          <h3 className="font-medium text-foreground">{format(month, 'MMMM yyyy')}</h3>
+          {!isSameMonth(month, new Date()) && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7"
+              onClick={() => {
+                showMonth(new Date());
+                setSelectedDay(dayKey(new Date()));
+              }}
+            >
+              Today
+            </Button>
+          )}
+        </div>
+        <Button variant="ghost" size="icon" onClick={() => showMonth(addMonths(month, 1))} aria-label="Next month">
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {WEEKDAYS.map(weekday => (
+          <div key={weekday} className="text-xs font-medium text-muted-foreground py-1">
+            {weekday}
+          </div>
+        ))}
+        {visibleDays.map(date => {
+          const key = dayKey(date);
+          const day = days.get(key);
+          const band = day ? getMoodBand(day.averageMood) : null;
+          return (
+            <button
+              key={key}
+              type="button"
+              onClick={() => setSelectedDay(key)}
+              title={day ? `${day.entries.length} ${day.entries.length === 1 ? 'entry' : 'entries'}` : undefined}
+              className={cn(
+                'relative aspect-square rounded-md text-sm transition-colors flex items-center justify-center',
+                band ? MOOD_STYLES[band].cell : 'hover:bg-muted/60',
+                !isSameMonth(date, month) && 'opacity-40',
+                isToday(date) && 'font-bold underline underline-offset-4',
+                key === selectedDay && 'ring-2 ring-primary'
+              )}
+            >
+              {format(date, 'd')}
+              {day && day.entries.length > 1 && (
+                <span className="absolute bottom-0.5 right-1 text-[10px] leading-none opacity-70">
+                  {day.entries.length}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        {(Object.keys(MOOD_STYLES) as MoodBand[]).map(band => (
+          <span key={band} className="flex items-center gap-1">
+            <span className={cn('h-3 w-3 rounded-sm', MOOD_STYLES[band].cell)} />
+            {MOOD_STYLES[band].label}
+          </span>
+        ))}
+      </div>
+
+      <div className="border-t border-border pt-4">
+        <h4 className="text-sm font-medium text-foreground mb-2">
+          {format(new Date(`${selectedDay}T00:00:00`), 'EEEE, MMMM d, yyyy')}
+        </h4>
+        {selected ? (
+          <div className="space-y-2">
+            {selected.entries.map(entry => (
+              <button
+                key={entry.id}
+                type="button"
+                onClick={() => onView(entry)}
+                className="w-full text-left rounded-md border border-border p-3 hover:bg-muted/50 transition-colors"
+              >
+                <div className="flex items-center gap-2 font-medium text-foreground">
+                  {entry.is_encrypted && <Lock className="h-3.5 w-3.5 text-muted-foreground shrink-0" />}
+                  <span className="truncate">{entry.title}</span>
+                  {entry.created_at && (
+                    <span className="ml-auto text-xs font-normal text-muted-foreground shrink-0">
+                      {format(new Date(entry.created_at), 'h:mm a')}
+                    </span>
+                  )}
+                </div>
+                {!isEntryLocked(entry) && entry.summary && (
+                  <p className="text-sm text-muted-foreground line-clamp-2 mt-1">{entry.summary}</p>
+                )}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Nothing written on this day.</p>
+        )}
+      </div>
+    </div>
+  );
+}
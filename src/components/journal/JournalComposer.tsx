@@ -0,0 +1,384 @@
+import { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { FileText, Loader2, Lock, Save, Sparkles } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { JournalEntry, JournalSection } from '@/lib/types';
+import { saveJournalEntry, updateJournalEntry } from '@/lib/journal';
+import { JournalEncryptionError } from '@/lib/journal-crypto';
+import { clearJournalDraft, getJournalDraft, NEW_ENTRY_DRAFT, saveJournalDraft } from '@/lib/journal-drafts';
+import { markdownToPlainText } from '@/lib/markdown';
+import {
+  composeTemplateContent,
+  createTemplateSections,
+  defaultTemplateTitle,
+  generateTemplatePrompts,
+  getJournalPromptContext,
+  getJournalTemplate,
+  isTemplateEntryEmpty,
+  JOURNAL_TEMPLATES,
+  JournalPromptContext,
+  JournalTemplate,
+  TemplatePrompts,
+} from '@/lib/journal-templates';
+import { findScriptureReferences } from '@/lib/scripture-links';
+import { MarkdownEditor } from './MarkdownEditor';
+import { ScripturePicker } from './ScripturePicker';
+import { TagPicker } from './TagPicker';
+import { TemplateSectionsForm } from './TemplateSectionsForm';
+
+interface JournalComposerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The entry being edited; null writes a new one
+  entry: JournalEntry | null;
+  // Tags from the user's other entries
+  availableTags?: string[];
+  onSaved: (entry: JournalEntry) => void;
+  // The journal is encrypted; the entry is sealed on this device when saved
+  isEncrypted?: boolean;
+}
+
+// Quiet time after typing before the draft is written
+const AUTOSAVE_DELAY = 800;
+const SUMMARY_LENGTH = 160;
+
+function summarize(content: string): string {
+  const text = markdownToPlainText(content).replace(/\s+/g, ' ').trim();
+  return text.length > SUMMARY_LENGTH ? `${text.slice(0, SUMMARY_LENGTH - 1).trimEnd()}…` : text;
+}
+
+function referencesFrom(relatedScripture?: string): string[] {
+  return relatedScripture ? findScriptureReferences(relatedScripture).map(match => match.reference) : [];
+}
+
+/**
+ * Write or edit a journal entry by hand. Work in progress is saved on the
+ * device as a draft until the entry itself is saved.
+ */
+export function JournalComposer({ open, onOpenChange, entry, availableTags = [], onSaved, isEncrypted }: JournalComposerProps) {
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [references, setReferences] = useState<string[]>([]);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [sections, setSections] = useState<JournalSection[]>([]);
+  const [prompts, setPrompts] = useState<TemplatePrompts>({});
+  const [promptContext, setPromptContext] = useState<JournalPromptContext | null>(null);
+  const [isGeneratingPrompts, setIsGeneratingPrompts] = useState(false);
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+  const [restoredDraft, setRestoredDraft] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  // What is already stored (entry or draft); autosave only writes changes
+  const savedSnapshotRef = useRef<string | null>(null);
+  const autosaveTimeoutRef = useRef<number | null>(null);
+  const { toast } = useToast();
+
+  const draftKey = entry?.id || NEW_ENTRY_DRAFT;
+  const template = getJournalTemplate(templateId);
+
+  const loadEntry = (useDraft: boolean) => {
+    const draft = useDraft ? getJournalDraft(draftKey) : null;
+    const loaded = {
+      title: draft?.title ?? entry?.title ?? '',
+      content: draft?.content ?? entry?.content ?? '',
+      tags: draft?.tags ?? entry?.tags ?? [],
+      references: referencesFrom(draft?.related_scripture ?? entry?.related_scripture),
+      templateId: (draft ? draft.template_id : entry?.template_id) || null,
+      sections: (draft ? draft.sections : entry?.sections) || [],
+    };
+    setTitle(loaded.title);
+    setContent(loaded.content);
+    setTags(loaded.tags);
+    setReferences(loaded.references);
+    setTemplateId(loaded.templateId);
+    setSections(loaded.sections);
+    setPrompts({});
+    savedSnapshotRef.current = JSON.stringify(loaded);
+    setDraftSavedAt(draft?.saved_at || null);
+    setRestoredDraft(!!draft);
+  };
+
+  useEffect(() => {
+    savedSnapshotRef.current = null;
+    if (open) loadEntry(true);
+  }, [open, draftKey]);
+
+  useEffect(() => {
+    const snapshot = JSON.stringify({ title, content, tags, references, templateId, sections });
+    if (!open || savedSnapshotRef.current === null || snapshot === savedSnapshotRef.current) return;
+
+    autosaveTimeoutRef.current = window.setTimeout(() => {
+      const saved = saveJournalDraft(
+        {
+          title,
+          content,
+          tags,
+          related_scripture: references.join('; '),
+          template_id: templateId,
+          sections: templateId ? sections : null,
+        },
+        draftKey
+      );
+      savedSnapshotRef.current = snapshot;
+      setDraftSavedAt(saved.saved_at);
+    }, AUTOSAVE_DELAY);
+    return () => {
+      if (autosaveTimeoutRef.current) clearTimeout(autosaveTimeoutRef.current);
+    };
+  }, [title, content, tags, references, templateId, sections]);
+
+  const discardDraft = () => {
+    clearJournalDraft(draftKey);
+    loadEntry(false);
+  };
+
+  const chooseTemplate = async (next: JournalTemplate | null) => {
+    setPrompts({});
+    if (!next) {
+      setTemplateId(null);
+      setSections([]);
+      return;
+    }
+
+    // Answers carry over between templates that share a section
+    setTemplateId(next.id);
+    setSections(current => createTemplateSections(next, current));
+    if (!title.trim() || JOURNAL_TEMPLATES.some(candidate => title === defaultTemplateTitle(candidate))) {
+      setTitle(defaultTemplateTitle(next));
+    }
+
+    // SOAP starts from the passage the user is reading today
+    const context = promptContext ?? (await getJournalPromptContext());
+    setPromptContext(context);
+    if (context.passage) {
+      setSections(current => current.map(section =>
+        section.type === 'scripture' && !section.reference && !section.value
+          ? { ...section, reference: context.passage!.reference }
+          : section
+      ));
+    }
+  };
+
+  const suggestPrompts = async () => {
+    if (!template) return;
+
+    setIsGeneratingPrompts(true);
+    try {
+      const context = promptContext ?? (await getJournalPromptContext());
+      setPromptContext(context);
+      if (!context.passage && !context.devotional) {
+        toast({
+          title: 'Nothing to draw from today',
+          description: 'Start a reading plan or open today\'s devotional to get prompts based on it.',
+        });
+        return;
+      }
+      setPrompts(await generateTemplatePrompts(template, context));
+    } catch (error) {
+      console.error('Error suggesting journal prompts:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to suggest prompts. The standard prompts are still there.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsGeneratingPrompts(false);
+    }
+  };
+
+  const insertReference = (reference: string) => {
+    setContent(current => (current && !/\s$/.test(current) ? `${current} ${reference}` : `${current}${reference}`));
+  };
+
+  const hasContent = template ? !isTemplateEntryEmpty(sections) : !!content.trim();
+
+  const handleSave = async () => {
+    if (!title.trim() || !hasContent) return;
+
+    setIsSaving(true);
+    try {
+      const entryContent = template ? composeTemplateContent(template, sections) : content;
+      // Passages written about in scripture sections count as related scripture
+      const sectionReferences = sections
+        .map(section => section.reference)
+        .filter((reference): reference is string => !!reference && !references.includes(reference));
+      const fields = {
+        title: title.trim(),
+        content: entryContent,
+        summary: summarize(entryContent),
+        tags,
+        related_scripture: [...references, ...sectionReferences].join('; '),
+        template_id: template?.id || null,
+        sections: template ? sections.map(section =>
+          Array.isArray(section.value)
+            ? { ...section, value: section.value.map(item => item.trim()).filter(Boolean) }
+            : section
+        ) : null,
+      };
+      const saved = entry?.id
+        ? await updateJournalEntry({ ...entry, ...fields })
+        : await saveJournalEntry(fields);
+      if (!saved) {
+        throw new Error('Journal entry was not saved');
+      }
+
+      // A draft still waiting to be written would outlive the saved entry
+      if (autosaveTimeoutRef.current) clearTimeout(autosaveTimeoutRef.current);
+      clearJournalDraft(draftKey);
+      onSaved(saved);
+      onOpenChange(false);
+      toast({
+        title: entry?.id ? 'Entry updated' : 'Entry saved',
+        description: `"${saved.title}" is in your journal.`,
+      });
+    } catch (error) {
+      console.error('Error saving journal entry:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof JournalEncryptionError
+          ? `${error.message}. Your draft is still on this device.`
+          : 'Failed to save your entry. Your draft is still on this device.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{entry?.id ? 'Edit Entry' : 'New Journal Entry'}</DialogTitle>
+          <DialogDescription>
+            {restoredDraft && draftSavedAt ? (
+              <>
+                Restored your unsaved draft from {format(new Date(draftSavedAt), 'MMM d, h:mm a')}.{' '}
+                <button type="button" className="underline underline-offset-2" onClick={discardDraft}>
+                  Discard draft
+                </button>
+              </>
+            ) : (
+              'Write freely. Markdown formatting is supported.'
+            )}
+            {isEncrypted && (
+              <span className="flex items-center gap-1 mt-1">
+                <Lock className="h-3 w-3" />
+                Encrypted on this device before it's saved. Prompts use today's reading, never your entry.
+              </span>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!entry?.id && (
+            <div className="flex flex-wrap gap-2">
+              <Button
+                type="button"
+                variant={!template ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => chooseTemplate(null)}
+              >
+                <FileText className="h-4 w-4 mr-1" />
+                Blank Page
+              </Button>
+              {JOURNAL_TEMPLATES.map(candidate => (
+                <Button
+                  key={candidate.id}
+                  type="button"
+                  variant={template?.id === candidate.id ? 'default' : 'outline'}
+                  size="sm"
+                  title={candidate.description}
+                  onClick={() => chooseTemplate(candidate)}
+                >
+                  {candidate.name}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <Input
+            value={title}
+            onChange={event => setTitle(event.target.value)}
+            placeholder="Title"
+            className="text-lg font-medium"
+          />
+
+          {template ? (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-2 rounded-md bg-muted/40 px-3 py-2">
+                <p className="text-sm text-muted-foreground">
+                  {promptContext?.passage
+                    ? `Today's reading: ${promptContext.passage.reference}`
+                    : template.description}
+                </p>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={suggestPrompts}
+                  disabled={isGeneratingPrompts}
+                >
+                  {isGeneratingPrompts ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <Sparkles className="h-4 w-4 mr-1" />
+                  )}
+                  Prompts for Today
+                </Button>
+              </div>
+              <TemplateSectionsForm
+                template={template}
+                sections={sections}
+                onChange={setSections}
+                prompts={prompts}
+              />
+            </div>
+          ) : (
+            <MarkdownEditor
+              value={content}
+              onChange={setContent}
+              placeholder="What is on your heart today?"
+            />
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-muted-foreground">Tags</h4>
+              <TagPicker tags={tags} onChange={setTags} suggestions={availableTags} />
+            </div>
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-muted-foreground">Related Scripture</h4>
+              <ScripturePicker references={references} onChange={setReferences} onInsert={insertReference} />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="items-center gap-2 sm:justify-between">
+          <span className="text-xs text-muted-foreground">
+            {draftSavedAt ? `Draft saved ${format(new Date(draftSavedAt), 'h:mm a')}` : ''}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !title.trim() || !hasContent}>
+              {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save Entry
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
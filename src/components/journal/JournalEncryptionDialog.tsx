@@ -0,0 +1,380 @@
+import { useEffect, useState } from 'react';
+import { Copy, KeyRound, Loader2, Lock, Unlock, ShieldCheck } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { encryptExistingJournalEntries } from '@/lib/journal';
+import {
+  changeJournalPassphrase,
+  JournalEncryptionError,
+  JournalEncryptionStatus,
+  lockJournal,
+  MIN_PASSPHRASE_LENGTH,
+  recoverJournal,
+  setupJournalEncryption,
+  unlockJournal,
+} from '@/lib/journal-crypto';
+
+interface JournalEncryptionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  status: JournalEncryptionStatus | null;
+  // Entries were encrypted or the journal was unlocked; reload them
+  onChanged: () => void;
+}
+
+type Step = 'setup' | 'recovery-key' | 'unlock' | 'recover' | 'manage';
+
+function initialStep(status: JournalEncryptionStatus | null): Step {
+  if (status === 'locked') return 'unlock';
+  if (status === 'unlocked') return 'manage';
+  return 'setup';
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof JournalEncryptionError) return error.message;
+  return 'Something went wrong. Please try again.';
+}
+
+export function JournalEncryptionDialog({ open, onOpenChange, status, onChanged }: JournalEncryptionDialogProps) {
+  const [step, setStep] = useState<Step>(initialStep(status));
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [recoveryKeyInput, setRecoveryKeyInput] = useState('');
+  const [recoveryKey, setRecoveryKey] = useState<string | null>(null);
+  const [encryptExisting, setEncryptExisting] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    // The recovery key stays on screen until the user confirms they saved it
+    if (step !== 'recovery-key') setStep(initialStep(status));
+    setPassphrase('');
+    setConfirmation('');
+    setCurrentPassphrase('');
+    setRecoveryKeyInput('');
+    setError(null);
+  }, [open]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      console.error('Journal encryption error:', actionError);
+      setError(describeError(actionError));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const passphraseProblem =
+    passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `At least ${MIN_PASSPHRASE_LENGTH} characters`
+      : confirmation && confirmation !== passphrase
+        ? 'The passphrases don\'t match'
+        : null;
+  const canSetPassphrase = !passphraseProblem && confirmation === passphrase;
+
+  const handleSetup = () => run(async () => {
+    setRecoveryKey(await setupJournalEncryption(passphrase));
+    setStep('recovery-key');
+  });
+
+  const handleFinishSetup = () => run(async () => {
+    if (encryptExisting) {
+      const count = await encryptExistingJournalEntries();
+      toast({
+        title: 'Journal encrypted',
+        description: count === 1 ? '1 entry was encrypted.' : `${count} entries were encrypted.`,
+      });
+    } else {
+      toast({ title: 'Journal encryption is on', description: 'New entries will be encrypted.' });
+    }
+    setRecoveryKey(null);
+    onChanged();
+    onOpenChange(false);
+  });
+
+  const handleUnlock = () => run(async () => {
+    await unlockJournal(passphrase);
+    onChanged();
+    onOpenChange(false);
+  });
+
+  const handleRecover = () => run(async () => {
+    await recoverJournal(recoveryKeyInput, passphrase);
+    toast({ title: 'Passphrase reset', description: 'Your journal is unlocked with your new passphrase.' });
+    onChanged();
+    onOpenChange(false);
+  });
+
+  const handleChangePassphrase = () => run(async () => {
+    await changeJournalPassphrase(currentPassphrase, passphrase);
+    toast({ title: 'Passphrase changed', description: 'Use your new passphrase to unlock your journal.' });
+    onOpenChange(false);
+  });
+
+  const handleLock = () => {
+    lockJournal();
+    onChanged();
+    onOpenChange(false);
+  };
+
+  const copyRecoveryKey = () => {
+    if (!recoveryKey) return;
+    navigator.clipboard.writeText(recoveryKey);
+    toast({ title: 'Copied', description: 'Keep your recovery key somewhere safe, away from this device.' });
+  };
+
+  const newPassphraseFields = (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="journal-passphrase">{step === 'setup' ? 'Passphrase' : 'New passphrase'}</Label>
+        <Input
+          id="journal-passphrase"
+          type="password"
+          autoComplete="new-password"
+          value={passphrase}
+          onChange={event => setPassphrase(event.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="journal-passphrase-confirm">Confirm passphrase</Label>
+        <Input
+          id="journal-passphrase-confirm"
+          type="password"
+          autoComplete="new-password"
+          value={confirmation}
+          onChange={event => setConfirmation(event.target.value)}
+        />
+        {passphrase && passphraseProblem && (
+          <p className="text-xs text-muted-foreground">{passphraseProblem}</p>
+        )}
+      </div>
+    </>
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={next => {
+        // Closing before the recovery key is acknowledged would lose it for good
+        if (!next && step === 'recovery-key') return;
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-md">
+        {step === 'setup' && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" />
+                Encrypt Your Journal
+              </DialogTitle>
+              <DialogDescription>
+                Entries are encrypted on this device before they are saved. Only someone with your passphrase
+                or recovery key can read them — not TrueNorth, and not our AI.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <ul className="text-sm text-muted-foreground list-disc pl-5 space-y-1">
+                <li>Titles, summaries and what you write are encrypted.</li>
+                <li>Dates, tags, scripture references and mood scores stay readable so filters and charts keep working.</li>
+                <li>The coach won't learn from your entries, chat won't cite them, and journal analysis won't include them.</li>
+                <li>You'll unlock your journal with your passphrase each time you open the app.</li>
+              </ul>
+              {newPassphraseFields}
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button onClick={handleSetup} disabled={isWorking || !canSetPassphrase}>
+                {isWorking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Lock className="h-4 w-4 mr-2" />}
+                Turn On Encryption
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+
+        {step === 'recovery-key' && recoveryKey && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5" />
+                Save Your Recovery Key
+              </DialogTitle>
+              <DialogDescription>
+                If you forget your passphrase, this key is the only way back into your journal. It won't be
+                shown again, and we can't recover it for you.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="rounded-lg border border-border bg-muted p-3 font-mono text-sm break-all select-all">
+                {recoveryKey}
+              </div>
+              <Button variant="outline" className="w-full" onClick={copyRecoveryKey}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy Recovery Key
+              </Button>
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="encrypt-existing" className="text-sm font-normal">
+                  Also encrypt the entries already in my journal
+                </Label>
+                <Switch id="encrypt-existing" checked={encryptExisting} onCheckedChange={setEncryptExisting} />
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+            <DialogFooter>
+              <Button onClick={handleFinishSetup} disabled={isWorking}>
+                {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                I've Saved My Recovery Key
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+
+        {step === 'unlock' && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Unlock className="h-5 w-5" />
+                Unlock Your Journal
+              </DialogTitle>
+              <DialogDescription>
+                Enter your passphrase to read and write private entries on this device.
+              </DialogDescription>
+            </DialogHeader>
+            <form
+              className="space-y-4"
+              onSubmit={event => {
+                event.preventDefault();
+                if (passphrase) handleUnlock();
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="journal-unlock">Passphrase</Label>
+                <Input
+                  id="journal-unlock"
+                  type="password"
+                  autoComplete="current-password"
+                  autoFocus
+                  value={passphrase}
+                  onChange={event => setPassphrase(event.target.value)}
+                />
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <button
+                type="button"
+                className="text-sm text-muted-foreground underline underline-offset-2"
+                onClick={() => {
+                  setPassphrase('');
+                  setError(null);
+                  setStep('recover');
+                }}
+              >
+                Forgot your passphrase?
+              </button>
+              <DialogFooter>
+                <Button type="submit" disabled={isWorking || !passphrase}>
+                  {isWorking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Unlock className="h-4 w-4 mr-2" />}
+                  Unlock
+                </Button>
+              </DialogFooter>
+            </form>
+          </>
+        )}
+
+        {step === 'recover' && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5" />
+                Use Your Recovery Key
+              </DialogTitle>
+              <DialogDescription>
+                Enter the recovery key you saved when you turned on encryption, then choose a new passphrase.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="journal-recovery-key">Recovery key</Label>
+                <Input
+                  id="journal-recovery-key"
+                  className="font-mono"
+                  placeholder="XXXX-XXXX-XXXX-..."
+                  value={recoveryKeyInput}
+                  onChange={event => setRecoveryKeyInput(event.target.value)}
+                />
+              </div>
+              {newPassphraseFields}
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setStep('unlock')}>Back</Button>
+              <Button onClick={handleRecover} disabled={isWorking || !recoveryKeyInput.trim() || !canSetPassphrase}>
+                {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Reset Passphrase
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+
+        {step === 'manage' && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" />
+                Journal Encryption
+              </DialogTitle>
+              <DialogDescription>
+                Your journal is encrypted and unlocked on this device. Lock it when you step away.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <Button variant="outline" className="w-full" onClick={handleLock}>
+                <Lock className="h-4 w-4 mr-2" />
+                Lock Journal Now
+              </Button>
+              <div className="space-y-2">
+                <Label htmlFor="journal-current-passphrase">Current passphrase</Label>
+                <Input
+                  id="journal-current-passphrase"
+                  type="password"
+                  autoComplete="current-password"
+                  value={currentPassphrase}
+                  onChange={event => setCurrentPassphrase(event.target.value)}
+                />
+              </div>
+              {newPassphraseFields}
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+            <DialogFooter>
+              <Button
+                onClick={handleChangePassphrase}
+                disabled={isWorking || !currentPassphrase || !canSetPassphrase}
+              >
+                {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Change Passphrase
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,10 +1,12 @@
 import { motion } from 'framer-motion';
 import { format } from 'date-fns';
 import { JournalEntry as JournalEntryType } from '@/lib/types';
+import { markdownToPlainText } from '@/lib/markdown';
+import { isEntryLocked } from '@/lib/journal-crypto';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Book, Calendar, Tag } from 'lucide-react';
+import { Book, Calendar, Lock, Tag } from 'lucide-react';
 
 interface JournalEntryProps {
   entry: JournalEntryType;
@@ -15,6 +17,7 @@ export function JournalEntry({ entry, onView }: JournalEntryProps) {
   const formattedDate = entry.created_at 
     ? format(new Date(entry.created_at), 'MMM d, yyyy')
     : 'Today';
+  const isLocked = isEntryLocked(entry);
   
   const handleClick = () => {
     console.log("Entry clicked:", entry.title);
@@ -30,7 +33,10 @@ export function JournalEntry({ entry, onView }: JournalEntryProps) {
       <Card className="border-secondary/20 hover:border-secondary/40 transition-colors cursor-pointer" onClick={handleClick}>
         <CardHeader className="pb-2">
           <div className="flex justify-between items-start">
-            <CardTitle className="text-foreground text-xl">{entry.title}</CardTitle>
+            <CardTitle className="text-foreground text-xl flex items-center gap-2">
+              {entry.is_encrypted && <Lock className="h-4 w-4 text-muted-foreground shrink-0" aria-label="Encrypted" />}
+              {entry.title}
+            </CardTitle>
             <div className="flex items-center text-sm text-muted-foreground">
               <Calendar className="h-3 w-3 mr-1" />
               {formattedDate}
@@ -41,7 +47,11 @@ export function JournalEntry({ entry, onView }: JournalEntryProps) {
           </CardDescription>
         </CardHeader>
         <CardContent className="pb-2">
-          <p className="text-foreground/80 line-clamp-3">{entry.content}</p>
+          {isLocked ? (
+            <p className="text-sm italic text-muted-foreground">Unlock your journal to read this entry.</p>
+          ) : (
+            <p className="text-foreground/80 line-clamp-3">{markdownToPlainText(entry.content || '')}</p>
+          )}
         </CardContent>
         {entry.tags && entry.tags.length > 0 && (
           <CardFooter className="pt-0 flex flex-wrap gap-1">
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { format } from 'date-fns';
 import { JournalEntry as JournalEntryType } from '@/lib/types';
+import { isEntryLocked } from '@/lib/journal-crypto';
 import { 
   Sheet,
   SheetContent, 
@@ -12,14 +13,17 @@ import {
 } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Calendar, Tag, X, ChevronDown, ChevronUp } from 'lucide-react';
+import { Calendar, Tag, X, ChevronDown, ChevronUp, Pencil, Lock } from 'lucide-react';
+import { MarkdownContent } from '@/components/ui/MarkdownContent';
+import { ScriptureLinkedText } from '@/components/bible/ScriptureLinkedText';
 
 interface JournalEntryDetailProps {
   entry: JournalEntryType | null;
   onClose: () => void;
+  onEdit?: (entry: JournalEntryType) => void;
 }
 
-export function JournalEntryDetail({ entry, onClose }: JournalEntryDetailProps) {
+export function JournalEntryDetail({ entry, onClose, onEdit }: JournalEntryDetailProps) {
   const [isOpen, setIsOpen] = useState(!!entry);
   const [isContentExpanded, setIsContentExpanded] = useState(false);
 
@@ -44,9 +48,7 @@ export function JournalEntryDetail({ entry, onClose }: JournalEntryDetailProps)
   const formattedDate = entry.created_at 
     ? format(new Date(entry.created_at), 'MMMM d, yyyy')
     : 'Today';
-
-  // Format the content to properly display conversation formatting
-  const formattedContent = entry.content?.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
+  const isLocked = isEntryLocked(entry);
 
   return (
     <Sheet open={isOpen} onOpenChange={(open) => {
@@ -76,37 +78,43 @@ export function JournalEntryDetail({ entry, onClose }: JournalEntryDetailProps)
         </SheetHeader>
         
         <div className="space-y-4">
-          <div className="prose dark:prose-invert text-foreground max-w-none">
-            <div className={isContentExpanded ? "" : "relative max-h-[150px] overflow-hidden"}>
-              {/* Use dangerouslySetInnerHTML to render formatted content */}
-              <div 
-                className="whitespace-pre-line" 
-                dangerouslySetInnerHTML={{ __html: formattedContent }}
-              />
-              
-              {/* Add gradient fade effect when content is not expanded */}
-              {!isContentExpanded && (
-                <div className="absolute bottom-0 left-0 right-0 h-16 bg-gradient-to-t from-background to-transparent pointer-events-none"></div>
-              )}
+          {isLocked ? (
+            <div className="flex items-start gap-3 rounded-lg border border-border p-4 text-sm text-muted-foreground">
+              <Lock className="h-4 w-4 mt-0.5 shrink-0" />
+              This entry is encrypted. Unlock your journal with your passphrase to read or edit it.
             </div>
+          ) : (
+            <div className="prose dark:prose-invert text-foreground max-w-none">
+              <div className={isContentExpanded ? "" : "relative max-h-[150px] overflow-hidden"}>
+                <MarkdownContent
+                  text={entry.content || ''}
+                  renderText={text => <ScriptureLinkedText text={text} />}
+                />
+              
+                {/* Add gradient fade effect when content is not expanded */}
+                {!isContentExpanded && (
+                  <div className="absolute bottom-0 left-0 right-0 h-16 bg-gradient-to-t from-background to-transparent pointer-events-none"></div>
+                )}
+              </div>
             
-            <Button 
-              variant="outline" 
-              size="sm" 
-              className="mt-4 text-foreground hover:bg-muted border-border w-full flex items-center justify-center"
-              onClick={toggleContentExpanded}
-            >
-              {isContentExpanded ? (
-                <>
-                  Show Less <ChevronUp className="ml-2 h-4 w-4" />
-                </>
-              ) : (
-                <>
-                  Show Full Journal Entry <ChevronDown className="ml-2 h-4 w-4" />
-                </>
-              )}
-            </Button>
-          </div>
+              <Button 
+                variant="outline" 
+                size="sm" 
+                className="mt-4 text-foreground hover:bg-muted border-border w-full flex items-center justify-center"
+                onClick={toggleContentExpanded}
+              >
+                {isContentExpanded ? (
+                  <>
+                    Show Less <ChevronUp className="ml-2 h-4 w-4" />
+                  </>
+                ) : (
+                  <>
+                    Show Full Journal Entry <ChevronDown className="ml-2 h-4 w-4" />
+                  </>
+                )}
+              </Button>
+            </div>
+          )}
           
           {entry.tags && entry.tags.length > 0 && (
             <div className="mt-6">
@@ -125,12 +133,23 @@ export function JournalEntryDetail({ entry, onClose }: JournalEntryDetailProps)
           {entry.related_scripture && (
             <div className="mt-6 bg-secondary/10 p-4 rounded-lg">
               <h4 className="text-sm font-medium text-muted-foreground mb-2">Related Scripture</h4>
-              <p className="text-foreground/80 italic">{entry.related_scripture}</p>
+              <p className="text-foreground/80 italic">
+                <ScriptureLinkedText text={entry.related_scripture} />
+              </p>
             </div>
           )}
         </div>
         
-        <SheetFooter className="mt-6">
+        <SheetFooter className="mt-6 gap-2">
+          {onEdit && !isLocked && (
+            <Button
+              className="w-full bg-primary text-primary-foreground hover:bg-primary/90"
+              onClick={() => onEdit(entry)}
+            >
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
           <Button 
             variant="outline" 
             className="w-full border-primary text-foreground hover:bg-muted"
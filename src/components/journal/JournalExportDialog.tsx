@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Download } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { isEntryLocked } from '@/lib/journal-crypto';
+import { downloadBlob, exportJournalJson, exportJournalMarkdownZip } from '@/lib/journal-export';
+import { JournalEntry } from '@/lib/types';
+
+interface JournalExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entries: JournalEntry[];
+}
+
+type ExportFormat = 'markdown' | 'json' | 'book';
+
+const FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  {
+    value: 'markdown',
+    label: 'Markdown files (.zip)',
+    description: 'One file per entry, readable in any notes app',
+  },
+  {
+    value: 'json',
+    label: 'Full JSON',
+    description: 'Everything, including mood scores and templates, for backups or moving accounts',
+  },
+  {
+    value: 'book',
+    label: 'Printable spiritual journal',
+    description: 'A book of your entries to print or save as a PDF',
+  },
+];
+
+// Compares against the local calendar day, the same way dates are shown
+function inRange(entry: JournalEntry, from: string, to: string): boolean {
+  if (!entry.created_at) return false;
+  const day = format(new Date(entry.created_at), 'yyyy-MM-dd');
+  return (!from || day >= from) && (!to || day <= to);
+}
+
+export function JournalExportDialog({ open, onOpenChange, entries }: JournalExportDialogProps) {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('markdown');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const navigate = useNavigate();
+
+  const selected = entries.filter(entry => inRange(entry, from, to));
+  const exportable = selected.filter(entry => !isEntryLocked(entry));
+  const lockedCount = selected.length - exportable.length;
+
+  const handleExport = () => {
+    if (exportFormat === 'book') {
+      const params = new URLSearchParams();
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+      const query = params.toString();
+      navigate(`/journal/print${query ? `?${query}` : ''}`);
+      return;
+    }
+
+    const stamp = format(new Date(), 'yyyy-MM-dd');
+    if (exportFormat === 'markdown') {
+      downloadBlob(exportJournalMarkdownZip(exportable), `truenorth-journal-${stamp}.zip`);
+    } else {
+      downloadBlob(exportJournalJson(exportable), `truenorth-journal-${stamp}.json`);
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Journal</DialogTitle>
+          <DialogDescription>
+            Download your entries, or gather them into a book you can print.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <RadioGroup
+            value={exportFormat}
+            onValueChange={value => setExportFormat(value as ExportFormat)}
+            className="grid gap-2"
+          >
+            {FORMATS.map(option => (
+              <div key={option.value} className="flex items-start space-x-2">
+                <RadioGroupItem value={option.value} id={`export-${option.value}`} className="mt-1" />
+                <Label htmlFor={`export-${option.value}`} className="font-normal">
+                  <span className="font-medium">{option.label}</span>
+                  <span className="block text-xs text-muted-foreground">{option.description}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="export-from">From</Label>
+              <Input id="export-from" type="date" value={from} max={to || undefined} onChange={event => setFrom(event.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="export-to">To</Label>
+              <Input id="export-to" type="date" value={to} min={from || undefined} onChange={event => setTo(event.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-1 text-sm">
+            <p>
+              <span className="font-medium">{exportable.length}</span>{' '}
+              {exportable.length === 1 ? 'entry' : 'entries'}
+              {!from && !to && ' (your whole journal)'}
+            </p>
+            {lockedCount > 0 && (
+              <p className="text-muted-foreground">
+                {lockedCount} encrypted {lockedCount === 1 ? 'entry is' : 'entries are'} left out. Unlock your
+                journal to include {lockedCount === 1 ? 'it' : 'them'}.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exportable.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            {exportFormat === 'book' ? 'Open Book' : 'Download'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,409 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { FileUp, FolderOpen, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { JournalEncryptionStatus } from '@/lib/journal-crypto';
+import {
+  applyImportOptions,
+  csvRowsToEntries,
+  CsvMapping,
+  findDuplicateEntries,
+  guessCsvMapping,
+  importJournalEntries,
+  ImportedEntry,
+  JournalImportError,
+  parseCsv,
+  parseJournalJson,
+  parseMarkdownFile,
+} from '@/lib/journal-import';
+import { JournalEntry } from '@/lib/types';
+
+interface JournalImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The journal as loaded, to skip entries that are already in it
+  existingEntries: JournalEntry[];
+  encryptionStatus: JournalEncryptionStatus | null;
+  onImported: () => void;
+}
+
+type ImportFormat = 'json' | 'markdown' | 'csv';
+
+const FORMATS: { value: ImportFormat; label: string; description: string; accept: string }[] = [
+  {
+    value: 'json',
+    label: 'Day One, Journey or TrueNorth JSON',
+    description: 'Journal.json from a Day One export, Journey entry files, or a TrueNorth JSON export',
+    accept: '.json,application/json',
+  },
+  {
+    value: 'markdown',
+    label: 'Markdown files',
+    description: 'A folder of .md files; front matter title, date and tags are used when present',
+    accept: '.md,.markdown,.txt',
+  },
+  {
+    value: 'csv',
+    label: 'CSV spreadsheet',
+    description: 'One entry per row, with a header row',
+    accept: '.csv,text/csv',
+  },
+];
+
+const NO_COLUMN = 'none';
+const MAX_TAGS_SHOWN = 30;
+const PREVIEW_COUNT = 5;
+
+export function JournalImportDialog({
+  open,
+  onOpenChange,
+  existingEntries,
+  encryptionStatus,
+  onImported,
+}: JournalImportDialogProps) {
+  const [importFormat, setImportFormat] = useState<ImportFormat>('json');
+  const [parsed, setParsed] = useState<ImportedEntry[]>([]);
+  const [csvRows, setCsvRows] = useState<string[][] | null>(null);
+  const [csvMapping, setCsvMapping] = useState<CsvMapping | null>(null);
+  const [dayFirst, setDayFirst] = useState(false);
+  const [extraTag, setExtraTag] = useState('imported');
+  const [lowercaseTags, setLowercaseTags] = useState(false);
+  const [tagRenames, setTagRenames] = useState<Record<string, string>>({});
+  const [skippedFiles, setSkippedFiles] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [savedCount, setSavedCount] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setParsed([]);
+    setCsvRows(null);
+    setCsvMapping(null);
+    setTagRenames({});
+    setSkippedFiles(0);
+    setError(null);
+    setSavedCount(null);
+  };
+
+  useEffect(() => {
+    if (open) reset();
+  }, [open]);
+
+  const sourceEntries = csvRows && csvMapping ? csvRowsToEntries(csvRows, csvMapping, dayFirst) : parsed;
+  const sourceTags = useMemo(
+    () => Array.from(new Set(sourceEntries.flatMap(entry => entry.tags))).sort(),
+    [sourceEntries]
+  );
+  const mapped = applyImportOptions(sourceEntries, { extraTag, lowercaseTags, tagRenames });
+  const duplicates = findDuplicateEntries(mapped, existingEntries);
+  const toImport = mapped
+    .filter((_, index) => !duplicates.has(index))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const isImporting = savedCount !== null;
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    reset();
+    setIsReading(true);
+    const files = Array.from(fileList);
+
+    try {
+      if (importFormat === 'csv') {
+        const rows = parseCsv(await files[0].text());
+        if (rows.length < 2) {
+          throw new JournalImportError('This CSV file has no rows under its header');
+        }
+        setCsvRows(rows);
+        setCsvMapping(guessCsvMapping(rows[0]));
+      } else if (importFormat === 'json') {
+        const entries: ImportedEntry[] = [];
+        for (const file of files) {
+          entries.push(...parseJournalJson(await file.text()));
+        }
+        setParsed(entries);
+      } else {
+        const entries: ImportedEntry[] = [];
+        let skipped = 0;
+        for (const file of files.filter(candidate => /\.(md|markdown|txt)$/i.test(candidate.name))) {
+          const path = (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name;
+          const entry = parseMarkdownFile(path, await file.text(), file.lastModified);
+          if (entry) entries.push(entry);
+          else skipped++;
+        }
+        setParsed(entries);
+        setSkippedFiles(skipped);
+      }
+    } catch (readError) {
+      console.error('Error reading import files:', readError);
+      setError(readError instanceof JournalImportError ? readError.message : 'These files could not be read.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setSavedCount(0);
+    try {
+      const count = await importJournalEntries(toImport, setSavedCount);
+      toast({
+        title: 'Import complete',
+        description: `${count} ${count === 1 ? 'entry was' : 'entries were'} added to your journal.`,
+      });
+      onImported();
+      onOpenChange(false);
+    } catch (importError) {
+      console.error('Error importing journal entries:', importError);
+      setError('The import stopped partway. Entries already added were kept; importing again will skip them.');
+      onImported();
+    } finally {
+      setSavedCount(null);
+    }
+  };
+
+  const columnSelect = (label: string, field: keyof CsvMapping, optional: boolean) => {
+    if (!csvRows || !csvMapping) return null;
+    const value = csvMapping[field];
+    return (
+      <div className="space-y-1">
+        <Label className="text-xs">{label}</Label>
+        <Select
+          value={value === null ? NO_COLUMN : String(value)}
+          onValueChange={next =>
+            setCsvMapping({ ...csvMapping, [field]: next === NO_COLUMN ? null : Number(next) })
+          }
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {optional && <SelectItem value={NO_COLUMN}>None</SelectItem>}
+            {csvRows[0].map((header, index) => (
+              <SelectItem key={index} value={String(index)}>
+                {header || `Column ${index + 1}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    );
+  };
+
+  const selectedFormat = FORMATS.find(option => option.value === importFormat)!;
+
+  return (
+    <Dialog open={open} onOpenChange={next => !isImporting && onOpenChange(next)}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Journal Entries</DialogTitle>
+          <DialogDescription>
+            Bring in entries from another journaling app. Entries already in your journal are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        {encryptionStatus === 'locked' ? (
+          <p className="text-sm text-muted-foreground">
+            Your journal is encrypted. Unlock it first so imported entries can be encrypted too.
+          </p>
+        ) : (
+          <div className="space-y-5">
+            <RadioGroup
+              value={importFormat}
+              onValueChange={value => {
+                setImportFormat(value as ImportFormat);
+                reset();
+              }}
+              className="grid gap-2"
+            >
+              {FORMATS.map(option => (
+                <div key={option.value} className="flex items-start space-x-2">
+                  <RadioGroupItem value={option.value} id={`import-${option.value}`} className="mt-1" />
+                  <Label htmlFor={`import-${option.value}`} className="font-normal">
+                    <span className="font-medium">{option.label}</span>
+                    <span className="block text-xs text-muted-foreground">{option.description}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" asChild disabled={isReading || isImporting}>
+                <label className="cursor-pointer">
+                  <FileUp className="h-4 w-4 mr-2" />
+                  Choose {importFormat === 'csv' ? 'File' : 'Files'}
+                  <input
+                    type="file"
+                    className="hidden"
+                    accept={selectedFormat.accept}
+                    multiple={importFormat !== 'csv'}
+                    onChange={event => {
+                      handleFiles(event.target.files);
+                      event.target.value = '';
+                    }}
+                  />
+                </label>
+              </Button>
+              {importFormat === 'markdown' && (
+                <Button variant="outline" asChild disabled={isReading || isImporting}>
+                  <label className="cursor-pointer">
+                    <FolderOpen className="h-4 w-4 mr-2" />
+                    Choose Folder
+                    <input
+                      type="file"
+                      className="hidden"
+                      {...{ webkitdirectory: '' }}
+                      onChange={event => {
+                        handleFiles(event.target.files);
+                        event.target.value = '';
+                      }}
+                    />
+                  </label>
+                </Button>
+              )}
+              {isReading && <Loader2 className="h-5 w-5 animate-spin self-center text-muted-foreground" />}
+            </div>
+
+            {csvRows && csvMapping && (
+              <div className="space-y-3 rounded-lg border border-border p-3">
+                <h4 className="text-sm font-medium">Columns</h4>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  {columnSelect('Entry text', 'content', false)}
+                  {columnSelect('Title', 'title', true)}
+                  {columnSelect('Date', 'date', true)}
+                  {columnSelect('Tags', 'tags', true)}
+                </div>
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="import-day-first" className="text-sm font-normal">
+                    Dates are written day first (31/12/2024)
+                  </Label>
+                  <Switch id="import-day-first" checked={dayFirst} onCheckedChange={setDayFirst} />
+                </div>
+              </div>
+            )}
+
+            {sourceEntries.length > 0 && (
+              <div className="space-y-3 rounded-lg border border-border p-3">
+                <h4 className="text-sm font-medium">Tags</h4>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="import-extra-tag" className="text-xs">Add to every entry</Label>
+                    <Input
+                      id="import-extra-tag"
+                      className="h-8"
+                      value={extraTag}
+                      onChange={event => setExtraTag(event.target.value)}
+                      placeholder="No extra tag"
+                    />
+                  </div>
+                  <div className="flex items-center justify-between gap-4 pt-5">
+                    <Label htmlFor="import-lowercase" className="text-sm font-normal">Make tags lowercase</Label>
+                    <Switch id="import-lowercase" checked={lowercaseTags} onCheckedChange={setLowercaseTags} />
+                  </div>
+                </div>
+                {sourceTags.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="text-xs text-muted-foreground">
+                      Rename tags from the import, or clear a name to leave that tag out.
+                    </p>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                      {sourceTags.slice(0, MAX_TAGS_SHOWN).map(tag => (
+                        <Input
+                          key={tag}
+                          className="h-8"
+                          aria-label={`Rename tag ${tag}`}
+                          value={tag.toLowerCase() in tagRenames ? tagRenames[tag.toLowerCase()] : tag}
+                          onChange={event =>
+                            setTagRenames(renames => ({ ...renames, [tag.toLowerCase()]: event.target.value }))
+                          }
+                        />
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {(sourceEntries.length > 0 || skippedFiles > 0) && (
+              <div className="space-y-2 text-sm">
+                <p>
+                  <span className="font-medium">{toImport.length}</span> new{' '}
+                  {toImport.length === 1 ? 'entry' : 'entries'} to import
+                  {toImport.length > 0 && (
+                    <span className="text-muted-foreground">
+                      {' '}from {format(new Date(toImport[0].created_at), 'MMM d, yyyy')} to{' '}
+                      {format(new Date(toImport[toImport.length - 1].created_at), 'MMM d, yyyy')}
+                    </span>
+                  )}
+                </p>
+                {duplicates.size > 0 && (
+                  <p className="text-muted-foreground">
+                    {duplicates.size} already in your journal and will be skipped.
+                  </p>
+                )}
+                {skippedFiles > 0 && (
+                  <p className="text-muted-foreground">
+                    {skippedFiles} {skippedFiles === 1 ? 'file was' : 'files were'} empty or had no date.
+                  </p>
+                )}
+                {encryptionStatus === 'unlocked' && (
+                  <p className="text-muted-foreground">Imported entries will be encrypted.</p>
+                )}
+                <ul className="divide-y divide-border rounded-md border border-border">
+                  {toImport.slice(0, PREVIEW_COUNT).map((entry, index) => (
+                    <li key={index} className="flex justify-between gap-3 px-3 py-2">
+                      <span className="truncate">{entry.title || 'Untitled entry'}</span>
+                      <span className="text-muted-foreground shrink-0">
+                        {format(new Date(entry.created_at), 'MMM d, yyyy')}
+                      </span>
+                    </li>
+                  ))}
+                  {toImport.length > PREVIEW_COUNT && (
+                    <li className="px-3 py-2 text-muted-foreground">and {toImport.length - PREVIEW_COUNT} more</li>
+                  )}
+                </ul>
+              </div>
+            )}
+
+            {isImporting && (
+              <div className="space-y-1">
+                <Progress value={(savedCount / Math.max(toImport.length, 1)) * 100} />
+                <p className="text-xs text-muted-foreground">
+                  Saved {savedCount} of {toImport.length}
+                </p>
+              </div>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={encryptionStatus === 'locked' || isImporting || toImport.length === 0}
+          >
+            {isImporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Import {toImport.length > 0 ? toImport.length : ''} {toImport.length === 1 ? 'Entry' : 'Entries'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,139 @@
+import { useRef, useState } from 'react';
+import { Bold, Heading2, Italic, Link2, List, ListOrdered, Quote } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { MarkdownContent } from '@/components/ui/MarkdownContent';
+import { ScriptureLinkedText } from '@/components/bible/ScriptureLinkedText';
+import { cn } from '@/lib/utils';
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+interface Formatting {
+  label: string;
+  icon: typeof Bold;
+  // Wraps the selection inline, or prefixes each selected line
+  wrap?: [string, string];
+  linePrefix?: string | ((index: number) => string);
+}
+
+const FORMATTING: Formatting[] = [
+  { label: 'Bold', icon: Bold, wrap: ['**', '**'] },
+  { label: 'Italic', icon: Italic, wrap: ['*', '*'] },
+  { label: 'Heading', icon: Heading2, linePrefix: '## ' },
+  { label: 'Quote', icon: Quote, linePrefix: '> ' },
+  { label: 'Bulleted list', icon: List, linePrefix: '- ' },
+  { label: 'Numbered list', icon: ListOrdered, linePrefix: index => `${index + 1}. ` },
+  { label: 'Link', icon: Link2, wrap: ['[', '](https://)'] },
+];
+
+/**
+ * Markdown textarea with a formatting toolbar and a preview that renders
+ * exactly as the saved entry will
+ */
+export function MarkdownEditor({ value, onChange, placeholder, className }: MarkdownEditorProps) {
+  const [isPreview, setIsPreview] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const applyFormatting = (formatting: Formatting) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const { selectionStart, selectionEnd } = textarea;
+    let next: string;
+    let cursorStart: number;
+    let cursorEnd: number;
+
+    if (formatting.wrap) {
+      const [before, after] = formatting.wrap;
+      const selected = value.slice(selectionStart, selectionEnd);
+      next = value.slice(0, selectionStart) + before + selected + after + value.slice(selectionEnd);
+      cursorStart = selectionStart + before.length;
+      cursorEnd = cursorStart + selected.length;
+    } else {
+      // Prefix every line touched by the selection
+      const lineStart = value.lastIndexOf('\n', selectionStart - 1) + 1;
+      const lines = value.slice(lineStart, selectionEnd).split('\n');
+      const prefixed = lines
+        .map((line, index) => {
+          const prefix = typeof formatting.linePrefix === 'function' ? formatting.linePrefix(index) : formatting.linePrefix;
+          return prefix + line;
+        })
+        .join('\n');
+      next = value.slice(0, lineStart) + prefixed + value.slice(selectionEnd);
+      cursorStart = lineStart;
+      cursorEnd = lineStart + prefixed.length;
+    }
+
+    onChange(next);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(cursorStart, cursorEnd);
+    });
+  };
+
+  return (
+    <div className={cn('rounded-md border border-input', className)}>
+      <div className="flex items-center justify-between border-b border-input px-2 py-1">
+        <div className="flex items-center gap-0.5">
+          {FORMATTING.map(formatting => (
+            <Button
+              key={formatting.label}
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              title={formatting.label}
+              disabled={isPreview}
+              onClick={() => applyFormatting(formatting)}
+            >
+              <formatting.icon className="h-4 w-4" />
+            </Button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            type="button"
+            variant={isPreview ? 'ghost' : 'secondary'}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setIsPreview(false)}
+          >
+            Write
+          </Button>
+          <Button
+            type="button"
+            variant={isPreview ? 'secondary' : 'ghost'}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setIsPreview(true)}
+          >
+            Preview
+          </Button>
+        </div>
+      </div>
+
+      {isPreview ? (
+        <div className="min-h-[240px] p-3 text-sm text-foreground">
+          {value.trim() ? (
+            <MarkdownContent text={value} renderText={text => <ScriptureLinkedText text={text} />} />
+          ) : (
+            <p className="text-muted-foreground">Nothing to preview yet.</p>
+          )}
+        </div>
+      ) : (
+        <Textarea
+          ref={textareaRef}
+          value={value}
+          onChange={event => onChange(event.target.value)}
+          placeholder={placeholder}
+          className="min-h-[240px] border-0 focus-visible:ring-0 focus-visible:ring-offset-0 resize-y"
+        />
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,11 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Sparkles, Brain, DivideIcon as LucideIcon, Book, Calendar, BookOpen, Heart, ArrowRight, Loader2 } from 'lucide-react';
+import { Sparkles, Brain, DivideIcon as LucideIcon, Book, Calendar, BookOpen, Heart, ArrowRight, Loader2, Lock } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
+import { useJournalEncryption } from '@/hooks/use-journal-encryption';
 import { Link } from 'react-router-dom';
 import { generateContentRecommendations } from '@/lib/content-recommendations';
 
@@ -16,6 +17,7 @@ interface MoodAnalysisCardProps {
 export function MoodAnalysisCard({ onAnalysisComplete, className }: MoodAnalysisCardProps) {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const { toast } = useToast();
+  const encryptionStatus = useJournalEncryption();
 
   const handleAnalyze = async () => {
     setIsAnalyzing(true);
@@ -75,6 +77,13 @@ export function MoodAnalysisCard({ onAnalysisComplete, className }: MoodAnalysis
             Our AI can analyze your journal entries to understand your current emotional and spiritual state, 
             then recommend content specifically tailored to your needs.
           </p>
+
+          {encryptionStatus && encryptionStatus !== 'disabled' && (
+            <p className="text-sm text-muted-foreground flex items-start gap-2">
+              <Lock className="h-4 w-4 mt-0.5 shrink-0" />
+              Your journal is encrypted, so the analysis only sees mood scores, tags and dates — not what you wrote.
+            </p>
+          )}
           
           <div className="space-y-2 bg-muted/30 p-3 rounded-lg">
             <h3 className="text-sm font-medium flex items-center">
@@ -0,0 +1,61 @@
+import { differenceInCalendarYears, format } from 'date-fns';
+import { History, Lock } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { isEntryLocked } from '@/lib/journal-crypto';
+import { getOnThisDayEntries } from '@/lib/journal-timeline';
+import { JournalEntry } from '@/lib/types';
+
+interface OnThisDayProps {
+  entries: JournalEntry[];
+  onView: (entry: JournalEntry) => void;
+  className?: string;
+}
+
+export function OnThisDay({ entries, onView, className }: OnThisDayProps) {
+  const today = new Date();
+  const pastEntries = getOnThisDayEntries(entries, today);
+
+  return (
+    <Card className={`border-secondary/20 ${className || ''}`}>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center">
+          <History className="h-5 w-5 text-secondary mr-2" />
+          <span>On This Day</span>
+        </CardTitle>
+        <CardDescription>{format(today, 'MMMM d')} in years past</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {pastEntries.length > 0 ? (
+          <div className="space-y-3">
+            {pastEntries.map(entry => {
+              const yearsAgo = differenceInCalendarYears(today, new Date(entry.created_at!));
+              return (
+                <button
+                  key={entry.id}
+                  type="button"
+                  onClick={() => onView(entry)}
+                  className="w-full text-left rounded-md p-2 -mx-2 hover:bg-muted/50 transition-colors"
+                >
+                  <p className="text-xs text-muted-foreground">
+                    {yearsAgo === 1 ? '1 year ago' : `${yearsAgo} years ago`}
+                  </p>
+                  <p className="font-medium text-foreground flex items-center gap-1.5">
+                    {entry.is_encrypted && <Lock className="h-3.5 w-3.5 text-muted-foreground shrink-0" />}
+                    {entry.title}
+                  </p>
+                  {!isEntryLocked(entry) && entry.summary && (
+                    <p className="text-sm text-muted-foreground line-clamp-2">{entry.summary}</p>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Nothing from this date in earlier years yet. What you write today will be waiting here next year.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
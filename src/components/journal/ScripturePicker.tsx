@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { BookOpen, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScriptureReferenceChip } from '@/components/bible/ScriptureReferenceChip';
+import { validateScriptureReference } from '@/lib/versification';
+
+interface ScripturePickerProps {
+  references: string[];
+  onChange: (references: string[]) => void;
+  // Puts the reference into the entry text at the cursor
+  onInsert?: (reference: string) => void;
+}
+
+export function ScripturePicker({ references, onChange, onInsert }: ScripturePickerProps) {
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const addReference = () => {
+    if (!input.trim()) return;
+
+    const validation = validateScriptureReference(input.trim());
+    if (!validation.valid || !validation.normalized) {
+      setError(validation.error || 'That doesn\'t look like a Bible reference');
+      return;
+    }
+
+    if (!references.includes(validation.normalized)) {
+      onChange([...references, validation.normalized]);
+    }
+    setInput('');
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      {references.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {references.map(reference => (
+            <span key={reference} className="inline-flex items-center gap-1 rounded-md bg-secondary/10 px-2 py-1 text-sm">
+              <ScriptureReferenceChip reference={reference} />
+              {onInsert && (
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-foreground"
+                  onClick={() => onInsert(reference)}
+                  title="Insert into entry"
+                >
+                  <BookOpen className="h-3 w-3" />
+                </button>
+              )}
+              <button
+                type="button"
+                className="text-muted-foreground hover:text-foreground"
+                onClick={() => onChange(references.filter(existing => existing !== reference))}
+                aria-label={`Remove ${reference}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          value={input}
+          onChange={event => {
+            setInput(event.target.value);
+            setError(null);
+          }}
+          onKeyDown={event => {
+            if (event.key === 'Enter') {
+              event.preventDefault();
+              addReference();
+            }
+          }}
+          placeholder="e.g. Psalm 23:1-4"
+        />
+        <Button type="button" variant="outline" size="icon" onClick={addReference} title="Add scripture">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+
+interface TagPickerProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  // Tags used on other entries, offered as suggestions
+  suggestions?: string[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, '').replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function TagPicker({ tags, onChange, suggestions = [] }: TagPickerProps) {
+  const [input, setInput] = useState('');
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) {
+      onChange([...tags, tag]);
+    }
+    setInput('');
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter(existing => existing !== tag));
+  };
+
+  const query = normalizeTag(input);
+  const matchingSuggestions = suggestions
+    .filter(suggestion => !tags.includes(suggestion) && (!query || suggestion.includes(query)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <div className="space-y-2">
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tags.map(tag => (
+            <Badge key={tag} variant="outline" className="bg-secondary/10 text-secondary border-secondary/20">
+              <Tag className="h-3 w-3 mr-1" />
+              {tag}
+              <button
+                type="button"
+                className="ml-1 rounded-full hover:bg-secondary/20"
+                onClick={() => removeTag(tag)}
+                aria-label={`Remove tag ${tag}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <Input
+        value={input}
+        onChange={event => setInput(event.target.value)}
+        onKeyDown={event => {
+          // Enter or comma adds the tag; backspace on an empty input removes the last one
+          if (event.key === 'Enter' || event.key === ',') {
+            event.preventDefault();
+            addTag(input);
+          } else if (event.key === 'Backspace' && !input && tags.length > 0) {
+            removeTag(tags[tags.length - 1]);
+          }
+        }}
+        onBlur={() => input.trim() && addTag(input)}
+        placeholder="Add a tag and press Enter"
+      />
+
+      {matchingSuggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {matchingSuggestions.map(suggestion => (
+            <button
+              key={suggestion}
+              type="button"
+              className="rounded-full border border-border px-2 py-0.5 text-xs text-muted-foreground hover:bg-muted"
+              // Keeps the input from adding its partial text on blur first
+              onMouseDown={event => event.preventDefault()}
+              onClick={() => addTag(suggestion)}
+            >
+              + {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
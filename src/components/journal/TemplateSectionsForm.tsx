@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { BookOpen, Loader2, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useVerseTranslation } from '@/hooks/use-verse-translation';
+import { getVerse } from '@/lib/bible-api';
+import { JournalTemplate, TemplatePrompts } from '@/lib/journal-templates';
+import { JournalSection } from '@/lib/types';
+import { validateScriptureReference } from '@/lib/versification';
+
+interface TemplateSectionsFormProps {
+  template: JournalTemplate;
+  sections: JournalSection[];
+  onChange: (sections: JournalSection[]) => void;
+  // Prompts tailored to today's reading, replacing the template's own
+  prompts?: TemplatePrompts;
+}
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+export function TemplateSectionsForm({ template, sections, onChange, prompts = {} }: TemplateSectionsFormProps) {
+  const translation = useVerseTranslation();
+  const [loadingPassageId, setLoadingPassageId] = useState<string | null>(null);
+  const [referenceErrors, setReferenceErrors] = useState<Record<string, string>>({});
+
+  const updateSection = (id: string, changes: Partial<JournalSection>) => {
+    onChange(sections.map(section => (section.id === id ? { ...section, ...changes } : section)));
+  };
+
+  const normalizeReference = (section: JournalSection) => {
+    const reference = section.reference?.trim();
+    if (!reference) return;
+    const validation = validateScriptureReference(reference);
+    if (validation.valid && validation.normalized) {
+      updateSection(section.id, { reference: validation.normalized });
+      setReferenceErrors(errors => {
+        const next = { ...errors };
+        delete next[section.id];
+        return next;
+      });
+    } else {
+      setReferenceErrors(errors => ({ ...errors, [section.id]: validation.error || 'Not a valid reference' }));
+    }
+  };
+
+  // Write out the passage text for the reference
+  const fillPassage = async (section: JournalSection) => {
+    if (!section.reference) return;
+    setLoadingPassageId(section.id);
+    try {
+      const verse = await getVerse(section.reference, translation);
+      if (verse) {
+        updateSection(section.id, { value: verse.text.trim() });
+      }
+    } catch (error) {
+      console.error('Error loading passage:', error);
+    } finally {
+      setLoadingPassageId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      {template.sections.map(definition => {
+        const section = sections.find(candidate => candidate.id === definition.id);
+        if (!section) return null;
+        const prompt = prompts[definition.id];
+
+        return (
+          <div key={definition.id} className="space-y-2">
+            <div>
+              <h4 className="font-medium text-foreground">{definition.label}</h4>
+              <p className="text-sm text-muted-foreground flex items-start gap-1">
+                {prompt && <Sparkles className="h-3.5 w-3.5 mt-0.5 shrink-0 text-gold" />}
+                {prompt || definition.prompt}
+              </p>
+            </div>
+
+            {definition.type === 'text' && (
+              <Textarea
+                value={String(section.value ?? '')}
+                onChange={event => updateSection(section.id, { value: event.target.value })}
+                placeholder={definition.placeholder}
+                className="min-h-[90px]"
+              />
+            )}
+
+            {definition.type === 'list' && (
+              <Textarea
+                value={Array.isArray(section.value) ? section.value.join('\n') : ''}
+                onChange={event => updateSection(section.id, { value: event.target.value.split('\n') })}
+                placeholder={definition.placeholder}
+                className="min-h-[90px]"
+              />
+            )}
+
+            {definition.type === 'scripture' && (
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <Input
+                    value={section.reference || ''}
+                    onChange={event => updateSection(section.id, { reference: event.target.value })}
+                    onBlur={() => normalizeReference(section)}
+                    placeholder="e.g. James 1:2-4"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => fillPassage(section)}
+                    disabled={!section.reference || !!referenceErrors[section.id] || loadingPassageId === section.id}
+                    title="Fill in the passage text"
+                  >
+                    {loadingPassageId === section.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <BookOpen className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+                {referenceErrors[section.id] && (
+                  <p className="text-xs text-destructive">{referenceErrors[section.id]}</p>
+                )}
+                <Textarea
+                  value={String(section.value ?? '')}
+                  onChange={event => updateSection(section.id, { value: event.target.value })}
+                  placeholder="Write out the verse"
+                  className="min-h-[70px]"
+                />
+              </div>
+            )}
+
+            {definition.type === 'rating' && (
+              <div className="flex items-center gap-2">
+                {definition.scale && <span className="text-xs text-muted-foreground">{definition.scale[0]}</span>}
+                {RATINGS.map(rating => (
+                  <Button
+                    key={rating}
+                    type="button"
+                    variant={section.value === rating ? 'default' : 'outline'}
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => updateSection(section.id, { value: section.value === rating ? null : rating })}
+                  >
+                    {rating}
+                  </Button>
+                ))}
+                {definition.scale && <span className="text-xs text-muted-foreground">{definition.scale[1]}</span>}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,332 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { BookOpen, Brain, Check, Loader2, MessageSquare, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  MEMORY_FACT_CATEGORIES,
+  addMemoryFact,
+  clearMemoryFacts,
+  deleteMemoryFact,
+  getMemoryFacts,
+  updateMemoryFact,
+} from '@/lib/user-memory';
+import { MemoryFact, MemoryFactCategory } from '@/lib/types';
+
+interface FactDraft {
+  category: MemoryFactCategory;
+  fact: string;
+}
+
+const EMPTY_DRAFT: FactDraft = { category: 'family', fact: '' };
+
+function FactEditor({
+  draft,
+  onChange,
+  onSave,
+  onCancel,
+  isSaving,
+}: {
+  draft: FactDraft;
+  onChange: (draft: FactDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  isSaving: boolean;
+}) {
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <Select
+        value={draft.category}
+        onValueChange={(value: MemoryFactCategory) => onChange({ ...draft, category: value })}
+      >
+        <SelectTrigger className="w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {MEMORY_FACT_CATEGORIES.map(category => (
+            <SelectItem key={category.value} value={category.value}>
+              {category.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Textarea
+        autoFocus
+        value={draft.fact}
+        onChange={e => onChange({ ...draft, fact: e.target.value })}
+        placeholder="e.g. Leads the youth group at Grace Fellowship."
+        rows={2}
+        maxLength={300}
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSaving}>
+          <X className="h-4 w-4 mr-1" />
+          Cancel
+        </Button>
+        <Button size="sm" onClick={onSave} disabled={isSaving || !draft.fact.trim()}>
+          {isSaving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * What the AI coach remembers about the user, grouped by category and editable
+ */
+export function MemoryFactsPanel() {
+  const [facts, setFacts] = useState<MemoryFact[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [draft, setDraft] = useState<FactDraft>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmClear, setConfirmClear] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadFacts();
+  }, []);
+
+  const loadFacts = async () => {
+    setIsLoading(true);
+    try {
+      setFacts(await getMemoryFacts());
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load what TrueNorth remembers.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const closeEditor = () => {
+    setEditingId(null);
+    setIsAdding(false);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const startEdit = (fact: MemoryFact) => {
+    setIsAdding(false);
+    setEditingId(fact.id);
+    setDraft({ category: fact.category, fact: fact.fact });
+  };
+
+  const startAdd = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+    setIsAdding(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      if (editingId) {
+        const updated = await updateMemoryFact(editingId, draft);
+        setFacts(prev => prev.map(fact => (fact.id === updated.id ? updated : fact)));
+      } else {
+        const added = await addMemoryFact(draft.category, draft.fact);
+        setFacts(prev => [added, ...prev]);
+      }
+      closeEditor();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save this memory.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteMemoryFact(id);
+      setFacts(prev => prev.filter(fact => fact.id !== id));
+      if (editingId === id) closeEditor();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete this memory.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleClearAll = async () => {
+    setConfirmClear(false);
+    try {
+      await clearMemoryFacts();
+      setFacts([]);
+      closeEditor();
+      toast({
+        title: 'Memory Cleared',
+        description: 'TrueNorth has forgotten everything it remembered about you.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to clear memory.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const groups = MEMORY_FACT_CATEGORIES
+    .map(category => ({ ...category, facts: facts.filter(fact => fact.category === category.value) }))
+    .filter(group => group.facts.length > 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-medium flex items-center">
+            <Brain className="h-5 w-5 mr-2 text-gold" />
+            What TrueNorth Remembers
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Details picked up from your conversations and journal so the coach can follow up
+            on what matters to you. Edit or remove anything at any time.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={startAdd} disabled={isAdding}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      {isAdding && (
+        <FactEditor
+          draft={draft}
+          onChange={setDraft}
+          onSave={handleSave}
+          onCancel={closeEditor}
+          isSaving={isSaving}
+        />
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : facts.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          Nothing yet. As you chat and journal, TrueNorth will remember the people, places and
+          goals you mention.
+        </p>
+      ) : (
+        groups.map(group => (
+          <div key={group.value} className="space-y-2">
+            <h4 className="text-sm font-medium text-muted-foreground">{group.label}</h4>
+            <ul className="space-y-2">
+              {group.facts.map(fact => (
+                <li key={fact.id}>
+                  {editingId === fact.id ? (
+                    <FactEditor
+                      draft={draft}
+                      onChange={setDraft}
+                      onSave={handleSave}
+                      onCancel={closeEditor}
+                      isSaving={isSaving}
+                    />
+                  ) : (
+                    <div className="group flex items-start gap-2 rounded-md border p-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-foreground">{fact.fact}</p>
+                        <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                          {fact.source_type === 'journal' ? (
+                            <BookOpen className="h-3 w-3" />
+                          ) : fact.source_type === 'chat' ? (
+                            <MessageSquare className="h-3 w-3" />
+                          ) : (
+                            <Pencil className="h-3 w-3" />
+                          )}
+                          {fact.source_type === 'manual' ? 'Added by you' : `From ${fact.source_type}`}
+                          {fact.updated_at && ` · ${formatDistanceToNow(new Date(fact.updated_at), { addSuffix: true })}`}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 shrink-0"
+                        onClick={() => startEdit(fact)}
+                        aria-label="Edit memory"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 shrink-0 text-destructive hover:text-destructive"
+                        onClick={() => handleDelete(fact.id)}
+                        aria-label="Delete memory"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))
+      )}
+
+      {facts.length > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-destructive hover:text-destructive"
+          onClick={() => setConfirmClear(true)}
+        >
+          <Trash2 className="h-4 w-4 mr-2" />
+          Forget everything
+        </Button>
+      )}
+
+      <AlertDialog open={confirmClear} onOpenChange={setConfirmClear}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Forget Everything</AlertDialogTitle>
+            <AlertDialogDescription>
+              All {facts.length} remembered details will be permanently deleted. TrueNorth will
+              start learning about you again from future conversations and journal entries.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleClearAll}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Forget Everything
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
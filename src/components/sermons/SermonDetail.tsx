@@ -43,12 +43,14 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { toast } from '@/hooks/use-toast';
-import { supabase } from '@/lib/supabase';
+import { getCurrentUser, getUserPreferences, supabase } from '@/lib/supabase';
+import { ScriptureCheckedText } from '@/components/bible/ScriptureCheckBadge';
 
 import { SermonSummary } from '@/lib/types';
 import {
   deleteSermonSummary,
   getSermonProcessingStatus,
+  verifySermonScripture,
 } from '@/lib/sermons';
 
 interface SermonDetailProps {
@@ -65,6 +67,7 @@ export function SermonDetail({ sermon, onDelete }: SermonDetailProps) {
 
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [aiAnalysisResult, setAiAnalysisResult] = useState<any>(null);
+  const [scriptureChecks, setScriptureChecks] = useState(sermon.scripture_checks);
 
   useEffect(() => {
     if (
@@ -88,6 +91,34 @@ export function SermonDetail({ sermon, onDelete }: SermonDetailProps) {
     }
   }, [sermon]);
 
+  // Summaries analysed before scripture checking existed, or just finished,
+  // are checked the first time their owner opens them
+  useEffect(() => {
+    setScriptureChecks(sermon.scripture_checks);
+    if (!sermon.id || !sermon.summary_text || sermon.scripture_checks) return;
+    if (sermon.ai_context?.status && sermon.ai_context.status !== 'completed') return;
+
+    let isMounted = true;
+    (async () => {
+      try {
+        const user = await getCurrentUser();
+        if (!user || user.id !== sermon.user_id) return;
+
+        const preferences = await getUserPreferences(user.id);
+        const verified = await verifySermonScripture(sermon, preferences?.verse_translation || 'KJV');
+        if (!isMounted) return;
+        setScriptureChecks(verified.scripture_checks);
+        setAiAnalysisResult((prev: any) => prev ? { ...prev, summary: verified.summary_text } : prev);
+      } catch (error) {
+        console.error('Error checking sermon scripture:', error);
+      }
+    })();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [sermon]);
+
   const startStatusPolling = async () => {
     if (!sermon.id) return;
 
@@ -329,7 +360,13 @@ export function SermonDetail({ sermon, onDelete }: SermonDetailProps) {
                 </Button>
               </div>
               <div className="prose dark:prose-invert max-w-none text-foreground/80">
-                <p>{aiAnalysisResult?.summary ?? sermon.summary_text}</p>
+                <p>
+                  <ScriptureCheckedText
+                    text={aiAnalysisResult?.summary ?? sermon.summary_text}
+                    checks={scriptureChecks?.filter(check => check.field === 'summary_text')}
+                    renderText={part => part}
+                  />
+                </p>
               </div>
             </div>
           )}
@@ -0,0 +1,118 @@
+import { Fragment, ReactNode, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { cn } from '@/lib/utils';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '@/lib/markdown';
+
+interface MarkdownContentProps {
+  text: string;
+  className?: string;
+  // Renders each run of plain text, e.g. to link scripture references
+  renderText?: (text: string) => ReactNode;
+}
+
+const HEADING_CLASSES = [
+  'text-xl font-bold',
+  'text-lg font-bold',
+  'text-base font-semibold',
+  'text-base font-semibold',
+  'text-sm font-semibold',
+  'text-sm font-semibold',
+];
+
+function MarkdownLink({ href, children }: { href: string; children: ReactNode }) {
+  const className = 'underline underline-offset-2 hover:opacity-80';
+  if (href.startsWith('/')) {
+    return <Link to={href} className={className}>{children}</Link>;
+  }
+  return (
+    <a href={href} className={className} target="_blank" rel="noopener noreferrer nofollow">
+      {children}
+    </a>
+  );
+}
+
+function renderInline(nodes: MarkdownInline[], renderText: (text: string) => ReactNode): ReactNode {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return <Fragment key={i}>{renderText(node.text)}</Fragment>;
+      case 'break':
+        return <br key={i} />;
+      case 'code':
+        return <code key={i} className="rounded bg-muted/60 px-1 py-0.5 font-mono text-[0.9em]">{node.text}</code>;
+      case 'strong':
+        return <strong key={i}>{renderInline(node.children, renderText)}</strong>;
+      case 'emphasis':
+        return <em key={i}>{renderInline(node.children, renderText)}</em>;
+      case 'strike':
+        return <s key={i}>{renderInline(node.children, renderText)}</s>;
+      case 'link':
+        // Text inside links is shown as written; nested links aren't valid
+        return <MarkdownLink key={i} href={node.href}>{renderInline(node.children, text => text)}</MarkdownLink>;
+    }
+  });
+}
+
+function renderBlocks(blocks: MarkdownBlock[], renderText: (text: string) => ReactNode): ReactNode {
+  return blocks.map((block, i) => {
+    switch (block.type) {
+      case 'heading': {
+        const Heading = `h${block.level}` as 'h1';
+        return (
+          <Heading key={i} className={HEADING_CLASSES[block.level - 1]}>
+            {renderInline(block.children, renderText)}
+          </Heading>
+        );
+      }
+      case 'paragraph':
+        return <p key={i}>{renderInline(block.children, renderText)}</p>;
+      case 'quote':
+        return (
+          <blockquote key={i} className="border-l-2 border-current/30 pl-3 italic opacity-90 space-y-2">
+            {renderBlocks(block.children, renderText)}
+          </blockquote>
+        );
+      case 'list': {
+        const List = block.ordered ? 'ol' : 'ul';
+        return (
+          <List
+            key={i}
+            start={block.ordered && block.start !== 1 ? block.start : undefined}
+            className={cn('pl-5 space-y-1', block.ordered ? 'list-decimal' : 'list-disc')}
+          >
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex} className="space-y-1">
+                {/* A single line item reads better without paragraph spacing */}
+                {item.length === 1 && item[0].type === 'paragraph'
+                  ? renderInline(item[0].children, renderText)
+                  : renderBlocks(item, renderText)}
+              </li>
+            ))}
+          </List>
+        );
+      }
+      case 'code':
+        return (
+          <pre key={i} className="overflow-x-auto rounded-md bg-muted/60 p-3 font-mono text-sm">
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'rule':
+        return <hr key={i} className="border-current/20" />;
+    }
+  });
+}
+
+/**
+ * Render Markdown written by users or the AI. The text is turned into React
+ * elements rather than HTML, so nothing in it can run script.
+ */
+export function MarkdownContent({ text, className, renderText = text => text }: MarkdownContentProps) {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+
+  return (
+    <div className={cn('space-y-3 break-words', className)}>
+      {renderBlocks(blocks, renderText)}
+    </div>
+  );
+}
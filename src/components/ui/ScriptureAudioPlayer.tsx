@@ -29,7 +29,8 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { callEdgeFunction } from '@/lib/supabase-functions';
-import { supabase } from '@/lib/supabase';
+import { getSpeechAudio, MAX_SPEECH_LENGTH, SpeechRequestError, type SpeechRequest } from '@/lib/speech-audio';
+import { splitSpeechText } from '@/lib/speech-sentences';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 
@@ -49,16 +50,28 @@ interface ScriptureAudioPlayerProps extends ButtonProps {
   reflection?: string;
   showSettings?: boolean;
   voiceId?: string;
+  // Bible translation of the scripture, so cached audio is kept per translation
+  translation?: string;
   size?: 'default' | 'sm' | 'lg' | 'icon';
   variant?: 'default' | 'outline' | 'ghost' | 'secondary';
 }
 
+// A chapter is longer than one speech request allows, so it is read as a
+// queue of parts, each cached on its own
+interface SpeechQueue {
+  requests: SpeechRequest[];
+  index: number;
+  // The part after the current one, fetched while it plays
+  next: Promise<Blob> | null;
+}
+
 export function ScriptureAudioPlayer({ 
   title, 
   scripture,
   reflection,
   showSettings = false,
   voiceId = 'echo',
+  translation,
   size = 'default',
   variant = 'default',
   className,
@@ -75,8 +88,10 @@ export function ScriptureAudioPlayer({
   const [selectedVoice, setSelectedVoice] = useState(voiceId);
   const [error, setError] = useState<string | null>(null);
   const [useOpenAIVoice, setUseOpenAIVoice] = useState(true);
+  const [part, setPart] = useState({ index: 0, count: 0 });
   
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const queueRef = useRef<SpeechQueue | null>(null);
   const timeoutRef = useRef<number | null>(null);
   const { toast } = useToast();
 
@@ -98,6 +113,16 @@ export function ScriptureAudioPlayer({
       };
       
       audioRef.current.onended = () => {
+        const queue = queueRef.current;
+        if (queue && queue.index + 1 < queue.requests.length) {
+          playQueuedPart(queue.index + 1).catch(error => {
+            console.error('Error playing the next part of the audio:', error);
+            setError('Error loading audio. Please try again.');
+            setIsPlaying(false);
+            setIsPaused(false);
+          });
+          return;
+        }
         setIsPlaying(false);
         setIsPaused(false);
         setCurrentTime(0);
@@ -137,6 +162,7 @@ export function ScriptureAudioPlayer({
 
   // Cleanup function
   const cleanupAudio = () => {
+    queueRef.current = null;
     if (audioRef.current) {
       audioRef.current.pause();
       audioRef.current = null;
@@ -167,6 +193,9 @@ export function ScriptureAudioPlayer({
       } else if (isPaused) {
         // Resume
         audioRef.current.play();
+      } else if (queueRef.current && queueRef.current.requests.length > 1) {
+        // Start again from the first part
+        await playQueuedPart(0);
       } else {
         // Start playing from beginning
         audioRef.current.currentTime = 0;
@@ -220,36 +249,54 @@ export function ScriptureAudioPlayer({
     }
   };
 
-  // Load audio using OpenAI TTS
+  // Play one part of the queue and start fetching the one after it. Called
+  // from the audio element's ended handler, so it only reads refs.
+  const playQueuedPart = async (index: number) => {
+    const queue = queueRef.current;
+    if (!queue) return;
+
+    const audioBlob = await (index === queue.index + 1 && queue.next
+      ? queue.next
+      : getSpeechAudio(queue.requests[index]));
+    if (queueRef.current !== queue || !audioRef.current) return;
+
+    queue.index = index;
+    queue.next = index + 1 < queue.requests.length ? getSpeechAudio(queue.requests[index + 1]) : null;
+    // Failures surface when the part is played
+    queue.next?.catch(() => {});
+    setPart({ index, count: queue.requests.length });
+
+    const audioUrl = URL.createObjectURL(audioBlob);
+    
+    // Clean up previous URL if it exists
+    if (audioRef.current.src) {
+      URL.revokeObjectURL(audioRef.current.src);
+    }
+    
+    audioRef.current.src = audioUrl;
+    await audioRef.current.play();
+  };
+
+  // Load audio using OpenAI TTS; audio heard before comes from the device cache
   const loadWithOpenAI = async (text: string) => {
     try {
-      // Set up for checking if Supabase session is available
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (!session) {
-        throw new Error('Not authenticated');
-      }
-      
-      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-      if (!supabaseUrl) {
-        throw new Error('Supabase URL not configured');
+      queueRef.current = {
+        requests: splitSpeechText(text, MAX_SPEECH_LENGTH).map(partText => ({
+          text: partText,
+          voice: selectedVoice,
+          translation,
+        })),
+        index: 0,
+        next: null,
+      };
+      if (audioRef.current) {
+        audioRef.current.volume = volume / 100 * (isMuted ? 0 : 1);
       }
-      
-      // Call the OpenAI TTS edge function
-      const response = await fetch(`${supabaseUrl}/functions/v1/openai-tts`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${session.access_token}`,
-        },
-        body: JSON.stringify({
-          text,
-          voice: selectedVoice
-        }),
-      });
-      
+      await playQueuedPart(0);
+    } catch (error) {
+      queueRef.current = null;
       // Handle subscription requirements
-      if (response.status === 402) {
+      if (error instanceof SpeechRequestError && error.status === 402) {
         toast({
           title: 'Premium Feature',
           description: 'High-quality voices require a TrueNorth Pro subscription.',
@@ -261,27 +308,6 @@ export function ScriptureAudioPlayer({
         playWithBrowserTTS(text);
         return;
       }
-      
-      if (!response.ok) {
-        throw new Error(`TTS request failed: ${response.status}`);
-      }
-      
-      // Create audio URL from response
-      const audioBlob = await response.blob();
-      const audioUrl = URL.createObjectURL(audioBlob);
-      
-      // Clean up previous URL if it exists
-      if (audioRef.current?.src) {
-        URL.revokeObjectURL(audioRef.current.src);
-      }
-      
-      // Set the audio source and play
-      if (audioRef.current) {
-        audioRef.current.src = audioUrl;
-        audioRef.current.volume = volume / 100 * (isMuted ? 0 : 1);
-        await audioRef.current.play();
-      }
-    } catch (error) {
       console.error('Error with OpenAI TTS:', error);
       throw error;
     }
@@ -468,6 +494,7 @@ export function ScriptureAudioPlayer({
       {/* Time display */}
       <div className="flex justify-between text-xs text-muted-foreground mt-1">
         <span>{formatTime(currentTime)}</span>
+        {part.count > 1 && <span>Part {part.index + 1} of {part.count}</span>}
         <span>{formatTime(duration)}</span>
       </div>
       
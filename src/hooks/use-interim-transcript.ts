@@ -0,0 +1,89 @@
+import { useState, useEffect, useRef } from 'react';
+
+// The parts of the Web Speech API used here, which TypeScript's DOM types leave out
+interface SpeechRecognitionResultEvent {
+  results: ArrayLike<ArrayLike<{ transcript: string }>>;
+}
+
+interface SpeechRecognitionLike {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: SpeechRecognitionResultEvent) => void) | null;
+  onerror: (() => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  abort: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+function getSpeechRecognition(): SpeechRecognitionConstructor | null {
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition || null;
+}
+
+/**
+ * Live captions of what the user is saying, from the browser's own speech
+ * recognition. They are only shown, never sent: the message is still
+ * transcribed once by whisper-transcription, so captions cost no voice
+ * allowance. Browsers without speech recognition show no captions.
+ */
+export function useInterimTranscript() {
+  const [transcript, setTranscript] = useState('');
+  const recognitionRef = useRef<SpeechRecognitionLike | null>(null);
+
+  const stop = () => {
+    const recognition = recognitionRef.current;
+    recognitionRef.current = null;
+    if (!recognition) return;
+    recognition.onresult = null;
+    recognition.onerror = null;
+    recognition.onend = null;
+    recognition.abort();
+  };
+
+  const start = () => {
+    stop();
+    setTranscript('');
+    const Recognition = getSpeechRecognition();
+    if (!Recognition) return;
+
+    const recognition = new Recognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = navigator.language || 'en-US';
+    recognition.onresult = event => {
+      let text = '';
+      for (let i = 0; i < event.results.length; i++) {
+        text += event.results[i][0]?.transcript || '';
+      }
+      if (recognitionRef.current === recognition) setTranscript(text.trim());
+    };
+    // Captions are best effort: no speech, no permission or no network just ends them
+    recognition.onerror = () => stop();
+    recognition.onend = () => {
+      if (recognitionRef.current === recognition) recognitionRef.current = null;
+    };
+
+    recognitionRef.current = recognition;
+    try {
+      recognition.start();
+    } catch (error) {
+      console.warn('Speech recognition unavailable for captions:', error);
+      recognitionRef.current = null;
+    }
+  };
+
+  useEffect(() => stop, []);
+
+  return {
+    transcript,
+    start,
+    stop,
+    clear: () => setTranscript(''),
+  };
+}
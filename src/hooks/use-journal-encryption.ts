@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import {
+  JournalEncryptionStatus,
+  getJournalEncryptionStatus,
+  subscribeJournalEncryption,
+} from '@/lib/journal-crypto';
+
+/**
+ * Whether the user's journal is encrypted and, if so, unlocked in this tab.
+ * Null until known.
+ */
+export function useJournalEncryption(): JournalEncryptionStatus | null {
+  const [status, setStatus] = useState<JournalEncryptionStatus | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    const refresh = () => {
+      getJournalEncryptionStatus()
+        .then(value => {
+          if (isMounted) setStatus(value);
+        })
+        .catch(error => {
+          console.error('Error loading journal encryption status:', error);
+        });
+    };
+
+    refresh();
+    const unsubscribe = subscribeJournalEncryption(refresh);
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return status;
+}
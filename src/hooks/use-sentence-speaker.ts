@@ -0,0 +1,151 @@
+import { useEffect, useRef, useState } from 'react';
+import { getSpeechAudio, SpeechRequestError } from '@/lib/speech-audio';
+
+interface SentenceSpeakerOptions {
+  voice: string;
+  // 0 to 1
+  volume: number;
+  // Called once when premium voices aren't available and browser voices take over
+  onFallback?: (reason: 'subscription' | 'error') => void;
+}
+
+interface QueuedPiece {
+  text: string;
+  // Premium audio, fetched ahead while the piece before it plays
+  audio?: Promise<Blob | null>;
+}
+
+// Pieces fetched ahead of the one playing
+const PREFETCH_AHEAD = 2;
+
+/**
+ * Speak text piece by piece as it arrives. Premium audio for the next pieces
+ * is fetched while the current one plays; `stop` silences everything at once
+ * for barge-in.
+ */
+export function useSentenceSpeaker({ voice, volume, onFallback }: SentenceSpeakerOptions) {
+  const [isSpeaking, setIsSpeaking] = useState(false);
+
+  const queueRef = useRef<QueuedPiece[]>([]);
+  const isPlayingRef = useRef(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Bumped by stop() so playback already in flight knows to give up
+  const generationRef = useRef(0);
+  const useBrowserVoiceRef = useRef(false);
+  const optionsRef = useRef({ voice, volume, onFallback });
+  optionsRef.current = { voice, volume, onFallback };
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.volume = volume;
+  }, [volume]);
+
+  const fallBackToBrowser = (reason: 'subscription' | 'error') => {
+    if (useBrowserVoiceRef.current) return;
+    useBrowserVoiceRef.current = true;
+    optionsRef.current.onFallback?.(reason);
+  };
+
+  const prefetch = (piece: QueuedPiece) => {
+    if (piece.audio || useBrowserVoiceRef.current) return;
+    abortRef.current = abortRef.current || new AbortController();
+    piece.audio = getSpeechAudio({
+      text: piece.text,
+      voice: optionsRef.current.voice,
+      signal: abortRef.current.signal,
+    }).catch(error => {
+      if (error.name === 'AbortError') return null;
+      console.error('Error fetching speech:', error);
+      fallBackToBrowser(error instanceof SpeechRequestError && error.status === 402 ? 'subscription' : 'error');
+      return null;
+    });
+  };
+
+  const speakWithBrowser = (text: string, generation: number): Promise<void> =>
+    new Promise(resolve => {
+      if (typeof window === 'undefined' || !window.speechSynthesis || generation !== generationRef.current) {
+        resolve();
+        return;
+      }
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.volume = optionsRef.current.volume;
+      utterance.onend = () => resolve();
+      utterance.onerror = () => resolve();
+      window.speechSynthesis.speak(utterance);
+    });
+
+  const playBlob = (blob: Blob, generation: number): Promise<void> =>
+    new Promise(resolve => {
+      if (generation !== generationRef.current) {
+        resolve();
+        return;
+      }
+      const audio = audioRef.current || new Audio();
+      audioRef.current = audio;
+      const url = URL.createObjectURL(blob);
+      const finish = () => {
+        audio.onended = null;
+        audio.onerror = null;
+        audio.onpause = null;
+        URL.revokeObjectURL(url);
+        resolve();
+      };
+      audio.onended = finish;
+      audio.onerror = finish;
+      // stop() pauses the element; treat that as the end of this piece
+      audio.onpause = finish;
+      audio.src = url;
+      audio.volume = optionsRef.current.volume;
+      audio.play().catch(finish);
+    });
+
+  const playQueue = async () => {
+    if (isPlayingRef.current) return;
+    isPlayingRef.current = true;
+    setIsSpeaking(true);
+    const generation = generationRef.current;
+
+    while (queueRef.current.length > 0 && generation === generationRef.current) {
+      queueRef.current.slice(0, PREFETCH_AHEAD).forEach(prefetch);
+      const piece = queueRef.current.shift()!;
+      const blob = piece.audio ? await piece.audio : null;
+      if (generation !== generationRef.current) break;
+
+      if (blob) {
+        await playBlob(blob, generation);
+      } else {
+        await speakWithBrowser(piece.text, generation);
+      }
+    }
+
+    if (generation === generationRef.current) {
+      isPlayingRef.current = false;
+      setIsSpeaking(false);
+    }
+  };
+
+  const enqueue = (text: string) => {
+    if (!text.trim()) return;
+    const piece: QueuedPiece = { text };
+    queueRef.current.push(piece);
+    if (queueRef.current.length <= PREFETCH_AHEAD) prefetch(piece);
+    playQueue();
+  };
+
+  const stop = () => {
+    generationRef.current += 1;
+    queueRef.current = [];
+    abortRef.current?.abort();
+    abortRef.current = null;
+    audioRef.current?.pause();
+    if (typeof window !== 'undefined' && window.speechSynthesis) {
+      window.speechSynthesis.cancel();
+    }
+    isPlayingRef.current = false;
+    setIsSpeaking(false);
+  };
+
+  useEffect(() => stop, []);
+
+  return { enqueue, stop, isSpeaking };
+}
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { getCurrentUser, getUserPreferences } from '@/lib/supabase';
+
+const DEFAULT_TRANSLATION = 'kjv';
+
+// Shared across every component so preferences are only fetched once per session
+let translationPromise: Promise<string> | null = null;
+
+async function loadVerseTranslation(): Promise<string> {
+  try {
+    const user = await getCurrentUser();
+    if (!user) return DEFAULT_TRANSLATION;
+
+    const preferences = await getUserPreferences(user.id);
+    return preferences?.verse_translation?.toLowerCase() || DEFAULT_TRANSLATION;
+  } catch (error) {
+    console.error('Error loading verse translation preference:', error);
+    return DEFAULT_TRANSLATION;
+  }
+}
+
+/**
+ * Forget the cached preference, e.g. after the user changes it on their profile
+ */
+export function resetVerseTranslation() {
+  translationPromise = null;
+}
+
+/**
+ * The user's preferred translation for displaying verses (lowercase id, e.g. "niv")
+ */
+export function useVerseTranslation(): string {
+  const [translation, setTranslation] = useState(DEFAULT_TRANSLATION);
+
+  useEffect(() => {
+    let isMounted = true;
+    translationPromise = translationPromise || loadVerseTranslation();
+    translationPromise.then(value => {
+      if (isMounted) setTranslation(value);
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  return translation;
+}
@@ -3,19 +3,21 @@ import { useState, useEffect, useRef } from 'react';
 interface VoiceActivityDetectorOptions {
   minDecibels?: number;
   timeThreshold?: number;
+  // Average level (0-255) counted as speech
+  speechThreshold?: number;
+  // How long the level must stay up before speech starts; filters out clicks
+  // and echo from the speakers
+  minSpeechDuration?: number;
   onSpeechStart?: () => void;
   onSpeechEnd?: () => void;
   onNoiseLevel?: (level: number) => void;
 }
 
 export function useVoiceActivityDetector(options: VoiceActivityDetectorOptions = {}) {
-  const {
-    minDecibels = -45,
-    timeThreshold = 300,
-    onSpeechStart,
-    onSpeechEnd,
-    onNoiseLevel,
-  } = options;
+  const { minDecibels = -45 } = options;
+  // The interval reads the latest options, so callbacks always see current state
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
   
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [noiseLevel, setNoiseLevel] = useState(0);
@@ -25,6 +27,7 @@ export function useVoiceActivityDetector(options: VoiceActivityDetectorOptions =
   const mediaStreamRef = useRef<MediaStream | null>(null);
   const isSpeakingRef = useRef(false);
   const lastSpeakTimeRef = useRef(0);
+  const loudSinceRef = useRef<number | null>(null);
   const checkIntervalRef = useRef<number | null>(null);
   
   // Start voice activity detection
@@ -88,6 +91,7 @@ export function useVoiceActivityDetector(options: VoiceActivityDetectorOptions =
     setNoiseLevel(0);
     isSpeakingRef.current = false;
     lastSpeakTimeRef.current = 0;
+    loudSinceRef.current = null;
   };
   
   // Check audio level to detect voice activity
@@ -108,26 +112,39 @@ export function useVoiceActivityDetector(options: VoiceActivityDetectorOptions =
     const average = sum / length;
     const normalizedLevel = Math.min(100, Math.max(0, average * 1.5));
     
+    const {
+      timeThreshold = 300,
+      speechThreshold = 30,
+      minSpeechDuration = 0,
+      onSpeechStart,
+      onSpeechEnd,
+      onNoiseLevel,
+    } = optionsRef.current;
+
     // Update noise level
     setNoiseLevel(normalizedLevel);
     if (onNoiseLevel) onNoiseLevel(normalizedLevel);
     
     const now = Date.now();
     // Detect speech start (with threshold to avoid background noise)
-    if (average > 30) {
+    if (average > speechThreshold) {
       lastSpeakTimeRef.current = now;
+      loudSinceRef.current = loudSinceRef.current ?? now;
       
-      if (!isSpeakingRef.current) {
+      if (!isSpeakingRef.current && now - loudSinceRef.current >= minSpeechDuration) {
         isSpeakingRef.current = true;
         setIsSpeaking(true);
         onSpeechStart?.();
       }
     } 
     // Detect speech end (after brief silence to avoid choppy detection)
-    else if (isSpeakingRef.current && now - lastSpeakTimeRef.current > timeThreshold) {
-      isSpeakingRef.current = false;
-      setIsSpeaking(false);
-      onSpeechEnd?.();
+    else {
+      loudSinceRef.current = null;
+      if (isSpeakingRef.current && now - lastSpeakTimeRef.current > timeThreshold) {
+        isSpeakingRef.current = false;
+        setIsSpeaking(false);
+        onSpeechEnd?.();
+      }
     }
   };
   
@@ -143,5 +160,7 @@ export function useVoiceActivityDetector(options: VoiceActivityDetectorOptions =
     stop,
     isSpeaking,
     noiseLevel,
+    // The microphone stream while running, e.g. to record what is heard
+    getStream: () => mediaStreamRef.current,
   };
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { validateScriptureReference } from './versification';
 
 export interface AIBibleStudy {
   id?: string;
@@ -50,7 +51,38 @@ export async function generateAIBibleStudy(preferences?: BibleStudyPreferences):
   }
 
   const data = await response.json();
-  return data.bibleStudy;
+  return checkBibleStudyReference(data.bibleStudy);
+}
+
+// Reject studies built on a passage that doesn't exist and store the canonical
+// form of valid references. Unreadable references are left as written.
+async function checkBibleStudyReference(study: AIBibleStudy): Promise<AIBibleStudy> {
+  const validation = validateScriptureReference(study.scripture_reference);
+
+  if (validation.reason === 'unrecognized') {
+    return study;
+  }
+
+  if (!validation.valid) {
+    if (study.id) {
+      await supabase.from('ai_bible_studies').delete().eq('id', study.id);
+    }
+    throw new Error(`The generated study cited an invalid passage (${validation.error}). Please try again.`);
+  }
+
+  if (study.id && validation.normalized && validation.normalized !== study.scripture_reference) {
+    const { error } = await supabase
+      .from('ai_bible_studies')
+      .update({ scripture_reference: validation.normalized })
+      .eq('id', study.id);
+
+    if (error) {
+      throw error;
+    }
+    return { ...study, scripture_reference: validation.normalized };
+  }
+
+  return study;
 }
 
 export async function getAIBibleStudies(): Promise<AIBibleStudy[]> {
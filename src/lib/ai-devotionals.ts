@@ -1,4 +1,7 @@
-import { supabase } from './supabase';
+import { getUserPreferences, supabase } from './supabase';
+import { validateScriptureReference } from './versification';
+import { checkQuotation, verifyScriptureQuotes } from './scripture-verification';
+import type { ScriptureCheck } from './types';
 
 export interface AIDevotional {
   id: string;
@@ -9,6 +12,7 @@ export interface AIDevotional {
   content: string;
   reflection_questions: string[];
   personalization_context: any;
+  scripture_checks?: ScriptureCheck[] | null;
   created_at: string;
 }
 
@@ -81,13 +85,87 @@ export async function generateAIDevotional(preferences?: DevotionalPreferences):
       throw new Error('No devotional returned from server');
     }
     
-    return data.devotional;
+    const devotional = await checkDevotionalReference(data.devotional);
+    const userPreferences = await getUserPreferences(user.id);
+    return await checkDevotionalQuotes(devotional, userPreferences?.verse_translation || 'KJV');
   } catch (error) {
     console.error('Error in generateAIDevotional:', error);
     throw error;
   }
 }
 
+// The model sometimes cites chapters or verses that don't exist. Drop those
+// devotionals and store the canonical form of valid references. A reference
+// the parser can't read is kept as the model wrote it.
+async function checkDevotionalReference(devotional: AIDevotional): Promise<AIDevotional> {
+  const validation = validateScriptureReference(devotional.scripture_reference);
+
+  if (validation.reason === 'unrecognized') {
+    return devotional;
+  }
+
+  if (!validation.valid) {
+    await supabase.from('ai_devotionals').delete().eq('id', devotional.id);
+    throw new Error(`The generated devotional cited an invalid passage (${validation.error}). Please try again.`);
+  }
+
+  if (validation.normalized && validation.normalized !== devotional.scripture_reference) {
+    const { error } = await supabase
+      .from('ai_devotionals')
+      .update({ scripture_reference: validation.normalized })
+      .eq('id', devotional.id);
+
+    if (error) {
+      console.error('Error normalizing devotional reference:', error);
+    } else {
+      return { ...devotional, scripture_reference: validation.normalized };
+    }
+  }
+
+  return devotional;
+}
+
+// Check the passage text and any verses quoted in the devotional against the
+// Bible, correcting misquotations. A failed check leaves the devotional as it is.
+async function checkDevotionalQuotes(devotional: AIDevotional, translation: string): Promise<AIDevotional> {
+  try {
+    const passage = await checkQuotation(devotional.scripture_text, devotional.scripture_reference, translation);
+    const content = await verifyScriptureQuotes(devotional.content, translation, 'content');
+
+    const checks: ScriptureCheck[] = [
+      {
+        reference: devotional.scripture_reference,
+        translation: translation.toUpperCase(),
+        status: passage.status,
+        quote: passage.text,
+        ...(passage.status === 'corrected' ? { original: devotional.scripture_text } : {}),
+        field: 'scripture_text',
+      },
+      ...content.checks,
+    ];
+    const updates = {
+      scripture_text: passage.text,
+      content: content.content,
+      scripture_checks: checks,
+    };
+
+    const { error } = await supabase
+      .from('ai_devotionals')
+      .update(updates)
+      .eq('id', devotional.id);
+
+    if (error) {
+      console.error('Error saving devotional scripture checks:', error);
+      return devotional;
+    }
+
+    return { ...devotional, ...updates };
+  } catch (error) {
+    console.error('Error checking devotional scripture:', error);
+    return devotional;
+  }
+}
+
 export async function getAIDevotionals(): Promise<AIDevotional[]> {
   try {
     const { data, error } = await supabase
@@ -1,5 +1,21 @@
 // Bible API service for fetching scripture data
 import { withErrorHandling } from './error-handler';
+import {
+  isTranslationInstalled,
+  getLocalVerses,
+  getLocalVerseRange,
+  searchLocalVerses,
+  encodeOrdinal,
+  type LocalSearchOptions,
+  type StoredVerse,
+} from './bible-store';
+import {
+  parseScriptureReference,
+  formatScriptureReference,
+  resolveBook,
+  type ScriptureReference,
+} from './scripture-reference';
+import { getVerseCount } from './versification';
 
 export interface BibleVerse {
   reference: string;
@@ -111,6 +127,31 @@ const CACHE_DURATION = 1000 * 60 * 30; // 30 minutes
 const BIBLE_API_BASE = 'https://bible-api.com';
 const ESV_API_BASE = 'https://api.esv.org/v3/passage';
 
+function toBibleVerse(reference: string, verses: StoredVerse[], translation: string): BibleVerse {
+  return {
+    reference,
+    text: verses.map(v => v.text).join(' '),
+    translation_id: translation.toUpperCase(),
+    translation_name: translation.toUpperCase(),
+    translation_note: 'Offline'
+  };
+}
+
+// Look up every segment of a parsed reference in an installed translation
+async function getLocalVerse(parsed: ScriptureReference, translation: string): Promise<BibleVerse | null> {
+  const verses: StoredVerse[] = [];
+
+  for (const segment of parsed.segments) {
+    const bookIndex = BIBLE_BOOKS.indexOf(segment.book);
+    const start = encodeOrdinal(bookIndex, segment.startChapter, segment.startVerse ?? 0);
+    const end = encodeOrdinal(bookIndex, segment.endChapter, segment.endVerse ?? 999);
+    verses.push(...await getLocalVerseRange(translation, start, end));
+  }
+
+  if (verses.length === 0) return null;
+  return toBibleVerse(formatScriptureReference(parsed), verses, translation);
+}
+
 // Get verse by reference (e.g., "John 3:16")
 export async function getVerse(reference: string, translation = 'kjv'): Promise<BibleVerse | null> {
   const cacheKey = `verse_${reference}_${translation}`;
@@ -122,8 +163,21 @@ export async function getVerse(reference: string, translation = 'kjv'): Promise<
   }
 
   try {
-    // Use Bible API for most translations - convert translation to uppercase
-    const url = `${BIBLE_API_BASE}/${encodeURIComponent(reference)}?translation=${translation.toUpperCase()}`;
+    const parsed = parseScriptureReference(reference);
+
+    // Prefer the offline copy when this translation has been downloaded
+    if (parsed && await isTranslationInstalled(translation)) {
+      const localVerse = await getLocalVerse(parsed, translation);
+      if (localVerse) {
+        cache.set(cacheKey, { data: localVerse, timestamp: Date.now() });
+        return localVerse;
+      }
+    }
+
+    // Use Bible API for most translations - convert translation to uppercase.
+    // Abbreviations like "1 Cor" are expanded so the API recognises them.
+    const apiReference = parsed ? formatScriptureReference(parsed) : reference;
+    const url = `${BIBLE_API_BASE}/${encodeURIComponent(apiReference)}?translation=${translation.toUpperCase()}`;
     
     const response = await fetch(url);
     if (!response.ok) {
@@ -172,6 +226,20 @@ export async function getChapter(book: string, chapter: number, translation = 'k
   }
 
   try {
+    const bookInfo = getBook(book);
+    if (bookInfo && await isTranslationInstalled(translation)) {
+      const verses = await getLocalVerses(translation, bookInfo.id, chapter);
+      if (verses.length > 0) {
+        const chapterData: BibleChapter = {
+          book,
+          chapter,
+          verses: verses.map(v => toBibleVerse(`${book} ${chapter}:${v.verse}`, [v], translation))
+        };
+        cache.set(cacheKey, { data: chapterData, timestamp: Date.now() });
+        return chapterData;
+      }
+    }
+
     const reference = `${book} ${chapter}`;
     // Convert translation to uppercase
     const url = `${BIBLE_API_BASE}/${encodeURIComponent(reference)}?translation=${translation.toUpperCase()}`;
@@ -209,11 +277,32 @@ export async function getChapter(book: string, chapter: number, translation = 'k
   }
 }
 
-// Search for verses containing specific text
-export async function searchVerses(query: string, translation = 'kjv'): Promise<BibleSearchResult[]> {
-  // For now, we'll implement a simple search using common verses
-  // In a full implementation, you'd want to use a dedicated search API
-  
+// Search for verses containing specific text. Supports "exact phrases", AND and
+// OR when the translation has been downloaded for offline use.
+export async function searchVerses(
+  query: string,
+  translation = 'kjv',
+  options: LocalSearchOptions = {}
+): Promise<BibleSearchResult[]> {
+  if (await isTranslationInstalled(translation)) {
+    try {
+      const verses = await searchLocalVerses(translation, query, options);
+      return verses.map(v => {
+        const bookName = getBook(v.book)?.name || v.book;
+        return {
+          reference: `${bookName} ${v.chapter}:${v.verse}`,
+          text: v.text,
+          book: bookName,
+          chapter: v.chapter,
+          verse: v.verse
+        };
+      });
+    } catch (error) {
+      console.error('Error searching offline Bible:', error);
+    }
+  }
+
+  // Without an offline copy, fall back to scanning a set of well-known verses
   const commonVerses = [
     'John 3:16', 'Romans 8:28', 'Philippians 4:13', 'Jeremiah 29:11',
     'Psalm 23:1', 'Matthew 11:28', 'Isaiah 40:31', 'Romans 6:23',
@@ -251,36 +340,23 @@ export async function searchVerses(query: string, translation = 'kjv'): Promise<
   return searchResults;
 }
 
-// Parse a reference string into components
+// Parse a reference string into the book, chapter and first verse of its first
+// range. Use parseScriptureReference for ranges and multi-part references.
 export function parseReference(reference: string): { book: string; chapter: number; verse?: number } | null {
-  // Handle various formats: "John 3:16", "John 3", "1 Corinthians 13:4-7", etc.
-  const patterns = [
-    /^(\d?\s?\w+)\s+(\d+):(\d+)(?:-\d+)?$/, // "John 3:16" or "1 Corinthians 13:4-7"
-    /^(\d?\s?\w+)\s+(\d+)$/, // "John 3"
-  ];
-  
-  for (const pattern of patterns) {
-    const match = reference.match(pattern);
-    if (match) {
-      return {
-        book: match[1].trim(),
-        chapter: parseInt(match[2]),
-        verse: match[3] ? parseInt(match[3]) : undefined
-      };
-    }
-  }
-  
-  return null;
+  const parsed = parseScriptureReference(reference);
+  if (!parsed) return null;
+
+  const [first] = parsed.segments;
+  return {
+    book: first.book.name,
+    chapter: first.startChapter,
+    verse: first.startVerse
+  };
 }
 
-// Get book information by name or ID
+// Get book information by name, ID or abbreviation
 export function getBook(nameOrId: string): BibleBook | null {
-  const search = nameOrId.toLowerCase();
-  return BIBLE_BOOKS.find(book => 
-    book.id.toLowerCase() === search || 
-    book.name.toLowerCase() === search ||
-    book.name.toLowerCase().replace(/\s+/g, '') === search.replace(/\s+/g, '')
-  ) || null;
+  return resolveBook(nameOrId);
 }
 
 // Get all books in a testament
@@ -307,9 +383,7 @@ export function isValidReference(book: string, chapter: number, verse?: number):
   
   if (chapter < 1 || chapter > bookInfo.chapters) return false;
   
-  // For now, we'll assume verses 1-999 are valid for any chapter
-  // In a full implementation, you'd want to check actual verse counts
-  if (verse && (verse < 1 || verse > 999)) return false;
+  if (verse !== undefined && (verse < 1 || verse > getVerseCount(bookInfo.id, chapter))) return false;
   
   return true;
 }
@@ -0,0 +1,467 @@
+// Offline Bible text store backed by IndexedDB, with an inverted word index
+import { BIBLE_BOOKS, type BibleBook } from './bible-api';
+
+export interface OfflineTranslation {
+  id: string;
+  name: string;
+  verse_count: number;
+  installed_at: string;
+}
+
+export interface StoredVerse {
+  translation: string;
+  ordinal: number;
+  book: string;
+  chapter: number;
+  verse: number;
+  text: string;
+}
+
+export interface LocalSearchOptions {
+  // Inclusive range of books (names or ids), e.g. { from: 'Matthew', to: 'John' }
+  bookRange?: { from: string; to: string };
+  testament?: 'old' | 'new';
+  limit?: number;
+}
+
+export interface InstallProgress {
+  stage: 'downloading' | 'indexing' | 'saving' | 'done';
+  percent: number;
+}
+
+// Public-domain translations with a known full-text source. Any translation can
+// also be served from VITE_BIBLE_DATA_URL, e.g. "/bibles/{translation}.json".
+const DEFAULT_SOURCES: Record<string, string> = {
+  kjv: 'https://raw.githubusercontent.com/thiagobodruk/bible/master/json/en_kjv.json',
+};
+
+const OFFLINE_TRANSLATION_NAMES: Record<string, string> = {
+  kjv: 'King James Version',
+  web: 'World English Bible',
+  asv: 'American Standard Version',
+  ylt: "Young's Literal Translation",
+};
+
+const DB_NAME = 'truenorth-bible';
+const DB_VERSION = 1;
+const TRANSLATIONS_STORE = 'translations';
+const VERSES_STORE = 'verses';
+const POSTINGS_STORE = 'postings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TRANSLATIONS_STORE)) {
+          db.createObjectStore(TRANSLATIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(VERSES_STORE)) {
+          const verses = db.createObjectStore(VERSES_STORE, { keyPath: ['translation', 'ordinal'] });
+          verses.createIndex('chapter', ['translation', 'book', 'chapter']);
+        }
+        if (!db.objectStoreNames.contains(POSTINGS_STORE)) {
+          db.createObjectStore(POSTINGS_STORE, { keyPath: ['translation', 'token'] });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Encode a verse position so that numeric order is canonical Bible order
+ */
+export function encodeOrdinal(bookIndex: number, chapter: number, verse: number): number {
+  return (bookIndex + 1) * 1_000_000 + chapter * 1_000 + verse;
+}
+
+export function decodeOrdinal(ordinal: number): { bookIndex: number; chapter: number; verse: number } {
+  return {
+    bookIndex: Math.floor(ordinal / 1_000_000) - 1,
+    chapter: Math.floor((ordinal % 1_000_000) / 1_000),
+    verse: ordinal % 1_000,
+  };
+}
+
+/**
+ * Split text into normalized, diacritic-free lowercase words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * URL to download a translation's full text from, if one is known
+ */
+export function getTranslationSource(translation: string): string | null {
+  const id = translation.toLowerCase();
+  const template = import.meta.env.VITE_BIBLE_DATA_URL as string | undefined;
+  if (template) {
+    return template.replace('{translation}', id);
+  }
+  return DEFAULT_SOURCES[id] || null;
+}
+
+export function canInstallTranslation(translation: string): boolean {
+  return isIndexedDBAvailable() && getTranslationSource(translation) !== null;
+}
+
+export async function getInstalledTranslations(): Promise<OfflineTranslation[]> {
+  if (!isIndexedDBAvailable()) return [];
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(TRANSLATIONS_STORE, 'readonly');
+    return await promisifyRequest(tx.objectStore(TRANSLATIONS_STORE).getAll());
+  } catch (error) {
+    console.error('Error reading offline translations:', error);
+    return [];
+  }
+}
+
+// Installed translations are checked on every lookup, so keep the answer in memory
+const installedCache = new Map<string, boolean>();
+
+export async function isTranslationInstalled(translation: string): Promise<boolean> {
+  const id = translation.toLowerCase();
+  if (installedCache.has(id)) return installedCache.get(id)!;
+  if (!isIndexedDBAvailable()) return false;
+
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(TRANSLATIONS_STORE, 'readonly');
+    const record = await promisifyRequest(tx.objectStore(TRANSLATIONS_STORE).get(id));
+    installedCache.set(id, !!record);
+    return !!record;
+  } catch (error) {
+    console.error('Error checking offline translation:', error);
+    return false;
+  }
+}
+
+// Downloads are arrays of books in canonical order, each holding an array of
+// chapters that are arrays of verse strings.
+function parseTranslationData(raw: string): string[][][] {
+  const data = JSON.parse(raw.replace(/^\uFEFF/, ''));
+  const books = Array.isArray(data) ? data : data.books;
+
+  if (!Array.isArray(books) || books.length !== BIBLE_BOOKS.length) {
+    throw new Error(`Expected ${BIBLE_BOOKS.length} books in Bible data`);
+  }
+
+  return books.map((book: { chapters: string[][] }) => book.chapters);
+}
+
+/**
+ * Download a translation and store it, with its word index, for offline use
+ */
+export async function installTranslation(
+  translation: string,
+  onProgress?: (progress: InstallProgress) => void
+): Promise<OfflineTranslation> {
+  const id = translation.toLowerCase();
+  const source = getTranslationSource(id);
+  if (!source) {
+    throw new Error(`No offline source available for ${translation.toUpperCase()}`);
+  }
+
+  onProgress?.({ stage: 'downloading', percent: 0 });
+  const response = await fetch(source);
+  if (!response.ok) {
+    throw new Error(`Failed to download Bible data: ${response.status}`);
+  }
+  const books = parseTranslationData(await response.text());
+
+  onProgress?.({ stage: 'indexing', percent: 40 });
+  const verses: StoredVerse[] = [];
+  const postings = new Map<string, number[]>();
+
+  books.forEach((chapters, bookIndex) => {
+    const book = BIBLE_BOOKS[bookIndex];
+    chapters.forEach((verseTexts, chapterIndex) => {
+      verseTexts.forEach((rawText, verseIndex) => {
+        // Some sources mark translator-supplied words with braces
+        const text = rawText.replace(/[{}]/g, '').trim();
+        const ordinal = encodeOrdinal(bookIndex, chapterIndex + 1, verseIndex + 1);
+        verses.push({
+          translation: id,
+          ordinal,
+          book: book.id,
+          chapter: chapterIndex + 1,
+          verse: verseIndex + 1,
+          text,
+        });
+
+        for (const token of new Set(tokenize(text))) {
+          const list = postings.get(token);
+          if (list) list.push(ordinal);
+          else postings.set(token, [ordinal]);
+        }
+      });
+    });
+  });
+
+  onProgress?.({ stage: 'saving', percent: 70 });
+  await removeTranslation(id);
+
+  const db = await openDatabase();
+  const tx = db.transaction([TRANSLATIONS_STORE, VERSES_STORE, POSTINGS_STORE], 'readwrite');
+  const verseStore = tx.objectStore(VERSES_STORE);
+  const postingStore = tx.objectStore(POSTINGS_STORE);
+  verses.forEach(verse => verseStore.put(verse));
+  postings.forEach((ordinals, token) => postingStore.put({ translation: id, token, ordinals }));
+
+  const record: OfflineTranslation = {
+    id,
+    name: OFFLINE_TRANSLATION_NAMES[id] || id.toUpperCase(),
+    verse_count: verses.length,
+    installed_at: new Date().toISOString(),
+  };
+  tx.objectStore(TRANSLATIONS_STORE).put(record);
+  await transactionDone(tx);
+
+  installedCache.set(id, true);
+  onProgress?.({ stage: 'done', percent: 100 });
+  return record;
+}
+
+/**
+ * Delete a translation's verses and index from the device
+ */
+export async function removeTranslation(translation: string): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+  const id = translation.toLowerCase();
+  const db = await openDatabase();
+  const tx = db.transaction([TRANSLATIONS_STORE, VERSES_STORE, POSTINGS_STORE], 'readwrite');
+
+  tx.objectStore(VERSES_STORE).delete(IDBKeyRange.bound([id, 0], [id, Number.MAX_SAFE_INTEGER]));
+  tx.objectStore(POSTINGS_STORE).delete(IDBKeyRange.bound([id, ''], [id, '\uffff']));
+  tx.objectStore(TRANSLATIONS_STORE).delete(id);
+  await transactionDone(tx);
+
+  installedCache.set(id, false);
+}
+
+/**
+ * Get verses of one chapter, optionally limited to a verse range
+ */
+export async function getLocalVerses(
+  translation: string,
+  bookId: string,
+  chapter: number,
+  verseStart?: number,
+  verseEnd?: number
+): Promise<StoredVerse[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(VERSES_STORE, 'readonly');
+  const index = tx.objectStore(VERSES_STORE).index('chapter');
+  const verses: StoredVerse[] = await promisifyRequest(
+    index.getAll(IDBKeyRange.only([translation.toLowerCase(), bookId, chapter]))
+  );
+
+  verses.sort((a, b) => a.ordinal - b.ordinal);
+  if (verseStart === undefined) return verses;
+  const end = verseEnd ?? verseStart;
+  return verses.filter(v => v.verse >= verseStart && v.verse <= end);
+}
+
+/**
+ * Get verses between two ordinals (inclusive), which may span chapters
+ */
+export async function getLocalVerseRange(
+  translation: string,
+  startOrdinal: number,
+  endOrdinal: number
+): Promise<StoredVerse[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(VERSES_STORE, 'readonly');
+  const id = translation.toLowerCase();
+  return await promisifyRequest(
+    tx.objectStore(VERSES_STORE).getAll(IDBKeyRange.bound([id, startOrdinal], [id, endOrdinal]))
+  );
+}
+
+interface QueryClause {
+  terms: string[];
+  phrases: string[][];
+}
+
+/**
+ * Parse a search query into OR-separated clauses of AND-ed terms and phrases.
+ * Supports `"exact phrase"`, implicit or explicit `AND`, and `OR` / `|`.
+ */
+export function parseSearchQuery(query: string): QueryClause[] {
+  const clauses: QueryClause[] = [];
+  let current: QueryClause = { terms: [], phrases: [] };
+  const pattern = /"([^"]*)"|(\|)|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    const [, phrase, pipe, word] = match;
+    if (pipe || word === 'OR') {
+      if (current.terms.length || current.phrases.length) clauses.push(current);
+      current = { terms: [], phrases: [] };
+    } else if (word === 'AND') {
+      continue;
+    } else if (phrase !== undefined) {
+      const tokens = tokenize(phrase);
+      if (tokens.length === 1) current.terms.push(tokens[0]);
+      else if (tokens.length > 1) current.phrases.push(tokens);
+    } else if (word) {
+      current.terms.push(...tokenize(word));
+    }
+  }
+
+  if (current.terms.length || current.phrases.length) clauses.push(current);
+  return clauses;
+}
+
+function intersectSorted(a: number[], b: number[]): number[] {
+  const result: number[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push(a[i]);
+      i++;
+      j++;
+    } else if (a[i] < b[j]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return result;
+}
+
+function containsPhrase(tokens: string[], phrase: string[]): boolean {
+  return ` ${tokens.join(' ')} `.includes(` ${phrase.join(' ')} `);
+}
+
+function getBookIndexRange(options: LocalSearchOptions): [number, number] {
+  let first = 0;
+  let last = BIBLE_BOOKS.length - 1;
+
+  if (options.testament) {
+    const indexes = BIBLE_BOOKS
+      .map((book, index) => ({ book, index }))
+      .filter(({ book }) => book.testament === options.testament)
+      .map(({ index }) => index);
+    first = Math.max(first, indexes[0]);
+    last = Math.min(last, indexes[indexes.length - 1]);
+  }
+
+  if (options.bookRange) {
+    const findIndex = (name: string) => BIBLE_BOOKS.findIndex((book: BibleBook) =>
+      book.id === name.toLowerCase().replace(/\s+/g, '') || book.name.toLowerCase() === name.toLowerCase()
+    );
+    const from = findIndex(options.bookRange.from);
+    const to = findIndex(options.bookRange.to);
+    if (from >= 0) first = Math.max(first, Math.min(from, to >= 0 ? to : from));
+    if (to >= 0) last = Math.min(last, Math.max(from, to));
+  }
+
+  return [first, last];
+}
+
+/**
+ * Full-text search over an installed translation. Returns every matching verse
+ * in canonical order unless a limit is given.
+ */
+export async function searchLocalVerses(
+  translation: string,
+  query: string,
+  options: LocalSearchOptions = {}
+): Promise<StoredVerse[]> {
+  const clauses = parseSearchQuery(query);
+  if (clauses.length === 0) return [];
+
+  const id = translation.toLowerCase();
+  const db = await openDatabase();
+  const postingCache = new Map<string, number[]>();
+
+  const getPostings = async (token: string): Promise<number[]> => {
+    if (postingCache.has(token)) return postingCache.get(token)!;
+    const tx = db.transaction(POSTINGS_STORE, 'readonly');
+    const record = await promisifyRequest(tx.objectStore(POSTINGS_STORE).get([id, token]));
+    const ordinals: number[] = record?.ordinals || [];
+    postingCache.set(token, ordinals);
+    return ordinals;
+  };
+
+  const [firstBook, lastBook] = getBookIndexRange(options);
+  const minOrdinal = encodeOrdinal(firstBook, 0, 0);
+  const maxOrdinal = encodeOrdinal(lastBook, 999, 999);
+  const matches = new Map<number, StoredVerse>();
+
+  for (const clause of clauses) {
+    const tokens = [...new Set([...clause.terms, ...clause.phrases.flat()])];
+    let candidates: number[] | null = null;
+
+    // Intersect the rarest lists first to keep the working set small
+    const lists = await Promise.all(tokens.map(getPostings));
+    lists.sort((a, b) => a.length - b.length);
+    for (const list of lists) {
+      candidates = candidates === null ? list : intersectSorted(candidates, list);
+      if (candidates.length === 0) break;
+    }
+
+    const inRange = (candidates || []).filter(
+      ordinal => ordinal >= minOrdinal && ordinal <= maxOrdinal && !matches.has(ordinal)
+    );
+    if (inRange.length === 0) continue;
+
+    const tx = db.transaction(VERSES_STORE, 'readonly');
+    const store = tx.objectStore(VERSES_STORE);
+    const verses: (StoredVerse | undefined)[] = await Promise.all(
+      inRange.map(ordinal => promisifyRequest(store.get([id, ordinal])))
+    );
+
+    for (const verse of verses) {
+      if (!verse) continue;
+      if (clause.phrases.length > 0) {
+        const verseTokens = tokenize(verse.text);
+        if (!clause.phrases.every(phrase => containsPhrase(verseTokens, phrase))) continue;
+      }
+      matches.set(verse.ordinal, verse);
+    }
+  }
+
+  const results = [...matches.values()].sort((a, b) => a.ordinal - b.ordinal);
+  return options.limit ? results.slice(0, options.limit) : results;
+}
@@ -0,0 +1,98 @@
+import { format } from 'date-fns';
+import { supabase } from './supabase';
+import { getVerse } from './bible-api';
+import { getInitialSchedule } from './spaced-repetition';
+import { validateScriptureReference } from './versification';
+import type { ChatAction, ChatActionType } from './types';
+
+export const CHAT_ACTION_LABELS: Record<ChatActionType, string> = {
+  create_prayer_request: 'Add prayer request',
+  log_habit: 'Log habit',
+  add_memory_verse: 'Add memory verse',
+  start_reading_plan: 'Start reading plan',
+  create_spiritual_goal: 'Create goal',
+};
+
+/**
+ * Page that shows what an executed action created
+ */
+export function getChatActionLink(action: ChatAction): string | null {
+  if (action.status !== 'executed') return null;
+  switch (action.action_type) {
+    case 'create_prayer_request':
+      return action.result?.prayer_request_id ? `/prayer?request=${action.result.prayer_request_id}` : '/prayer';
+    case 'log_habit':
+      return '/habits';
+    case 'add_memory_verse':
+      return '/scripture-memory';
+    case 'start_reading_plan':
+      return `/bible?plan=${action.params.plan_id}`;
+    case 'create_spiritual_goal':
+      return '/goals';
+  }
+}
+
+async function resolveChatAction(
+  actionId: string,
+  decision: 'confirm' | 'decline',
+  details?: Record<string, unknown>
+): Promise<ChatAction> {
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session) {
+    throw new Error('User not authenticated');
+  }
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/chat-action`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({ actionId, decision, details }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  // A conflict still carries the action's current state
+  if (!response.ok && !(response.status === 409 && data.action)) {
+    throw new Error(data.error || `Failed to ${decision} action: ${response.status}`);
+  }
+  return data.action as ChatAction;
+}
+
+/**
+ * Carry out a proposed action. Memory verses are looked up here first so the
+ * text is saved in the user's preferred translation, and scheduled from the
+ * user's own calendar day.
+ */
+export async function confirmChatAction(action: ChatAction, translation = 'kjv'): Promise<ChatAction> {
+  if (action.action_type !== 'add_memory_verse') {
+    return resolveChatAction(action.id, 'confirm');
+  }
+
+  const validation = validateScriptureReference(action.params.reference);
+  if (!validation.valid || !validation.normalized) {
+    throw new Error(validation.error || `${action.params.reference} is not a valid reference`);
+  }
+
+  let verse = await getVerse(validation.normalized, translation);
+  if (!verse && translation !== 'kjv') {
+    verse = await getVerse(validation.normalized, 'kjv');
+  }
+  if (!verse) {
+    throw new Error(`Could not load ${validation.normalized}`);
+  }
+
+  return resolveChatAction(action.id, 'confirm', {
+    reference: validation.normalized,
+    verse_text: verse.text,
+    translation: verse.translation_id,
+    schedule: getInitialSchedule(),
+    today: format(new Date(), 'yyyy-MM-dd'),
+  });
+}
+
+export async function declineChatAction(action: ChatAction): Promise<ChatAction> {
+  return resolveChatAction(action.id, 'decline');
+}
@@ -0,0 +1,83 @@
+import type { ChatAction, ChatMessage, ChatMessageFeedback, ChatSource, SafetyNotice, ScriptureCheck } from './types';
+
+// A stored message with its place in the thread's tree
+export interface ChatMessageRow {
+  id: string;
+  parent_id: string | null;
+  role: ChatMessage['role'];
+  content: string;
+  created_at: string;
+  sources: ChatSource[] | null;
+  safety: SafetyNotice | null;
+  actions: ChatAction[] | null;
+  feedback: ChatMessageFeedback[] | null;
+  status: 'streaming' | 'complete' | 'failed';
+  scripture_checks: ScriptureCheck[] | null;
+}
+
+// Empty placeholders and replies that failed part way are not shown; a reply
+// still streaming is, so the chat can resume it
+function isVisible(row: ChatMessageRow): boolean {
+  return row.status === 'streaming' || (Boolean(row.content) && row.status !== 'failed');
+}
+
+function childrenOf(rows: ChatMessageRow[], parentId: string | null): ChatMessageRow[] {
+  return rows
+    .filter(row => row.parent_id === parentId && isVisible(row))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/**
+ * Last message of the branch through `messageId`, following the newest
+ * version at each step below it. Switching to a sibling shows its latest
+ * continuation.
+ */
+export function findBranchLeaf(rows: ChatMessageRow[], messageId: string): string {
+  let leafId = messageId;
+  for (let depth = 0; depth < rows.length; depth++) {
+    const children = childrenOf(rows, leafId);
+    if (children.length === 0) break;
+    leafId = children[children.length - 1].id;
+  }
+  return leafId;
+}
+
+/**
+ * The messages from the root down to `leafId`, each with the ids of its
+ * siblings so the chat can offer to switch between versions. Without a leaf
+ * the newest message is used, which is the whole thread if it never branched.
+ */
+export function buildBranch(rows: ChatMessageRow[], leafId: string | null): ChatMessage[] {
+  const byId = new Map(rows.map(row => [row.id, row]));
+  const newest = [...rows].sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+
+  const path: ChatMessageRow[] = [];
+  let current: ChatMessageRow | undefined = (leafId && byId.get(leafId)) || newest;
+  while (current && path.length < rows.length) {
+    path.push(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return path
+    .reverse()
+    .filter(isVisible)
+    .map(row => {
+      const siblingIds = childrenOf(rows, row.parent_id).map(sibling => sibling.id);
+      return {
+        id: row.id,
+        role: row.role,
+        content: row.content,
+        createdAt: row.created_at,
+        parentId: row.parent_id,
+        ...(siblingIds.length > 1 ? { siblingIds } : {}),
+        ...(row.sources ? { sources: row.sources } : {}),
+        ...(row.safety ? { safety: row.safety } : {}),
+        ...(row.actions?.length
+          ? { actions: [...row.actions].sort((a, b) => (a.created_at || '').localeCompare(b.created_at || '')) }
+          : {}),
+        ...(row.feedback?.length ? { feedback: row.feedback[0] } : {}),
+        ...(row.scripture_checks ? { scriptureChecks: row.scripture_checks } : {}),
+        ...(row.status === 'streaming' ? { streaming: true } : {}),
+      };
+    });
+}
@@ -0,0 +1,50 @@
+import { getCurrentUser, supabase } from './supabase';
+import type { ChatMessageFeedback } from './types';
+
+// Quick picks offered with a rating; the user can also write their own
+export const FEEDBACK_REASONS: Record<ChatMessageFeedback['rating'], string[]> = {
+  1: ['Encouraging', 'Helpful scripture', 'Practical', 'Felt understood'],
+  [-1]: ['Inaccurate', 'Scripture misused', 'Not helpful', 'Too long', 'Missed the point'],
+};
+
+/**
+ * Rate an assistant reply, replacing any earlier rating of it
+ */
+export async function rateChatMessage(
+  messageId: string,
+  rating: ChatMessageFeedback['rating'],
+  reason?: string | null
+): Promise<ChatMessageFeedback> {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  const { data, error } = await supabase
+    .from('chat_message_feedback')
+    .upsert(
+      { message_id: messageId, user_id: user.id, rating, reason: reason?.trim() || null },
+      { onConflict: 'message_id,user_id' }
+    )
+    .select('rating,reason')
+    .single();
+
+  if (error) {
+    console.error('Error rating chat message:', error);
+    throw error;
+  }
+
+  return data as ChatMessageFeedback;
+}
+
+export async function clearChatMessageRating(messageId: string): Promise<void> {
+  const { error } = await supabase
+    .from('chat_message_feedback')
+    .delete()
+    .eq('message_id', messageId);
+
+  if (error) {
+    console.error('Error clearing chat message rating:', error);
+    throw error;
+  }
+}
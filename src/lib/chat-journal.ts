@@ -0,0 +1,99 @@
+import { supabase } from './supabase';
+import { validateScriptureReference } from './versification';
+import { getJournalEncryptionStatus } from './journal-crypto';
+import { updateJournalEntry } from './journal';
+import type { ChatJournalSuggestions, ChatMessage, JournalEntry } from './types';
+
+export interface ChatJournalResult {
+  journalEntry: JournalEntry;
+  suggestions: ChatJournalSuggestions;
+}
+
+/**
+ * A generated reference that doesn't exist is cleared rather than shown as a
+ * broken link; valid ones are stored in their normalized form.
+ */
+async function checkJournalScripture(entry: JournalEntry): Promise<JournalEntry> {
+  if (!entry.related_scripture || !entry.id) return entry;
+
+  const validation = validateScriptureReference(entry.related_scripture);
+  const relatedScripture = validation.valid ? validation.normalized : null;
+  if (relatedScripture === entry.related_scripture) return entry;
+
+  const { error } = await supabase
+    .from('journal_entries')
+    .update({ related_scripture: relatedScripture })
+    .eq('id', entry.id);
+
+  if (error) {
+    console.error('Error normalizing journal scripture reference:', error);
+    return entry;
+  }
+  return { ...entry, related_scripture: relatedScripture || undefined };
+}
+
+/**
+ * The server writes chat entries in plain text. With a private journal that is
+ * unlocked, the entry is encrypted straight away; while it's locked the entry
+ * waits to be encrypted from the journal page.
+ */
+async function keepJournalPrivate(entry: JournalEntry): Promise<JournalEntry> {
+  try {
+    if ((await getJournalEncryptionStatus()) !== 'unlocked') return entry;
+    return (await updateJournalEntry(entry)) || entry;
+  } catch (error) {
+    console.error('Error encrypting journal entry from chat:', error);
+    return entry;
+  }
+}
+
+/**
+ * Summarize a chat into a journal entry. Saving the same thread again updates
+ * its existing entry, unless that entry is encrypted, in which case a new one
+ * is added. Memory verse suggestions with invalid references are dropped.
+ */
+export async function createJournalFromChat(
+  messages: ChatMessage[],
+  threadId: string | null
+): Promise<ChatJournalResult> {
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+  const { data: { session } } = await supabase.auth.getSession();
+
+  if (!session) {
+    throw new Error('User not authenticated');
+  }
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/chat-journal`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({ messages, threadId }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Failed to create journal entry: ${response.status}`);
+  }
+
+  const data = await response.json();
+  if (!data.journalEntry) {
+    throw new Error('No journal entry created');
+  }
+
+  const memoryVerses = (data.suggestions?.memoryVerses || []).flatMap(
+    (verse: ChatJournalSuggestions['memoryVerses'][number]) => {
+      const validation = validateScriptureReference(verse.reference);
+      return validation.valid && validation.normalized ? [{ ...verse, reference: validation.normalized }] : [];
+    }
+  );
+
+  return {
+    journalEntry: await keepJournalPrivate(await checkJournalScripture(data.journalEntry)),
+    suggestions: {
+      prayerRequests: data.suggestions?.prayerRequests || [],
+      memoryVerses,
+    },
+  };
+}
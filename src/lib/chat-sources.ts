@@ -0,0 +1,31 @@
+import type { ChatSource, ChatSourceType } from './types';
+
+export const CHAT_SOURCE_LABELS: Record<ChatSourceType, string> = {
+  journal_entry: 'Journal entry',
+  prayer_request: 'Prayer request',
+  bible_study_note: 'Bible study note',
+  reading_reflection: 'Reading reflection',
+};
+
+/**
+ * Page that opens the cited item. Each page reads its query parameter and
+ * selects the item once its list has loaded.
+ */
+export function getChatSourceLink(source: ChatSource): string {
+  switch (source.type) {
+    case 'journal_entry':
+      return `/journal?entry=${source.id}`;
+    case 'prayer_request':
+      return `/prayer?request=${source.id}`;
+    case 'bible_study_note':
+      return `/bible-study?note=${source.id}`;
+    case 'reading_reflection': {
+      const planId = source.metadata?.plan_id;
+      const day = source.metadata?.day_number;
+      return planId ? `/bible?plan=${planId}${day ? `&day=${day}` : ''}` : '/bible';
+    }
+  }
+}
+
+// Citation markers the model writes, e.g. [1] or [2]
+export const CITATION_PATTERN = /\[(\d{1,2})\]/g;
@@ -0,0 +1,179 @@
+import type { ChatAction, ChatSource, SafetyNotice } from './types';
+
+// Everything chat-stream sends besides the reply text
+export interface ChatStreamMeta {
+  protocol?: number;
+  threadId?: string;
+  messageIds?: { parent: string | null; user: string | null; assistant: string | null };
+  sources?: ChatSource[];
+  safety?: SafetyNotice;
+  actions?: ChatAction[];
+}
+
+export interface ChatStreamReply {
+  content: string;
+  messageId: string | null;
+}
+
+// Reported by the server; sending the message again won't help
+export class ChatStreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChatStreamError';
+  }
+}
+
+interface ChatStreamOptions {
+  accessToken: string;
+  // A new message, or leave out to resume the reply at `lastEventId`
+  body?: Record<string, unknown>;
+  lastEventId?: string;
+  signal?: AbortSignal;
+  // Called when the server starts responding
+  onOpen?: () => void;
+  onMeta?: (meta: ChatStreamMeta) => void;
+  // The reply text received so far
+  onText?: (text: string) => void;
+}
+
+interface ServerEvent {
+  id?: string;
+  event: string;
+  data: string;
+}
+
+// Reconnects allowed after the connection drops part way through a reply
+const MAX_RESUME_ATTEMPTS = 3;
+
+/**
+ * Split complete server-sent events off the front of `buffer`. The unparsed
+ * remainder is returned to be prefixed to the next chunk.
+ */
+export function parseServerEvents(buffer: string): { events: ServerEvent[]; rest: string } {
+  const frames = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = frames.pop() || '';
+
+  const events = frames.flatMap(frame => {
+    const event: ServerEvent = { event: 'message', data: '' };
+    const data: string[] = [];
+    for (const line of frame.split('\n')) {
+      const separator = line.indexOf(':');
+      if (separator <= 0) continue;
+      const field = line.slice(0, separator);
+      const value = line.slice(separator + 1).replace(/^ /, '');
+      if (field === 'id') event.id = value;
+      else if (field === 'event') event.event = value;
+      else if (field === 'data') data.push(value);
+    }
+    event.data = data.join('\n');
+    return data.length > 0 ? [event] : [];
+  });
+
+  return { events, rest };
+}
+
+// Position in the reply after an event, from ids like `<message id>:<offset>`
+function offsetOf(eventId: string): number {
+  return Number(eventId.slice(eventId.lastIndexOf(':') + 1));
+}
+
+/**
+ * Send a message to chat-stream and read the reply as it streams. If the
+ * connection drops once the reply has started, it reconnects with
+ * Last-Event-ID and carries on from the last text received.
+ */
+export async function streamChatReply(options: ChatStreamOptions): Promise<ChatStreamReply> {
+  let text = '';
+  let lastEventId = options.lastEventId;
+
+  const readReply = async (): Promise<ChatStreamReply | null> => {
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat-stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${options.accessToken}`,
+        'X-Client-Info': 'truenorth-app',
+        ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+      },
+      body: JSON.stringify(lastEventId ? {} : options.body),
+      signal: options.signal,
+    });
+    options.onOpen?.();
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to get response from assistant: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('Response body is not readable');
+    }
+
+    const decoder = new TextDecoder('utf-8');
+    let buffer = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return null;
+
+      const parsed = parseServerEvents(buffer + decoder.decode(value, { stream: true }));
+      buffer = parsed.rest;
+
+      for (const event of parsed.events) {
+        let data: any;
+        try {
+          data = JSON.parse(event.data);
+        } catch (parseError) {
+          console.error('Error parsing chat stream event:', parseError, event.data);
+          continue;
+        }
+
+        if (event.event === 'error') {
+          throw new ChatStreamError(data.message || 'Failed to generate response');
+        }
+        if (event.event === 'meta') {
+          // From here the reply is saved, so a dropped connection can resume it
+          if (data.messageIds?.assistant && !lastEventId) {
+            lastEventId = `${data.messageIds.assistant}:0`;
+          }
+          options.onMeta?.(data);
+        } else if (event.event === 'delta' && event.id) {
+          // After a reconnect the first delta can overlap text already shown
+          const start = offsetOf(event.id) - data.text.length;
+          text = text.slice(0, Math.max(start, 0)) + data.text;
+          options.onText?.(text);
+        } else if (event.event === 'delta') {
+          text += data.text;
+          options.onText?.(text);
+        } else if (event.event === 'done') {
+          return { content: data.content || '', messageId: data.messageId || null };
+        }
+
+        if (event.id) {
+          lastEventId = event.id;
+        }
+      }
+    }
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const reply = await readReply();
+      if (reply) return reply;
+    } catch (error: any) {
+      // Before the reply has an id there is nothing to resume; the caller
+      // decides whether to send the message again
+      if (error instanceof ChatStreamError || error.name === 'AbortError' || !lastEventId) {
+        throw error;
+      }
+      console.error('Chat stream interrupted:', error);
+    }
+
+    if (!lastEventId) {
+      throw new Error('The reply ended before it was finished');
+    }
+    if (attempt >= MAX_RESUME_ATTEMPTS) {
+      throw new ChatStreamError('Lost the connection while receiving the reply. Reload the conversation to see it.');
+    }
+    await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1)));
+  }
+}
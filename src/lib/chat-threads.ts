@@ -0,0 +1,225 @@
+import { supabase } from './supabase';
+import { buildBranch, findBranchLeaf, type ChatMessageRow } from './chat-branches';
+import { verifyScriptureQuotes } from './scripture-verification';
+import type { ChatMessage, ChatThreadSummary, ScriptureCheck } from './types';
+
+const THREAD_COLUMNS = 'id,user_id,title,is_pinned,is_archived,created_at,last_message_at,coaching_mode';
+const MESSAGE_COLUMNS = [
+  'id,parent_id,role,content,created_at,status,sources,safety,scripture_checks',
+  'actions:chat_actions(id,action_type,params,status,result,error,created_at,resolved_at)',
+  'feedback:chat_message_feedback(rating,reason)',
+].join(',');
+
+// Pinned threads first, then most recently active
+function sortThreads(threads: ChatThreadSummary[]): ChatThreadSummary[] {
+  return [...threads].sort((a, b) => {
+    if (a.is_pinned !== b.is_pinned) return a.is_pinned ? -1 : 1;
+    return (b.last_message_at || '').localeCompare(a.last_message_at || '');
+  });
+}
+
+/**
+ * List the user's chat threads, either active or archived
+ */
+export async function getChatThreads(archived = false): Promise<ChatThreadSummary[]> {
+  try {
+    const { data, error } = await supabase
+      .from('chat_threads')
+      .select(THREAD_COLUMNS)
+      .eq('is_archived', archived)
+      .order('last_message_at', { ascending: false })
+      .limit(200);
+
+    if (error) {
+      console.error('Error fetching chat threads:', error);
+      throw error;
+    }
+
+    return sortThreads(data || []);
+  } catch (error) {
+    console.error('Error in getChatThreads:', error);
+    return [];
+  }
+}
+
+export async function getChatThread(threadId: string): Promise<ChatThreadSummary | null> {
+  const { data, error } = await supabase
+    .from('chat_threads')
+    .select(THREAD_COLUMNS)
+    .eq('id', threadId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching chat thread:', error);
+    throw error;
+  }
+
+  return data as ChatThreadSummary | null;
+}
+
+async function getThreadTree(threadId: string): Promise<{ rows: ChatMessageRow[]; activeLeafId: string | null }> {
+  const [{ data: thread, error: threadError }, { data: rows, error }] = await Promise.all([
+    supabase.from('chat_threads').select('active_leaf_id').eq('id', threadId).single(),
+    supabase
+      .from('chat_messages')
+      .select<string, ChatMessageRow>(MESSAGE_COLUMNS)
+      .eq('thread_id', threadId)
+      .order('created_at', { ascending: true }),
+  ]);
+
+  if (threadError || error) {
+    console.error('Error fetching chat messages:', threadError || error);
+    throw threadError || error;
+  }
+
+  return { rows: rows || [], activeLeafId: thread?.active_leaf_id || null };
+}
+
+/**
+ * Load the branch of a thread the user was last viewing
+ */
+export async function getChatThreadMessages(threadId: string): Promise<ChatMessage[]> {
+  const { rows, activeLeafId } = await getThreadTree(threadId);
+  return buildBranch(rows, activeLeafId);
+}
+
+/**
+ * Show another version of a message: the branch through `messageId` becomes
+ * the thread's active branch, and its messages are returned
+ */
+export async function switchChatBranch(threadId: string, messageId: string): Promise<ChatMessage[]> {
+  const { rows } = await getThreadTree(threadId);
+  const leafId = findBranchLeaf(rows, messageId);
+
+  const { error } = await supabase
+    .from('chat_threads')
+    .update({ active_leaf_id: leafId })
+    .eq('id', threadId);
+
+  if (error) {
+    console.error('Error switching chat branch:', error);
+    throw error;
+  }
+
+  return buildBranch(rows, leafId);
+}
+
+/**
+ * Check the scripture quoted in a finished reply and save the result. Misquoted
+ * verses are corrected in the stored reply, which is returned with its checks.
+ */
+export async function verifyChatReply(
+  messageId: string,
+  content: string,
+  translation: string
+): Promise<{ content: string; checks: ScriptureCheck[] }> {
+  const verified = await verifyScriptureQuotes(content, translation);
+
+  const { error } = await supabase
+    .from('chat_messages')
+    .update({
+      scripture_checks: verified.checks,
+      ...(verified.content !== content ? { content: verified.content } : {}),
+    })
+    .eq('id', messageId);
+
+  if (error) {
+    console.error('Error saving scripture checks:', error);
+    throw error;
+  }
+
+  return verified;
+}
+
+/**
+ * Full-text search across thread titles and messages
+ */
+export async function searchChatThreads(query: string): Promise<ChatThreadSummary[]> {
+  try {
+    const { data: hits, error } = await supabase.rpc('search_chat_threads', {
+      search_query: query,
+    });
+
+    if (error) {
+      console.error('Error searching chat threads:', error);
+      throw error;
+    }
+    if (!hits || hits.length === 0) return [];
+
+    const snippets = new Map<string, string>(
+      hits.map((hit: { thread_id: string; snippet: string }) => [hit.thread_id, hit.snippet])
+    );
+    const { data: threads, error: threadsError } = await supabase
+      .from('chat_threads')
+      .select(THREAD_COLUMNS)
+      .in('id', [...snippets.keys()]);
+
+    if (threadsError) {
+      console.error('Error fetching matched chat threads:', threadsError);
+      throw threadsError;
+    }
+
+    // Keep the search ranking order
+    const order = [...snippets.keys()];
+    return (threads || [])
+      .map((thread: ChatThreadSummary) => ({ ...thread, snippet: snippets.get(thread.id) }))
+      .sort((a: ChatThreadSummary, b: ChatThreadSummary) => order.indexOf(a.id) - order.indexOf(b.id));
+  } catch (error) {
+    console.error('Error in searchChatThreads:', error);
+    return [];
+  }
+}
+
+async function updateChatThread(threadId: string, updates: Partial<ChatThreadSummary>): Promise<ChatThreadSummary> {
+  const { data, error } = await supabase
+    .from('chat_threads')
+    .update(updates)
+    .eq('id', threadId)
+    .select(THREAD_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error updating chat thread:', error);
+    throw error;
+  }
+
+  return data as ChatThreadSummary;
+}
+
+export async function renameChatThread(threadId: string, title: string): Promise<ChatThreadSummary> {
+  return updateChatThread(threadId, { title: title.trim() || null });
+}
+
+export async function setChatThreadPinned(threadId: string, isPinned: boolean): Promise<ChatThreadSummary> {
+  return updateChatThread(threadId, { is_pinned: isPinned });
+}
+
+export async function setChatThreadArchived(threadId: string, isArchived: boolean): Promise<ChatThreadSummary> {
+  // Archiving also unpins so the thread drops out of the active list cleanly
+  return updateChatThread(threadId, isArchived ? { is_archived: true, is_pinned: false } : { is_archived: false });
+}
+
+/**
+ * Permanently delete a thread and all of its messages
+ */
+export async function deleteChatThread(threadId: string): Promise<void> {
+  const { error: messagesError } = await supabase
+    .from('chat_messages')
+    .delete()
+    .eq('thread_id', threadId);
+
+  if (messagesError) {
+    console.error('Error deleting chat messages:', messagesError);
+    throw messagesError;
+  }
+
+  const { error } = await supabase
+    .from('chat_threads')
+    .delete()
+    .eq('id', threadId);
+
+  if (error) {
+    console.error('Error deleting chat thread:', error);
+    throw error;
+  }
+}
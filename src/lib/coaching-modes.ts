@@ -0,0 +1,43 @@
+import type { CoachingMode, TheologicalTradition } from './types';
+
+export const DEFAULT_COACHING_MODE: CoachingMode = 'general';
+
+export const COACHING_MODES: { value: CoachingMode; label: string; description: string }[] = [
+  {
+    value: 'general',
+    label: 'Life Coach',
+    description: 'Guidance, encouragement and practical next steps',
+  },
+  {
+    value: 'prayer_partner',
+    label: 'Prayer Partner',
+    description: 'Listens and prays with you',
+  },
+  {
+    value: 'bible_scholar',
+    label: 'Bible Scholar',
+    description: 'Context, interpretation and Hebrew and Greek word notes',
+  },
+  {
+    value: 'accountability_coach',
+    label: 'Accountability Coach',
+    description: 'Specific commitments and gentle check-ins',
+  },
+  {
+    value: 'grief_companion',
+    label: 'Grief Companion',
+    description: 'Unhurried comfort through loss',
+  },
+];
+
+export const THEOLOGICAL_TRADITIONS: { value: TheologicalTradition; label: string }[] = [
+  { value: 'anglican', label: 'Anglican / Episcopal' },
+  { value: 'baptist', label: 'Baptist' },
+  { value: 'catholic', label: 'Catholic' },
+  { value: 'lutheran', label: 'Lutheran' },
+  { value: 'methodist', label: 'Methodist / Wesleyan' },
+  { value: 'nondenominational', label: 'Non-denominational' },
+  { value: 'orthodox', label: 'Orthodox' },
+  { value: 'pentecostal', label: 'Pentecostal / Charismatic' },
+  { value: 'reformed', label: 'Reformed / Presbyterian' },
+];
@@ -0,0 +1,453 @@
+// End-to-end encryption for private journal entries. A random AES-GCM data
+// key seals each entry on the device. The data key is stored on the server
+// only in wrapped form: once under a key derived from the user's passphrase
+// (PBKDF2) and once under a recovery key shown to the user a single time.
+// The unwrapped key lives in memory for this tab only, so the journal locks
+// again on reload or sign-out.
+import { supabase } from './supabase';
+import { JournalEntry, JournalSection } from './types';
+
+export type JournalEncryptionStatus = 'disabled' | 'locked' | 'unlocked';
+
+export type JournalEncryptionErrorCode =
+  | 'not_enabled'
+  | 'already_enabled'
+  | 'locked'
+  | 'wrong_passphrase'
+  | 'wrong_recovery_key'
+  | 'weak_passphrase'
+  | 'unsupported';
+
+export class JournalEncryptionError extends Error {
+  constructor(message: string, readonly code: JournalEncryptionErrorCode) {
+    super(message);
+    this.name = 'JournalEncryptionError';
+  }
+}
+
+interface JournalKeyRecord {
+  user_id: string;
+  kdf_salt: string;
+  kdf_iterations: number;
+  wrapped_key: string;
+  recovery_wrapped_key: string;
+}
+
+// The fields sealed into an entry's payload
+interface SealedEntryFields {
+  title: string;
+  summary: string;
+  content: string;
+  sections: JournalSection[] | null;
+}
+
+export const MIN_PASSPHRASE_LENGTH = 10;
+// What an encrypted entry shows wherever it can't be decrypted
+export const ENCRYPTED_ENTRY_TITLE = 'Private entry';
+
+const KDF_ITERATIONS = 310000;
+const PAYLOAD_VERSION = 'v1';
+const IV_LENGTH = 12;
+const RECOVERY_KEY_BYTES = 32;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+let unlockedKey: { userId: string; key: CryptoKey } | null = null;
+let cachedRecord: { userId: string; record: JournalKeyRecord | null } | null = null;
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Called whenever encryption is turned on, unlocked or locked
+ */
+export function subscribeJournalEncryption(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// -------------------- Encoding ------------------------------------------
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+function joinBytes(first: Uint8Array, second: Uint8Array): Uint8Array {
+  const joined = new Uint8Array(first.length + second.length);
+  joined.set(first);
+  joined.set(second, first.length);
+  return joined;
+}
+
+function toBase32(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function fromBase32(value: string): Uint8Array | null {
+  let bits = 0;
+  let buffer = 0;
+  const bytes: number[] = [];
+  for (const char of value) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) return null;
+    buffer = (buffer << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * The recovery key in groups of four, as shown to the user
+ */
+function formatRecoveryKey(bytes: Uint8Array): string {
+  return toBase32(bytes).match(/.{1,4}/g)!.join('-');
+}
+
+function parseRecoveryKey(recoveryKey: string): Uint8Array {
+  // Forgive spacing, dashes, lower case and the usual look-alike characters
+  const normalized = recoveryKey
+    .toUpperCase()
+    .replace(/[\s-]/g, '')
+    .replace(/0/g, 'O')
+    .replace(/1/g, 'I')
+    .replace(/8/g, 'B');
+  const bytes = fromBase32(normalized);
+  if (!bytes || bytes.length !== RECOVERY_KEY_BYTES) {
+    throw new JournalEncryptionError('That doesn\'t look like a recovery key', 'wrong_recovery_key');
+  }
+  return bytes;
+}
+
+// -------------------- Keys ----------------------------------------------
+
+function getSubtle(): SubtleCrypto {
+  if (!globalThis.crypto?.subtle) {
+    throw new JournalEncryptionError('This browser can\'t encrypt your journal', 'unsupported');
+  }
+  return globalThis.crypto.subtle;
+}
+
+function randomBytes(length: number): Uint8Array {
+  return globalThis.crypto.getRandomValues(new Uint8Array(length));
+}
+
+async function derivePassphraseKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const subtle = getSubtle();
+  const material = await subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+async function importRecoveryKey(bytes: Uint8Array): Promise<CryptoKey> {
+  return getSubtle().importKey('raw', bytes, { name: 'AES-GCM' }, false, ['wrapKey', 'unwrapKey']);
+}
+
+async function wrapDataKey(dataKey: CryptoKey, wrappingKey: CryptoKey): Promise<string> {
+  const iv = randomBytes(IV_LENGTH);
+  const wrapped = await getSubtle().wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv });
+  return toBase64(joinBytes(iv, new Uint8Array(wrapped)));
+}
+
+/**
+ * Unwraps the data key. AES-GCM fails to authenticate with the wrong wrapping
+ * key, which is how a wrong passphrase or recovery key shows up.
+ */
+async function unwrapDataKey(wrapped: string, wrappingKey: CryptoKey, extractable: boolean): Promise<CryptoKey | null> {
+  const bytes = fromBase64(wrapped);
+  try {
+    return await getSubtle().unwrapKey(
+      'raw',
+      bytes.slice(IV_LENGTH),
+      wrappingKey,
+      { name: 'AES-GCM', iv: bytes.slice(0, IV_LENGTH) },
+      { name: 'AES-GCM', length: 256 },
+      extractable,
+      ['encrypt', 'decrypt']
+    );
+  } catch {
+    return null;
+  }
+}
+
+async function getCurrentUserId(): Promise<string> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+  return user.id;
+}
+
+async function getKeyRecord(userId: string): Promise<JournalKeyRecord | null> {
+  if (cachedRecord?.userId === userId) return cachedRecord.record;
+
+  const { data, error } = await supabase
+    .from('journal_encryption_keys')
+    .select('user_id,kdf_salt,kdf_iterations,wrapped_key,recovery_wrapped_key')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching journal encryption keys:', error);
+    throw error;
+  }
+
+  cachedRecord = { userId, record: data as JournalKeyRecord | null };
+  return cachedRecord.record;
+}
+
+function checkPassphrase(passphrase: string) {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new JournalEncryptionError(
+      `Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`,
+      'weak_passphrase'
+    );
+  }
+}
+
+// -------------------- Setup and unlocking --------------------------------
+
+export async function getJournalEncryptionStatus(): Promise<JournalEncryptionStatus> {
+  const userId = await getCurrentUserId();
+  if (unlockedKey?.userId === userId) return 'unlocked';
+  return (await getKeyRecord(userId)) ? 'locked' : 'disabled';
+}
+
+/**
+ * Turns on encryption and unlocks the journal. Returns the recovery key,
+ * which is never stored unwrapped and can't be shown again.
+ */
+export async function setupJournalEncryption(passphrase: string): Promise<string> {
+  checkPassphrase(passphrase);
+  const subtle = getSubtle();
+  const userId = await getCurrentUserId();
+  if (await getKeyRecord(userId)) {
+    throw new JournalEncryptionError('Journal encryption is already turned on', 'already_enabled');
+  }
+
+  const dataKey = await subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const salt = randomBytes(16);
+  const recoveryBytes = randomBytes(RECOVERY_KEY_BYTES);
+
+  const record: JournalKeyRecord = {
+    user_id: userId,
+    kdf_salt: toBase64(salt),
+    kdf_iterations: KDF_ITERATIONS,
+    wrapped_key: await wrapDataKey(dataKey, await derivePassphraseKey(passphrase, salt, KDF_ITERATIONS)),
+    recovery_wrapped_key: await wrapDataKey(dataKey, await importRecoveryKey(recoveryBytes)),
+  };
+
+  const { error } = await supabase.from('journal_encryption_keys').insert([record]);
+  if (error) {
+    console.error('Error saving journal encryption keys:', error);
+    throw error;
+  }
+
+  cachedRecord = { userId, record };
+  unlockedKey = { userId, key: dataKey };
+  notify();
+  return formatRecoveryKey(recoveryBytes);
+}
+
+export async function unlockJournal(passphrase: string): Promise<void> {
+  const userId = await getCurrentUserId();
+  const record = await getKeyRecord(userId);
+  if (!record) {
+    throw new JournalEncryptionError('Journal encryption is not turned on', 'not_enabled');
+  }
+
+  const passphraseKey = await derivePassphraseKey(passphrase, fromBase64(record.kdf_salt), record.kdf_iterations);
+  const dataKey = await unwrapDataKey(record.wrapped_key, passphraseKey, false);
+  if (!dataKey) {
+    throw new JournalEncryptionError('That passphrase is not correct', 'wrong_passphrase');
+  }
+
+  unlockedKey = { userId, key: dataKey };
+  notify();
+}
+
+async function savePassphraseWrapping(record: JournalKeyRecord, dataKey: CryptoKey, passphrase: string) {
+  const salt = randomBytes(16);
+  const changes = {
+    kdf_salt: toBase64(salt),
+    kdf_iterations: KDF_ITERATIONS,
+    wrapped_key: await wrapDataKey(dataKey, await derivePassphraseKey(passphrase, salt, KDF_ITERATIONS)),
+    updated_at: new Date().toISOString(),
+  };
+
+  const { error } = await supabase
+    .from('journal_encryption_keys')
+    .update(changes)
+    .eq('user_id', record.user_id);
+  if (error) {
+    console.error('Error updating journal encryption keys:', error);
+    throw error;
+  }
+
+  cachedRecord = { userId: record.user_id, record: { ...record, ...changes } };
+}
+
+/**
+ * For a forgotten passphrase: the recovery key unlocks the journal and a new
+ * passphrase replaces the old one. The recovery key itself stays the same.
+ */
+export async function recoverJournal(recoveryKey: string, newPassphrase: string): Promise<void> {
+  checkPassphrase(newPassphrase);
+  const userId = await getCurrentUserId();
+  const record = await getKeyRecord(userId);
+  if (!record) {
+    throw new JournalEncryptionError('Journal encryption is not turned on', 'not_enabled');
+  }
+
+  const dataKey = await unwrapDataKey(
+    record.recovery_wrapped_key,
+    await importRecoveryKey(parseRecoveryKey(recoveryKey)),
+    true
+  );
+  if (!dataKey) {
+    throw new JournalEncryptionError('That recovery key is not correct', 'wrong_recovery_key');
+  }
+
+  await savePassphraseWrapping(record, dataKey, newPassphrase);
+  unlockedKey = { userId, key: dataKey };
+  notify();
+}
+
+export async function changeJournalPassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+  checkPassphrase(newPassphrase);
+  const userId = await getCurrentUserId();
+  const record = await getKeyRecord(userId);
+  if (!record) {
+    throw new JournalEncryptionError('Journal encryption is not turned on', 'not_enabled');
+  }
+
+  const currentKey = await derivePassphraseKey(currentPassphrase, fromBase64(record.kdf_salt), record.kdf_iterations);
+  const dataKey = await unwrapDataKey(record.wrapped_key, currentKey, true);
+  if (!dataKey) {
+    throw new JournalEncryptionError('That passphrase is not correct', 'wrong_passphrase');
+  }
+
+  await savePassphraseWrapping(record, dataKey, newPassphrase);
+}
+
+export function lockJournal(): void {
+  unlockedKey = null;
+  notify();
+}
+
+// Another account signing in on this tab must not inherit the key
+supabase.auth.onAuthStateChange((_event, session) => {
+  const userId = session?.user?.id;
+  const stale = [unlockedKey?.userId, cachedRecord?.userId].some(id => id && id !== userId);
+  if (stale) {
+    unlockedKey = null;
+    cachedRecord = null;
+    notify();
+  }
+});
+
+// -------------------- Entries -------------------------------------------
+
+export function isEntryLocked(entry: JournalEntry): boolean {
+  return !!entry.is_encrypted && !!entry.encrypted_payload;
+}
+
+/**
+ * The entry as stored when encryption is on: its private fields sealed into
+ * the payload and placeholders in their columns. Null when encryption is off.
+ */
+export async function sealJournalEntry(entry: JournalEntry): Promise<JournalEntry | null> {
+  const userId = await getCurrentUserId();
+  if (!(await getKeyRecord(userId))) return null;
+  const key = unlockedKey?.userId === userId ? unlockedKey.key : null;
+  if (!key) {
+    throw new JournalEncryptionError('Unlock your journal to save private entries', 'locked');
+  }
+
+  const fields: SealedEntryFields = {
+    title: entry.title,
+    summary: entry.summary,
+    content: entry.content,
+    sections: entry.sections ?? null,
+  };
+  const iv = randomBytes(IV_LENGTH);
+  const sealed = await getSubtle().encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(userId) },
+    key,
+    new TextEncoder().encode(JSON.stringify(fields))
+  );
+
+  return {
+    ...entry,
+    title: ENCRYPTED_ENTRY_TITLE,
+    summary: '',
+    content: '',
+    sections: null,
+    is_encrypted: true,
+    encrypted_payload: `${PAYLOAD_VERSION}:${toBase64(joinBytes(iv, new Uint8Array(sealed)))}`,
+  };
+}
+
+/**
+ * Decrypts an entry loaded from the database. Entries that aren't encrypted,
+ * or can't be decrypted because the journal is locked, come back unchanged.
+ */
+export async function openJournalEntry(entry: JournalEntry): Promise<JournalEntry> {
+  const key = unlockedKey && unlockedKey.userId === entry.user_id ? unlockedKey.key : null;
+  if (!isEntryLocked(entry) || !key) {
+    return entry;
+  }
+
+  const [version, data] = entry.encrypted_payload!.split(':');
+  if (version !== PAYLOAD_VERSION || !data) {
+    console.error('Unknown journal payload version:', version);
+    return entry;
+  }
+
+  try {
+    const bytes = fromBase64(data);
+    const opened = await getSubtle().decrypt(
+      { name: 'AES-GCM', iv: bytes.slice(0, IV_LENGTH), additionalData: new TextEncoder().encode(entry.user_id) },
+      key,
+      bytes.slice(IV_LENGTH)
+    );
+    const fields = JSON.parse(new TextDecoder().decode(opened)) as SealedEntryFields;
+    return { ...entry, ...fields, encrypted_payload: null };
+  } catch (error) {
+    console.error('Error decrypting journal entry:', error);
+    return entry;
+  }
+}
@@ -0,0 +1,44 @@
+// Unsaved journal writing, kept on the device so nothing is lost if the
+// composer is closed or the page reloads before the entry is saved.
+import { JournalSection } from './types';
+
+export interface JournalDraft {
+  title: string;
+  content: string;
+  tags: string[];
+  related_scripture: string;
+  // Guided entries: the template and the answers so far
+  template_id?: string | null;
+  sections?: JournalSection[] | null;
+  // When the draft was last written, as an ISO string
+  saved_at: string;
+}
+
+const DRAFT_KEY_PREFIX = 'truenorth_journal_draft:';
+// Key for an entry that hasn't been saved yet
+export const NEW_ENTRY_DRAFT = 'new';
+
+export function getJournalDraft(entryId: string = NEW_ENTRY_DRAFT): JournalDraft | null {
+  try {
+    const stored = localStorage.getItem(DRAFT_KEY_PREFIX + entryId);
+    return stored ? (JSON.parse(stored) as JournalDraft) : null;
+  } catch (error) {
+    console.error('Error reading journal draft:', error);
+    return null;
+  }
+}
+
+export function saveJournalDraft(draft: Omit<JournalDraft, 'saved_at'>, entryId: string = NEW_ENTRY_DRAFT): JournalDraft {
+  const saved: JournalDraft = { ...draft, saved_at: new Date().toISOString() };
+  try {
+    localStorage.setItem(DRAFT_KEY_PREFIX + entryId, JSON.stringify(saved));
+  } catch (error) {
+    // Storage full or disabled; the composer keeps working without drafts
+    console.error('Error saving journal draft:', error);
+  }
+  return saved;
+}
+
+export function clearJournalDraft(entryId: string = NEW_ENTRY_DRAFT): void {
+  localStorage.removeItem(DRAFT_KEY_PREFIX + entryId);
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { exportJournalJson, journalEntryToMarkdown } from './journal-export';
+import { findDuplicateEntries, parseJournalJson, parseMarkdownFile } from './journal-import';
+import type { JournalEntry } from './types';
+
+const entry: JournalEntry = {
+  id: 'entry-1',
+  user_id: 'user-1',
+  title: 'He said "hi" & left: a \\ backslash',
+  summary: 'Summary',
+  content: 'Prayed for **patience** today.\n\n- one\n- two',
+  created_at: '2024-05-01T14:30:00+00:00',
+  tags: ['prayer', 'quote "tag"', 'a, b'],
+  related_scripture: 'Psalm 23:1',
+  mood_score: 7,
+  spiritual_score: 8,
+  template_id: 'gratitude',
+  sections: [
+    { id: 'thanks', label: 'Thankful for', type: 'list', value: ['family', 'rest'] },
+    { id: 'rating', label: 'Peace', type: 'rating', value: 4 },
+  ],
+  is_encrypted: false,
+  encrypted_payload: null,
+};
+
+describe('journalEntryToMarkdown', () => {
+  it('round-trips through the Markdown importer', () => {
+    const markdown = journalEntryToMarkdown(entry);
+    const imported = parseMarkdownFile('journal/2024-05-01-he-said-hi.md', markdown);
+
+    expect(imported).toMatchObject({
+      title: entry.title,
+      content: entry.content,
+      tags: entry.tags,
+      related_scripture: 'Psalm 23:1',
+      mood_score: 7,
+    });
+    expect(new Date(imported!.created_at).getTime()).toBe(new Date(entry.created_at!).getTime());
+    expect(findDuplicateEntries([imported!], [entry])).toEqual(new Set([0]));
+  });
+});
+
+describe('exportJournalJson', () => {
+  it('leaves out account fields', async () => {
+    const data = JSON.parse(await exportJournalJson([entry]).text());
+    expect(data).toMatchObject({ app: 'truenorth', version: 1 });
+    expect(data.entries[0]).not.toHaveProperty('user_id');
+    expect(data.entries[0]).not.toHaveProperty('encrypted_payload');
+  });
+
+  it('round-trips every entry field through the JSON importer', async () => {
+    const [imported] = parseJournalJson(await exportJournalJson([entry]).text());
+
+    expect(imported).toMatchObject({
+      title: entry.title,
+      content: entry.content,
+      tags: entry.tags,
+      related_scripture: entry.related_scripture,
+      mood_score: 7,
+      spiritual_score: 8,
+      template_id: 'gratitude',
+      sections: entry.sections,
+      import_source: 'truenorth',
+      import_id: 'entry-1',
+    });
+    expect(findDuplicateEntries([imported], [entry])).toEqual(new Set([0]));
+  });
+});
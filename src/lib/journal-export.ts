@@ -0,0 +1,83 @@
+// Taking the journal out: a zip of Markdown files with front matter (which
+// the Markdown importer reads back), and full JSON. The printable book lives
+// on its own page, JournalPrintPage.
+import { format } from 'date-fns';
+import { JournalEntry } from './types';
+import { createZip } from './zip';
+
+// Fields that only make sense inside this account
+const PRIVATE_FIELDS: (keyof JournalEntry)[] = ['user_id', 'is_encrypted', 'encrypted_payload'];
+
+function slugify(title: string): string {
+  return title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'entry';
+}
+
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+export function journalEntryToMarkdown(entry: JournalEntry): string {
+  const frontMatter = [
+    '---',
+    `title: ${yamlString(entry.title)}`,
+    entry.created_at ? `date: ${entry.created_at}` : null,
+    entry.tags && entry.tags.length > 0 ? `tags: [${entry.tags.map(yamlString).join(', ')}]` : null,
+    entry.related_scripture ? `scripture: ${yamlString(entry.related_scripture)}` : null,
+    typeof entry.mood_score === 'number' ? `mood: ${entry.mood_score}` : null,
+    entry.template_id ? `template: ${entry.template_id}` : null,
+    '---',
+  ].filter((line): line is string => line !== null);
+
+  return `${frontMatter.join('\n')}\n\n# ${entry.title}\n\n${entry.content.trim()}\n`;
+}
+
+/**
+ * One Markdown file per entry, named by date and title
+ */
+export function exportJournalMarkdownZip(entries: JournalEntry[]): Blob {
+  const usedNames = new Set<string>();
+  const files = entries.map(entry => {
+    const date = entry.created_at ? new Date(entry.created_at) : new Date();
+    const base = `${format(date, 'yyyy-MM-dd')}-${slugify(entry.title)}`;
+    let name = `${base}.md`;
+    for (let n = 2; usedNames.has(name); n++) name = `${base}-${n}.md`;
+    usedNames.add(name);
+    return { name: `journal/${name}`, content: journalEntryToMarkdown(entry), modified: date };
+  });
+  return createZip(files);
+}
+
+/**
+ * Every entry with all its fields, readable by the JSON importer
+ */
+export function exportJournalJson(entries: JournalEntry[]): Blob {
+  const data = {
+    app: 'truenorth',
+    version: 1,
+    exported_at: new Date().toISOString(),
+    entries: entries.map(entry => {
+      const copy = { ...entry };
+      PRIVATE_FIELDS.forEach(field => delete copy[field]);
+      return copy;
+    }),
+  };
+  return new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyImportOptions,
+  csvRowsToEntries,
+  findDuplicateEntries,
+  guessCsvMapping,
+  ImportedEntry,
+  JournalImportError,
+  parseCsv,
+  parseFrontMatter,
+  parseImportDate,
+  parseJournalJson,
+  parseMarkdownFile,
+} from './journal-import';
+
+describe('parseImportDate', () => {
+  it('reads ISO dates, timestamps and numeric dates', () => {
+    expect(parseImportDate('2024-05-01T10:00:00Z')).toBe('2024-05-01T10:00:00.000Z');
+    expect(parseImportDate(1714557600)).toBe('2024-05-01T10:00:00.000Z');
+    expect(parseImportDate('1714557600000')).toBe('2024-05-01T10:00:00.000Z');
+    expect(new Date(parseImportDate('05/04/2024')!).getMonth()).toBe(4);
+    expect(new Date(parseImportDate('05/04/2024', true)!).getMonth()).toBe(3);
+  });
+
+  it('rejects values that are not dates', () => {
+    expect(parseImportDate('')).toBeNull();
+    expect(parseImportDate('not a date')).toBeNull();
+    expect(parseImportDate({ date: '2024-05-01' })).toBeNull();
+    expect(parseImportDate(['2024-05-01'])).toBeNull();
+    expect(parseImportDate(Number.NaN)).toBeNull();
+  });
+});
+
+describe('parseJournalJson', () => {
+  it('reads a Day One export', () => {
+    const entries = parseJournalJson(JSON.stringify({
+      metadata: { version: '1.0' },
+      entries: [
+        {
+          uuid: 'ABC',
+          creationDate: '2024-05-01T10:00:00Z',
+          text: '# Morning\\. prayer\n\n![](dayone-moment://photo)\nGrateful\\!',
+          tags: ['Prayer'],
+          starred: true,
+        },
+        { uuid: 'EMPTY', creationDate: '2024-05-02T10:00:00Z', text: '' },
+      ],
+    }));
+
+    expect(entries).toEqual([{
+      title: 'Morning. prayer',
+      content: 'Grateful!',
+      created_at: '2024-05-01T10:00:00.000Z',
+      tags: ['Prayer', 'favorite'],
+      import_source: 'dayone',
+      import_id: 'ABC',
+    }]);
+  });
+
+  it('reads Journey entries', () => {
+    const [entry] = parseJournalJson(JSON.stringify([
+      { id: '17', date_journal: 1714557600000, text: '<p>Walk &amp; pray</p><p>Quiet morning</p>', tags: ['walk'] },
+    ]));
+    expect(entry).toMatchObject({ title: 'Walk & pray', import_source: 'journey', import_id: '17', tags: ['walk'] });
+    expect(entry.content).toContain('Quiet morning');
+  });
+
+  it('skips malformed items instead of failing on them', () => {
+    const entries = parseJournalJson(JSON.stringify({
+      app: 'truenorth',
+      entries: [
+        null,
+        'text',
+        { created_at: { nested: true }, content: 'no date' },
+        {
+          created_at: '2024-05-01T10:00:00Z',
+          title: { not: 'text' },
+          content: 'Kept',
+          tags: [1, { x: 1 }, 'ok'],
+          mood_score: '7',
+          sections: [{ id: 'a' }, { id: 'b', label: 'B', type: 'text', value: 'answer' }],
+        },
+      ],
+    }));
+
+    expect(entries).toEqual([{
+      title: '',
+      content: 'Kept',
+      created_at: '2024-05-01T10:00:00.000Z',
+      tags: ['1', 'ok'],
+      related_scripture: undefined,
+      mood_score: undefined,
+      spiritual_score: undefined,
+      template_id: undefined,
+      sections: [{ id: 'b', label: 'B', type: 'text', value: 'answer' }],
+      import_source: 'truenorth',
+      import_id: undefined,
+    }]);
+    expect(parseJournalJson(JSON.stringify({ app: 'truenorth', entries: 'nope' }))).toEqual([]);
+  });
+
+  it('rejects files it does not recognise', () => {
+    expect(() => parseJournalJson('{')).toThrow(JournalImportError);
+    expect(() => parseJournalJson('42')).toThrow(JournalImportError);
+    expect(() => parseJournalJson('[]')).toThrow(JournalImportError);
+    expect(() => parseJournalJson(JSON.stringify({ entries: 'nope' }))).toThrow(JournalImportError);
+  });
+});
+
+describe('parseFrontMatter', () => {
+  it('reads quoted values, inline lists and block lists', () => {
+    const { data, body } = parseFrontMatter([
+      '---',
+      'title: "He said \\"hi\\""',
+      'author: \'O\'\'Brien\'',
+      'tags: ["a, b", c]',
+      'keywords:',
+      '  - one',
+      '  - "two"',
+      '---',
+      'Body',
+    ].join('\n'));
+
+    expect(data).toEqual({ title: 'He said "hi"', author: 'O\'Brien', tags: ['a, b', 'c'], keywords: ['one', 'two'] });
+    expect(body).toBe('Body');
+  });
+
+  it('keeps JSON-style inline lists whole', () => {
+    expect(parseFrontMatter('---\ntags: ["a, b", "c"]\n---\n').data.tags).toEqual(['a, b', 'c']);
+  });
+});
+
+describe('parseMarkdownFile', () => {
+  it('takes the date from the file name and the title from the heading', () => {
+    const entry = parseMarkdownFile('notes/2024-05-01-walk.md', '# Evening walk\n\nPeaceful.');
+    expect(entry).toMatchObject({ title: 'Evening walk', content: 'Peaceful.', import_source: 'markdown' });
+    expect(new Date(entry!.created_at).getDate()).toBe(1);
+  });
+
+  it('falls back to the modified time and the file name', () => {
+    const entry = parseMarkdownFile('quiet_time.md', 'Just text', Date.UTC(2024, 0, 2, 12));
+    expect(entry).toMatchObject({ title: 'quiet time', content: 'Just text', created_at: '2024-01-02T12:00:00.000Z' });
+  });
+
+  it('skips files without a date', () => {
+    expect(parseMarkdownFile('undated.md', 'Text')).toBeNull();
+  });
+});
+
+describe('CSV', () => {
+  it('parses quoted fields and guesses the columns', () => {
+    const rows = parseCsv('Date;Title;Entry;Tags\n2024-05-01;"Morning; early";"Line one\nsaid ""amen""";"a, b"\n');
+    expect(rows[1]).toEqual(['2024-05-01', 'Morning; early', 'Line one\nsaid "amen"', 'a, b']);
+
+    const mapping = guessCsvMapping(rows[0]);
+    expect(mapping).toEqual({ title: 1, content: 2, date: 0, tags: 3 });
+    expect(csvRowsToEntries(rows, mapping, false)).toMatchObject([
+      { title: 'Morning; early', tags: ['a', 'b'], import_source: 'csv' },
+    ]);
+  });
+});
+
+describe('applyImportOptions and findDuplicateEntries', () => {
+  const imported: ImportedEntry = {
+    title: 'Morning',
+    content: 'Prayed',
+    created_at: '2024-05-01T10:00:00.000Z',
+    tags: ['Prayer', 'Old'],
+    import_source: 'dayone',
+    import_id: 'ABC',
+  };
+
+  it('renames, drops and adds tags', () => {
+    const [entry] = applyImportOptions([imported], {
+      extraTag: 'Imported',
+      lowercaseTags: true,
+      tagRenames: { old: '' , prayer: 'Prayers' },
+    });
+    expect(entry.tags).toEqual(['prayers', 'imported']);
+  });
+
+  it('matches by import id, by fingerprint and within the same import', () => {
+    const existing = [
+      { title: 'Other', summary: '', content: 'x', created_at: '2020-01-01', import_source: 'dayone', import_id: 'ABC' },
+      { title: 'morning', summary: '', content: '**Prayed**', created_at: '2024-05-01T18:00:00+00:00' },
+    ];
+    const fresh = { ...imported, import_id: 'NEW', title: 'New', content: 'New text' };
+
+    expect(findDuplicateEntries([imported], existing.slice(0, 1))).toEqual(new Set([0]));
+    expect(findDuplicateEntries([{ ...imported, import_id: undefined }], existing.slice(1))).toEqual(new Set([0]));
+    expect(findDuplicateEntries([fresh, fresh], [])).toEqual(new Set([1]));
+  });
+});
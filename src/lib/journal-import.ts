@@ -0,0 +1,572 @@
+// Importing journals from other apps: Day One and Journey JSON exports, our
+// own JSON export, Markdown files with front matter and CSV. Each parser
+// produces the same ImportedEntry shape; tag and date options are applied
+// afterwards, and entries already in the journal are skipped.
+import { supabase } from './supabase';
+import { sealJournalEntry } from './journal-crypto';
+import { markdownToPlainText } from './markdown';
+import { JournalEntry, JournalSection, JournalSectionType } from './types';
+
+export type ImportSource = 'dayone' | 'journey' | 'truenorth' | 'markdown' | 'csv';
+
+export interface ImportedEntry {
+  title: string;
+  content: string;
+  created_at: string;
+  tags: string[];
+  related_scripture?: string;
+  mood_score?: number;
+  spiritual_score?: number;
+  // Guided entries restored from a TrueNorth export
+  template_id?: string;
+  sections?: JournalSection[];
+  import_source: ImportSource;
+  import_id?: string;
+}
+
+export interface ImportOptions {
+  // Added to every imported entry, e.g. "imported"
+  extraTag?: string;
+  lowercaseTags: boolean;
+  // Source tag name to journal tag name; an empty name drops the tag
+  tagRenames?: Record<string, string>;
+}
+
+// Columns of a CSV file, by index
+export interface CsvMapping {
+  title: number | null;
+  content: number;
+  date: number | null;
+  tags: number | null;
+}
+
+export class JournalImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JournalImportError';
+  }
+}
+
+const TITLE_LENGTH = 120;
+const SUMMARY_LENGTH = 160;
+const INSERT_BATCH_SIZE = 50;
+
+// -------------------- Shared helpers ------------------------------------
+
+function firstLineTitle(text: string): { title: string; body: string } {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const index = lines.findIndex(line => line.trim());
+  if (index === -1) return { title: '', body: '' };
+
+  const line = lines[index].trim();
+  const heading = line.match(/^#{1,6}\s+(.*)$/);
+  if (heading) {
+    return { title: heading[1].trim(), body: lines.slice(index + 1).join('\n').trim() };
+  }
+  // A plain first line doubles as the title but stays part of the entry
+  return { title: markdownToPlainText(line), body: lines.slice(index).join('\n').trim() };
+}
+
+function clipTitle(title: string): string {
+  return title.length > TITLE_LENGTH ? `${title.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : title;
+}
+
+// -------------------- Untrusted JSON ------------------------------------
+
+type JsonRecord = Record<string, unknown>;
+
+const SECTION_TYPES: JournalSectionType[] = ['text', 'list', 'scripture', 'rating'];
+
+function isRecord(value: unknown): value is JsonRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function recordsIn(value: unknown): JsonRecord[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+function textField(value: unknown): string {
+  if (typeof value === 'string') return value;
+  return typeof value === 'number' && Number.isFinite(value) ? String(value) : '';
+}
+
+function idField(value: unknown): string | undefined {
+  return textField(value).trim() || undefined;
+}
+
+function scoreField(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 10 ? value : undefined;
+}
+
+function isJournalSection(value: unknown): value is JournalSection {
+  if (!isRecord(value)) return false;
+  const answer = value.value;
+  return (
+    typeof value.id === 'string' &&
+    typeof value.label === 'string' &&
+    SECTION_TYPES.includes(value.type as JournalSectionType) &&
+    (answer === null ||
+      typeof answer === 'string' ||
+      typeof answer === 'number' ||
+      (Array.isArray(answer) && answer.every(item => typeof item === 'string'))) &&
+    (value.reference === undefined || typeof value.reference === 'string')
+  );
+}
+
+function splitTags(value: unknown): string[] {
+  const items: unknown[] = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,;]/) : [];
+  return items
+    .map(item => textField(item).trim().replace(/^#/, ''))
+    .filter(Boolean);
+}
+
+function toIsoDate(value: Date): string | null {
+  return Number.isNaN(value.getTime()) ? null : value.toISOString();
+}
+
+/**
+ * Reads the date formats export files use: ISO 8601, Unix seconds or
+ * milliseconds, and numeric dates like 05/04/2024 (day first when dayFirst).
+ */
+export function parseImportDate(value: unknown, dayFirst = false): string | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? toIsoDate(new Date(value < 1e11 ? value * 1000 : value)) : null;
+  }
+  if (typeof value !== 'string' || !value.trim()) return null;
+
+  const text = value.trim();
+  if (/^\d{9,13}$/.test(text)) return parseImportDate(Number(text));
+
+  const numeric = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]m)?)?$/i);
+  if (numeric) {
+    const [, first, second, yearText, hourText, minute, secondText, meridiem] = numeric;
+    const year = yearText.length === 2 ? 2000 + Number(yearText) : Number(yearText);
+    const day = Number(dayFirst ? first : second);
+    const month = Number(dayFirst ? second : first);
+    let hour = Number(hourText || 0);
+    if (meridiem) hour = (hour % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    return toIsoDate(new Date(year, month - 1, day, hour, Number(minute || 0), Number(secondText || 0)));
+  }
+
+  // A bare date is a day in the writer's own time zone, not midnight UTC
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    return toIsoDate(new Date(`${text}T12:00:00`));
+  }
+  return toIsoDate(new Date(text));
+}
+
+// -------------------- JSON exports --------------------------------------
+
+// Day One escapes Markdown punctuation and links photos with its own scheme
+function cleanDayOneText(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\(dayone-moment:\/\/[^)]+\)\s*/g, '')
+    .replace(/\\([\\`*_{}[\]()#+\-.!>])/g, '$1')
+    .trim();
+}
+
+function parseDayOne(data: JsonRecord): ImportedEntry[] {
+  return recordsIn(data.entries).flatMap((item): ImportedEntry[] => {
+    const text = cleanDayOneText(textField(item.text));
+    const createdAt = parseImportDate(item.creationDate);
+    if (!text || !createdAt) return [];
+    const { title, body } = firstLineTitle(text);
+    const tags = splitTags(item.tags);
+    if (item.starred === true) tags.push('favorite');
+    return [{
+      title: clipTitle(title),
+      content: body || text,
+      created_at: createdAt,
+      tags,
+      import_source: 'dayone',
+      import_id: idField(item.uuid),
+    }];
+  });
+}
+
+// Journey writes one JSON file per entry, with HTML or plain text
+function parseJourney(item: JsonRecord): ImportedEntry[] {
+  const html = textField(item.text);
+  const text = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h\d|li)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, '\'')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  const createdAt = parseImportDate(item.date_journal);
+  if (!text || !createdAt) return [];
+  const { title, body } = firstLineTitle(text);
+  return [{
+    title: clipTitle(title),
+    content: body || text,
+    created_at: createdAt,
+    tags: splitTags(item.tags),
+    import_source: 'journey',
+    import_id: idField(item.id),
+  }];
+}
+
+// Our own JSON export, for moving between accounts or restoring a backup
+function parseTrueNorth(data: JsonRecord): ImportedEntry[] {
+  return recordsIn(data.entries).flatMap((item): ImportedEntry[] => {
+    const createdAt = parseImportDate(item.created_at);
+    const title = textField(item.title);
+    const content = textField(item.content);
+    if (!createdAt || (!content && !title)) return [];
+    const sections = Array.isArray(item.sections) ? item.sections.filter(isJournalSection) : [];
+    return [{
+      title: clipTitle(title),
+      content,
+      created_at: createdAt,
+      tags: splitTags(item.tags),
+      related_scripture: textField(item.related_scripture) || undefined,
+      mood_score: scoreField(item.mood_score),
+      spiritual_score: scoreField(item.spiritual_score),
+      template_id: textField(item.template_id) || undefined,
+      sections: sections.length > 0 ? sections : undefined,
+      import_source: 'truenorth',
+      import_id: idField(item.id),
+    }];
+  });
+}
+
+/**
+ * Entries from a Day One JSON export (Journal.json), a Journey entry file or
+ * a TrueNorth JSON export
+ */
+export function parseJournalJson(text: string): ImportedEntry[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new JournalImportError('This file is not valid JSON');
+  }
+
+  if (isRecord(data)) {
+    if (data.app === 'truenorth') return parseTrueNorth(data);
+    if (Array.isArray(data.entries)) return parseDayOne(data);
+    if ('date_journal' in data) return parseJourney(data);
+  }
+  if (Array.isArray(data) && data.length > 0 && data.every(item => isRecord(item) && 'date_journal' in item)) {
+    return recordsIn(data).flatMap(parseJourney);
+  }
+  throw new JournalImportError('This JSON file isn\'t a Day One, Journey or TrueNorth export');
+}
+
+// -------------------- Markdown ------------------------------------------
+
+// Double-quoted YAML strings use JSON escapes, which is how we export them;
+// single-quoted ones escape a quote by doubling it
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (/^".*"$/.test(trimmed)) {
+    try {
+      const decoded: unknown = JSON.parse(trimmed);
+      if (typeof decoded === 'string') return decoded;
+    } catch {
+      // Not valid JSON escapes; keep the text between the quotes
+    }
+    return trimmed.slice(1, -1);
+  }
+  if (/^'.*'$/.test(trimmed)) return trimmed.slice(1, -1).replace(/''/g, '\'');
+  return trimmed;
+}
+
+// An inline list, [a, "b, c"]; quoted items may hold commas
+function parseInlineList(value: string): string[] {
+  try {
+    const decoded: unknown = JSON.parse(value);
+    if (Array.isArray(decoded)) return decoded.map(textField).filter(Boolean);
+  } catch {
+    // YAML flow lists allow unquoted items, which JSON doesn't
+  }
+  const items = value.slice(1, -1).match(/"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^,]+/g) || [];
+  return items.map(unquote).filter(Boolean);
+}
+
+/**
+ * The simple YAML front matter journaling tools write: "key: value" lines,
+ * inline lists ([a, b]) and indented "- item" lists
+ */
+export function parseFrontMatter(text: string): { data: Record<string, string | string[]>; body: string } {
+  const match = text.replace(/^\uFEFF/, '').match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) return { data: {}, body: text };
+
+  const data: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (!pair) continue;
+    const key = pair[1].toLowerCase();
+    const value = pair[2].trim();
+    if (!value) {
+      data[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      data[key] = parseInlineList(value);
+      listKey = null;
+    } else {
+      data[key] = unquote(value);
+      listKey = null;
+    }
+  }
+  return { data, body: match[2] };
+}
+
+function frontMatterValue(data: Record<string, string | string[]>, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = data[key];
+    if (typeof value === 'string' && value) return value;
+  }
+  return undefined;
+}
+
+/**
+ * An entry from a Markdown file. The date comes from the front matter, a
+ * yyyy-mm-dd file name prefix or, failing both, the file's modified time.
+ */
+export function parseMarkdownFile(fileName: string, text: string, lastModified?: number): ImportedEntry | null {
+  const { data, body } = parseFrontMatter(text);
+  const baseName = fileName.split('/').pop()!.replace(/\.(md|markdown|txt)$/i, '');
+  const nameDate = baseName.match(/^(\d{4}-\d{2}-\d{2})/)?.[1];
+
+  const createdAt =
+    parseImportDate(frontMatterValue(data, 'date', 'created', 'created_at', 'creationdate')) ||
+    parseImportDate(nameDate) ||
+    (lastModified ? parseImportDate(lastModified) : null);
+  if (!createdAt) return null;
+
+  let title = frontMatterValue(data, 'title');
+  let content = body.trim();
+  if (title) {
+    // Files we export repeat the title as the first heading
+    const fromBody = firstLineTitle(content);
+    if (/^#\s/.test(content) && fromBody.title === title) content = fromBody.body;
+  } else {
+    const fromBody = firstLineTitle(content);
+    const isHeading = /^#{1,6}\s/.test(content);
+    title = isHeading
+      ? fromBody.title
+      : baseName.replace(/^\d{4}-\d{2}-\d{2}[-_ ]*/, '').replace(/[-_]+/g, ' ').trim() || fromBody.title;
+    if (isHeading) content = fromBody.body;
+  }
+  if (!content && !title) return null;
+
+  const mood = Number(frontMatterValue(data, 'mood', 'mood_score'));
+  return {
+    title: clipTitle(title),
+    content,
+    created_at: createdAt,
+    tags: splitTags(data.tags ?? data.keywords),
+    related_scripture: frontMatterValue(data, 'scripture', 'related_scripture'),
+    mood_score: Number.isFinite(mood) && mood >= 1 && mood <= 10 ? Math.round(mood) : undefined,
+    import_source: 'markdown',
+  };
+}
+
+// -------------------- CSV -----------------------------------------------
+
+/**
+ * Rows of a CSV file (RFC 4180: quoted fields may hold commas, quotes and
+ * line breaks). Semicolon-separated files are detected from the header.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const headerLine = source.split('\n', 1)[0];
+  const delimiter = (headerLine.match(/;/g) || []).length > (headerLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+function findColumn(headers: string[], names: string[]): number | null {
+  const index = headers.findIndex(header => names.includes(header.trim().toLowerCase()));
+  return index === -1 ? null : index;
+}
+
+export function guessCsvMapping(headers: string[]): CsvMapping {
+  return {
+    title: findColumn(headers, ['title', 'subject', 'heading', 'name']),
+    content: findColumn(headers, ['content', 'text', 'body', 'entry', 'note', 'notes']) ?? 0,
+    date: findColumn(headers, ['date', 'created', 'created_at', 'creation date', 'timestamp', 'time']),
+    tags: findColumn(headers, ['tags', 'tag', 'labels', 'keywords', 'categories']),
+  };
+}
+
+/**
+ * Entries from CSV rows (header row first). Rows without content or a
+ * readable date are left out.
+ */
+export function csvRowsToEntries(rows: string[][], mapping: CsvMapping, dayFirst: boolean): ImportedEntry[] {
+  return rows.slice(1).flatMap((row): ImportedEntry[] => {
+    const content = (row[mapping.content] || '').trim();
+    if (!content) return [];
+    const createdAt = mapping.date !== null ? parseImportDate(row[mapping.date], dayFirst) : new Date().toISOString();
+    if (!createdAt) return [];
+
+    const title = mapping.title !== null ? (row[mapping.title] || '').trim() : '';
+    const fromContent = firstLineTitle(content);
+    return [{
+      title: clipTitle(title || fromContent.title),
+      content,
+      created_at: createdAt,
+      tags: mapping.tags !== null ? splitTags(row[mapping.tags]) : [],
+      import_source: 'csv',
+    }];
+  });
+}
+
+// -------------------- Mapping and dedupe --------------------------------
+
+export function applyImportOptions(entries: ImportedEntry[], options: ImportOptions): ImportedEntry[] {
+  const renames = Object.fromEntries(
+    Object.entries(options.tagRenames || {}).map(([from, to]) => [from.toLowerCase(), to.trim()])
+  );
+  const extraTag = options.extraTag?.trim();
+
+  return entries.map(entry => {
+    const tags = entry.tags
+      .map(tag => (tag.toLowerCase() in renames ? renames[tag.toLowerCase()] : tag))
+      .filter(Boolean)
+      .map(tag => (options.lowercaseTags ? tag.toLowerCase() : tag));
+    if (extraTag) tags.push(options.lowercaseTags ? extraTag.toLowerCase() : extraTag);
+    return { ...entry, tags: Array.from(new Set(tags)) };
+  });
+}
+
+function normalizeForMatch(text: string): string {
+  return markdownToPlainText(text).toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// Same day, same title and same opening: the same entry, whatever app it went through
+function fingerprint(entry: { created_at?: string; title: string; content: string }): string {
+  const day = entry.created_at ? entry.created_at.slice(0, 10) : '';
+  return `${day}|${normalizeForMatch(entry.title)}|${normalizeForMatch(entry.content).slice(0, 200)}`;
+}
+
+/**
+ * Indexes of imported entries already in the journal, or repeated earlier in
+ * the same import
+ */
+export function findDuplicateEntries(imported: ImportedEntry[], existing: JournalEntry[]): Set<number> {
+  const importIds = new Set([
+    ...existing.filter(entry => entry.import_id).map(entry => `${entry.import_source}:${entry.import_id}`),
+    // Restoring our own export into the same account
+    ...existing.filter(entry => entry.id).map(entry => `truenorth:${entry.id}`),
+  ]);
+  const fingerprints = new Set(existing.map(fingerprint));
+  const duplicates = new Set<number>();
+
+  imported.forEach((entry, index) => {
+    const importKey = entry.import_id ? `${entry.import_source}:${entry.import_id}` : null;
+    const print = fingerprint(entry);
+    if ((importKey && importIds.has(importKey)) || fingerprints.has(print)) {
+      duplicates.add(index);
+      return;
+    }
+    if (importKey) importIds.add(importKey);
+    fingerprints.add(print);
+  });
+  return duplicates;
+}
+
+function summarize(content: string): string {
+  const text = markdownToPlainText(content).replace(/\s+/g, ' ').trim();
+  return text.length > SUMMARY_LENGTH ? `${text.slice(0, SUMMARY_LENGTH - 1).trimEnd()}…` : text;
+}
+
+/**
+ * Saves imported entries in batches, encrypting them first when the journal
+ * is encrypted. Unlike saving one entry, this doesn't ask the coach to learn
+ * from each entry; a whole history at once would flood it.
+ */
+export async function importJournalEntries(
+  entries: ImportedEntry[],
+  onProgress?: (saved: number) => void
+): Promise<number> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) {
+    throw new Error('User not authenticated');
+  }
+
+  let saved = 0;
+  for (let start = 0; start < entries.length; start += INSERT_BATCH_SIZE) {
+    const rows = await Promise.all(
+      entries.slice(start, start + INSERT_BATCH_SIZE).map(async entry => {
+        const row: JournalEntry = {
+          user_id: userData.user!.id,
+          title: entry.title || 'Untitled entry',
+          content: entry.content,
+          summary: summarize(entry.content),
+          tags: entry.tags,
+          related_scripture: entry.related_scripture,
+          mood_score: entry.mood_score,
+          spiritual_score: entry.spiritual_score,
+          template_id: entry.template_id || null,
+          sections: entry.sections || null,
+          created_at: entry.created_at,
+          import_source: entry.import_source,
+          import_id: entry.import_id || null,
+        };
+        return (await sealJournalEntry(row)) || row;
+      })
+    );
+
+    const { error } = await supabase.from('journal_entries').insert(rows);
+    if (error) {
+      console.error('Error importing journal entries:', error);
+      throw error;
+    }
+    saved += rows.length;
+    onProgress?.(saved);
+  }
+  return saved;
+}
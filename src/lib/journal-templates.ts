@@ -0,0 +1,326 @@
+// Guided journaling formats. Each template is a list of typed sections with a
+// prompt; answers are stored section by section on the entry (for analytics)
+// and also written out as Markdown content so the entry reads like any other.
+import { format } from 'date-fns';
+import { supabase } from './supabase';
+import { getAllUserReadingProgress, getDailyReading } from './reading-plans';
+import { JournalSection, JournalSectionType } from './types';
+
+export interface JournalTemplateSection {
+  id: string;
+  label: string;
+  type: JournalSectionType;
+  prompt: string;
+  placeholder?: string;
+  // Rating sections: what the low and high ends mean
+  scale?: [string, string];
+}
+
+export interface JournalTemplate {
+  id: string;
+  name: string;
+  description: string;
+  sections: JournalTemplateSection[];
+}
+
+// Today's reading-plan passage and devotional, used to tailor prompts
+export interface JournalPromptContext {
+  passage?: {
+    reference: string;
+    title: string;
+    planId: string;
+    dayNumber: number;
+  };
+  devotional?: {
+    title: string;
+    reference: string;
+    excerpt: string;
+  };
+}
+
+// Prompts written for today, by section id
+export type TemplatePrompts = Record<string, string>;
+
+export const JOURNAL_TEMPLATES: JournalTemplate[] = [
+  {
+    id: 'acts',
+    name: 'ACTS Prayer',
+    description: 'Adoration, Confession, Thanksgiving and Supplication',
+    sections: [
+      {
+        id: 'adoration',
+        label: 'Adoration',
+        type: 'text',
+        prompt: 'Praise God for who He is. Which of His attributes stands out to you today?',
+      },
+      {
+        id: 'confession',
+        label: 'Confession',
+        type: 'text',
+        prompt: 'Where have you fallen short? Bring it honestly before God and receive His forgiveness.',
+      },
+      {
+        id: 'thanksgiving',
+        label: 'Thanksgiving',
+        type: 'list',
+        prompt: 'What are you thankful for?',
+        placeholder: 'One thing per line',
+      },
+      {
+        id: 'supplication',
+        label: 'Supplication',
+        type: 'list',
+        prompt: 'What do you ask of God, for yourself and for others?',
+        placeholder: 'One request per line',
+      },
+    ],
+  },
+  {
+    id: 'examen',
+    name: 'Daily Examen',
+    description: 'The Ignatian prayer of reviewing your day with God',
+    sections: [
+      {
+        id: 'presence',
+        label: 'Presence',
+        type: 'text',
+        prompt: 'Become aware of God\'s presence. Ask the Spirit to help you see your day as He sees it.',
+      },
+      {
+        id: 'gratitude',
+        label: 'Gratitude',
+        type: 'list',
+        prompt: 'Review the day with gratitude. Which moments were gifts?',
+        placeholder: 'One moment per line',
+      },
+      {
+        id: 'emotions',
+        label: 'Emotions',
+        type: 'text',
+        prompt: 'Pay attention to your emotions. Where did you feel close to God (consolation) or far from Him (desolation)?',
+      },
+      {
+        id: 'focus',
+        label: 'One Moment',
+        type: 'text',
+        prompt: 'Choose one moment from the day and pray from it.',
+      },
+      {
+        id: 'tomorrow',
+        label: 'Tomorrow',
+        type: 'text',
+        prompt: 'Look toward tomorrow. What do you need from God for it?',
+      },
+      {
+        id: 'consolation',
+        label: 'Consolation',
+        type: 'rating',
+        prompt: 'Overall, how close to God did you feel today?',
+        scale: ['Far away', 'Very close'],
+      },
+    ],
+  },
+  {
+    id: 'soap',
+    name: 'SOAP Bible Study',
+    description: 'Scripture, Observation, Application and Prayer',
+    sections: [
+      {
+        id: 'scripture',
+        label: 'Scripture',
+        type: 'scripture',
+        prompt: 'Write out the passage, or the verse that stood out to you.',
+      },
+      {
+        id: 'observation',
+        label: 'Observation',
+        type: 'text',
+        prompt: 'What do you notice? Who is speaking, to whom, and what does it say about God?',
+      },
+      {
+        id: 'application',
+        label: 'Application',
+        type: 'text',
+        prompt: 'How does this apply to your life today? What will you do differently?',
+      },
+      {
+        id: 'prayer',
+        label: 'Prayer',
+        type: 'text',
+        prompt: 'Write a prayer in response to what you read.',
+      },
+    ],
+  },
+  {
+    id: 'gratitude',
+    name: 'Gratitude',
+    description: 'Count your blessings and notice God at work',
+    sections: [
+      {
+        id: 'blessings',
+        label: 'Blessings',
+        type: 'list',
+        prompt: 'List three things you are grateful for today.',
+        placeholder: 'One blessing per line',
+      },
+      {
+        id: 'god_at_work',
+        label: 'God at Work',
+        type: 'text',
+        prompt: 'Where did you see God at work today?',
+      },
+      {
+        id: 'joy',
+        label: 'Joy',
+        type: 'rating',
+        prompt: 'How joyful do you feel?',
+        scale: ['Heavy', 'Joyful'],
+      },
+    ],
+  },
+];
+
+export function getJournalTemplate(id: string | null | undefined): JournalTemplate | null {
+  return JOURNAL_TEMPLATES.find(template => template.id === id) || null;
+}
+
+/**
+ * Empty answers for every section of a template, keeping any already given
+ */
+export function createTemplateSections(template: JournalTemplate, existing: JournalSection[] = []): JournalSection[] {
+  return template.sections.map(section => {
+    const answer = existing.find(candidate => candidate.id === section.id);
+    return {
+      id: section.id,
+      label: section.label,
+      type: section.type,
+      value: answer?.value ?? (section.type === 'list' ? [] : section.type === 'rating' ? null : ''),
+      ...(section.type === 'scripture' ? { reference: answer?.reference || '' } : {}),
+    };
+  });
+}
+
+function hasAnswer(section: JournalSection): boolean {
+  if (Array.isArray(section.value)) return section.value.some(item => item.trim());
+  if (typeof section.value === 'string') return !!section.value.trim() || !!section.reference;
+  return section.value !== null;
+}
+
+export function isTemplateEntryEmpty(sections: JournalSection[]): boolean {
+  return !sections.some(hasAnswer);
+}
+
+/**
+ * The entry written out as Markdown, one heading per answered section
+ */
+export function composeTemplateContent(template: JournalTemplate, sections: JournalSection[]): string {
+  return sections
+    .filter(hasAnswer)
+    .map(section => {
+      const definition = template.sections.find(candidate => candidate.id === section.id);
+      let body = '';
+      if (Array.isArray(section.value)) {
+        body = section.value.filter(item => item.trim()).map(item => `- ${item.trim()}`).join('\n');
+      } else if (section.type === 'rating' && typeof section.value === 'number') {
+        const scale = definition?.scale ? ` (1 = ${definition.scale[0]}, 5 = ${definition.scale[1]})` : '';
+        body = `${section.value}/5${scale}`;
+      } else if (section.type === 'scripture') {
+        const text = String(section.value || '').trim();
+        body = [
+          section.reference ? `**${section.reference}**` : '',
+          text ? text.split('\n').map(line => `> ${line}`).join('\n') : '',
+        ].filter(Boolean).join('\n\n');
+      } else {
+        body = String(section.value).trim();
+      }
+      return `## ${section.label}\n\n${body}`;
+    })
+    .join('\n\n');
+}
+
+export function defaultTemplateTitle(template: JournalTemplate, date = new Date()): string {
+  return `${template.name} — ${format(date, 'MMMM d')}`;
+}
+
+/**
+ * Today's passage from the reading plan in progress and today's devotional,
+ * whichever exist
+ */
+export async function getJournalPromptContext(): Promise<JournalPromptContext> {
+  const context: JournalPromptContext = {};
+
+  try {
+    const progress = (await getAllUserReadingProgress()).find(plan => !plan.is_completed);
+    if (progress) {
+      const reading = await getDailyReading(progress.plan_id, progress.current_day);
+      if (reading) {
+        context.passage = {
+          reference: reading.scripture_reference,
+          title: reading.title,
+          planId: progress.plan_id,
+          dayNumber: reading.day_number,
+        };
+      }
+    }
+
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    const { data: devotional, error } = await supabase
+      .from('ai_devotionals')
+      .select('title,scripture_reference,content')
+      .gte('created_at', startOfToday.toISOString())
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) {
+      console.error('Error fetching today\'s devotional:', error);
+    } else if (devotional) {
+      context.devotional = {
+        title: devotional.title,
+        reference: devotional.scripture_reference,
+        excerpt: String(devotional.content || '').slice(0, 600),
+      };
+    }
+  } catch (error) {
+    console.error('Error loading journal prompt context:', error);
+  }
+
+  return context;
+}
+
+/**
+ * Prompts for each section written around today's passage or devotional
+ */
+export async function generateTemplatePrompts(
+  template: JournalTemplate,
+  context: JournalPromptContext
+): Promise<TemplatePrompts> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/journal-prompts`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({
+      template: {
+        name: template.name,
+        sections: template.sections.map(({ id, label, prompt }) => ({ id, label, prompt })),
+      },
+      context,
+    }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    console.error('Error generating journal prompts:', data);
+    throw new Error(data.error || `Failed to generate prompts: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.prompts || {};
+}
@@ -0,0 +1,158 @@
+// Calendar, "On this day" and timeline views of the journal: entries grouped
+// by day with their mood, entries from the same date in past years, and one
+// timeline of entries, answered prayers, memorized verses and completed goals.
+import { format, getDate, getMonth, getYear } from 'date-fns';
+import { supabase } from './supabase';
+import { getJournalEntries } from './journal';
+import { JournalEntry, PrayerRequest, ScriptureMemory, SpiritualGoal } from './types';
+
+export type TimelineItemType = 'journal' | 'prayer' | 'verse' | 'goal';
+
+export interface TimelineItem {
+  // Unique across types, e.g. "prayer:<id>"
+  key: string;
+  type: TimelineItemType;
+  date: string;
+  title: string;
+  detail?: string;
+  // Journal items carry the entry so it can be opened in place
+  entry?: JournalEntry;
+}
+
+export type MoodBand = 'low' | 'unsettled' | 'steady' | 'bright' | 'unrated';
+
+export interface JournalDay {
+  // yyyy-MM-dd in local time
+  date: string;
+  entries: JournalEntry[];
+  // Average mood_score (1-10) of the entries that have one
+  averageMood: number | null;
+}
+
+export function dayKey(date: Date | string): string {
+  return format(typeof date === 'string' ? new Date(date) : date, 'yyyy-MM-dd');
+}
+
+export function getMoodBand(mood: number | null): MoodBand {
+  if (mood === null) return 'unrated';
+  if (mood <= 3) return 'low';
+  if (mood <= 5) return 'unsettled';
+  if (mood <= 7) return 'steady';
+  return 'bright';
+}
+
+/**
+ * Entries grouped by the local day they were written, keyed by yyyy-MM-dd
+ */
+export function groupEntriesByDay(entries: JournalEntry[]): Map<string, JournalDay> {
+  const days = new Map<string, JournalDay>();
+  for (const entry of entries) {
+    if (!entry.created_at) continue;
+    const key = dayKey(entry.created_at);
+    const day = days.get(key) || { date: key, entries: [], averageMood: null };
+    day.entries.push(entry);
+    days.set(key, day);
+  }
+
+  days.forEach(day => {
+    const moods = day.entries
+      .map(entry => entry.mood_score)
+      .filter((mood): mood is number => typeof mood === 'number');
+    day.averageMood = moods.length > 0 ? moods.reduce((sum, mood) => sum + mood, 0) / moods.length : null;
+  });
+  return days;
+}
+
+/**
+ * Entries written on this calendar date in earlier years, most recent first
+ */
+export function getOnThisDayEntries(entries: JournalEntry[], today = new Date()): JournalEntry[] {
+  return entries
+    .filter(entry => {
+      if (!entry.created_at) return false;
+      const written = new Date(entry.created_at);
+      return (
+        getMonth(written) === getMonth(today) &&
+        getDate(written) === getDate(today) &&
+        getYear(written) < getYear(today)
+      );
+    })
+    .sort((a, b) => new Date(b.created_at!).getTime() - new Date(a.created_at!).getTime());
+}
+
+/**
+ * Everything that marks the journey so far, newest first: journal entries,
+ * answered prayers, memorized verses and completed goals
+ */
+export async function getFaithfulnessTimeline(): Promise<TimelineItem[]> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) {
+    throw new Error('User not authenticated');
+  }
+  const userId = userData.user.id;
+
+  const [prayers, verses, goals] = await Promise.all([
+    supabase
+      .from('prayer_requests')
+      .select('id,title,answered_date,answered_notes,updated_at')
+      .eq('user_id', userId)
+      .eq('is_answered', true),
+    supabase
+      .from('scripture_memory')
+      .select('id,verse_reference,verse_text,memorized_at')
+      .eq('user_id', userId)
+      .not('memorized_at', 'is', null),
+    supabase
+      .from('spiritual_goals')
+      .select('id,title,description,completed_at')
+      .eq('user_id', userId)
+      .not('completed_at', 'is', null),
+  ]);
+
+  if (prayers.error) console.error('Error fetching answered prayers:', prayers.error);
+  if (verses.error) console.error('Error fetching memorized verses:', verses.error);
+  if (goals.error) console.error('Error fetching completed goals:', goals.error);
+
+  const entries = await getJournalEntries();
+  const answeredPrayers = (prayers.data || []) as PrayerRequest[];
+  const memorizedVerses = (verses.data || []) as ScriptureMemory[];
+  const completedGoals = (goals.data || []) as SpiritualGoal[];
+
+  const items: TimelineItem[] = [
+    ...entries
+      .filter(entry => entry.created_at)
+      .map(entry => ({
+        key: `journal:${entry.id}`,
+        type: 'journal' as const,
+        date: entry.created_at!,
+        title: entry.title,
+        detail: entry.summary || undefined,
+        entry,
+      })),
+    ...answeredPrayers
+      .filter(prayer => prayer.answered_date || prayer.updated_at)
+      .map(prayer => ({
+        key: `prayer:${prayer.id}`,
+        type: 'prayer' as const,
+        date: (prayer.answered_date || prayer.updated_at)!,
+        title: prayer.title,
+        detail: prayer.answered_notes || undefined,
+      })),
+    ...memorizedVerses.map(verse => ({
+      key: `verse:${verse.id}`,
+      type: 'verse' as const,
+      date: verse.memorized_at!,
+      title: verse.verse_reference,
+      detail: verse.verse_text,
+    })),
+    ...completedGoals.map(goal => ({
+      key: `goal:${goal.id}`,
+      type: 'goal' as const,
+      date: goal.completed_at!,
+      title: goal.title,
+      detail: goal.description || undefined,
+    })),
+  ];
+
+  return items.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
@@ -1,5 +1,7 @@
 import { supabase } from './supabase';
 import { JournalEntry } from './types';
+import { extractMemoryFactsFromJournal } from './user-memory';
+import { JournalEncryptionError, isEntryLocked, openJournalEntry, sealJournalEntry } from './journal-crypto';
 
 /**
  * Get all journal entries for the current user
@@ -18,7 +20,8 @@ export async function getJournalEntries(): Promise<JournalEntry[]> {
       return [];
     }
     
-    return data as JournalEntry[];
+    // Private entries stay sealed while the journal is locked
+    return Promise.all((data as JournalEntry[]).map(openJournalEntry));
   } catch (error) {
     console.error('Error in getJournalEntries:', error);
     return [];
@@ -40,10 +43,11 @@ export async function saveJournalEntry(entry: JournalEntry): Promise<JournalEntr
       ...entry,
       user_id: userData.user.id
     };
+    const sealed = await sealJournalEntry(entryWithUserId);
     
     const { data, error } = await supabase
       .from('journal_entries')
-      .insert([entryWithUserId])
+      .insert([sealed || entryWithUserId])
       .select();
     
     if (error) {
@@ -51,9 +55,15 @@ export async function saveJournalEntry(entry: JournalEntry): Promise<JournalEntr
       return null;
     }
     
-    return data[0] as JournalEntry;
+    const saved = await openJournalEntry(data[0] as JournalEntry);
+    // Runs in the background; the coach learns from the entry without delaying the save.
+    // Private entries are never sent to the server in readable form.
+    if (saved.id && !saved.is_encrypted) extractMemoryFactsFromJournal(saved.id);
+    return saved;
   } catch (error) {
     console.error('Error in saveJournalEntry:', error);
+    // The caller explains why, e.g. the journal needs unlocking first
+    if (error instanceof JournalEncryptionError) throw error;
     return null;
   }
 }
@@ -74,7 +84,7 @@ export async function getJournalEntryById(id: string): Promise<JournalEntry | nu
       return null;
     }
     
-    return data as JournalEntry;
+    return openJournalEntry(data as JournalEntry);
   } catch (error) {
     console.error('Error in getJournalEntryById:', error);
     return null;
@@ -92,15 +102,20 @@ export async function updateJournalEntry(entry: JournalEntry): Promise<JournalEn
       throw new Error('User not authenticated');
     }
     
+    if (isEntryLocked(entry)) {
+      throw new JournalEncryptionError('Unlock your journal to edit private entries', 'locked');
+    }
+    
     // Ensure we only update entries owned by this user
     const entryWithUserId = {
       ...entry,
       user_id: userData.user.id
     };
+    const sealed = await sealJournalEntry(entryWithUserId);
     
     const { data, error } = await supabase
       .from('journal_entries')
-      .update(entryWithUserId)
+      .update(sealed || entryWithUserId)
       .eq('id', entry.id)
       .eq('user_id', userData.user.id) // Extra protection
       .select();
@@ -110,9 +125,12 @@ export async function updateJournalEntry(entry: JournalEntry): Promise<JournalEn
       return null;
     }
     
-    return data[0] as JournalEntry;
+    const updated = await openJournalEntry(data[0] as JournalEntry);
+    if (updated.id && !updated.is_encrypted) extractMemoryFactsFromJournal(updated.id);
+    return updated;
   } catch (error) {
     console.error('Error in updateJournalEntry:', error);
+    if (error instanceof JournalEncryptionError) throw error;
     return null;
   }
 }
@@ -144,4 +162,47 @@ export async function deleteJournalEntry(id: string): Promise<boolean> {
     console.error('Error in deleteJournalEntry:', error);
     return false;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Encrypt entries written before encryption was turned on, or saved from chat
+ * since. Returns how many were encrypted.
+ */
+export async function encryptExistingJournalEntries(): Promise<number> {
+  const { data: userData } = await supabase.auth.getUser();
+  
+  if (!userData.user) {
+    throw new Error('User not authenticated');
+  }
+  
+  const { data, error } = await supabase
+    .from('journal_entries')
+    .select('*')
+    .eq('user_id', userData.user.id)
+    .or('is_encrypted.is.null,is_encrypted.eq.false');
+  
+  if (error) {
+    console.error('Error fetching unencrypted journal entries:', error);
+    throw error;
+  }
+  
+  let encrypted = 0;
+  for (const entry of data as JournalEntry[]) {
+    const sealed = await sealJournalEntry(entry);
+    if (!sealed) break;
+    
+    const { error: updateError } = await supabase
+      .from('journal_entries')
+      .update(sealed)
+      .eq('id', entry.id)
+      .eq('user_id', userData.user.id);
+    
+    if (updateError) {
+      console.error('Error encrypting journal entry:', updateError);
+      throw updateError;
+    }
+    encrypted++;
+  }
+  
+  return encrypted;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { markdownToPlainText, parseInline, parseMarkdown, safeLinkHref } from './markdown';
+
+describe('safeLinkHref', () => {
+  it('allows web, mail and in-app links', () => {
+    expect(safeLinkHref('https://example.com')).toBe('https://example.com');
+    expect(safeLinkHref('mailto:me@example.com')).toBe('mailto:me@example.com');
+    expect(safeLinkHref('/journal')).toBe('/journal');
+    expect(safeLinkHref('#notes')).toBe('#notes');
+  });
+
+  it('rejects script, data and protocol-relative links', () => {
+    expect(safeLinkHref('javascript:alert(1)')).toBeNull();
+    expect(safeLinkHref('java\nscript:alert(1)')).toBeNull();
+    expect(safeLinkHref('data:text/html,hi')).toBeNull();
+    expect(safeLinkHref('//evil.example')).toBeNull();
+  });
+});
+
+describe('parseInline', () => {
+  it('parses emphasis, code and links', () => {
+    expect(parseInline('**bold** and `code`')).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+      { type: 'text', text: ' and ' },
+      { type: 'code', text: 'code' },
+    ]);
+    expect(parseInline('[site](https://example.com)')).toEqual([
+      { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'site' }] },
+    ]);
+  });
+
+  it('leaves unsafe links as text', () => {
+    const nodes = parseInline('[click](javascript:alert(1))');
+    expect(nodes.some(node => node.type === 'link')).toBe(false);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('parses headings, lists, quotes and code', () => {
+    const blocks = parseMarkdown('# Title\n\n- one\n- two\n\n> quoted\n\n```\nraw <b>\n```');
+    expect(blocks.map(block => block.type)).toEqual(['heading', 'list', 'quote', 'code']);
+    expect(blocks[3]).toMatchObject({ type: 'code', text: 'raw <b>' });
+  });
+
+  it('keeps raw HTML as text', () => {
+    expect(parseMarkdown('<script>alert(1)</script>')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: '<script>alert(1)</script>' }] },
+    ]);
+  });
+});
+
+describe('markdownToPlainText', () => {
+  it('strips formatting', () => {
+    expect(markdownToPlainText('# Morning\n\nI *prayed* for [Sam](https://example.com).')).toBe(
+      'Morning\n\nI prayed for Sam.'
+    );
+  });
+});
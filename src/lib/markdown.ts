@@ -0,0 +1,307 @@
+// A small Markdown parser for user-written and AI-written text (journal
+// entries, chat messages). It produces a tree that is rendered as React
+// elements, never as HTML, so raw HTML in the text shows up as plain text and
+// only safe link targets become links.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'emphasis' | 'strike'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'code'; text: string; language?: string }
+  | { type: 'rule' };
+
+const FENCE = /^\s{0,3}(```|~~~)\s*([\w+-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+
+// Inline patterns, tried at the current position only
+const CODE_SPAN = /`([^`\n]+)`/y;
+const LINK = /\[([^\]\n]+)\]\(\s*([^)\s]+)\s*\)/y;
+const AUTOLINK = /https?:\/\/[^\s<>]*[^\s<>.,;:!?'")\]]/y;
+const STRONG = /(\*\*|__)(?=\S)([\s\S]*?\S)\1/y;
+const STRIKE = /~~(?=\S)([\s\S]*?\S)~~/y;
+const EMPHASIS = /([*_])(?=[^\s*_])([^\n]*?[^\s*_])\1/y;
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!>~|]/;
+
+/**
+ * The link target if it is safe to follow: web, mail and in-app links only.
+ * Anything else (javascript:, data:, protocol-relative URLs) returns null.
+ */
+export function safeLinkHref(href: string): string | null {
+  // Browsers ignore control characters and whitespace inside a scheme
+  const cleaned = href.replace(/[\u0000-\u0020\u007f]/g, '');
+  if (/^(https?:|mailto:)/i.test(cleaned)) return cleaned;
+  if (/^\/(?!\/)/.test(cleaned) || cleaned.startsWith('#')) return cleaned;
+  return null;
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return !!char && /[\p{L}\p{N}]/u.test(char);
+}
+
+function matchAt(pattern: RegExp, text: string, position: number): RegExpExecArray | null {
+  pattern.lastIndex = position;
+  return pattern.exec(text);
+}
+
+/**
+ * Parse the inline formatting of a single block of text
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+  const push = (node: MarkdownInline, length: number) => {
+    flush();
+    nodes.push(node);
+    return length;
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    let consumed = 0;
+
+    if (char === '\\' && ESCAPABLE.test(text[i + 1] || '')) {
+      buffer += text[i + 1];
+      consumed = 2;
+    } else if (char === '\n') {
+      // Keep the writer's line breaks, as the plain-text display used to
+      buffer = buffer.replace(/[ \t]+$/, '');
+      consumed = push({ type: 'break' }, 1);
+    } else if (char === '`') {
+      const match = matchAt(CODE_SPAN, text, i);
+      if (match) consumed = push({ type: 'code', text: match[1] }, match[0].length);
+    } else if (char === '[') {
+      const match = matchAt(LINK, text, i);
+      if (match) {
+        const href = safeLinkHref(match[2]);
+        const children = parseInline(match[1]);
+        if (href) {
+          consumed = push({ type: 'link', href, children }, match[0].length);
+        } else {
+          // Unsafe target: keep the label, drop the link
+          flush();
+          nodes.push(...children);
+          consumed = match[0].length;
+        }
+      }
+    } else if (char === 'h' && !isWordChar(text[i - 1])) {
+      const match = matchAt(AUTOLINK, text, i);
+      if (match) {
+        consumed = push({ type: 'link', href: match[0], children: [{ type: 'text', text: match[0] }] }, match[0].length);
+      }
+    } else if (char === '~') {
+      const match = matchAt(STRIKE, text, i);
+      if (match) consumed = push({ type: 'strike', children: parseInline(match[1]) }, match[0].length);
+    } else if (char === '*' || char === '_') {
+      // Underscores inside words (snake_case) are not emphasis
+      const intraword = char === '_' && isWordChar(text[i - 1]);
+      const strong = !intraword && matchAt(STRONG, text, i);
+      if (strong && !(char === '_' && isWordChar(text[i + strong[0].length]))) {
+        consumed = push({ type: 'strong', children: parseInline(strong[2]) }, strong[0].length);
+      } else {
+        const emphasis = !intraword && matchAt(EMPHASIS, text, i);
+        if (emphasis && !(char === '_' && isWordChar(text[i + emphasis[0].length]))) {
+          consumed = push({ type: 'emphasis', children: parseInline(emphasis[2]) }, emphasis[0].length);
+        }
+      }
+    }
+
+    if (consumed === 0) {
+      buffer += char;
+      consumed = 1;
+    }
+    i += consumed;
+  }
+
+  flush();
+  return nodes;
+}
+
+function isBlockStart(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+function indentOf(line: string): number {
+  return line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+}
+
+function stripIndent(line: string, count: number): string {
+  let removed = 0;
+  let index = 0;
+  while (index < line.length && removed < count && /\s/.test(line[index])) {
+    removed += line[index] === '\t' ? 4 : 1;
+    index++;
+  }
+  return line.slice(index);
+}
+
+function parseLines(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code', text: body.join('\n'), ...(fence[2] ? { language: fence[2] } : {}) });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        body.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseLines(body) });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      const baseIndent = indentOf(line);
+      const ordered = /\d/.test(listItem[2]);
+      const items: string[][] = [];
+      let current: string[] = [];
+      let contentIndent = baseIndent + listItem[2].length + 1;
+
+      while (i < lines.length) {
+        const candidate = lines[i];
+        const item = candidate.match(LIST_ITEM);
+
+        if (item && indentOf(candidate) === baseIndent && /\d/.test(item[2]) === ordered) {
+          if (current.length) items.push(current);
+          current = [item[3]];
+          contentIndent = baseIndent + item[2].length + 1;
+          i++;
+          continue;
+        }
+
+        if (!candidate.trim()) {
+          // A blank line ends the list unless the next line continues it
+          const next = lines.slice(i + 1).find(nextLine => nextLine.trim());
+          if (!next || indentOf(next) <= baseIndent && !LIST_ITEM.test(next)) break;
+          current.push('');
+          i++;
+          continue;
+        }
+
+        if (indentOf(candidate) > baseIndent) {
+          current.push(stripIndent(candidate, contentIndent));
+          i++;
+          continue;
+        }
+
+        // Lazy continuation of the item's text
+        if (!isBlockStart(candidate) && current.length && current[current.length - 1].trim()) {
+          current.push(candidate.trim());
+          i++;
+          continue;
+        }
+        break;
+      }
+      if (current.length) items.push(current);
+
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: ordered ? parseInt(listItem[2], 10) : 1,
+        items: items.map(itemLines => parseLines(itemLines)),
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !isBlockStart(lines[i]))) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse Markdown into blocks for rendering
+ */
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  return parseLines(text.replace(/\r\n?/g, '\n').split('\n'));
+}
+
+/**
+ * The text with Markdown formatting removed, e.g. for previews and search
+ */
+export function markdownToPlainText(text: string): string {
+  const inlineText = (nodes: MarkdownInline[]): string =>
+    nodes
+      .map(node => {
+        if (node.type === 'text' || node.type === 'code') return node.text;
+        if (node.type === 'break') return '\n';
+        return inlineText(node.children);
+      })
+      .join('');
+
+  const blockText = (blocks: MarkdownBlock[]): string =>
+    blocks
+      .map(block => {
+        switch (block.type) {
+          case 'heading':
+          case 'paragraph':
+            return inlineText(block.children);
+          case 'quote':
+            return blockText(block.children);
+          case 'list':
+            return block.items.map(item => blockText(item)).join('\n');
+          case 'code':
+            return block.text;
+          case 'rule':
+            return '';
+        }
+      })
+      .filter(Boolean)
+      .join('\n\n');
+
+  return blockText(parseMarkdown(text));
+}
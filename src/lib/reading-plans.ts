@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { validateScriptureReference } from './versification';
 
 export interface ReadingPlan {
   id: string;
@@ -381,6 +382,26 @@ export async function getReflection(planId: string, dayNumber: number): Promise<
   }
 }
 
+// Check the AI-chosen passage for every day of a generated plan. The plan is
+// saved by generate-reading-plan and the client can't write to it, so valid
+// references are only shown in canonical form and unreadable ones as written;
+// the days citing a passage that doesn't exist are returned.
+function checkPlanReferences(days: Pick<DailyReading, 'day_number' | 'scripture_reference'>[]): string[] {
+  const invalidDays: string[] = [];
+
+  for (const day of days) {
+    const validation = validateScriptureReference(day.scripture_reference);
+    if (validation.reason === 'unrecognized') continue;
+    if (!validation.valid) {
+      invalidDays.push(`day ${day.day_number}: ${validation.error}`);
+    } else if (validation.normalized) {
+      day.scripture_reference = validation.normalized;
+    }
+  }
+
+  return invalidDays;
+}
+
 // Generate a custom reading plan based on user preferences
 export async function generateCustomReadingPlan(preferences: ReadingPlanPreferences): Promise<{plan: ReadingPlan, progress: ReadingProgress} | null> {
   try {
@@ -415,6 +436,12 @@ export async function generateCustomReadingPlan(preferences: ReadingPlanPreferen
     }
     
     const data = await response.json();
+    if (data?.plan?.days) {
+      const invalidDays = checkPlanReferences(data.plan.days);
+      if (invalidDays.length > 0) {
+        console.warn(`Generated reading plan ${data.plan.id} cites passages that don't exist:`, invalidDays.join('; '));
+      }
+    }
     return data;
   } catch (error) {
     console.error('Error generating custom reading plan:', error);
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { findScriptureReferences, splitScriptureReferences } from './scripture-links';
+
+const references = (text: string) => findScriptureReferences(text).map(match => match.reference);
+
+describe('findScriptureReferences', () => {
+  it('finds references in prose with their position and written form', () => {
+    const text = 'Read John 3:16 and Rom 8:28 tonight.';
+    expect(findScriptureReferences(text)).toEqual([
+      { index: 5, length: 9, text: 'John 3:16', reference: 'John 3:16' },
+      { index: 19, length: 8, text: 'Rom 8:28', reference: 'Romans 8:28' },
+    ]);
+  });
+
+  it('keeps the number of a numbered book after a capitalized word', () => {
+    expect(references('See 1 John 4:8 for how God loves.')).toEqual(['1 John 4:8']);
+    expect(references('In 2 Timothy 3:16 Paul writes about scripture.')).toEqual(['2 Timothy 3:16']);
+    expect(references('Compare 1 Cor 13:4-7 with 2 Cor 5:17.')).toEqual([
+      '1 Corinthians 13:4-7',
+      '2 Corinthians 5:17',
+    ]);
+    expect(references('As I John 1:9 promises')).toEqual(['1 John 1:9']);
+  });
+
+  it('leaves the text before a numbered book unlinked', () => {
+    const [match] = findScriptureReferences('See 1 John 4:8');
+    expect(match.index).toBe(4);
+    expect(match.text).toBe('1 John 4:8');
+  });
+
+  it('ignores verses that do not exist and ordinary words', () => {
+    expect(references('Genesis 51:1 is not a chapter.')).toEqual([]);
+    expect(references('Is 3 enough? Am 5 people coming?')).toEqual([]);
+    expect(references('Chapter 3 of the book')).toEqual([]);
+  });
+
+  it('stops a chapter without a verse at the first comma', () => {
+    const [match] = findScriptureReferences('Psalm 23, 24 and more');
+    expect(match.text).toBe('Psalm 23');
+  });
+});
+
+describe('splitScriptureReferences', () => {
+  it('splits text around references', () => {
+    const parts = splitScriptureReferences('See 1 John 4:8 today');
+    expect(parts).toHaveLength(3);
+    expect(parts[0]).toBe('See ');
+    expect(parts[1]).toMatchObject({ reference: '1 John 4:8' });
+    expect(parts[2]).toBe(' today');
+  });
+});
@@ -0,0 +1,106 @@
+// Find scripture references inside free text (chat replies, journal entries)
+// so they can be rendered as interactive links.
+import { resolveBook } from './scripture-reference';
+import { validateScriptureReference } from './versification';
+
+export interface ScriptureMatch {
+  // Position of the reference in the source text
+  index: number;
+  length: number;
+  // The text as written, e.g. "1 Cor 13:4-7"
+  text: string;
+  // Canonical form, e.g. "1 Corinthians 13:4-7"
+  reference: string;
+}
+
+export type LinkedTextPart = string | ScriptureMatch;
+
+const VERSE_RANGE = String.raw`\d{1,3}(?::\d{1,3}[a-c]?)?(?:\s?[-\u2013\u2014]\s?\d{1,3}(?::\d{1,3})?)?`;
+const VERSE_LIST = String.raw`(?:,\s?\d{1,3}(?:\s?[-\u2013\u2014]\s?\d{1,3})?)*`;
+const CHAPTER_LIST = String.raw`(?:;\s?\d{1,3}:\d{1,3}(?:\s?[-\u2013\u2014]\s?\d{1,3})?${VERSE_LIST})*`;
+
+// A capitalized book name (optionally numbered, abbreviated or "Song of ...")
+// followed by chapter and verse numbers
+const REFERENCE_PATTERN = new RegExp(
+  String.raw`\b((?:[1-3]|I{1,3})\s?)?([A-Z][a-z]+\.?(?:\sof\s[A-Z][a-z]+)?)\s(${VERSE_RANGE}${VERSE_LIST}${CHAPTER_LIST})(?![\w:])`,
+  'g'
+);
+
+function isLikelyReference(bookText: string, numbers: string): boolean {
+  // Short abbreviations without a verse ("Is 3", "Am 5") are usually ordinary words
+  if (!numbers.includes(':')) {
+    const letters = bookText.replace(/[^a-z]/gi, '');
+    const book = resolveBook(bookText);
+    if (!book || (letters.length <= 3 && letters.toLowerCase() !== book.id)) return false;
+  }
+  return true;
+}
+
+function toScriptureMatch(match: RegExpExecArray): ScriptureMatch | null {
+  const [fullText, numberPrefix = '', bookText] = match;
+  let numbers = match[3];
+
+  // A verse list only makes sense after a chapter:verse ("John 3, 4" is prose)
+  if (!numbers.includes(':')) {
+    numbers = numbers.split(',')[0];
+  }
+
+  const bookName = `${numberPrefix}${bookText}`;
+  if (!resolveBook(bookName) || !isLikelyReference(bookName, numbers)) return null;
+
+  const candidate = `${bookName} ${numbers}`;
+  const validation = validateScriptureReference(candidate);
+  if (!validation.valid || !validation.normalized) return null;
+
+  const length = fullText.length - (match[3].length - numbers.length);
+  return {
+    index: match.index,
+    length,
+    text: fullText.slice(0, length),
+    reference: validation.normalized,
+  };
+}
+
+/**
+ * Find every valid scripture reference in a piece of text, in order of appearance
+ */
+export function findScriptureReferences(text: string): ScriptureMatch[] {
+  const matches: ScriptureMatch[] = [];
+  const pattern = new RegExp(REFERENCE_PATTERN);
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const found = toScriptureMatch(match);
+    if (found) {
+      matches.push(found);
+      pattern.lastIndex = found.index + found.length;
+    } else {
+      // A capitalized word can pass for a book and swallow the number of the
+      // real one ("See 1 John 4:8"), so look again from the next character
+      pattern.lastIndex = match.index + 1;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Split text into plain strings and scripture references for rendering
+ */
+export function splitScriptureReferences(text: string): LinkedTextPart[] {
+  const parts: LinkedTextPart[] = [];
+  let position = 0;
+
+  for (const match of findScriptureReferences(text)) {
+    if (match.index > position) {
+      parts.push(text.slice(position, match.index));
+    }
+    parts.push(match);
+    position = match.index + match.length;
+  }
+
+  if (position < text.length) {
+    parts.push(text.slice(position));
+  }
+  return parts;
+}
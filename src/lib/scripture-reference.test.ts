@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeScriptureReference, parseScriptureReference, resolveBook } from './scripture-reference';
+
+describe('resolveBook', () => {
+  it('resolves names, abbreviations and ordinals', () => {
+    expect(resolveBook('Ps')?.id).toBe('psalms');
+    expect(resolveBook('1 Cor')?.id).toBe('1corinthians');
+    expect(resolveBook('II Kings')?.id).toBe('2kings');
+    expect(resolveBook('Song of Songs')?.id).toBe('songofsolomon');
+    expect(resolveBook('Philipp')?.id).toBe('philippians');
+    expect(resolveBook('Xyz')).toBeNull();
+  });
+});
+
+describe('normalizeScriptureReference', () => {
+  it.each([
+    ['Ps 23', 'Psalm 23'],
+    ['1 Cor 13:4-7; 14:1', '1 Corinthians 13:4-7; 14:1'],
+    ['John 3:16-4:2', 'John 3:16-4:2'],
+    ['Rom 8:28, 31-39', 'Romans 8:28, 31-39'],
+    ['Jude 3', 'Jude 1:3'],
+    ['Genesis 1-2:3', 'Genesis 1:1-2:3'],
+    ['John 3:16 NIV', 'John 3:16'],
+    ['Philippians 4:6-7 (ESV)', 'Philippians 4:6-7'],
+    ['Psalm 23 [New International Version]', 'Psalm 23'],
+    ['Romans 8:28 and 29', 'Romans 8:28, 29'],
+    ['Romans 8:28 & 31', 'Romans 8:28, 31'],
+  ])('%s -> %s', (input, expected) => {
+    expect(normalizeScriptureReference(input)).toBe(expected);
+  });
+
+  it('rejects text that is not a reference', () => {
+    expect(normalizeScriptureReference('hello world')).toBeNull();
+    expect(normalizeScriptureReference('John 3:16-2:1')).toBeNull();
+    expect(normalizeScriptureReference('Ruth 9')).toBeNull();
+  });
+});
+
+describe('parseScriptureReference', () => {
+  it('splits multi-book references into segments', () => {
+    const parsed = parseScriptureReference('Matt 5:3-12; Luke 6:20');
+    expect(parsed?.segments.map(segment => [segment.book.id, segment.startChapter, segment.startVerse, segment.endVerse])).toEqual([
+      ['matthew', 5, 3, 12],
+      ['luke', 6, 20, 20],
+    ]);
+  });
+});
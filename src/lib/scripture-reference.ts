@@ -0,0 +1,317 @@
+// Scripture reference grammar: parse free-form references into structured ranges
+// and format them back out canonically.
+//
+//   "Ps 23"                    -> Psalm 23
+//   "1 Cor 13:4-7; 14:1"       -> 1 Corinthians 13:4-7; 14:1
+//   "John 3:16-4:2"            -> John 3:16-4:2
+//   "Rom 8:28, 31-39"          -> Romans 8:28, 31-39
+//   "Song of Solomon 2"        -> Song of Solomon 2
+//   "Phil 4:6-7 (ESV)"         -> Philippians 4:6-7
+import { BIBLE_BOOKS, type BibleBook } from './bible-api';
+
+export interface ReferenceSegment {
+  book: BibleBook;
+  startChapter: number;
+  // Omitted when the segment covers whole chapters
+  startVerse?: number;
+  endChapter: number;
+  endVerse?: number;
+}
+
+export interface ScriptureReference {
+  segments: ReferenceSegment[];
+}
+
+// Common abbreviations and alternate names, keyed by book id. Numbered books
+// share the aliases of their base name ("cor" covers 1 and 2 Corinthians).
+const BOOK_ALIASES: Record<string, string[]> = {
+  genesis: ['gen', 'ge', 'gn'],
+  exodus: ['exod', 'exo', 'ex'],
+  leviticus: ['lev', 'le', 'lv'],
+  numbers: ['num', 'nu', 'nm', 'nb'],
+  deuteronomy: ['deut', 'deu', 'de', 'dt'],
+  joshua: ['josh', 'jos', 'jsh'],
+  judges: ['judg', 'jdg', 'jdgs', 'jg'],
+  ruth: ['rth', 'ru'],
+  samuel: ['sam', 'sa', 'sm'],
+  kings: ['kgs', 'kin', 'ki'],
+  chronicles: ['chron', 'chr', 'ch'],
+  ezra: ['ezr'],
+  nehemiah: ['neh', 'ne'],
+  esther: ['esth', 'est', 'es'],
+  job: ['jb'],
+  psalms: ['psalm', 'pss', 'psa', 'psm', 'ps'],
+  proverbs: ['prov', 'pro', 'prv', 'pr'],
+  ecclesiastes: ['eccles', 'eccl', 'ecc', 'ec', 'qoheleth', 'qoh'],
+  songofsolomon: ['songofsongs', 'song', 'sos', 'so', 'canticles', 'cant'],
+  isaiah: ['isa', 'is'],
+  jeremiah: ['jer', 'je', 'jr'],
+  lamentations: ['lam', 'la'],
+  ezekiel: ['ezek', 'eze', 'ezk'],
+  daniel: ['dan', 'da', 'dn'],
+  hosea: ['hos', 'ho'],
+  joel: ['joe', 'jl'],
+  amos: ['am'],
+  obadiah: ['obad', 'ob'],
+  jonah: ['jnh', 'jon'],
+  micah: ['mic', 'mc'],
+  nahum: ['nah', 'na'],
+  habakkuk: ['hab', 'hb'],
+  zephaniah: ['zeph', 'zep', 'zp'],
+  haggai: ['hag', 'hg'],
+  zechariah: ['zech', 'zec', 'zc'],
+  malachi: ['mal', 'ml'],
+  matthew: ['matt', 'mat', 'mt'],
+  mark: ['mrk', 'mar', 'mk', 'mr'],
+  luke: ['luk', 'lk'],
+  john: ['joh', 'jhn', 'jn'],
+  acts: ['act', 'ac'],
+  romans: ['rom', 'ro', 'rm'],
+  corinthians: ['cor', 'co'],
+  galatians: ['gal', 'ga'],
+  ephesians: ['ephes', 'eph'],
+  philippians: ['phil', 'php', 'pp'],
+  colossians: ['col'],
+  thessalonians: ['thess', 'thes', 'th'],
+  timothy: ['tim', 'tm'],
+  titus: ['tit', 'ti'],
+  philemon: ['philem', 'phm', 'pm'],
+  hebrews: ['heb'],
+  james: ['jas', 'jm'],
+  peter: ['pet', 'pe', 'pt'],
+  jude: ['jud', 'jde'],
+  revelation: ['revelations', 'apocalypse', 'rev', 're', 'rv'],
+};
+
+const ORDINAL_PREFIXES: [RegExp, string][] = [
+  [/^(iii|third|3rd)\b\s*/, '3'],
+  [/^(ii|second|2nd)\b\s*/, '2'],
+  [/^(i|first|1st)\b\s*/, '1'],
+];
+
+// Translation abbreviations that often trail a reference ("John 3:16 NIV")
+const TRANSLATION_SUFFIX = /(\d[a-c]?)\s*(?:kjv|nkjv|niv|nivuk|esv|nasb|nasb95|nasb1995|nlt|csb|hcsb|rsv|nrsv|nrsvue|asv|web|msg|amp|ampc|net|lsb|bsb|ylt|ceb|gnt|nab|nabre|njb|tlb|cev|erv|isv|dra|tpt)\.?$/i;
+
+let bookLookup: Map<string, BibleBook> | null = null;
+
+function normalizeBookName(name: string): string {
+  let normalized = name.toLowerCase().replace(/\./g, ' ').replace(/\s+/g, ' ').trim();
+  normalized = normalized.replace(/^the\s+/, '');
+  for (const [pattern, digit] of ORDINAL_PREFIXES) {
+    if (pattern.test(normalized)) {
+      normalized = normalized.replace(pattern, digit);
+      break;
+    }
+  }
+  return normalized.replace(/\s+/g, '');
+}
+
+// Built lazily because BIBLE_BOOKS lives in a module that imports this one
+function getBookLookup(): Map<string, BibleBook> {
+  if (bookLookup) return bookLookup;
+
+  bookLookup = new Map();
+  for (const book of BIBLE_BOOKS) {
+    const numberPrefix = book.id.match(/^\d/)?.[0] || '';
+    const baseId = book.id.replace(/^\d/, '');
+    bookLookup.set(book.id, book);
+    bookLookup.set(normalizeBookName(book.name), book);
+    for (const alias of BOOK_ALIASES[baseId] || []) {
+      const key = numberPrefix + alias;
+      if (!bookLookup.has(key)) bookLookup.set(key, book);
+    }
+  }
+  return bookLookup;
+}
+
+/**
+ * Resolve a book name, abbreviation or alternate name to a Bible book
+ */
+export function resolveBook(name: string): BibleBook | null {
+  const key = normalizeBookName(name);
+  if (!key) return null;
+
+  const lookup = getBookLookup();
+  const exact = lookup.get(key);
+  if (exact) return exact;
+
+  // Fall back to an unambiguous prefix of a full book name ("Philipp", "Deuter")
+  if (key.length >= 3) {
+    const matches = BIBLE_BOOKS.filter(book => book.id.startsWith(key));
+    if (matches.length === 1) return matches[0];
+  }
+  return null;
+}
+
+interface Position {
+  chapter: number;
+  verse?: number;
+}
+
+function parsePosition(text: string): Position | null {
+  const match = text.trim().match(/^(\d+)(?:\s*[:.]\s*(\d+))?[a-c]?$/);
+  if (!match) return null;
+  return {
+    chapter: parseInt(match[1]),
+    verse: match[2] ? parseInt(match[2]) : undefined,
+  };
+}
+
+function isSegmentValid(segment: ReferenceSegment): boolean {
+  const { book, startChapter, endChapter, startVerse, endVerse } = segment;
+  if (startChapter < 1 || endChapter > book.chapters || endChapter < startChapter) return false;
+  if (startVerse !== undefined && startVerse < 1) return false;
+  if (endVerse !== undefined && endVerse < 1) return false;
+  if (startChapter === endChapter && startVerse !== undefined && endVerse !== undefined && endVerse < startVerse) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Parse a free-form reference into one or more ranges. Returns null if any part
+ * of the reference cannot be understood.
+ */
+export function parseScriptureReference(input: string): ScriptureReference | null {
+  const text = input
+    .replace(/[\u2010-\u2015]/g, '-')
+    // "(ESV)", "[New International Version]"
+    .replace(/\s*[(\[]\s*[a-z][a-z0-9\s]*[)\]]\s*$/i, '')
+    .trim()
+    .replace(TRANSLATION_SUFFIX, '$1')
+    .replace(/\s+(?:and|&)\s+/gi, ', ')
+    .replace(/\b(vv?|verses?)\.?\s*/gi, '')
+    .trim();
+  if (!text) return null;
+
+  const segments: ReferenceSegment[] = [];
+  const parts = text.split(/\s*([;,])\s*/);
+  let book: BibleBook | null = null;
+  let lastChapter = 0;
+  let lastHadVerse = false;
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const part = parts[i];
+    const separator = i > 0 ? parts[i - 1] : null;
+    if (!part) return null;
+
+    let numbers = part;
+    const bookMatch = part.match(/^((?:[1-3]\s*)?[a-z][a-z.\s]*?)\s*(\d.*)?$/i);
+    if (bookMatch) {
+      book = resolveBook(bookMatch[1]);
+      if (!book) return null;
+      numbers = bookMatch[2] || '';
+      lastHadVerse = false;
+      lastChapter = 0;
+
+      if (!numbers) {
+        segments.push({ book, startChapter: 1, endChapter: book.chapters });
+        continue;
+      }
+    } else if (!book) {
+      return null;
+    }
+
+    const [startText, endText, ...rest] = numbers.split(/\s*-\s*/);
+    if (rest.length > 0) return null;
+
+    // In single-chapter books ("Jude 3") a bare number is a verse
+    const singleChapter = book.chapters === 1;
+    // After "John 3:16," a bare number continues the verse list of chapter 3
+    const continuesVerses = separator === ',' && lastHadVerse;
+
+    let start = parsePosition(startText);
+    if (!start) return null;
+    if (start.verse === undefined && (continuesVerses || (singleChapter && lastChapter === 0))) {
+      start = { chapter: continuesVerses ? lastChapter : 1, verse: start.chapter };
+    }
+
+    let end: Position = { ...start };
+    if (endText !== undefined) {
+      const parsedEnd = parsePosition(endText);
+      if (!parsedEnd) return null;
+      if (parsedEnd.verse !== undefined) {
+        end = parsedEnd;
+      } else if (start.verse !== undefined) {
+        end = { chapter: start.chapter, verse: parsedEnd.chapter };
+      } else {
+        end = { chapter: parsedEnd.chapter };
+      }
+    }
+
+    // "Genesis 1-2:3" starts at the first verse of chapter 1
+    if (start.verse === undefined && end.verse !== undefined) {
+      start = { chapter: start.chapter, verse: 1 };
+    }
+
+    const segment: ReferenceSegment = {
+      book,
+      startChapter: start.chapter,
+      startVerse: start.verse,
+      endChapter: end.chapter,
+      endVerse: end.verse,
+    };
+    if (!isSegmentValid(segment)) return null;
+
+    segments.push(segment);
+    lastChapter = end.chapter;
+    lastHadVerse = end.verse !== undefined;
+  }
+
+  return segments.length > 0 ? { segments } : null;
+}
+
+function formatBookName(book: BibleBook, segment: ReferenceSegment): string {
+  // "Psalm 23" for a single psalm, "Psalms 23-24" for several
+  if (book.id === 'psalms' && segment.startChapter === segment.endChapter) return 'Psalm';
+  return book.name;
+}
+
+function formatRange(segment: ReferenceSegment): string {
+  const { startChapter, startVerse, endChapter, endVerse } = segment;
+  if (startVerse === undefined) {
+    return startChapter === endChapter ? `${startChapter}` : `${startChapter}-${endChapter}`;
+  }
+  if (startChapter !== endChapter) {
+    return `${startChapter}:${startVerse}-${endChapter}:${endVerse ?? startVerse}`;
+  }
+  const verses = endVerse !== undefined && endVerse !== startVerse ? `${startVerse}-${endVerse}` : `${startVerse}`;
+  return `${startChapter}:${verses}`;
+}
+
+/**
+ * Format a parsed reference canonically, e.g. "1 Corinthians 13:4-7; 14:1"
+ */
+export function formatScriptureReference(reference: ScriptureReference | ReferenceSegment[]): string {
+  const segments = Array.isArray(reference) ? reference : reference.segments;
+  let output = '';
+
+  segments.forEach((segment, index) => {
+    const previous = index > 0 ? segments[index - 1] : null;
+    const range = formatRange(segment);
+
+    if (!previous || previous.book.id !== segment.book.id) {
+      output += `${previous ? '; ' : ''}${formatBookName(segment.book, segment)} ${range}`;
+    } else if (
+      previous.endVerse !== undefined &&
+      segment.startVerse !== undefined &&
+      previous.endChapter === segment.startChapter &&
+      segment.startChapter === segment.endChapter
+    ) {
+      // Another verse range in the same chapter: "John 3:16, 18"
+      output += `, ${range.slice(range.indexOf(':') + 1)}`;
+    } else {
+      output += `; ${range}`;
+    }
+  });
+
+  return output;
+}
+
+/**
+ * Normalize a free-form reference to its canonical form, or null if it is not valid
+ */
+export function normalizeScriptureReference(input: string): string | null {
+  const parsed = parseScriptureReference(input);
+  return parsed ? formatScriptureReference(parsed) : null;
+}
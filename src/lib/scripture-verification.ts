@@ -0,0 +1,178 @@
+// Check scripture quoted in AI-generated text against the real passage. Models
+// quote from memory and sometimes get the wording wrong, so each quotation
+// that names its reference is looked up in the cited translation (or the
+// user's own) and then verified, corrected or flagged.
+import { getVerse } from './bible-api';
+import { findScriptureReferences, type ScriptureMatch } from './scripture-links';
+import type { ScriptureCheck, ScriptureCheckStatus } from './types';
+
+export interface VerifiedText {
+  content: string;
+  checks: ScriptureCheck[];
+}
+
+// A quotation in straight or curly double quotes, long enough to be a verse
+const QUOTE_PATTERN = /["“]([^"“”\n]{12,800})["”]/g;
+// How far from a quotation its reference can be written
+const REFERENCE_WINDOW = 60;
+// A translation named right after the reference: "John 3:16, ESV" or "(John 3:16 NIV)"
+const TRANSLATION_PATTERN = /^[\s,(\-–—]*\(?\s*(KJV|NKJV|NIV|ESV|NASB|NLT|CSB|NRSV|RSV|ASV|WEB|BBE|YLT)\b/i;
+// Share of a misquoted passage that must match before it is replaced outright
+const CORRECTION_THRESHOLD = 0.6;
+const ELLIPSIS_PATTERN = /\.\.\.|…/;
+
+function toWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['‘’]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function containsRun(haystack: string[], needle: string[]): boolean {
+  if (needle.length === 0) return true;
+  for (let start = 0; start + needle.length <= haystack.length; start++) {
+    if (needle.every((word, offset) => haystack[start + offset] === word)) return true;
+  }
+  return false;
+}
+
+// Words the two texts share in the same order
+function commonWordCount(a: string[], b: string[]): number {
+  let previous = new Array(b.length + 1).fill(0);
+  for (const word of a) {
+    const current = [0];
+    for (let j = 0; j < b.length; j++) {
+      current.push(word === b[j] ? previous[j] + 1 : Math.max(previous[j + 1], current[j]));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Compare one quotation with its passage. A quotation that is the whole
+ * passage with a few words wrong is corrected to the real text; a partial one
+ * that doesn't match is flagged instead, since we can't tell what it left out.
+ */
+export async function checkQuotation(
+  quote: string,
+  reference: string,
+  translation: string
+): Promise<{ status: ScriptureCheckStatus; text: string }> {
+  const passage = await getVerse(reference, translation.toLowerCase());
+  if (!passage?.text) {
+    return { status: 'unverified', text: quote };
+  }
+
+  const passageWords = toWords(passage.text);
+  const fragments = quote.split(ELLIPSIS_PATTERN).map(toWords).filter(words => words.length > 0);
+  if (fragments.length > 0 && fragments.every(words => containsRun(passageWords, words))) {
+    return { status: 'verified', text: quote };
+  }
+
+  const quoteWords = toWords(quote);
+  const shared = commonWordCount(quoteWords, passageWords);
+  const isWholePassage = fragments.length === 1
+    && shared >= CORRECTION_THRESHOLD * quoteWords.length
+    && shared >= CORRECTION_THRESHOLD * passageWords.length;
+
+  return isWholePassage
+    ? { status: 'corrected', text: passage.text.replace(/\s+/g, ' ').trim() }
+    : { status: 'mismatch', text: quote };
+}
+
+// The reference written just after a quotation, or failing that just before it
+function findQuoteReference(
+  text: string,
+  references: ScriptureMatch[],
+  start: number,
+  end: number
+): ScriptureMatch | null {
+  const after = references.find(ref =>
+    ref.index >= end && ref.index - end <= REFERENCE_WINDOW && !/["“\n]/.test(text.slice(end, ref.index))
+  );
+  if (after) return after;
+
+  const before = [...references].reverse().find(ref => {
+    const refEnd = ref.index + ref.length;
+    return refEnd <= start && start - refEnd <= REFERENCE_WINDOW && !/["”\n]/.test(text.slice(refEnd, start));
+  });
+  return before || null;
+}
+
+/**
+ * Verify every quotation in `text` that names its reference. Corrections are
+ * applied to the returned content; each quotation gets a check either way.
+ */
+export async function verifyScriptureQuotes(
+  text: string,
+  defaultTranslation: string,
+  field?: string
+): Promise<VerifiedText> {
+  const references = findScriptureReferences(text);
+  if (references.length === 0) {
+    return { content: text, checks: [] };
+  }
+
+  const replacements: { start: number; end: number; text: string }[] = [];
+  const checks: ScriptureCheck[] = [];
+
+  for (const match of text.matchAll(QUOTE_PATTERN)) {
+    const start = (match.index ?? 0) + 1;
+    const end = start + match[1].length;
+    const reference = findQuoteReference(text, references, start - 1, end + 1);
+    if (!reference) continue;
+
+    const named = text.slice(reference.index + reference.length).match(TRANSLATION_PATTERN);
+    const translation = (named?.[1] || defaultTranslation).toUpperCase();
+    const quote = match[1].trim();
+    const result = await checkQuotation(quote, reference.reference, translation);
+
+    if (result.status === 'corrected') {
+      replacements.push({ start, end, text: result.text });
+    }
+    checks.push({
+      reference: reference.reference,
+      translation,
+      status: result.status,
+      quote: result.text,
+      ...(result.status === 'corrected' ? { original: quote } : {}),
+      ...(field ? { field } : {}),
+    });
+  }
+
+  // Replace from the end so earlier positions stay valid
+  let content = text;
+  for (const replacement of replacements.reverse()) {
+    content = content.slice(0, replacement.start) + replacement.text + content.slice(replacement.end);
+  }
+
+  return { content, checks };
+}
+
+export type QuotedTextPart = string | { text: string; check: ScriptureCheck };
+
+/**
+ * Split text around its checked quotations so each can be shown with its badge
+ */
+export function splitCheckedQuotes(text: string, checks: ScriptureCheck[] | null | undefined): QuotedTextPart[] {
+  if (!checks?.length) return [text];
+
+  const parts: QuotedTextPart[] = [];
+  let position = 0;
+  for (const check of checks) {
+    const index = text.indexOf(check.quote, position);
+    if (index < 0) continue;
+    if (index > position) {
+      parts.push(text.slice(position, index));
+    }
+    parts.push({ text: check.quote, check });
+    position = index + check.quote.length;
+  }
+  if (position < text.length) {
+    parts.push(text.slice(position));
+  }
+  return parts;
+}
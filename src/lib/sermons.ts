@@ -1,5 +1,6 @@
 import { supabase } from './supabase';
 import { SermonSummary } from './types';
+import { verifyScriptureQuotes } from './scripture-verification';
 
 /**
  * Get all sermon summaries for the current user
@@ -188,4 +189,34 @@ export async function getSermonProcessingStatus(sermonId: string): Promise<any>
     console.error('Error in getSermonProcessingStatus:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Check the scripture quoted in a finished sermon analysis, correcting
+ * misquoted verses, and save the result
+ */
+export async function verifySermonScripture(sermon: SermonSummary, translation: string): Promise<SermonSummary> {
+  if (!sermon.id) {
+    throw new Error('Sermon ID is required for scripture checks');
+  }
+
+  const summary = await verifyScriptureQuotes(sermon.summary_text || '', translation, 'summary_text');
+  const application = await verifyScriptureQuotes(sermon.application_to_faith || '', translation, 'application_to_faith');
+  const updates: Partial<SermonSummary> = {
+    scripture_checks: [...summary.checks, ...application.checks],
+    ...(sermon.summary_text ? { summary_text: summary.content } : {}),
+    ...(sermon.application_to_faith ? { application_to_faith: application.content } : {}),
+  };
+
+  const { error } = await supabase
+    .from('sermon_summaries')
+    .update(updates)
+    .eq('id', sermon.id);
+
+  if (error) {
+    console.error('Error saving sermon scripture checks:', error);
+    throw error;
+  }
+
+  return { ...sermon, ...updates };
+}
@@ -0,0 +1,112 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import {
+  getDueMemories,
+  getInitialSchedule,
+  getReviewDate,
+  gradePracticeSession,
+  isDueForReview,
+  scheduleReview,
+} from './spaced-repetition';
+import type { ScriptureMemory } from './types';
+
+function memory(nextReview?: string, reference = 'John 3:16'): ScriptureMemory {
+  return {
+    verse_reference: reference,
+    verse_text: 'For God so loved the world',
+    translation: 'KJV',
+    memorized_level: 1,
+    next_review: nextReview,
+  };
+}
+
+// West of UTC, where UTC midnight falls on the previous local evening
+const originalTimeZone = process.env.TZ;
+beforeAll(() => {
+  process.env.TZ = 'America/Los_Angeles';
+});
+afterAll(() => {
+  process.env.TZ = originalTimeZone;
+});
+
+describe('scheduleReview', () => {
+  const today = new Date(2024, 4, 1, 21, 30);
+
+  it('follows the SM-2 intervals for successful reviews', () => {
+    const first = scheduleReview(getInitialSchedule(today), 4, today);
+    expect(first).toMatchObject({ interval_days: 1, repetitions: 1, next_review: '2024-05-02' });
+
+    const second = scheduleReview(first, 4, today);
+    expect(second).toMatchObject({ interval_days: 6, repetitions: 2, next_review: '2024-05-07' });
+
+    const third = scheduleReview(second, 5, today);
+    expect(third.interval_days).toBe(Math.round(6 * second.ease_factor));
+    expect(third.ease_factor).toBeGreaterThan(second.ease_factor);
+  });
+
+  it('resets a failed verse and counts the lapse', () => {
+    const learned = { ease_factor: 2.5, interval_days: 15, repetitions: 3, lapse_count: 0 };
+    expect(scheduleReview(learned, 1, today)).toMatchObject({
+      interval_days: 1,
+      repetitions: 0,
+      lapse_count: 1,
+      memorized_level: 1,
+    });
+  });
+
+  it('never lowers the ease factor below the minimum', () => {
+    const hard = { ease_factor: 1.3, interval_days: 1, repetitions: 0, lapse_count: 0 };
+    expect(scheduleReview(hard, 0, today).ease_factor).toBe(1.3);
+  });
+});
+
+describe('gradePracticeSession', () => {
+  const base = { scripture_memory_id: 'm', practice_type: 'game' as const };
+
+  it('grades by accuracy', () => {
+    expect(gradePracticeSession({ ...base, accuracy_score: 1, time_spent: 10 }, 'Jesus wept')).toBe(5);
+    expect(gradePracticeSession({ ...base, accuracy_score: 0.75 }, 'Jesus wept')).toBe(3);
+    expect(gradePracticeSession({ ...base, accuracy_score: 0.2 }, 'Jesus wept')).toBe(0);
+  });
+
+  it('marks slow recall down', () => {
+    expect(gradePracticeSession({ ...base, accuracy_score: 1, time_spent: 120 }, 'Jesus wept')).toBe(4);
+  });
+});
+
+describe('review dates', () => {
+  it('reads the stored timestamp as the local calendar day', () => {
+    const date = getReviewDate('2024-05-01T00:00:00+00:00');
+    expect([date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()]).toEqual([2024, 4, 1, 0]);
+    expect(getReviewDate('2024-05-01').getDate()).toBe(1);
+  });
+
+  it('is due from the start of the local day, not UTC midnight', () => {
+    const stored = memory('2024-05-01T00:00:00+00:00');
+    expect(isDueForReview(stored, new Date(2024, 3, 30, 20))).toBe(false);
+    expect(isDueForReview(stored, new Date(2024, 4, 1, 6))).toBe(true);
+
+    process.env.TZ = 'Asia/Tokyo';
+    expect(isDueForReview(stored, new Date(2024, 4, 1, 6))).toBe(true);
+    expect(format(getReviewDate(stored.next_review!), 'yyyy-MM-dd')).toBe('2024-05-01');
+    process.env.TZ = 'America/Los_Angeles';
+    expect(format(getReviewDate(stored.next_review!), 'yyyy-MM-dd')).toBe('2024-05-01');
+  });
+
+  it('treats a verse without a schedule as due', () => {
+    expect(isDueForReview(memory(undefined))).toBe(true);
+  });
+
+  it('lists due verses most overdue first', () => {
+    const today = new Date(2024, 4, 10, 9);
+    const due = getDueMemories(
+      [
+        memory('2024-05-09T00:00:00+00:00', 'b'),
+        memory('2024-05-11T00:00:00+00:00', 'future'),
+        memory('2024-05-02T00:00:00+00:00', 'a'),
+      ],
+      today
+    );
+    expect(due.map(item => item.verse_reference)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,158 @@
+// SM-2 spaced-repetition scheduling for scripture memory
+import { addDays, format, parseISO, startOfDay } from 'date-fns';
+import type { ScriptureMemory } from './types';
+import type { PracticeSession } from './gamification';
+
+// Review quality on the SM-2 scale: 0 = total blackout, 5 = perfect recall
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ReviewSchedule {
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapse_count: number;
+  next_review: string;
+  memorized_level: number;
+}
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+
+// Buttons offered in the self-graded review queue
+export const REVIEW_GRADES: { grade: ReviewGrade; label: string; description: string }[] = [
+  { grade: 1, label: 'Again', description: "Couldn't recall it" },
+  { grade: 3, label: 'Hard', description: 'Recalled with effort' },
+  { grade: 4, label: 'Good', description: 'Recalled after a pause' },
+  { grade: 5, label: 'Easy', description: 'Recalled instantly' },
+];
+
+function toDateString(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Map an interval onto the 1-5 memory levels used for badges and achievements
+ */
+export function getLevelForInterval(intervalDays: number, repetitions: number): number {
+  if (repetitions === 0) return 1;
+  if (intervalDays < 7) return 2;
+  if (intervalDays < 21) return 3;
+  if (intervalDays < 60) return 4;
+  return 5;
+}
+
+/**
+ * Schedule for a verse that has just been added to memory
+ */
+export function getInitialSchedule(today: Date = new Date()): ReviewSchedule {
+  return {
+    ease_factor: DEFAULT_EASE_FACTOR,
+    interval_days: 0,
+    repetitions: 0,
+    lapse_count: 0,
+    next_review: toDateString(startOfDay(today)),
+    memorized_level: 1,
+  };
+}
+
+/**
+ * Apply one SM-2 review to a verse and return its new schedule
+ */
+export function scheduleReview(
+  memory: Pick<ScriptureMemory, 'ease_factor' | 'interval_days' | 'repetitions' | 'lapse_count'>,
+  grade: ReviewGrade,
+  today: Date = new Date()
+): ReviewSchedule {
+  const easeFactor = memory.ease_factor ?? DEFAULT_EASE_FACTOR;
+  const previousInterval = memory.interval_days ?? 0;
+  let repetitions = memory.repetitions ?? 0;
+  let lapseCount = memory.lapse_count ?? 0;
+  let intervalDays: number;
+
+  if (grade >= 3) {
+    if (repetitions === 0) {
+      intervalDays = 1;
+    } else if (repetitions === 1) {
+      intervalDays = 6;
+    } else {
+      intervalDays = Math.round(Math.max(previousInterval, 1) * easeFactor);
+    }
+    repetitions += 1;
+  } else {
+    // A failed recall of a verse that had been learned counts as a lapse
+    if (repetitions > 0) lapseCount += 1;
+    repetitions = 0;
+    intervalDays = 1;
+  }
+
+  const penalty = 5 - grade;
+  const nextEase = Math.max(
+    MIN_EASE_FACTOR,
+    easeFactor + (0.1 - penalty * (0.08 + penalty * 0.02))
+  );
+
+  return {
+    ease_factor: Math.round(nextEase * 100) / 100,
+    interval_days: intervalDays,
+    repetitions,
+    lapse_count: lapseCount,
+    next_review: toDateString(addDays(startOfDay(today), intervalDays)),
+    memorized_level: getLevelForInterval(intervalDays, repetitions),
+  };
+}
+
+/**
+ * Derive an SM-2 grade from the results of a practice game
+ */
+export function gradePracticeSession(session: PracticeSession, verseText: string): ReviewGrade {
+  const accuracy = session.accuracy_score ?? 0;
+  const wordCount = Math.max(1, verseText.trim().split(/\s+/).length);
+
+  let grade: ReviewGrade;
+  if (accuracy >= 0.95) grade = 5;
+  else if (accuracy >= 0.85) grade = 4;
+  else if (accuracy >= 0.7) grade = 3;
+  else if (accuracy >= 0.5) grade = 2;
+  else if (accuracy >= 0.3) grade = 1;
+  else grade = 0;
+
+  // Correct but slow or error-prone recall is not "perfect"
+  const expectedSeconds = 15 + wordCount * 3;
+  const allowedMistakes = Math.max(2, Math.ceil(wordCount * 0.15));
+  if (grade >= 4 && session.time_spent !== undefined && session.time_spent > expectedSeconds) {
+    grade = (grade - 1) as ReviewGrade;
+  }
+  if (grade >= 4 && (session.mistakes_made ?? 0) > allowedMistakes) {
+    grade = (grade - 1) as ReviewGrade;
+  }
+
+  return grade;
+}
+
+/**
+ * The local calendar day a verse is next due. Schedules are saved as a date,
+ * which the timestamp column returns as UTC midnight, so the date part is the
+ * intended day; older rows hold the moment the verse was added.
+ */
+export function getReviewDate(nextReview: string): Date {
+  const dateOnly = nextReview.match(/^(\d{4}-\d{2}-\d{2})(?:[T ]00:00:00(?:\.0+)?(?:Z|\+00(?::?00)?)?)?$/);
+  return dateOnly ? parseISO(dateOnly[1]) : startOfDay(new Date(nextReview));
+}
+
+/**
+ * Whether a verse should be reviewed on the given day
+ */
+export function isDueForReview(memory: ScriptureMemory, today: Date = new Date()): boolean {
+  if (!memory.next_review) return true;
+  return getReviewDate(memory.next_review) <= startOfDay(today);
+}
+
+/**
+ * Verses due for review, most overdue first
+ */
+export function getDueMemories(memories: ScriptureMemory[], today: Date = new Date()): ScriptureMemory[] {
+  const dueTime = (memory: ScriptureMemory) => (memory.next_review ? getReviewDate(memory.next_review).getTime() : 0);
+  return memories
+    .filter(memory => isDueForReview(memory, today))
+    .sort((a, b) => dueTime(a) - dueTime(b));
+}
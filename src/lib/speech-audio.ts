@@ -0,0 +1,179 @@
+// Premium-voice audio from the openai-tts edge function, kept on the device so
+// anything heard once replays instantly and offline. Uses Cache Storage where
+// available and IndexedDB otherwise; the server keeps its own shared cache.
+import { supabase } from './supabase';
+
+export interface SpeechRequest {
+  text: string;
+  voice: string;
+  speed?: number;
+  // Bible translation when reading scripture
+  translation?: string;
+  signal?: AbortSignal;
+}
+
+// The longest text openai-tts reads in one request; split longer text with
+// splitSpeechText and request each part on its own
+export const MAX_SPEECH_LENGTH = 4096;
+
+// Non-OK response from openai-tts; 402 means Pro is required, 429 that the
+// monthly allowance is used up
+export class SpeechRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'SpeechRequestError';
+  }
+}
+
+const CACHE_NAME = 'truenorth-tts-v1';
+// Synthetic URLs the cached audio is stored under; never fetched
+const CACHE_URL_PREFIX = '/__tts-cache/';
+const DB_NAME = 'truenorth-tts';
+const DB_VERSION = 1;
+const AUDIO_STORE = 'audio';
+// Oldest entries are dropped beyond this; a chapter is typically 1-3 MB
+const MAX_ENTRIES = 150;
+
+interface StoredAudio {
+  key: string;
+  blob: Blob;
+  created_at: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function hasCacheStorage(): boolean {
+  return typeof caches !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(AUDIO_STORE, { keyPath: 'key' });
+        store.createIndex('created_at', 'created_at');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Same normalization the server hashes, so spacing differences share audio
+ */
+function normalizeText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+export async function speechCacheKey(request: SpeechRequest): Promise<string> {
+  const material = JSON.stringify([
+    request.voice,
+    request.speed || 1,
+    request.translation?.toLowerCase() || null,
+    normalizeText(request.text),
+  ]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function readDeviceCache(key: string): Promise<Blob | null> {
+  if (hasCacheStorage()) {
+    const cache = await caches.open(CACHE_NAME);
+    const response = await cache.match(CACHE_URL_PREFIX + key);
+    return response ? response.blob() : null;
+  }
+
+  const db = await openDatabase();
+  const entry = await promisifyRequest<StoredAudio | undefined>(
+    db.transaction(AUDIO_STORE).objectStore(AUDIO_STORE).get(key)
+  );
+  return entry?.blob || null;
+}
+
+async function writeDeviceCache(key: string, blob: Blob): Promise<void> {
+  if (hasCacheStorage()) {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(CACHE_URL_PREFIX + key, new Response(blob, { headers: { 'Content-Type': blob.type } }));
+    // keys() lists entries in insertion order
+    const keys = await cache.keys();
+    await Promise.all(keys.slice(0, Math.max(keys.length - MAX_ENTRIES, 0)).map(request => cache.delete(request)));
+    return;
+  }
+
+  const db = await openDatabase();
+  const store = db.transaction(AUDIO_STORE, 'readwrite').objectStore(AUDIO_STORE);
+  await promisifyRequest(store.put({ key, blob, created_at: Date.now() } satisfies StoredAudio));
+  const count = await promisifyRequest(store.count());
+  if (count > MAX_ENTRIES) {
+    const oldest = await promisifyRequest(store.index('created_at').getAllKeys(null, count - MAX_ENTRIES));
+    await Promise.all(oldest.map(oldKey => promisifyRequest(store.delete(oldKey))));
+  }
+}
+
+/**
+ * Audio for `text` in a premium voice: from the device cache when it has been
+ * heard before, otherwise from the server, which is then cached. Throws a
+ * SpeechRequestError when the server refuses, e.g. 402 without Pro.
+ */
+export async function getSpeechAudio(request: SpeechRequest): Promise<Blob> {
+  const key = await speechCacheKey(request);
+  try {
+    const cached = await readDeviceCache(key);
+    if (cached) return cached;
+  } catch (error) {
+    console.error('Error reading cached speech:', error);
+  }
+
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/openai-tts`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({
+      text: request.text,
+      voice: request.voice,
+      ...(request.speed ? { speed: request.speed } : {}),
+      ...(request.translation ? { translation: request.translation } : {}),
+    }),
+    signal: request.signal,
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new SpeechRequestError(data.message || data.error || `TTS request failed: ${response.status}`, response.status);
+  }
+
+  const blob = await response.blob();
+  writeDeviceCache(key, blob).catch(error => console.error('Error caching speech:', error));
+  return blob;
+}
+
+/**
+ * Whether audio for this request is already on the device
+ */
+export async function isSpeechCached(request: SpeechRequest): Promise<boolean> {
+  try {
+    return (await readDeviceCache(await speechCacheKey(request))) !== null;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { splitSpeechText } from './speech-sentences';
+
+describe('splitSpeechText', () => {
+  it('keeps text that fits in one request whole', () => {
+    expect(splitSpeechText('In the beginning God created the heaven and the earth.', 100)).toEqual([
+      'In the beginning God created the heaven and the earth.',
+    ]);
+  });
+
+  it('splits at sentence ends and packs sentences up to the limit', () => {
+    const text = 'Jesus wept. Then said the Jews, Behold how he loved him! And some of them said, Could not this man have caused that even this man should not have died?';
+    const parts = splitSpeechText(text, 60);
+    expect(parts).toEqual([
+      'Jesus wept. Then said the Jews, Behold how he loved him!',
+      'And some of them said, Could not this man have caused that',
+      'even this man should not have died?',
+    ]);
+    expect(parts.join(' ')).toBe(text);
+  });
+
+  it('never returns a part over the limit for a long chapter', () => {
+    const verse = 'The LORD is my shepherd; I shall not want. ';
+    const parts = splitSpeechText(verse.repeat(300), 4096);
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.every(part => part.length <= 4096)).toBe(true);
+    expect(parts.join(' ')).toBe(verse.repeat(300).trim());
+  });
+
+  it('collapses whitespace and line breaks', () => {
+    expect(splitSpeechText('  Psalm 23\n\nThe LORD is my   shepherd.  ', 100)).toEqual(['Psalm 23 The LORD is my shepherd.']);
+  });
+});
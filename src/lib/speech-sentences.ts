@@ -0,0 +1,109 @@
+// Turn a reply that is still streaming into pieces that can be spoken one at a
+// time, so speech can start after the first sentence instead of the last.
+import { CITATION_PATTERN } from './chat-sources';
+
+// Pieces shorter than this are joined to the next so speech doesn't sound
+// clipped and short requests don't pile up
+const MIN_PIECE_LENGTH = 40;
+// End of a sentence: punctuation, optional closing quotes or brackets, then
+// whitespace; or a line break
+const SENTENCE_END = /[.!?…]["'”’)\]]*\s+|\n+/g;
+
+/**
+ * Reply text as it should be read aloud: no Markdown markers, citation
+ * numbers or links
+ */
+export function toSpeechText(text: string): string {
+  return text
+    .replace(new RegExp(CITATION_PATTERN.source, 'g'), '')
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+    .replace(/https?:\/\/\S+/g, '')
+    .replace(/^\s*(#{1,6}|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`~>#]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Complete sentences in `text` after position `from`. With `final` the rest
+ * of the text is included as well. Returns the pieces and where the next call
+ * should start.
+ */
+export function takeSpeakablePieces(
+  text: string,
+  from: number,
+  final = false
+): { pieces: string[]; next: number } {
+  const pieces: string[] = [];
+  let pending = '';
+  let next = from;
+
+  SENTENCE_END.lastIndex = from;
+  let match: RegExpExecArray | null;
+  while ((match = SENTENCE_END.exec(text))) {
+    const end = match.index + match[0].length;
+    pending += text.slice(next, end);
+    next = end;
+    if (toSpeechText(pending).length >= MIN_PIECE_LENGTH) {
+      pieces.push(toSpeechText(pending));
+      pending = '';
+    }
+  }
+
+  if (final) {
+    pending += text.slice(next);
+    next = text.length;
+  } else {
+    // Hold back a short sentence so it can join the next one
+    next -= pending.length;
+    pending = '';
+  }
+
+  const rest = toSpeechText(pending);
+  if (rest) pieces.push(rest);
+  return { pieces, next };
+}
+
+/**
+ * Split text too long for one speech request into parts of at most
+ * `maxLength` characters, at sentence ends where possible and between words
+ * inside a sentence that is longer on its own. Whitespace is collapsed.
+ */
+export function splitSpeechText(text: string, maxLength: number): string[] {
+  const parts: string[] = [];
+  let current = '';
+
+  const add = (piece: string) => {
+    if (current && current.length + 1 + piece.length > maxLength) {
+      parts.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${piece}` : piece;
+  };
+
+  let start = 0;
+  const sentences: string[] = [];
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = (match.index ?? 0) + match[0].length;
+    sentences.push(text.slice(start, end));
+    start = end;
+  }
+  sentences.push(text.slice(start));
+
+  for (const sentence of sentences) {
+    const normalized = sentence.replace(/\s+/g, ' ').trim();
+    if (!normalized) continue;
+    if (normalized.length <= maxLength) {
+      add(normalized);
+    } else {
+      // A long sentence starts a part of its own rather than being split
+      // after a few words
+      if (current) parts.push(current);
+      current = '';
+      normalized.split(' ').forEach(add);
+    }
+  }
+
+  if (current) parts.push(current);
+  return parts;
+}
@@ -1,4 +1,4 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import { handleDatabaseError, withErrorHandling } from './error-handler';
 import type { 
   JournalEntry, 
@@ -27,7 +27,7 @@ if (!supabaseUrl || !supabaseAnonKey) {
 }
 
 // Create the Supabase client with better error handling
-let supabaseClient;
+let supabaseClient: SupabaseClient;
 try {
   supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
     auth: {
@@ -79,7 +79,7 @@ try {
       delete: () => Promise.reject(new Error('Supabase client not properly initialized')),
     }),
     rpc: () => Promise.reject(new Error('Supabase client not properly initialized')),
-  };
+  } as unknown as SupabaseClient;
 }
 
 export const supabase = supabaseClient;
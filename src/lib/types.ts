@@ -5,6 +5,94 @@ export interface ChatMessage {
   content: string;
   createdAt?: string;
   id?: string;
+  // The user's own items the reply drew on, cited in the text as [1], [2]...
+  sources?: ChatSource[];
+  // Actions the reply proposed, confirmed or declined by the user from the chat
+  actions?: ChatAction[];
+  // Set when the safety check flagged the user's message or withheld the reply
+  safety?: SafetyNotice | null;
+  // Position in the thread's tree: the message this one follows, and the ids
+  // of all versions at this point (edits or regenerations), oldest first
+  parentId?: string | null;
+  siblingIds?: string[];
+  feedback?: ChatMessageFeedback | null;
+  // A reply still being written by a request that may have lost its client
+  streaming?: boolean;
+  // Scripture quoted in the reply, checked against the Bible text
+  scriptureChecks?: ScriptureCheck[] | null;
+}
+
+export interface ChatMessageFeedback {
+  // Thumbs up (1) or down (-1)
+  rating: 1 | -1;
+  reason?: string | null;
+}
+
+export type SafetyRiskCategory = 'suicide_self_harm' | 'abuse' | 'harm_to_others' | 'other';
+
+export interface CrisisResource {
+  name: string;
+  contact: string;
+  // Number to dial, for a tel: link
+  phone?: string;
+  url?: string;
+}
+
+export interface SafetyNotice {
+  level: 'concern' | 'crisis';
+  category: SafetyRiskCategory;
+  region: string;
+  emergencyNumber: string;
+  resources: CrisisResource[];
+}
+
+export type ChatActionType =
+  | 'create_prayer_request'
+  | 'log_habit'
+  | 'add_memory_verse'
+  | 'start_reading_plan'
+  | 'create_spiritual_goal';
+
+export type ChatActionStatus = 'proposed' | 'executed' | 'declined' | 'failed';
+
+// A row of `chat_actions`; `params` depends on the action type
+export interface ChatAction {
+  id: string;
+  action_type: ChatActionType;
+  params: Record<string, any>;
+  status: ChatActionStatus;
+  result?: Record<string, any> | null;
+  error?: string | null;
+  created_at?: string;
+  resolved_at?: string | null;
+}
+
+// How a quotation of scripture compared with the real text of the passage
+export type ScriptureCheckStatus = 'verified' | 'corrected' | 'mismatch' | 'unverified';
+
+export interface ScriptureCheck {
+  reference: string;
+  translation: string;
+  status: ScriptureCheckStatus;
+  // The quotation as it now appears in the content
+  quote: string;
+  // The generated wording, when it didn't match the passage
+  original?: string;
+  // Which field of the content the quotation is in, when there are several
+  field?: string;
+}
+
+export type ChatSourceType = 'journal_entry' | 'prayer_request' | 'bible_study_note' | 'reading_reflection';
+
+export interface ChatSource {
+  index: number;
+  type: ChatSourceType;
+  id: string;
+  title: string;
+  date: string | null;
+  excerpt: string;
+  // plan_id and day_number for reading reflections
+  metadata?: Record<string, unknown>;
 }
 
 export interface ChatThread {
@@ -12,6 +100,39 @@ export interface ChatThread {
   messages: ChatMessage[];
 }
 
+// How the AI coach approaches a conversation
+export type CoachingMode =
+  | 'general'
+  | 'prayer_partner'
+  | 'bible_scholar'
+  | 'accountability_coach'
+  | 'grief_companion';
+
+export type TheologicalTradition =
+  | 'anglican'
+  | 'baptist'
+  | 'catholic'
+  | 'lutheran'
+  | 'methodist'
+  | 'nondenominational'
+  | 'orthodox'
+  | 'pentecostal'
+  | 'reformed';
+
+// A row of `chat_threads` as listed in the thread sidebar
+export interface ChatThreadSummary {
+  id: string;
+  user_id?: string;
+  title: string | null;
+  is_pinned: boolean;
+  is_archived: boolean;
+  created_at: string;
+  last_message_at: string;
+  coaching_mode?: CoachingMode;
+  // Matching excerpt when the thread came from a search
+  snippet?: string;
+}
+
 export interface JournalEntry {
   id?: string;
   user_id?: string;
@@ -24,6 +145,60 @@ export interface JournalEntry {
   mood_score?: number;
   spiritual_score?: number;
   related_scripture?: string;
+  // Guided entries: the template used and what was written in each section
+  template_id?: string | null;
+  sections?: JournalSection[] | null;
+  // Private entries: title, summary, content and sections sealed on the device.
+  // A payload still present on a loaded entry means it could not be decrypted.
+  is_encrypted?: boolean;
+  encrypted_payload?: string | null;
+  // Imported entries: the app they came from and their id there, if any
+  import_source?: string | null;
+  import_id?: string | null;
+}
+
+export type JournalSectionType = 'text' | 'list' | 'scripture' | 'rating';
+
+// One answered section of a guided journal entry
+export interface JournalSection {
+  id: string;
+  label: string;
+  type: JournalSectionType;
+  // Text for text and scripture sections, items for lists, 1-5 for ratings
+  value: string | string[] | number | null;
+  // Scripture sections: the passage written about
+  reference?: string;
+}
+
+export type MemoryFactCategory = 'family' | 'church' | 'struggle' | 'goal' | 'life_event' | 'preference' | 'other';
+
+// Something the AI coach remembers about the user between conversations
+export interface MemoryFact {
+  id: string;
+  user_id?: string;
+  category: MemoryFactCategory;
+  fact: string;
+  source_type: 'chat' | 'journal' | 'manual';
+  source_id?: string | null;
+  last_used_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Follow-ups suggested when a chat is saved to the journal
+export interface SuggestedPrayerRequest {
+  title: string;
+  description: string;
+}
+
+export interface SuggestedMemoryVerse {
+  reference: string;
+  reason: string;
+}
+
+export interface ChatJournalSuggestions {
+  prayerRequests: SuggestedPrayerRequest[];
+  memoryVerses: SuggestedMemoryVerse[];
 }
 
 export interface UserProfile {
@@ -54,7 +229,10 @@ export interface UserPreferences {
     };
   };
   theme: string;
+  // Also the translation the AI coach quotes from
   verse_translation: string;
+  default_coaching_mode?: CoachingMode;
+  theological_tradition?: TheologicalTradition | null;
   created_at?: string;
   updated_at?: string;
 }
@@ -100,6 +278,12 @@ export interface ScriptureMemory {
   mastery_score?: number;
   practice_count?: number;
   favorite?: boolean;
+  ease_factor?: number;
+  interval_days?: number;
+  repetitions?: number;
+  lapse_count?: number;
+  // When the verse first reached memorized level (4+)
+  memorized_at?: string | null;
 }
 
 export interface DailyDevotional {
@@ -301,6 +485,7 @@ export interface SpiritualGoal {
   ai_context?: Record<string, any>;
   created_at?: string;
   updated_at?: string;
+  completed_at?: string | null;
   milestones?: GoalMilestone[];
   reflections?: GoalReflection[];
 }
@@ -349,6 +534,8 @@ export interface SermonSummary {
   biblical_characters?: string[];
   historical_context?: string;
   follow_up_questions?: string[];
+  // Scripture quoted in the summary, checked once the analysis is complete
+  scripture_checks?: ScriptureCheck[] | null;
   ai_context?: {
     status?: 'processing_started' | 'processing' | 'completed' | 'error';
     step?: string;
@@ -0,0 +1,133 @@
+import { supabase } from './supabase';
+import type { MemoryFact, MemoryFactCategory } from './types';
+
+const FACT_COLUMNS = 'id,user_id,category,fact,source_type,source_id,last_used_at,created_at,updated_at';
+
+export const MEMORY_FACT_CATEGORIES: { value: MemoryFactCategory; label: string }[] = [
+  { value: 'family', label: 'Family & Friends' },
+  { value: 'church', label: 'Church & Ministry' },
+  { value: 'struggle', label: 'Struggles' },
+  { value: 'goal', label: 'Goals' },
+  { value: 'life_event', label: 'Life Events' },
+  { value: 'preference', label: 'Preferences' },
+  { value: 'other', label: 'Other' },
+];
+
+/**
+ * List everything the AI coach remembers about the current user
+ */
+export async function getMemoryFacts(): Promise<MemoryFact[]> {
+  const { data, error } = await supabase
+    .from('user_memory_facts')
+    .select(FACT_COLUMNS)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching memory facts:', error);
+    throw error;
+  }
+
+  return (data || []) as MemoryFact[];
+}
+
+/**
+ * Add a fact the user wants the coach to know
+ */
+export async function addMemoryFact(category: MemoryFactCategory, fact: string): Promise<MemoryFact> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) {
+    throw new Error('User not authenticated');
+  }
+
+  const { data, error } = await supabase
+    .from('user_memory_facts')
+    .insert({ user_id: userData.user.id, category, fact: fact.trim(), source_type: 'manual' })
+    .select(FACT_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error adding memory fact:', error);
+    throw error;
+  }
+
+  return data as MemoryFact;
+}
+
+export async function updateMemoryFact(
+  id: string,
+  updates: { category?: MemoryFactCategory; fact?: string }
+): Promise<MemoryFact> {
+  const { data, error } = await supabase
+    .from('user_memory_facts')
+    .update(updates.fact !== undefined ? { ...updates, fact: updates.fact.trim() } : updates)
+    .eq('id', id)
+    .select(FACT_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error updating memory fact:', error);
+    throw error;
+  }
+
+  return data as MemoryFact;
+}
+
+export async function deleteMemoryFact(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_memory_facts')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting memory fact:', error);
+    throw error;
+  }
+}
+
+/**
+ * Forget everything. RLS limits the delete to the caller's own rows.
+ */
+export async function clearMemoryFacts(): Promise<void> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) {
+    throw new Error('User not authenticated');
+  }
+
+  const { error } = await supabase
+    .from('user_memory_facts')
+    .delete()
+    .eq('user_id', userData.user.id);
+
+  if (error) {
+    console.error('Error clearing memory facts:', error);
+    throw error;
+  }
+}
+
+/**
+ * Ask the server to learn from a saved journal entry. Best effort: failures are
+ * logged and never block saving the entry.
+ */
+export async function extractMemoryFactsFromJournal(journalEntryId: string): Promise<void> {
+  try {
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return;
+
+    const response = await fetch(`${supabaseUrl}/functions/v1/extract-memory-facts`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ journalEntryId }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Error ${response.status}`);
+    }
+  } catch (error) {
+    console.error('Error extracting memory facts from journal entry:', error);
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { getVerseCount, mapVerse, validateScriptureReference } from './versification';
+
+describe('getVerseCount', () => {
+  it('counts verses per chapter', () => {
+    expect(getVerseCount('psalms', 119)).toBe(176);
+    expect(getVerseCount('john', 3)).toBe(36);
+    expect(getVerseCount('john', 22)).toBe(0);
+  });
+});
+
+describe('mapVerse', () => {
+  it.each([
+    [{ book: 'malachi', chapter: 4, verse: 1 }, { book: 'malachi', chapter: 3, verse: 19 }],
+    [{ book: 'joel', chapter: 2, verse: 28 }, { book: 'joel', chapter: 3, verse: 1 }],
+    [{ book: 'isaiah', chapter: 64, verse: 1 }, { book: 'isaiah', chapter: 63, verse: 19 }],
+    [{ book: 'isaiah', chapter: 64, verse: 2 }, { book: 'isaiah', chapter: 64, verse: 1 }],
+    [{ book: 'psalms', chapter: 51, verse: 1 }, { book: 'psalms', chapter: 51, verse: 3 }],
+    [{ book: 'john', chapter: 3, verse: 16 }, { book: 'john', chapter: 3, verse: 16 }],
+  ])('maps English %o to Hebrew %o and back', (english, hebrew) => {
+    expect(mapVerse(english, 'english', 'hebrew')).toEqual(hebrew);
+    expect(mapVerse(hebrew, 'hebrew', 'english')).toEqual(english);
+  });
+
+  it('gives every English verse of a shifted chapter its own Hebrew verse', () => {
+    const mapped = new Set<string>();
+    for (let verse = 1; verse <= getVerseCount('isaiah', 64); verse++) {
+      const { chapter, verse: target } = mapVerse({ book: 'isaiah', chapter: 64, verse }, 'english', 'hebrew');
+      mapped.add(`${chapter}:${target}`);
+    }
+    expect(mapped.size).toBe(getVerseCount('isaiah', 64));
+  });
+});
+
+describe('validateScriptureReference', () => {
+  it('normalizes valid references', () => {
+    expect(validateScriptureReference('Phil 4:6-7 (ESV)')).toEqual({ valid: true, normalized: 'Philippians 4:6-7' });
+  });
+
+  it('reports verses and chapters that do not exist', () => {
+    expect(validateScriptureReference('John 3:37')).toMatchObject({ valid: false, reason: 'not_found' });
+    expect(validateScriptureReference('Jude 2')).toMatchObject({ valid: true });
+    expect(validateScriptureReference('Malachi 4:1', 'wlc')).toMatchObject({ valid: false, reason: 'not_found' });
+    expect(validateScriptureReference('Malachi 3:19', 'wlc')).toMatchObject({ valid: true });
+  });
+
+  it('tells unreadable references apart from missing verses', () => {
+    expect(validateScriptureReference('The Sermon on the Mount')).toMatchObject({
+      valid: false,
+      reason: 'unrecognized',
+    });
+  });
+});
@@ -0,0 +1,289 @@
+// Canon data: verses per chapter for the Protestant canon, plus mapping between
+// the versification schemes used by different translations.
+import { parseScriptureReference, formatScriptureReference, type ScriptureReference } from './scripture-reference';
+
+export type Versification = 'english' | 'hebrew';
+
+// Verses per chapter in the English (KJV) versification, keyed by book id
+export const VERSE_COUNTS: Record<string, number[]> = {
+  genesis: [31, 25, 24, 26, 32, 22, 24, 22, 29, 32, 32, 20, 18, 24, 21, 16, 27, 33, 38, 18, 34, 24, 20, 67, 34, 35, 46, 22, 35, 43, 55, 32, 20, 31, 29, 43, 36, 30, 23, 23, 57, 38, 34, 34, 28, 34, 31, 22, 33, 26],
+  exodus: [22, 25, 22, 31, 23, 30, 25, 32, 35, 29, 10, 51, 22, 31, 27, 36, 16, 27, 25, 26, 36, 31, 33, 18, 40, 37, 21, 43, 46, 38, 18, 35, 23, 35, 35, 38, 29, 31, 43, 38],
+  leviticus: [17, 16, 17, 35, 19, 30, 38, 36, 24, 20, 47, 8, 59, 57, 33, 34, 16, 30, 37, 27, 24, 33, 44, 23, 55, 46, 34],
+  numbers: [54, 34, 51, 49, 31, 27, 89, 26, 23, 36, 35, 16, 33, 45, 41, 50, 13, 32, 22, 29, 35, 41, 30, 25, 18, 65, 23, 31, 40, 16, 54, 42, 56, 29, 34, 13],
+  deuteronomy: [46, 37, 29, 49, 33, 25, 26, 20, 29, 22, 32, 32, 18, 29, 23, 22, 20, 22, 21, 20, 23, 30, 25, 22, 19, 19, 26, 68, 29, 20, 30, 52, 29, 12],
+  joshua: [18, 24, 17, 24, 15, 27, 26, 35, 27, 43, 23, 24, 33, 15, 63, 10, 18, 28, 51, 9, 45, 34, 16, 33],
+  judges: [36, 23, 31, 24, 31, 40, 25, 35, 57, 18, 40, 15, 25, 20, 20, 31, 13, 31, 30, 48, 25],
+  ruth: [22, 23, 18, 22],
+  '1samuel': [28, 36, 21, 22, 12, 21, 17, 22, 27, 27, 15, 25, 23, 52, 35, 23, 58, 30, 24, 42, 15, 23, 29, 22, 44, 25, 12, 25, 11, 31, 13],
+  '2samuel': [27, 32, 39, 12, 25, 23, 29, 18, 13, 19, 27, 31, 39, 33, 37, 23, 29, 33, 43, 26, 22, 51, 39, 25],
+  '1kings': [53, 46, 28, 34, 18, 38, 51, 66, 28, 29, 43, 33, 34, 31, 34, 34, 24, 46, 21, 43, 29, 53],
+  '2kings': [18, 25, 27, 44, 27, 33, 20, 29, 37, 36, 21, 21, 25, 29, 38, 20, 41, 37, 37, 21, 26, 20, 37, 20, 30],
+  '1chronicles': [54, 55, 24, 43, 26, 81, 40, 40, 44, 14, 47, 40, 14, 17, 29, 43, 27, 17, 19, 8, 30, 19, 32, 31, 31, 32, 34, 21, 30],
+  '2chronicles': [17, 18, 17, 22, 14, 42, 22, 18, 31, 19, 23, 16, 22, 15, 19, 14, 19, 34, 11, 37, 20, 12, 21, 27, 28, 23, 9, 27, 36, 27, 21, 33, 25, 33, 27, 23],
+  ezra: [11, 70, 13, 24, 17, 22, 28, 36, 15, 44],
+  nehemiah: [11, 20, 32, 23, 19, 19, 73, 18, 38, 39, 36, 47, 31],
+  esther: [22, 23, 15, 17, 14, 14, 10, 17, 32, 3],
+  job: [22, 13, 26, 21, 27, 30, 21, 22, 35, 22, 20, 25, 28, 22, 35, 22, 16, 21, 29, 29, 34, 30, 17, 25, 6, 14, 23, 28, 25, 31, 40, 22, 33, 37, 16, 33, 24, 41, 30, 24, 34, 17],
+  psalms: [
+    6, 12, 8, 8, 12, 10, 17, 9, 20, 18, 7, 8, 6, 7, 5, 11, 15, 50, 14, 9, 13, 31, 6, 10, 22, 12, 14, 9, 11, 12,
+    24, 11, 22, 22, 28, 12, 40, 22, 13, 17, 13, 11, 5, 26, 17, 11, 9, 14, 20, 23, 19, 9, 6, 7, 23, 13, 11, 11, 17, 12,
+    8, 12, 11, 10, 13, 20, 7, 35, 36, 5, 24, 20, 28, 23, 10, 12, 20, 72, 13, 19, 16, 8, 18, 12, 13, 17, 7, 18, 52, 17,
+    16, 15, 5, 23, 11, 13, 12, 9, 9, 5, 8, 28, 22, 35, 45, 48, 43, 13, 31, 7, 10, 10, 9, 8, 18, 19, 2, 29, 176, 7,
+    8, 9, 4, 8, 5, 6, 5, 6, 8, 8, 3, 18, 3, 3, 21, 26, 9, 8, 24, 13, 10, 7, 12, 15, 21, 10, 20, 14, 9, 6,
+  ],
+  proverbs: [33, 22, 35, 27, 23, 35, 27, 36, 18, 32, 31, 28, 25, 35, 33, 33, 28, 24, 29, 30, 31, 29, 35, 34, 28, 28, 27, 28, 27, 33, 31],
+  ecclesiastes: [18, 26, 22, 16, 20, 12, 29, 17, 18, 20, 10, 14],
+  songofsolomon: [17, 17, 11, 16, 16, 13, 13, 14],
+  isaiah: [31, 22, 26, 6, 30, 13, 25, 22, 21, 34, 16, 6, 22, 32, 9, 14, 14, 7, 25, 6, 17, 25, 18, 23, 12, 21, 13, 29, 24, 33, 9, 20, 24, 17, 10, 22, 38, 22, 8, 31, 29, 25, 28, 28, 25, 13, 15, 22, 26, 11, 23, 15, 12, 17, 13, 12, 21, 14, 21, 22, 11, 12, 19, 12, 25, 24],
+  jeremiah: [19, 37, 25, 31, 31, 30, 34, 22, 26, 25, 23, 17, 27, 22, 21, 21, 27, 23, 15, 18, 14, 30, 40, 10, 38, 24, 22, 17, 32, 24, 40, 44, 26, 22, 19, 32, 21, 28, 18, 16, 18, 22, 13, 30, 5, 28, 7, 47, 39, 46, 64, 34],
+  lamentations: [22, 22, 66, 22, 22],
+  ezekiel: [28, 10, 27, 17, 17, 14, 27, 18, 11, 22, 25, 28, 23, 23, 8, 63, 24, 32, 14, 49, 32, 31, 49, 27, 17, 21, 36, 26, 21, 26, 18, 32, 33, 31, 15, 38, 28, 23, 29, 49, 26, 20, 27, 31, 25, 24, 23, 35],
+  daniel: [21, 49, 30, 37, 31, 28, 28, 27, 27, 21, 45, 13],
+  hosea: [11, 23, 5, 19, 15, 11, 16, 14, 17, 15, 12, 14, 16, 9],
+  joel: [20, 32, 21],
+  amos: [15, 16, 15, 13, 27, 14, 17, 14, 15],
+  obadiah: [21],
+  jonah: [17, 10, 10, 11],
+  micah: [16, 13, 12, 13, 15, 16, 20],
+  nahum: [15, 13, 19],
+  habakkuk: [17, 20, 19],
+  zephaniah: [18, 15, 20],
+  haggai: [15, 23],
+  zechariah: [21, 13, 10, 14, 11, 15, 14, 23, 17, 12, 17, 14, 9, 21],
+  malachi: [14, 17, 18, 6],
+  matthew: [25, 23, 17, 25, 48, 34, 29, 34, 38, 42, 30, 50, 58, 36, 39, 28, 27, 35, 30, 34, 46, 46, 39, 51, 46, 75, 66, 20],
+  mark: [45, 28, 35, 41, 43, 56, 37, 38, 50, 52, 33, 44, 37, 72, 47, 20],
+  luke: [80, 52, 38, 44, 39, 49, 50, 56, 62, 42, 54, 59, 35, 35, 32, 31, 37, 43, 48, 47, 38, 71, 56, 53],
+  john: [51, 25, 36, 54, 47, 71, 53, 59, 41, 42, 57, 50, 38, 31, 27, 33, 26, 40, 42, 31, 25],
+  acts: [26, 47, 26, 37, 42, 15, 60, 40, 43, 48, 30, 25, 52, 28, 41, 40, 34, 28, 41, 38, 40, 30, 35, 27, 27, 32, 44, 31],
+  romans: [32, 29, 31, 25, 21, 23, 25, 39, 33, 21, 36, 21, 14, 23, 33, 27],
+  '1corinthians': [31, 16, 23, 21, 13, 20, 40, 13, 27, 33, 34, 31, 13, 40, 58, 24],
+  '2corinthians': [24, 17, 18, 18, 21, 18, 16, 24, 15, 18, 33, 21, 14],
+  galatians: [24, 21, 29, 31, 26, 18],
+  ephesians: [23, 22, 21, 32, 33, 24],
+  philippians: [30, 30, 21, 23],
+  colossians: [29, 23, 25, 18],
+  '1thessalonians': [10, 20, 13, 18, 28],
+  '2thessalonians': [12, 17, 18],
+  '1timothy': [20, 15, 16, 16, 25, 21],
+  '2timothy': [18, 26, 17, 22],
+  titus: [16, 15, 15],
+  philemon: [25],
+  hebrews: [14, 18, 19, 16, 14, 20, 28, 13, 28, 39, 40, 29, 25],
+  james: [27, 26, 18, 17, 20],
+  '1peter': [25, 25, 22, 19, 14],
+  '2peter': [21, 22, 18],
+  '1john': [10, 29, 24, 21, 21],
+  '2john': [13],
+  '3john': [14],
+  jude: [25],
+  revelation: [20, 29, 22, 11, 14, 17, 17, 13, 21, 11, 19, 17, 18, 20, 8, 21, 18, 24, 21, 15, 27, 21],
+};
+
+// A run of English verses that sits at a different chapter/verse in another scheme
+interface VerseShift {
+  book: string;
+  chapter: number;
+  fromVerse: number;
+  toVerse: number;
+  targetChapter: number;
+  targetVerse: number;
+}
+
+// Where the Hebrew (Masoretic) text divides chapters differently from English
+// Bibles, e.g. Malachi 4:1-6 is Malachi 3:19-24 and Joel 2:28-32 is Joel 3:1-5.
+const HEBREW_SHIFTS: VerseShift[] = [
+  { book: 'genesis', chapter: 31, fromVerse: 55, toVerse: 55, targetChapter: 32, targetVerse: 1 },
+  { book: 'genesis', chapter: 32, fromVerse: 1, toVerse: 32, targetChapter: 32, targetVerse: 2 },
+  { book: 'exodus', chapter: 8, fromVerse: 1, toVerse: 4, targetChapter: 7, targetVerse: 26 },
+  { book: 'exodus', chapter: 8, fromVerse: 5, toVerse: 32, targetChapter: 8, targetVerse: 1 },
+  { book: 'exodus', chapter: 22, fromVerse: 1, toVerse: 1, targetChapter: 21, targetVerse: 37 },
+  { book: 'exodus', chapter: 22, fromVerse: 2, toVerse: 31, targetChapter: 22, targetVerse: 1 },
+  { book: 'leviticus', chapter: 6, fromVerse: 1, toVerse: 7, targetChapter: 5, targetVerse: 20 },
+  { book: 'leviticus', chapter: 6, fromVerse: 8, toVerse: 30, targetChapter: 6, targetVerse: 1 },
+  { book: 'numbers', chapter: 16, fromVerse: 36, toVerse: 50, targetChapter: 17, targetVerse: 1 },
+  { book: 'numbers', chapter: 17, fromVerse: 1, toVerse: 13, targetChapter: 17, targetVerse: 16 },
+  { book: 'deuteronomy', chapter: 12, fromVerse: 32, toVerse: 32, targetChapter: 13, targetVerse: 1 },
+  { book: 'deuteronomy', chapter: 13, fromVerse: 1, toVerse: 18, targetChapter: 13, targetVerse: 2 },
+  { book: '1samuel', chapter: 23, fromVerse: 29, toVerse: 29, targetChapter: 24, targetVerse: 1 },
+  { book: '1samuel', chapter: 24, fromVerse: 1, toVerse: 22, targetChapter: 24, targetVerse: 2 },
+  { book: '2samuel', chapter: 18, fromVerse: 33, toVerse: 33, targetChapter: 19, targetVerse: 1 },
+  { book: '2samuel', chapter: 19, fromVerse: 1, toVerse: 43, targetChapter: 19, targetVerse: 2 },
+  { book: '1kings', chapter: 4, fromVerse: 21, toVerse: 34, targetChapter: 5, targetVerse: 1 },
+  { book: '1kings', chapter: 5, fromVerse: 1, toVerse: 18, targetChapter: 5, targetVerse: 15 },
+  { book: '2kings', chapter: 11, fromVerse: 21, toVerse: 21, targetChapter: 12, targetVerse: 1 },
+  { book: '2kings', chapter: 12, fromVerse: 1, toVerse: 21, targetChapter: 12, targetVerse: 2 },
+  { book: '1chronicles', chapter: 6, fromVerse: 1, toVerse: 15, targetChapter: 5, targetVerse: 27 },
+  { book: '1chronicles', chapter: 6, fromVerse: 16, toVerse: 81, targetChapter: 6, targetVerse: 1 },
+  { book: '2chronicles', chapter: 2, fromVerse: 1, toVerse: 1, targetChapter: 1, targetVerse: 18 },
+  { book: '2chronicles', chapter: 2, fromVerse: 2, toVerse: 18, targetChapter: 2, targetVerse: 1 },
+  { book: '2chronicles', chapter: 14, fromVerse: 1, toVerse: 1, targetChapter: 13, targetVerse: 23 },
+  { book: '2chronicles', chapter: 14, fromVerse: 2, toVerse: 15, targetChapter: 14, targetVerse: 1 },
+  { book: 'nehemiah', chapter: 4, fromVerse: 1, toVerse: 6, targetChapter: 3, targetVerse: 33 },
+  { book: 'nehemiah', chapter: 4, fromVerse: 7, toVerse: 23, targetChapter: 4, targetVerse: 1 },
+  { book: 'nehemiah', chapter: 9, fromVerse: 38, toVerse: 38, targetChapter: 10, targetVerse: 1 },
+  { book: 'nehemiah', chapter: 10, fromVerse: 1, toVerse: 39, targetChapter: 10, targetVerse: 2 },
+  { book: 'job', chapter: 41, fromVerse: 1, toVerse: 8, targetChapter: 40, targetVerse: 25 },
+  { book: 'job', chapter: 41, fromVerse: 9, toVerse: 34, targetChapter: 41, targetVerse: 1 },
+  { book: 'ecclesiastes', chapter: 5, fromVerse: 1, toVerse: 1, targetChapter: 4, targetVerse: 17 },
+  { book: 'ecclesiastes', chapter: 5, fromVerse: 2, toVerse: 20, targetChapter: 5, targetVerse: 1 },
+  { book: 'songofsolomon', chapter: 6, fromVerse: 13, toVerse: 13, targetChapter: 7, targetVerse: 1 },
+  { book: 'songofsolomon', chapter: 7, fromVerse: 1, toVerse: 13, targetChapter: 7, targetVerse: 2 },
+  { book: 'isaiah', chapter: 9, fromVerse: 1, toVerse: 1, targetChapter: 8, targetVerse: 23 },
+  { book: 'isaiah', chapter: 9, fromVerse: 2, toVerse: 21, targetChapter: 9, targetVerse: 1 },
+  { book: 'isaiah', chapter: 64, fromVerse: 1, toVerse: 1, targetChapter: 63, targetVerse: 19 },
+  { book: 'isaiah', chapter: 64, fromVerse: 2, toVerse: 12, targetChapter: 64, targetVerse: 1 },
+  { book: 'jeremiah', chapter: 9, fromVerse: 1, toVerse: 1, targetChapter: 8, targetVerse: 23 },
+  { book: 'jeremiah', chapter: 9, fromVerse: 2, toVerse: 26, targetChapter: 9, targetVerse: 1 },
+  { book: 'ezekiel', chapter: 20, fromVerse: 45, toVerse: 49, targetChapter: 21, targetVerse: 1 },
+  { book: 'ezekiel', chapter: 21, fromVerse: 1, toVerse: 32, targetChapter: 21, targetVerse: 6 },
+  { book: 'daniel', chapter: 4, fromVerse: 1, toVerse: 3, targetChapter: 3, targetVerse: 31 },
+  { book: 'daniel', chapter: 4, fromVerse: 4, toVerse: 37, targetChapter: 4, targetVerse: 1 },
+  { book: 'daniel', chapter: 5, fromVerse: 31, toVerse: 31, targetChapter: 6, targetVerse: 1 },
+  { book: 'daniel', chapter: 6, fromVerse: 1, toVerse: 28, targetChapter: 6, targetVerse: 2 },
+  { book: 'hosea', chapter: 1, fromVerse: 10, toVerse: 11, targetChapter: 2, targetVerse: 1 },
+  { book: 'hosea', chapter: 2, fromVerse: 1, toVerse: 23, targetChapter: 2, targetVerse: 3 },
+  { book: 'hosea', chapter: 11, fromVerse: 12, toVerse: 12, targetChapter: 12, targetVerse: 1 },
+  { book: 'hosea', chapter: 12, fromVerse: 1, toVerse: 14, targetChapter: 12, targetVerse: 2 },
+  { book: 'hosea', chapter: 13, fromVerse: 16, toVerse: 16, targetChapter: 14, targetVerse: 1 },
+  { book: 'hosea', chapter: 14, fromVerse: 1, toVerse: 9, targetChapter: 14, targetVerse: 2 },
+  { book: 'joel', chapter: 2, fromVerse: 28, toVerse: 32, targetChapter: 3, targetVerse: 1 },
+  { book: 'joel', chapter: 3, fromVerse: 1, toVerse: 21, targetChapter: 4, targetVerse: 1 },
+  { book: 'jonah', chapter: 1, fromVerse: 17, toVerse: 17, targetChapter: 2, targetVerse: 1 },
+  { book: 'jonah', chapter: 2, fromVerse: 1, toVerse: 10, targetChapter: 2, targetVerse: 2 },
+  { book: 'micah', chapter: 5, fromVerse: 1, toVerse: 1, targetChapter: 4, targetVerse: 14 },
+  { book: 'micah', chapter: 5, fromVerse: 2, toVerse: 15, targetChapter: 5, targetVerse: 1 },
+  { book: 'nahum', chapter: 1, fromVerse: 15, toVerse: 15, targetChapter: 2, targetVerse: 1 },
+  { book: 'nahum', chapter: 2, fromVerse: 1, toVerse: 13, targetChapter: 2, targetVerse: 2 },
+  { book: 'zechariah', chapter: 1, fromVerse: 18, toVerse: 21, targetChapter: 2, targetVerse: 1 },
+  { book: 'zechariah', chapter: 2, fromVerse: 1, toVerse: 13, targetChapter: 2, targetVerse: 5 },
+  { book: 'malachi', chapter: 4, fromVerse: 1, toVerse: 6, targetChapter: 3, targetVerse: 19 },
+];
+
+// Psalms whose superscription is numbered as verse 1 (or 1-2) in Hebrew Bibles
+const HEBREW_PSALM_TITLE_OFFSETS: Record<number, number> = {
+  3: 1, 4: 1, 5: 1, 6: 1, 7: 1, 8: 1, 9: 1, 12: 1, 18: 1, 19: 1, 20: 1, 21: 1, 22: 1,
+  30: 1, 31: 1, 34: 1, 36: 1, 38: 1, 39: 1, 40: 1, 41: 1, 42: 1, 44: 1, 45: 1, 46: 1,
+  47: 1, 48: 1, 49: 1, 51: 2, 52: 2, 53: 1, 54: 2, 55: 1, 56: 1, 57: 1, 58: 1, 59: 1,
+  60: 2, 61: 1, 62: 1, 63: 1, 64: 1, 65: 1, 67: 1, 68: 1, 69: 1, 70: 1, 75: 1, 76: 1,
+  77: 1, 80: 1, 81: 1, 83: 1, 84: 1, 85: 1, 88: 1, 89: 1, 92: 1, 102: 1, 108: 1, 140: 1,
+  142: 1,
+};
+
+// Translations that follow the Hebrew chapter and verse divisions
+const TRANSLATION_VERSIFICATION: Record<string, Versification> = {
+  wlc: 'hebrew',
+  jps: 'hebrew',
+  njps: 'hebrew',
+  hebrew: 'hebrew',
+};
+
+export function getVersificationForTranslation(translation: string): Versification {
+  return TRANSLATION_VERSIFICATION[translation.toLowerCase()] || 'english';
+}
+
+/**
+ * Number of verses in a chapter (English versification), or 0 if it does not exist
+ */
+export function getVerseCount(bookId: string, chapter: number): number {
+  return VERSE_COUNTS[bookId]?.[chapter - 1] ?? 0;
+}
+
+export interface VersePosition {
+  book: string;
+  chapter: number;
+  verse: number;
+}
+
+/**
+ * Convert a verse position between versification schemes
+ */
+export function mapVerse(position: VersePosition, from: Versification, to: Versification): VersePosition {
+  if (from === to) return position;
+  const toHebrew = to === 'hebrew';
+  const { book, chapter, verse } = position;
+
+  if (book === 'psalms') {
+    const offset = HEBREW_PSALM_TITLE_OFFSETS[chapter] || 0;
+    const mappedVerse = toHebrew ? verse + offset : Math.max(1, verse - offset);
+    return { book, chapter, verse: mappedVerse };
+  }
+
+  for (const shift of HEBREW_SHIFTS) {
+    if (shift.book !== book) continue;
+    const length = shift.toVerse - shift.fromVerse;
+
+    if (toHebrew && shift.chapter === chapter && verse >= shift.fromVerse && verse <= shift.toVerse) {
+      return { book, chapter: shift.targetChapter, verse: shift.targetVerse + (verse - shift.fromVerse) };
+    }
+    if (!toHebrew && shift.targetChapter === chapter && verse >= shift.targetVerse && verse <= shift.targetVerse + length) {
+      return { book, chapter: shift.chapter, verse: shift.fromVerse + (verse - shift.targetVerse) };
+    }
+  }
+
+  return position;
+}
+
+export interface ReferenceValidation {
+  valid: boolean;
+  // Canonical form of the reference when it is valid
+  normalized?: string;
+  error?: string;
+  // Why an invalid reference failed: it couldn't be read at all, or it names
+  // chapters or verses that don't exist
+  reason?: 'unrecognized' | 'not_found';
+}
+
+/**
+ * Check that every chapter and verse in a reference exists. References are
+ * converted to English versification first when the translation differs.
+ */
+export function validateScriptureReference(
+  reference: string | ScriptureReference,
+  translation = 'kjv'
+): ReferenceValidation {
+  const parsed = typeof reference === 'string' ? parseScriptureReference(reference) : reference;
+  if (!parsed) {
+    return { valid: false, reason: 'unrecognized', error: `Could not understand the reference "${reference}"` };
+  }
+
+  const scheme = getVersificationForTranslation(translation);
+
+  for (const segment of parsed.segments) {
+    const bookId = segment.book.id;
+    const positions: [number, number | undefined][] = [
+      [segment.startChapter, segment.startVerse],
+      [segment.endChapter, segment.endVerse],
+    ];
+
+    for (const [chapter, verse] of positions) {
+      if (verse === undefined) {
+        if (getVerseCount(bookId, chapter) === 0) {
+          return { valid: false, reason: 'not_found', error: `${segment.book.name} has no chapter ${chapter}` };
+        }
+        continue;
+      }
+
+      const english = mapVerse({ book: bookId, chapter, verse }, scheme, 'english');
+      const roundTrip = mapVerse(english, 'english', scheme);
+      const count = getVerseCount(bookId, english.chapter);
+      // A position that does not map back to itself does not exist in the source scheme
+      if (roundTrip.chapter !== chapter || roundTrip.verse !== verse) {
+        return {
+          valid: false,
+          reason: 'not_found',
+          error: `${segment.book.name} ${chapter}:${verse} does not exist in this translation`,
+        };
+      }
+      if (english.verse < 1 || english.verse > count) {
+        return {
+          valid: false,
+          reason: 'not_found',
+          error: `${segment.book.name} ${chapter} has ${count} verses, not ${verse}`,
+        };
+      }
+    }
+  }
+
+  return { valid: true, normalized: formatScriptureReference(parsed) };
+}
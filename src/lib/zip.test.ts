@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+async function readBytes(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+// Walks the central directory the way an unzip tool would
+function listEntries(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries: { name: string; crc: number; content: string }[] = [];
+
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const offset = view.getUint32(position + 42, true);
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true);
+    entries.push({ name, crc, content: decoder.decode(bytes.subarray(dataStart, dataStart + size)) });
+    position += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('createZip', () => {
+  it('stores each file with its name and content', async () => {
+    const bytes = await readBytes(
+      createZip([
+        { name: 'journal/a.md', content: 'Hello' },
+        { name: 'journal/ünïcode.md', content: 'Grâce ✝' },
+      ])
+    );
+
+    expect(listEntries(bytes).map(({ name, content }) => ({ name, content }))).toEqual([
+      { name: 'journal/a.md', content: 'Hello' },
+      { name: 'journal/ünïcode.md', content: 'Grâce ✝' },
+    ]);
+  });
+
+  it('writes the standard CRC-32', async () => {
+    const [entry] = listEntries(await readBytes(createZip([{ name: 'a.txt', content: '123456789' }])));
+    expect(entry.crc).toBe(0xcbf43926);
+  });
+
+  it('writes an empty archive', async () => {
+    const bytes = await readBytes(createZip([]));
+    expect(bytes.length).toBe(22);
+    expect(listEntries(bytes)).toEqual([]);
+  });
+});
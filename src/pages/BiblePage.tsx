@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
+import { useSearchParams } from 'react-router-dom';
 import { Book, BookOpen, Heart, Search, Calendar, BookMarked } from 'lucide-react';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { BibleBrowser } from '@/components/bible/BibleBrowser';
@@ -10,10 +11,17 @@ import { useToast } from '@/hooks/use-toast';
 import { BibleVerse } from '@/lib/bible-api';
 import { saveScriptureMemory, getCurrentUser } from '@/lib/supabase';
 import { ScriptureMemory } from '@/lib/types';
-import { format, addDays } from 'date-fns';
+import { getInitialSchedule } from '@/lib/spaced-repetition';
+import { format } from 'date-fns';
 
 const BiblePage = () => {
-  const [activeTab, setActiveTab] = useState('bible-browser');
+  // Scripture links elsewhere in the app open here with ?ref=John%203:16,
+  // and cited reading reflections with ?plan=<id>&day=<n>
+  const [searchParams] = useSearchParams();
+  const initialReference = searchParams.get('ref') || undefined;
+  const initialPlanId = searchParams.get('plan') || undefined;
+  const initialDay = Number(searchParams.get('day')) || undefined;
+  const [activeTab, setActiveTab] = useState(initialPlanId ? 'reading-plans' : 'bible-browser');
   const { toast } = useToast();
 
   const handleAddToMemory = async (verse: BibleVerse) => {
@@ -34,10 +42,9 @@ const BiblePage = () => {
         verse_reference: verse.reference,
         verse_text: verse.text,
         translation: verse.translation_id,
-        memorized_level: 1,
         tags: [],
         notes: '',
-        next_review: format(addDays(new Date(), 1), 'yyyy-MM-dd'),
+        ...getInitialSchedule(),
         last_practiced: format(new Date(), 'yyyy-MM-dd'),
       };
       
@@ -100,6 +107,8 @@ const BiblePage = () => {
               className="bg-card rounded-lg shadow-sm border border-border p-6"
             >
               <BibleBrowser
+                key={initialReference}
+                initialReference={initialReference}
                 onAddToMemory={handleAddToMemory}
                 showActions={true}
               />
@@ -144,7 +153,7 @@ const BiblePage = () => {
               animate={{ opacity: 1, y: 0 }}
               transition={{ duration: 0.5, delay: 0.2 }}
             >
-              <ReadingPlansSection />
+              <ReadingPlansSection initialPlanId={initialPlanId} initialDay={initialDay} />
             </motion.div>
           </TabsContent>
         </Tabs>
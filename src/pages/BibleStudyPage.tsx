@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
+import { useSearchParams } from 'react-router-dom';
 import { Book, Search, Plus, Tag, Calendar, Edit, Trash2, Heart, X, Sparkles, FileText, UploadCloud } from 'lucide-react';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { Input } from '@/components/ui/input';
@@ -44,6 +45,7 @@ import { useToast } from '@/hooks/use-toast';
 import { getBibleStudyNotes, saveBibleStudyNote, updateBibleStudyNote, deleteBibleStudyNote } from '@/lib/supabase';
 import { BibleStudyNote } from '@/lib/types';
 import { format } from 'date-fns';
+import { validateScriptureReference } from '@/lib/versification';
 
 // New imports for AI Bible Study
 import { AIBibleStudyGenerator } from '@/components/bible/AIBibleStudyGenerator';
@@ -73,6 +75,8 @@ const BibleStudyPage = () => {
   });
   const [newTag, setNewTag] = useState('');
   const [activeTab, setActiveTab] = useState('notes');
+  // Chat citations link here with ?note=<id>
+  const [searchParams, setSearchParams] = useSearchParams();
   
   // AI Bible Studies state
   const [aiBibleStudies, setAIBibleStudies] = useState<AIBibleStudy[]>([]);
@@ -96,6 +100,17 @@ const BibleStudyPage = () => {
     }
   }, [activeTab]);
 
+  useEffect(() => {
+    const noteId = searchParams.get('note');
+    if (!noteId) return;
+    const note = notes.find(candidate => candidate.id === noteId);
+    if (note) {
+      setActiveTab('notes');
+      setSelectedNote(note);
+      setSearchParams({}, { replace: true });
+    }
+  }, [notes, searchParams]);
+
   useEffect(() => {
     if (searchQuery.trim() === '') {
       setFilteredNotes(notes);
@@ -174,9 +189,20 @@ const BibleStudyPage = () => {
       return;
     }
 
+    const referenceCheck = validateScriptureReference(newNote.scripture_reference);
+    if (!referenceCheck.valid) {
+      toast({
+        title: 'Invalid Scripture Reference',
+        description: referenceCheck.error,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     try {
       const note: BibleStudyNote = {
-        ...newNote
+        ...newNote,
+        scripture_reference: referenceCheck.normalized || newNote.scripture_reference
       };
       
       const savedNote = await saveBibleStudyNote(note);
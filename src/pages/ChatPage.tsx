@@ -1,18 +1,30 @@
 import { useState, useRef, useEffect, useContext } from 'react';
 import { motion } from 'framer-motion';
 import { useLocation, useNavigate } from 'react-router-dom';
-import { Send, Book, MessageSquare, Mic, Keyboard, StopCircle, FileText, Settings2 } from 'lucide-react';
+import { Send, Book, MessageSquare, Mic, Keyboard, StopCircle, FileText, Settings2, History } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { ChatMessage } from '@/components/chat/ChatMessage';
 import { VoiceChat } from '@/components/chat/VoiceChat';
-import { ChatMessage as ChatMessageType } from '@/lib/types';
+import { ChatThreadSidebar } from '@/components/chat/ChatThreadSidebar';
+import { JournalSuggestionsDialog } from '@/components/chat/JournalSuggestionsDialog';
+import { SafetyBanner, pickSafetyNotice } from '@/components/chat/SafetyBanner';
+import { ChatAction, ChatMessage as ChatMessageType, ChatSource, CoachingMode, SafetyNotice } from '@/lib/types';
+import { MarkdownContent } from '@/components/ui/MarkdownContent';
 import Navbar from '@/components/layout/Navbar';
 import Footer from '@/components/layout/Footer';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Link } from 'react-router-dom';
 import { AuthContext } from '@/App';
 import { useToast } from '@/hooks/use-toast';
+import { getChatThread, getChatThreadMessages, switchChatBranch, verifyChatReply } from '@/lib/chat-threads';
+import { useVerseTranslation } from '@/hooks/use-verse-translation';
+import { getUserPreferences } from '@/lib/supabase';
+import { COACHING_MODES, DEFAULT_COACHING_MODE } from '@/lib/coaching-modes';
+import { createJournalFromChat, ChatJournalResult } from '@/lib/chat-journal';
+import { ChatStreamError, ChatStreamMeta, streamChatReply } from '@/lib/chat-stream';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -25,26 +37,36 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 
-// Local storage keys for persistence
+// Local storage keys for persistence. Messages now load from the server; the
+// old message cache key is only cleared.
 const CHAT_STORAGE_KEY = 'truenorth_chat_messages';
 const THREAD_STORAGE_KEY = 'truenorth_chat_thread';
 
+const GREETING_MESSAGE: ChatMessageType = {
+  id: 'initial-message',
+  role: 'assistant',
+  content: "Hello! I'm TrueNorth, your faith-centered AI companion. How can I support your spiritual journey today?",
+};
+
 // Maximum retry attempts for failed requests
 const MAX_RETRIES = 2;
 // Base timeout in milliseconds (45 seconds)
 const BASE_TIMEOUT = 45000;
 
+// Where a message goes in the thread's tree. Without options it continues the
+// branch being viewed.
+interface BranchOptions {
+  // Message the new user message follows; null starts from the top
+  parentId?: string | null;
+  // Assistant reply to answer again instead of sending a new message
+  regenerateId?: string;
+}
+
 const ChatPage = () => {
   const { session } = useContext(AuthContext);
   const location = useLocation();
   const navigate = useNavigate();
-  const [messages, setMessages] = useState<ChatMessageType[]>([
-    {
-      id: 'initial-message',
-      role: 'assistant',
-      content: "Hello! I'm TrueNorth, your faith-centered AI companion. How can I support your spiritual journey today?",
-    },
-  ]);
+  const [messages, setMessages] = useState<ChatMessageType[]>([GREETING_MESSAGE]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [threadId, setThreadId] = useState<string | null>(null);
@@ -53,72 +75,51 @@ const ChatPage = () => {
   const [activeTab, setActiveTab] = useState('chat');
   const [chatMode, setChatMode] = useState<'text' | 'voice'>('text');
   const { toast } = useToast();
+  const translation = useVerseTranslation();
   const [hasProcessedInitialVerse, setHasProcessedInitialVerse] = useState(false);
+  const [isLoadingThread, setIsLoadingThread] = useState(false);
+  const [isThreadListOpen, setIsThreadListOpen] = useState(false);
+  // Bumped whenever the thread list in the sidebar may have changed
+  const [threadListVersion, setThreadListVersion] = useState(0);
+  // Journal entry just created by "End chat", with its follow-up suggestions
+  const [savedJournal, setSavedJournal] = useState<ChatJournalResult | null>(null);
+  // Mode for the current conversation; new ones start in the user's default
+  const [coachingMode, setCoachingMode] = useState<CoachingMode>(DEFAULT_COACHING_MODE);
+  const [defaultCoachingMode, setDefaultCoachingMode] = useState<CoachingMode>(DEFAULT_COACHING_MODE);
   
   // State for chat streaming
   const [currentStreamingMessage, setCurrentStreamingMessage] = useState('');
+  // Safety notice for the reply being streamed, until it is added to messages
+  const [streamingSafety, setStreamingSafety] = useState<SafetyNotice | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   
-  // Flag to prevent saving during chat recovery
-  const recoveryCompleteRef = useRef(false);
-  const initialLoadDoneRef = useRef(false);
-  
   // Timeout reference for request timeout
   const timeoutIdRef = useRef<number | null>(null);
   
   // Retry counter for failed requests
   const retryCountRef = useRef(0);
 
-  // Use localStorage for persistence
+  // Resume the last open thread with its history from the server
   useEffect(() => {
-    // Attempt to restore messages from localStorage
-    try {
-      const savedMessages = localStorage.getItem(CHAT_STORAGE_KEY);
-      const savedThreadId = localStorage.getItem(THREAD_STORAGE_KEY);
-      
-      if (savedMessages && session) {
-        const parsedMessages = JSON.parse(savedMessages);
-        // Only restore if we have more than the initial message and the messages are valid
-        if (parsedMessages && Array.isArray(parsedMessages) && parsedMessages.length > 1) {
-          setMessages(parsedMessages);
-          setConversationStarted(true);
-          
-          // Show a toast indicating chat was restored
-          toast({
-            title: 'Chat Restored',
-            description: 'Your previous conversation has been recovered.',
-          });
-        }
-      }
-      
-      if (savedThreadId && session) {
-        setThreadId(savedThreadId);
-      }
-      
-      // Mark initial load as complete
-      initialLoadDoneRef.current = true;
-      recoveryCompleteRef.current = true;
-    } catch (e) {
-      console.error('Error parsing saved messages:', e);
-      localStorage.removeItem(CHAT_STORAGE_KEY);
-      
-      // Ensure recovery is marked as complete even on error
-      initialLoadDoneRef.current = true;
-      recoveryCompleteRef.current = true;
+    localStorage.removeItem(CHAT_STORAGE_KEY);
+
+    const savedThreadId = localStorage.getItem(THREAD_STORAGE_KEY);
+    if (savedThreadId && session) {
+      loadThread(savedThreadId, true);
     }
   }, [session]);
-  
-  // Save messages to localStorage whenever they change
+
   useEffect(() => {
-    if (!initialLoadDoneRef.current) {
-      return; // Skip saving until initial load is complete
-    }
-    
-    // Only save if we have something meaningful to save (more than initial message)
-    if (messages.length > 1) {
-      localStorage.setItem(CHAT_STORAGE_KEY, JSON.stringify(messages));
-    }
-  }, [messages]);
+    if (!session?.user?.id) return;
+    getUserPreferences(session.user.id).then(preferences => {
+      const mode = preferences?.default_coaching_mode || DEFAULT_COACHING_MODE;
+      setDefaultCoachingMode(mode);
+      // Only a new conversation picks up the default
+      if (!localStorage.getItem(THREAD_STORAGE_KEY)) {
+        setCoachingMode(mode);
+      }
+    });
+  }, [session]);
   
   // Save threadId to localStorage whenever it changes
   useEffect(() => {
@@ -127,6 +128,64 @@ const ChatPage = () => {
     }
   }, [threadId]);
 
+  const loadThread = async (id: string, isRestore = false) => {
+    setIsLoadingThread(true);
+    try {
+      const [history, thread] = await Promise.all([getChatThreadMessages(id), getChatThread(id)]);
+      setCoachingMode(thread?.coaching_mode || DEFAULT_COACHING_MODE);
+      // A reply cut off from an earlier visit carries on streaming below
+      const lastMessage = history[history.length - 1];
+      const unfinished = lastMessage?.streaming ? lastMessage : null;
+      setMessages([GREETING_MESSAGE, ...(unfinished ? history.slice(0, -1) : history)]);
+      setThreadId(id);
+      setConversationStarted(history.length > 0);
+      if (unfinished) {
+        resumeReply(unfinished);
+      }
+      
+      if (isRestore && history.length > 0) {
+        toast({
+          title: 'Chat Restored',
+          description: 'Your previous conversation has been recovered.',
+        });
+      }
+    } catch (error) {
+      console.error('Error loading chat thread:', error);
+      localStorage.removeItem(THREAD_STORAGE_KEY);
+      if (!isRestore) {
+        toast({
+          title: 'Error',
+          description: 'Failed to load this conversation. Please try again.',
+          variant: 'destructive',
+        });
+      }
+    } finally {
+      setIsLoadingThread(false);
+    }
+  };
+
+  const handleSelectThread = (id: string) => {
+    setIsThreadListOpen(false);
+    if (id === threadId) return;
+    
+    cleanupRequest();
+    setIsLoading(false);
+    setCurrentStreamingMessage('');
+    setStreamingSafety(null);
+    setInput('');
+    loadThread(id);
+  };
+
+  const safetyNotice = pickSafetyNotice(
+    streamingSafety ? [...messages, { role: 'assistant', content: '', safety: streamingSafety }] : messages
+  );
+
+  const handleThreadDeleted = (id: string) => {
+    if (id === threadId) {
+      handleNewChat();
+    }
+  };
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -169,7 +228,7 @@ const ChatPage = () => {
     }
   };
 
-  const handleSendMessage = async (messageText: string = input, retry = 0) => {
+  const handleSendMessage = async (messageText: string = input, retry = 0, branch?: BranchOptions) => {
     if (!messageText.trim() || isLoading) return;
 
     // Check if user is authenticated
@@ -193,8 +252,11 @@ const ChatPage = () => {
       content: messageText,
     };
 
-    // Add user message to chat immediately
-    setMessages((prev) => [...prev, userMessage]);
+    // Add user message to chat immediately. A regenerated reply answers the
+    // message that is already there, and retries have added it before.
+    if (!branch?.regenerateId && retry === 0) {
+      setMessages((prev) => [...prev, userMessage]);
+    }
     setInput('');
     setIsLoading(true);
     
@@ -253,99 +315,108 @@ const ChatPage = () => {
         // Set the current retry count
         retryCountRef.current = retry;
 
+        let sources: ChatSource[] | undefined;
+        let actions: ChatAction[] | undefined;
+        let safety: SafetyNotice | undefined;
+        let messageIds: ChatStreamMeta['messageIds'];
+
         // Call the chat API with streaming enabled
-        const response = await fetch(`${supabaseUrl}/functions/v1/chat-stream`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${session.access_token}`,
-            'X-Client-Info': 'truenorth-app'
-          },
-          body: JSON.stringify({
+        const reply = await streamChatReply({
+          accessToken: session.access_token,
+          body: {
             message: messageText,
             threadId: threadId,
-          }),
-          signal: abortControllerRef.current.signal
-        });
-
-        // Clear the timeout since we got a response
-        if (timeoutIdRef.current) {
-          clearTimeout(timeoutIdRef.current);
-          timeoutIdRef.current = null;
-        }
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`Failed to get response from assistant: ${response.status} ${response.statusText} - ${errorText}`);
-        }
+            ...(branch?.parentId !== undefined ? { parentId: branch.parentId } : {}),
+            ...(branch?.regenerateId ? { regenerateId: branch.regenerateId } : {}),
+            mode: coachingMode,
+            // Chooses which country's crisis hotlines are shown if needed
+            locale: navigator.language,
+          },
+          signal: abortControllerRef.current.signal,
+          // Clear the timeout since we got a response
+          onOpen: () => {
+            if (timeoutIdRef.current) {
+              clearTimeout(timeoutIdRef.current);
+              timeoutIdRef.current = null;
+            }
+          },
+          onText: setCurrentStreamingMessage,
+          onMeta: (meta) => {
+            // If we received a threadId, save it
+            if (meta.threadId && !threadId) {
+              setThreadId(meta.threadId);
+              setThreadListVersion(version => version + 1);
+            }
 
-        // Process the stream
-        const reader = response.body?.getReader();
-        if (!reader) {
-          throw new Error('Response body is not readable');
-        }
+            // Items from the user's own writing that the reply may cite
+            if (meta.sources) {
+              sources = meta.sources;
+            }
 
-        // Read stream chunks
-        const decoder = new TextDecoder("utf-8");
-        let buffer = "";
-        let fullResponse = "";
+            // The safety check flagged this message or withheld the reply
+            if (meta.safety) {
+              safety = meta.safety;
+              setStreamingSafety(meta.safety);
+            }
 
-        while (true) {
-          const { done, value } = await reader.read();
-          
-          if (done) break;
+            // Proposed actions arrive after the reply text, before the final event
+            if (meta.actions) {
+              actions = meta.actions;
+            }
 
-          // Decode the chunk and add to buffer
-          buffer += decoder.decode(value, { stream: true });
-          
-          // Process complete lines from the buffer
-          let lines = buffer.split('\n\n');
-          // Keep the last (potentially incomplete) line in the buffer
-          buffer = lines.pop() || "";
-          
-          for (const line of lines) {
-            if (line.startsWith("data: ")) {
-              try {
-                // Parse the JSON data
-                const data = JSON.parse(line.substring(6));
-                const content = data.content || "";
-                
-                if (content) {
-                  fullResponse = content;
-                  setCurrentStreamingMessage(content);
-                  
-                  // If this is the final message chunk
-                  if (data.done) {
-                    // Add the complete message to chat
-                    const newAssistantMessage: ChatMessageType = {
-                      id: `assistant_${Date.now()}`,
-                      role: 'assistant',
-                      content: content,
-                    };
-                    
-                    setMessages((prev) => [...prev, newAssistantMessage]);
-                    setCurrentStreamingMessage('');
-                  }
-                }
-                
-                // If we received a threadId, save it
-                if (data.threadId && !threadId) {
-                  setThreadId(data.threadId);
-                }
-                
-                // Handle errors
-                if (data.error) {
-                  throw new Error(data.error);
-                }
-              } catch (parseError) {
-                console.error('Error parsing event:', parseError, line);
+            // Saved ids replace the temporary ones so the messages can be
+            // edited, regenerated and rated
+            if (meta.messageIds) {
+              const ids = meta.messageIds;
+              messageIds = ids;
+              if (!branch?.regenerateId) {
+                setMessages(prev => prev.map(message =>
+                  message.role === 'user' && message.parentId === undefined && message.content === messageText
+                    ? { ...message, id: ids.user || message.id, parentId: ids.parent }
+                    : message
+                ));
               }
             }
-          }
+          },
+        });
+
+        // Add the complete message to chat
+        const newAssistantMessage: ChatMessageType = {
+          id: reply.messageId || `assistant_${Date.now()}`,
+          role: 'assistant',
+          content: reply.content,
+          ...(reply.messageId && messageIds ? { parentId: messageIds.user } : {}),
+          sources,
+          actions,
+          safety,
+        };
+
+        setMessages((prev) => [...prev, newAssistantMessage]);
+        setCurrentStreamingMessage('');
+        setStreamingSafety(null);
+        setThreadListVersion(version => version + 1);
+        if (reply.messageId) {
+          checkReplyScripture(reply.messageId, reply.content);
+        }
+
+        // A new version was added next to an old one; reload the branch so
+        // the version switcher knows about both
+        if (branch && reply.messageId && threadId) {
+          refreshBranch(threadId);
         }
       } catch (error) {
         // Handle different error types
-        if (error.name === 'AbortError') {
+        if (error instanceof ChatStreamError) {
+          // The server gave up on this reply; sending again would repeat the message
+          console.error('Chat stream error:', error.message);
+          setCurrentStreamingMessage('');
+          setStreamingSafety(null);
+          setMessages((prev) => [...prev, {
+            id: `error_${Date.now()}`,
+            role: 'assistant',
+            content: `I'm sorry, something went wrong. ${error.message}`,
+          }]);
+        } else if (error.name === 'AbortError') {
           console.log('Request was aborted:', error.message);
           
           // Only add a message if it was a timeout (not a user-initiated abort)
@@ -366,7 +437,7 @@ const ChatPage = () => {
             
             // Add a slight delay before retrying
             setTimeout(() => {
-              handleSendMessage(messageText, retry + 1);
+              handleSendMessage(messageText, retry + 1, branch);
             }, 1000 * (retry + 1)); // Exponential backoff
             
             return;
@@ -388,7 +459,7 @@ const ChatPage = () => {
             
             // Add a slight delay before retrying
             setTimeout(() => {
-              handleSendMessage(messageText, retry + 1);
+              handleSendMessage(messageText, retry + 1, branch);
             }, 1000 * (retry + 1)); // Exponential backoff
             
             return;
@@ -422,6 +493,107 @@ const ChatPage = () => {
     }
   };
 
+  // Follow a reply that was still being written when the thread was opened
+  const resumeReply = async (reply: ChatMessageType) => {
+    if (!session?.access_token || !reply.id) return;
+
+    cleanupRequest();
+    abortControllerRef.current = new AbortController();
+    setIsLoading(true);
+    setCurrentStreamingMessage(reply.content);
+
+    let actions = reply.actions;
+    let safety = reply.safety;
+    try {
+      const result = await streamChatReply({
+        accessToken: session.access_token,
+        lastEventId: `${reply.id}:0`,
+        signal: abortControllerRef.current.signal,
+        onText: setCurrentStreamingMessage,
+        onMeta: (meta) => {
+          if (meta.safety) {
+            safety = meta.safety;
+            setStreamingSafety(meta.safety);
+          }
+          if (meta.actions) {
+            actions = meta.actions;
+          }
+        },
+      });
+      setMessages(prev => [...prev, { ...reply, content: result.content, streaming: undefined, actions, safety }]);
+      checkReplyScripture(reply.id, result.content);
+    } catch (error: any) {
+      if (error.name !== 'AbortError') {
+        console.error('Error resuming reply:', error);
+        setMessages(prev => [...prev, {
+          id: `error_${Date.now()}`,
+          role: 'assistant',
+          content: "I'm sorry, this reply was interrupted. Please try again.",
+        }]);
+      }
+    } finally {
+      setIsLoading(false);
+      setCurrentStreamingMessage('');
+      setStreamingSafety(null);
+      abortControllerRef.current = null;
+    }
+  };
+
+  // Check the verses quoted in a finished reply and show any corrections
+  const checkReplyScripture = async (messageId: string, content: string) => {
+    if (!content) return;
+    try {
+      const verified = await verifyChatReply(messageId, content, translation);
+      setMessages(prev => prev.map(message =>
+        message.id === messageId
+          ? { ...message, content: verified.content, scriptureChecks: verified.checks }
+          : message
+      ));
+    } catch (error) {
+      console.error('Error checking scripture in reply:', error);
+    }
+  };
+
+  const refreshBranch = async (id: string) => {
+    try {
+      const history = await getChatThreadMessages(id);
+      setMessages([GREETING_MESSAGE, ...history]);
+    } catch (error) {
+      // The reply is already shown; only the version switcher is missing
+      console.error('Error refreshing chat branch:', error);
+    }
+  };
+
+  const handleRegenerate = (index: number) => {
+    const message = messages[index];
+    const prompt = messages[index - 1];
+    if (!message.id || prompt?.role !== 'user') return;
+
+    setMessages(prev => prev.slice(0, index));
+    handleSendMessage(prompt.content, 0, { regenerateId: message.id });
+  };
+
+  const handleEdit = (index: number, content: string) => {
+    const message = messages[index];
+    setMessages(prev => prev.slice(0, index));
+    handleSendMessage(content, 0, { parentId: message.parentId ?? null });
+  };
+
+  const handleSwitchVersion = async (messageId: string) => {
+    if (!threadId) return;
+    try {
+      const history = await switchChatBranch(threadId, messageId);
+      setMessages([GREETING_MESSAGE, ...history]);
+    } catch (error) {
+      console.error('Error switching chat branch:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to show that version. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleEndChat = async () => {
     if (!session?.access_token || !conversationStarted) {
       toast({
@@ -448,47 +620,24 @@ const ChatPage = () => {
         return;
       }
 
-      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
-      
-      const response = await fetch(`${supabaseUrl}/functions/v1/chat-journal`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${session.access_token}`,
-        },
-        body: JSON.stringify({
-          messages: conversationMessages,
-          threadId: threadId,
-        }),
+      const { journalEntry, suggestions } = await createJournalFromChat(conversationMessages, threadId);
+
+      toast({
+        title: 'Chat Saved!',
+        description: journalEntry.is_encrypted
+          ? 'Your conversation has been saved to your spiritual journal and encrypted.'
+          : 'Your conversation has been saved to your spiritual journal.',
       });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to create journal entry: ${response.status} - ${errorText}`);
-      }
+      // Offer the suggested prayer requests and memory verses
+      setSavedJournal({ journalEntry, suggestions });
 
-      const data = await response.json();
-      
-      if (data.journalEntry) {
-        toast({
-          title: 'Chat Saved!',
-          description: 'Your conversation has been saved to your spiritual journal.',
-        });
-        
-        // Reset the chat and clear storage
-        setMessages([{
-          id: 'initial-message',
-          role: 'assistant',
-          content: "Hello! I'm TrueNorth, your faith-centered AI companion. How can I support your spiritual journey today?",
-        }]);
-        setThreadId(null);
-        setConversationStarted(false);
-        localStorage.removeItem(CHAT_STORAGE_KEY);
-        localStorage.removeItem(THREAD_STORAGE_KEY);
-        
-      } else {
-        throw new Error('No journal entry created');
-      }
+      // Reset the chat and clear storage
+      setMessages([GREETING_MESSAGE]);
+      setThreadId(null);
+      setConversationStarted(false);
+      localStorage.removeItem(THREAD_STORAGE_KEY);
+      setThreadListVersion(version => version + 1);
       
     } catch (error) {
       console.error('Error ending chat:', error);
@@ -515,21 +664,18 @@ const ChatPage = () => {
       timeoutIdRef.current = null;
     }
     
-    setMessages([{
-      id: 'initial-message',
-      role: 'assistant',
-      content: "Hello! I'm TrueNorth, your faith-centered AI companion. How can I support your spiritual journey today?",
-    }]);
+    setMessages([GREETING_MESSAGE]);
     setThreadId(null);
     setConversationStarted(false);
+    setCoachingMode(defaultCoachingMode);
     setInput('');
     setCurrentStreamingMessage('');
+    setStreamingSafety(null);
     // Reset the URL parameters without refreshing the page
     navigate('/chat', { replace: true });
     // Reset the verse processing flag
     setHasProcessedInitialVerse(false);
     // Clear stored chat data
-    localStorage.removeItem(CHAT_STORAGE_KEY);
     localStorage.removeItem(THREAD_STORAGE_KEY);
   };
 
@@ -555,7 +701,19 @@ const ChatPage = () => {
       <Navbar />
       
       <main className="flex-grow flex flex-col pt-24 pb-16">
-        <div className="container-custom mx-auto flex-grow flex flex-col max-w-4xl">
+        <div className="container-custom mx-auto flex-grow flex gap-6 max-w-6xl w-full">
+          {session && (
+            <ChatThreadSidebar
+              className="hidden md:flex w-64 shrink-0 max-h-[calc(100vh-10rem)] sticky top-24"
+              activeThreadId={threadId}
+              onSelectThread={handleSelectThread}
+              onNewChat={handleNewChat}
+              onThreadDeleted={handleThreadDeleted}
+              refreshKey={threadListVersion}
+            />
+          )}
+
+          <div className="flex-grow flex flex-col min-w-0">
           <motion.div 
             className="mb-4 text-center"
             initial={{ opacity: 0, y: -20 }}
@@ -592,26 +750,59 @@ const ChatPage = () => {
           
           {/* Input Mode Selector */}
           <div className="mb-4 flex justify-between items-center">
-            <div></div> {/* Empty div for spacing */}
-
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setChatMode(chatMode === 'text' ? 'voice' : 'text')}
-              className="mb-2"
-            >
-              {chatMode === 'text' ? (
-                <>
-                  <Mic className="h-4 w-4 mr-2" />
-                  Switch to Voice Mode
-                </>
-              ) : (
-                <>
-                  <Keyboard className="h-4 w-4 mr-2" />
-                  Switch to Text Mode
-                </>
-              )}
-            </Button>
+            {session ? (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsThreadListOpen(true)}
+                className="mb-2 md:hidden"
+              >
+                <History className="h-4 w-4 mr-2" />
+                Conversations
+              </Button>
+            ) : (
+              <div></div>
+            )}
+
+            <div className="flex items-center gap-2">
+              {/* Applies from the next reply; the thread keeps the last mode used */}
+              <Select value={coachingMode} onValueChange={value => setCoachingMode(value as CoachingMode)}>
+                <SelectTrigger className="mb-2 h-9 w-[190px]" aria-label="Coaching mode" disabled={isLoading}>
+                  <SelectValue>
+                    {COACHING_MODES.find(mode => mode.value === coachingMode)?.label}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {COACHING_MODES.map(mode => (
+                    <SelectItem key={mode.value} value={mode.value}>
+                      <div className="flex flex-col">
+                        <span>{mode.label}</span>
+                        <span className="text-xs text-muted-foreground">{mode.description}</span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setChatMode(chatMode === 'text' ? 'voice' : 'text')}
+                className="mb-2"
+              >
+                {chatMode === 'text' ? (
+                  <>
+                    <Mic className="h-4 w-4 mr-2" />
+                    Switch to Voice Mode
+                  </>
+                ) : (
+                  <>
+                    <Keyboard className="h-4 w-4 mr-2" />
+                    Switch to Text Mode
+                  </>
+                )}
+              </Button>
+            </div>
           </div>
           
           {/* Chat Actions - Only shown when conversation has started */}
@@ -664,10 +855,22 @@ const ChatPage = () => {
             </div>
           )}
           
+          {safetyNotice && (
+            <SafetyBanner key={`${safetyNotice.level}-${safetyNotice.category}`} notice={safetyNotice} />
+          )}
+
           <div className="flex-grow bg-card rounded-lg shadow-md p-4 md:p-6 mb-4 overflow-y-auto max-h-[60vh]">
             <div className="flex flex-col space-y-4">
               {messages.map((message, index) => (
-                <ChatMessage key={message.id || index} message={message} />
+                <ChatMessage
+                  key={message.id || index}
+                  message={message}
+                  {...(!isLoading && threadId ? {
+                    onRegenerate: () => handleRegenerate(index),
+                    onEdit: (content: string) => handleEdit(index, content),
+                    onSwitchVersion: handleSwitchVersion,
+                  } : {})}
+                />
               ))}
               
               {/* Streaming Message */}
@@ -686,12 +889,21 @@ const ChatPage = () => {
                       <div className="text-sm font-medium">
                         TrueNorth
                       </div>
-                      <div className="mt-1 whitespace-pre-wrap">{currentStreamingMessage}</div>
+                      <MarkdownContent className="mt-1" text={currentStreamingMessage} />
                     </div>
                   </div>
                 </div>
               )}
               
+              {isLoadingThread && (
+                <div className="flex justify-center py-4">
+                  <div className="flex items-center space-x-2">
+                    <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+                    <span className="text-muted-foreground">Loading conversation...</span>
+                  </div>
+                </div>
+              )}
+              
               {isLoading && !currentStreamingMessage && (
                 <div className="flex justify-center py-4">
                   <div className="flex items-center space-x-2">
@@ -728,11 +940,39 @@ const ChatPage = () => {
                 onSendMessage={handleSendMessage}
                 isProcessing={isLoading}
                 lastMessage={lastAssistantMessage || null}
+                streamingText={currentStreamingMessage}
               />
             )}
           </div>
+          </div>
         </div>
       </main>
+
+      <Sheet open={isThreadListOpen} onOpenChange={setIsThreadListOpen}>
+        <SheetContent side="left" className="w-80 p-4 flex flex-col">
+          <SheetHeader className="mb-2">
+            <SheetTitle>Conversations</SheetTitle>
+          </SheetHeader>
+          <ChatThreadSidebar
+            className="flex-1 shadow-none p-0"
+            activeThreadId={threadId}
+            onSelectThread={handleSelectThread}
+            onNewChat={() => {
+              setIsThreadListOpen(false);
+              handleNewChat();
+            }}
+            onThreadDeleted={handleThreadDeleted}
+            refreshKey={threadListVersion}
+          />
+        </SheetContent>
+      </Sheet>
+
+      <JournalSuggestionsDialog
+        open={!!savedJournal}
+        onOpenChange={open => !open && setSavedJournal(null)}
+        journalEntry={savedJournal?.journalEntry || null}
+        suggestions={savedJournal?.suggestions || null}
+      />
       
       <Footer />
     </div>
@@ -12,7 +12,6 @@ import { SpiritualAnalytics } from '@/components/dashboard/SpiritualAnalytics';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { AuthContext } from '@/App';
 import { 
-  getJournalEntries, 
   getPrayerRequests, 
   getScriptureMemories,
   getDailyDevotionals,
@@ -20,6 +19,7 @@ import {
   getMoodEntries,
   getProfile
 } from '@/lib/supabase';
+import { getJournalEntries } from '@/lib/journal';
 import { 
   JournalEntry, 
   PrayerRequest, 
@@ -14,7 +14,8 @@ import {
   Trash2,
   AlertCircle,
   Youtube,
-  FileText
+  FileText,
+  ShieldAlert
 } from 'lucide-react';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { Button } from '@/components/ui/button';
@@ -63,6 +64,7 @@ import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/lib/supabase';
 import { createTestNotification } from '@/lib/notifications';
 import { AutoSermonProcessor } from '@/components/ui/AutoSermonProcessor';
+import { SafetyEventsPanel } from '@/components/admin/SafetyEventsPanel';
 
 const DeveloperPanelPage = () => {
   const [activeTab, setActiveTab] = useState('users');
@@ -323,7 +325,7 @@ const DeveloperPanelPage = () => {
           </Alert>
         ) : (
           <Tabs value={activeTab} onValueChange={setActiveTab}>
-            <TabsList className="grid grid-cols-4 w-full">
+            <TabsList className="grid grid-cols-5 w-full">
               <TabsTrigger value="users" className="flex items-center gap-2">
                 <Users className="h-4 w-4" />
                 <span>Users</span>
@@ -336,6 +338,10 @@ const DeveloperPanelPage = () => {
                 <FileText className="h-4 w-4" />
                 <span>Sermons</span>
               </TabsTrigger>
+              <TabsTrigger value="safety" className="flex items-center gap-2">
+                <ShieldAlert className="h-4 w-4" />
+                <span>Safety</span>
+              </TabsTrigger>
               <TabsTrigger value="database" className="flex items-center gap-2">
                 <Database className="h-4 w-4" />
                 <span>Database</span>
@@ -579,6 +585,10 @@ const DeveloperPanelPage = () => {
               <AutoSermonProcessor />
             </TabsContent>
             
+            <TabsContent value="safety" className="space-y-6">
+              <SafetyEventsPanel />
+            </TabsContent>
+            
             <TabsContent value="database" className="space-y-6">
               <Card>
                 <CardHeader>
@@ -1,20 +1,35 @@
 import { useState, useEffect, useContext } from 'react';
 import { motion } from 'framer-motion';
 import { format } from 'date-fns';
-import { Book, Calendar, MessageSquare, Search, Plus, Loader2 } from 'lucide-react';
-import { Link } from 'react-router-dom';
+import { Book, Calendar, MessageSquare, Search, Plus, Loader2, Lock, Unlock, ShieldCheck, List, History, FileUp, Download } from 'lucide-react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { JournalEntry as JournalEntryType } from '@/lib/types';
 import { JournalEntry } from '@/components/journal/JournalEntry';
 import { JournalEntryDetail } from '@/components/journal/JournalEntryDetail';
+import { JournalComposer } from '@/components/journal/JournalComposer';
 import { MoodAnalysisCard } from '@/components/journal/MoodAnalysisCard';
+import { JournalEncryptionDialog } from '@/components/journal/JournalEncryptionDialog';
+import { JournalCalendar } from '@/components/journal/JournalCalendar';
+import { OnThisDay } from '@/components/journal/OnThisDay';
+import { FaithfulnessTimeline } from '@/components/journal/FaithfulnessTimeline';
+import { JournalImportDialog } from '@/components/journal/JournalImportDialog';
+import { JournalExportDialog } from '@/components/journal/JournalExportDialog';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import Navbar from '@/components/layout/Navbar';
 import Footer from '@/components/layout/Footer';
 import { AuthContext } from '@/App';
-import { getJournalEntries } from '@/lib/journal';
+import { encryptExistingJournalEntries, getJournalEntries } from '@/lib/journal';
+import { isEntryLocked } from '@/lib/journal-crypto';
 import { useToast } from '@/hooks/use-toast';
+import { useJournalEncryption } from '@/hooks/use-journal-encryption';
 
 const JournalPage = () => {
   const { session } = useContext(AuthContext);
@@ -23,6 +38,17 @@ const JournalPage = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedEntry, setSelectedEntry] = useState<JournalEntryType | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  // Entry open in the composer; null with the composer open means a new entry
+  const [composerEntry, setComposerEntry] = useState<JournalEntryType | null>(null);
+  const [isComposerOpen, setIsComposerOpen] = useState(false);
+  const encryptionStatus = useJournalEncryption();
+  const [isEncryptionOpen, setIsEncryptionOpen] = useState(false);
+  const [isEncrypting, setIsEncrypting] = useState(false);
+  const [view, setView] = useState<'list' | 'calendar' | 'timeline'>('list');
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  // Chat citations link here with ?entry=<id>
+  const [searchParams, setSearchParams] = useSearchParams();
   const { toast } = useToast();
 
   useEffect(() => {
@@ -52,6 +78,16 @@ const JournalPage = () => {
     }
   }
 
+  useEffect(() => {
+    const entryId = searchParams.get('entry');
+    if (!entryId) return;
+    const entry = entries.find(candidate => candidate.id === entryId);
+    if (entry) {
+      setSelectedEntry(entry);
+      setSearchParams({}, { replace: true });
+    }
+  }, [entries, searchParams]);
+
   useEffect(() => {
     if (searchQuery.trim() === '') {
       setFilteredEntries(entries);
@@ -85,6 +121,59 @@ const JournalPage = () => {
     setSelectedEntry(null);
   };
 
+  const handleNewEntry = () => {
+    // Private entries can only be written once the journal is unlocked
+    if (encryptionStatus === 'locked') {
+      setIsEncryptionOpen(true);
+      return;
+    }
+    setComposerEntry(null);
+    setIsComposerOpen(true);
+  };
+
+  const handleEditEntry = (entry: JournalEntryType) => {
+    setSelectedEntry(null);
+    setComposerEntry(entry);
+    setIsComposerOpen(true);
+  };
+
+  const handleEntrySaved = (saved: JournalEntryType) => {
+    setEntries(prev =>
+      prev.some(entry => entry.id === saved.id)
+        ? prev.map(entry => (entry.id === saved.id ? saved : entry))
+        : [saved, ...prev]
+    );
+  };
+
+  const lockedCount = entries.filter(isEntryLocked).length;
+  // e.g. entries saved from chat while the journal was locked
+  const unencryptedCount = encryptionStatus === 'unlocked'
+    ? entries.filter(entry => !entry.is_encrypted).length
+    : 0;
+
+  const handleEncryptRemaining = async () => {
+    setIsEncrypting(true);
+    try {
+      const count = await encryptExistingJournalEntries();
+      toast({
+        title: 'Entries encrypted',
+        description: count === 1 ? '1 entry was encrypted.' : `${count} entries were encrypted.`,
+      });
+      await loadEntries();
+    } catch (error) {
+      console.error('Failed to encrypt journal entries:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to encrypt your entries. Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsEncrypting(false);
+    }
+  };
+
+  const availableTags = Array.from(new Set(entries.flatMap(entry => entry.tags || []))).sort();
+
   const handleAnalysisComplete = () => {
     toast({
       title: 'Journal Analysis Complete',
@@ -177,12 +266,105 @@ const JournalPage = () => {
                 >
                   Refresh
                 </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className="border-primary text-foreground hover:bg-muted"
+                      title="Import or export entries"
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => setIsImportOpen(true)}>
+                      <FileUp className="h-4 w-4 mr-2" />
+                      Import entries
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setIsExportOpen(true)} disabled={entries.length === 0}>
+                      <Download className="h-4 w-4 mr-2" />
+                      Export journal
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <Button
+                  variant="outline"
+                  className="border-primary text-foreground hover:bg-muted"
+                  onClick={() => setIsEncryptionOpen(true)}
+                  disabled={!encryptionStatus}
+                  title={
+                    encryptionStatus === 'unlocked' ? 'Journal encryption settings'
+                      : encryptionStatus === 'locked' ? 'Unlock your journal'
+                      : 'Encrypt your journal'
+                  }
+                >
+                  {encryptionStatus === 'unlocked' ? (
+                    <Unlock className="h-4 w-4" />
+                  ) : encryptionStatus === 'locked' ? (
+                    <Lock className="h-4 w-4" />
+                  ) : (
+                    <ShieldCheck className="h-4 w-4" />
+                  )}
+                </Button>
+                <Button
+                  onClick={handleNewEntry}
+                  className="bg-primary text-primary-foreground hover:bg-primary/90"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Entry
+                </Button>
               </div>
+
+              {encryptionStatus === 'locked' && lockedCount > 0 && (
+                <div className="flex items-center justify-between gap-3 rounded-lg border border-border p-3 mb-4 text-sm text-muted-foreground">
+                  <span className="flex items-center gap-2">
+                    <Lock className="h-4 w-4 shrink-0" />
+                    {lockedCount === 1 ? '1 private entry is locked.' : `${lockedCount} private entries are locked.`}
+                  </span>
+                  <Button size="sm" variant="outline" onClick={() => setIsEncryptionOpen(true)}>
+                    Unlock
+                  </Button>
+                </div>
+              )}
+
+              {unencryptedCount > 0 && (
+                <div className="flex items-center justify-between gap-3 rounded-lg border border-border p-3 mb-4 text-sm text-muted-foreground">
+                  <span className="flex items-center gap-2">
+                    <ShieldCheck className="h-4 w-4 shrink-0" />
+                    {unencryptedCount === 1 ? '1 entry isn\'t encrypted yet.' : `${unencryptedCount} entries aren't encrypted yet.`}
+                  </span>
+                  <Button size="sm" variant="outline" onClick={handleEncryptRemaining} disabled={isEncrypting}>
+                    {isEncrypting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Encrypt Now
+                  </Button>
+                </div>
+              )}
+
+              <Tabs value={view} onValueChange={value => setView(value as typeof view)} className="mb-6">
+                <TabsList className="grid grid-cols-3 w-full">
+                  <TabsTrigger value="list">
+                    <List className="h-4 w-4 mr-2" />
+                    Entries
+                  </TabsTrigger>
+                  <TabsTrigger value="calendar">
+                    <Calendar className="h-4 w-4 mr-2" />
+                    Calendar
+                  </TabsTrigger>
+                  <TabsTrigger value="timeline">
+                    <History className="h-4 w-4 mr-2" />
+                    Timeline
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>
               
               {isLoading ? (
                 <div className="flex justify-center py-12">
                   <Loader2 className="h-8 w-8 text-primary animate-spin" />
                 </div>
+              ) : view === 'calendar' ? (
+                <JournalCalendar entries={filteredEntries} onView={handleViewEntry} />
+              ) : view === 'timeline' ? (
+                <FaithfulnessTimeline onView={handleViewEntry} />
               ) : filteredEntries.length > 0 ? (
                 <div className="grid grid-cols-1 gap-4">
                   {filteredEntries.map((entry) => (
@@ -198,23 +380,33 @@ const JournalPage = () => {
                   <Book className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                   <h3 className="text-lg font-medium text-foreground mb-2">No journal entries yet</h3>
                   <p className="text-muted-foreground mb-6">
-                    As you chat with TrueNorth, insights and reflections will be automatically added to your journal.
+                    Write your first entry, or chat with TrueNorth and save insights and reflections to your journal.
                   </p>
-                  <Button 
-                    onClick={() => window.location.href = '/chat'}
-                    className="bg-primary text-primary-foreground hover:bg-primary/90"
-                  >
-                    Start a Chat
-                  </Button>
+                  <div className="flex justify-center gap-3">
+                    <Button 
+                      onClick={handleNewEntry}
+                      className="bg-primary text-primary-foreground hover:bg-primary/90"
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Write an Entry
+                    </Button>
+                    <Button 
+                      variant="outline"
+                      onClick={() => window.location.href = '/chat'}
+                      className="border-primary text-foreground hover:bg-muted"
+                    >
+                      Start a Chat
+                    </Button>
+                  </div>
                 </div>
               )}
             </div>
             
             <div className="md:col-span-1">
-              <MoodAnalysisCard 
-                onAnalysisComplete={handleAnalysisComplete}
-                className="sticky top-4"
-              />
+              <div className="sticky top-4 space-y-6">
+                <OnThisDay entries={entries} onView={handleViewEntry} />
+                <MoodAnalysisCard onAnalysisComplete={handleAnalysisComplete} />
+              </div>
             </div>
           </div>
         </div>
@@ -224,6 +416,37 @@ const JournalPage = () => {
       <JournalEntryDetail 
         entry={selectedEntry} 
         onClose={handleCloseDetail}
+        onEdit={handleEditEntry}
+      />
+
+      <JournalComposer
+        open={isComposerOpen}
+        onOpenChange={setIsComposerOpen}
+        entry={composerEntry}
+        availableTags={availableTags}
+        onSaved={handleEntrySaved}
+        isEncrypted={encryptionStatus === 'unlocked'}
+      />
+
+      <JournalEncryptionDialog
+        open={isEncryptionOpen}
+        onOpenChange={setIsEncryptionOpen}
+        status={encryptionStatus}
+        onChanged={loadEntries}
+      />
+
+      <JournalImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        existingEntries={entries}
+        encryptionStatus={encryptionStatus}
+        onImported={loadEntries}
+      />
+
+      <JournalExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        entries={entries}
       />
       
       <Footer />
@@ -0,0 +1,117 @@
+import { useState, useEffect, useContext } from 'react';
+import { format } from 'date-fns';
+import { ArrowLeft, Loader2, Printer } from 'lucide-react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { MarkdownContent } from '@/components/ui/MarkdownContent';
+import { AuthContext } from '@/App';
+import { getJournalEntries } from '@/lib/journal';
+import { isEntryLocked } from '@/lib/journal-crypto';
+import { JournalEntry } from '@/lib/types';
+
+// A book of journal entries laid out for the browser's print dialog, which
+// also covers "Save as PDF". Opened from the journal's export dialog with an
+// optional ?from=yyyy-MM-dd&to=yyyy-MM-dd range.
+const JournalPrintPage = () => {
+  const { session } = useContext(AuthContext);
+  const [searchParams] = useSearchParams();
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [lockedCount, setLockedCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const from = searchParams.get('from') || '';
+  const to = searchParams.get('to') || '';
+
+  useEffect(() => {
+    if (!session) return;
+
+    getJournalEntries()
+      .then(data => {
+        const inRange = data.filter(entry => {
+          if (!entry.created_at) return false;
+          const day = format(new Date(entry.created_at), 'yyyy-MM-dd');
+          return (!from || day >= from) && (!to || day <= to);
+        });
+        const readable = inRange.filter(entry => !isEntryLocked(entry));
+        readable.sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''));
+        setEntries(readable);
+        setLockedCount(inRange.length - readable.length);
+      })
+      .catch(error => console.error('Failed to load journal entries for printing:', error))
+      .finally(() => setIsLoading(false));
+  }, [session, from, to]);
+
+  const firstDate = entries.length > 0 ? new Date(entries[0].created_at!) : null;
+  const lastDate = entries.length > 0 ? new Date(entries[entries.length - 1].created_at!) : null;
+
+  return (
+    <div className="min-h-screen bg-white text-black">
+      <div className="print:hidden sticky top-0 z-10 border-b bg-white/95 backdrop-blur">
+        <div className="max-w-3xl mx-auto flex items-center justify-between gap-3 px-4 py-3">
+          <Button variant="ghost" asChild>
+            <Link to="/journal">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Journal
+            </Link>
+          </Button>
+          <div className="flex items-center gap-3">
+            {lockedCount > 0 && (
+              <span className="text-sm text-muted-foreground">
+                {lockedCount} encrypted {lockedCount === 1 ? 'entry' : 'entries'} left out
+              </span>
+            )}
+            <Button onClick={() => window.print()} disabled={isLoading || entries.length === 0}>
+              <Printer className="h-4 w-4 mr-2" />
+              Print / Save as PDF
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <main className="max-w-3xl mx-auto px-8 py-12 print:p-0 print:max-w-none font-serif">
+        {isLoading ? (
+          <div className="flex justify-center py-24 print:hidden">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-muted-foreground py-24">
+            There are no journal entries in this range.
+          </p>
+        ) : (
+          <>
+            <section className="flex flex-col items-center justify-center text-center min-h-[70vh] print:min-h-[90vh]">
+              <h1 className="text-4xl font-bold mb-4">A Spiritual Journal</h1>
+              {firstDate && lastDate && (
+                <p className="text-lg text-gray-600">
+                  {format(firstDate, 'MMMM d, yyyy')}
+                  {format(firstDate, 'yyyy-MM-dd') !== format(lastDate, 'yyyy-MM-dd') &&
+                    ` – ${format(lastDate, 'MMMM d, yyyy')}`}
+                </p>
+              )}
+              <p className="text-sm text-gray-500 mt-2">
+                {entries.length} {entries.length === 1 ? 'entry' : 'entries'}
+              </p>
+            </section>
+
+            {entries.map(entry => (
+              <article key={entry.id} className="break-before-page pt-12 print:pt-0">
+                <p className="text-sm uppercase tracking-wide text-gray-500">
+                  {format(new Date(entry.created_at!), 'EEEE, MMMM d, yyyy')}
+                </p>
+                <h2 className="text-2xl font-bold mt-1 mb-4">{entry.title}</h2>
+                {entry.related_scripture && (
+                  <p className="italic text-gray-700 mb-4">{entry.related_scripture}</p>
+                )}
+                <MarkdownContent text={entry.content} className="leading-relaxed" />
+                {entry.tags && entry.tags.length > 0 && (
+                  <p className="text-sm text-gray-500 mt-6">{entry.tags.map(tag => `#${tag}`).join('  ')}</p>
+                )}
+              </article>
+            ))}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default JournalPrintPage;
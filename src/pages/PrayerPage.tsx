@@ -1,5 +1,6 @@
 import { useState, useEffect, useContext } from 'react';
 import { motion } from 'framer-motion';
+import { useSearchParams } from 'react-router-dom';
 import { Hand, Search, Plus, Tag, Calendar, Edit, Trash2, Heart, Users, Filter, Check, X, Share2, MessageSquare } from 'lucide-react';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { Input } from '@/components/ui/input';
@@ -63,6 +64,8 @@ const PrayerPage = () => {
   });
   const [newTag, setNewTag] = useState('');
   const [activeSection, setActiveSection] = useState('my-prayers');
+  // Chat citations link here with ?request=<id>
+  const [searchParams, setSearchParams] = useSearchParams();
   const { toast } = useToast();
 
   useEffect(() => {
@@ -75,6 +78,18 @@ const PrayerPage = () => {
     filterPrayers();
   }, [prayers, searchQuery, activeTab]);
 
+  useEffect(() => {
+    const requestId = searchParams.get('request');
+    if (!requestId) return;
+    const prayer = prayers.find(candidate => candidate.id === requestId);
+    if (prayer) {
+      setActiveSection('my-prayers');
+      setActiveTab(prayer.is_answered ? 'answered' : 'active');
+      setSelectedPrayer(prayer);
+      setSearchParams({}, { replace: true });
+    }
+  }, [prayers, searchParams]);
+
   const loadPrayers = async () => {
     if (!session) return;
     
@@ -3,6 +3,7 @@ import { motion } from 'framer-motion';
 import { User, Mail, Save, LogOut, CreditCard, Loader2, ToggleLeft, ToggleRight, Bell, Clock } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import DashboardLayout from '@/components/layout/DashboardLayout';
+import { MemoryFactsPanel } from '@/components/profile/MemoryFactsPanel';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -28,10 +29,12 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from '@/hooks/use-toast';
+import { resetVerseTranslation } from '@/hooks/use-verse-translation';
 import { AuthContext } from '@/App';
 import { getProfile, updateProfile, getUserPreferences, updateUserPreferences, signOut } from '@/lib/supabase';
 import { getUserSubscription, isSubscriptionActive, createCustomerPortalSession, toggleDevProSimulation } from '@/lib/stripe';
-import { UserProfile, UserPreferences } from '@/lib/types';
+import { CoachingMode, TheologicalTradition, UserProfile, UserPreferences } from '@/lib/types';
+import { COACHING_MODES, DEFAULT_COACHING_MODE, THEOLOGICAL_TRADITIONS } from '@/lib/coaching-modes';
 import { 
   sendTestNotification, 
   requestNotificationPermission, 
@@ -176,6 +179,7 @@ const ProfilePage = () => {
     setIsSaving(true);
     try {
       const updatedPreferences = await updateUserPreferences(localPreferences);
+      resetVerseTranslation();
       
       // Update local state
       setLocalPreferences(updatedPreferences);
@@ -461,9 +465,10 @@ const ProfilePage = () => {
               </CardHeader>
               <CardContent>
                 <Tabs defaultValue="profile" className="w-full">
-                  <TabsList className="grid grid-cols-3 mb-4">
+                  <TabsList className="grid grid-cols-4 mb-4">
                     <TabsTrigger value="profile">Profile</TabsTrigger>
                     <TabsTrigger value="preferences">Preferences</TabsTrigger>
+                    <TabsTrigger value="memory">Memory</TabsTrigger>
                     <TabsTrigger value="subscription">Subscription</TabsTrigger>
                   </TabsList>
                   
@@ -577,6 +582,60 @@ const ProfilePage = () => {
                             ))}
                           </SelectContent>
                         </Select>
+                        <p className="text-sm text-muted-foreground">
+                          Used for verses across the app and when your AI coach quotes scripture.
+                        </p>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="tradition">Church Tradition</Label>
+                        <Select
+                          value={localPreferences?.theological_tradition || 'none'}
+                          onValueChange={value => setLocalPreferences(prev => prev ? ({
+                            ...prev,
+                            theological_tradition: value === 'none' ? null : value as TheologicalTradition,
+                          }) : null)}
+                        >
+                          <SelectTrigger id="tradition">
+                            <SelectValue placeholder="Select tradition" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">No preference</SelectItem>
+                            {THEOLOGICAL_TRADITIONS.map(tradition => (
+                              <SelectItem key={tradition.value} value={tradition.value}>
+                                {tradition.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-sm text-muted-foreground">
+                          Your AI coach frames doctrine and practice in ways that fit your tradition.
+                        </p>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="coaching_mode">Default Coaching Mode</Label>
+                        <Select
+                          value={localPreferences?.default_coaching_mode || DEFAULT_COACHING_MODE}
+                          onValueChange={value => setLocalPreferences(prev => prev ? ({
+                            ...prev,
+                            default_coaching_mode: value as CoachingMode,
+                          }) : null)}
+                        >
+                          <SelectTrigger id="coaching_mode">
+                            <SelectValue placeholder="Select mode" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {COACHING_MODES.map(mode => (
+                              <SelectItem key={mode.value} value={mode.value}>
+                                {mode.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-sm text-muted-foreground">
+                          New conversations start in this mode. You can switch modes from the chat.
+                        </p>
                       </div>
                     </div>
                     
@@ -832,6 +891,10 @@ const ProfilePage = () => {
                     </Button>
                   </TabsContent>
                   
+                  <TabsContent value="memory" className="space-y-6">
+                    <MemoryFactsPanel />
+                  </TabsContent>
+                  
                   <TabsContent value="subscription" className="space-y-6">
                     <div className="space-y-4">
                       <h3 className="text-lg font-medium">Subscription Details</h3>
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Book, Search, Plus, Tag, Check, X, Edit, Trash2, Calendar, Sparkles, Trophy, Gamepad2, Star } from 'lucide-react';
+import { Book, Search, Plus, Tag, Check, X, Edit, Trash2, Calendar, CalendarCheck, Eye, Sparkles, Trophy, Gamepad2, Star } from 'lucide-react';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { GamificationDashboard } from '@/components/scripture/GameificationDashboard';
 import { PracticeGame } from '@/components/scripture/PracticeGame';
@@ -36,7 +36,17 @@ import { getUserStats, savePracticeSession, updateUserStats } from '@/lib/supaba
 import { ScriptureMemory } from '@/lib/types';
 import { BibleVerse } from '@/lib/bible-api';
 import { UserStats, PracticeSession, PRACTICE_GAMES, POINTS } from '@/lib/gamification';
-import { format, addDays } from 'date-fns';
+import {
+  ReviewGrade,
+  REVIEW_GRADES,
+  getInitialSchedule,
+  scheduleReview,
+  gradePracticeSession,
+  getDueMemories,
+  getReviewDate,
+  isDueForReview,
+} from '@/lib/spaced-repetition';
+import { format } from 'date-fns';
 
 const memoryLevels = [
   { value: '1', label: 'Just Started' },
@@ -78,8 +88,11 @@ const ScriptureMemoryPage = () => {
     favorite: false,
   });
   const [newTag, setNewTag] = useState('');
+  const [revealedReviewId, setRevealedReviewId] = useState<string | null>(null);
   const { toast } = useToast();
 
+  const dueMemories = getDueMemories(memories);
+
   useEffect(() => {
     loadScriptureMemories();
     loadUserStats();
@@ -165,17 +178,10 @@ const ScriptureMemoryPage = () => {
         return;
       }
 
-      const daysToAdd = newMemory.memorized_level === 1 ? 1 :
-                         newMemory.memorized_level === 2 ? 3 :
-                         newMemory.memorized_level === 3 ? 7 :
-                         newMemory.memorized_level === 4 ? 14 : 30;
-      
-      const nextReview = format(addDays(new Date(), daysToAdd), 'yyyy-MM-dd');
-      
       const memory: ScriptureMemory = {
         ...newMemory,
+        ...getInitialSchedule(),
         user_id: user.id,
-        next_review: nextReview,
         last_practiced: format(new Date(), 'yyyy-MM-dd'),
       };
       
@@ -216,43 +222,13 @@ const ScriptureMemoryPage = () => {
     if (!selectedMemory) return;
     
     try {
-      const daysToAdd = selectedMemory.memorized_level === 1 ? 1 :
-                         selectedMemory.memorized_level === 2 ? 3 :
-                         selectedMemory.memorized_level === 3 ? 7 :
-                         selectedMemory.memorized_level === 4 ? 14 : 30;
-      
-      const nextReview = format(addDays(new Date(), daysToAdd), 'yyyy-MM-dd');
-      
-      const updatedMemory = {
-        ...selectedMemory,
-        next_review: nextReview,
-        last_practiced: format(new Date(), 'yyyy-MM-dd'),
-        practice_count: (selectedMemory.practice_count || 0) + 1,
-      };
-
-      // Check if verse was newly memorized (level 4+)
-      const wasMemorized = selectedMemory.memorized_level >= 4;
-      const isNowMemorized = updatedMemory.memorized_level >= 4;
-      
-      const result = await updateScriptureMemory(updatedMemory);
+      const result = await updateScriptureMemory(selectedMemory);
       setMemories(prev => 
         prev.map(memory => 
           memory.id === result.id ? result : memory
         )
       );
-
-      // Update user stats if verse was newly memorized
-      if (!wasMemorized && isNowMemorized) {
-        const user = await getCurrentUser();
-        if (user) {
-          await updateUserStats(user.id, POINTS.VERSE_MEMORIZED, true, true);
-          await loadUserStats();
-          toast({
-            title: 'Verse Memorized!',
-            description: `Congratulations! You earned ${POINTS.VERSE_MEMORIZED} points for memorizing this verse.`,
-          });
-        }
-      }
+      setSelectedMemory(result);
       
       setEditMode(false);
       toast({
@@ -269,6 +245,62 @@ const ScriptureMemoryPage = () => {
     }
   };
 
+  // Reschedule a verse after a review and award points when it becomes memorized.
+  // Without a grade the practice is recorded but the schedule is left alone.
+  const applyReview = async (
+    memory: ScriptureMemory,
+    grade: ReviewGrade | null,
+    updates: Partial<ScriptureMemory> = {}
+  ) => {
+    const updatedMemory: ScriptureMemory = {
+      ...memory,
+      ...updates,
+      ...(grade === null ? {} : scheduleReview(memory, grade)),
+      last_practiced: format(new Date(), 'yyyy-MM-dd'),
+      practice_count: (memory.practice_count || 0) + 1,
+    };
+
+    const result = await updateScriptureMemory(updatedMemory);
+    setMemories(prev => 
+      prev.map(m => 
+        m.id === result.id ? result : m
+      )
+    );
+
+    // Update user stats if verse was newly memorized (level 4+)
+    if (memory.memorized_level < 4 && result.memorized_level >= 4) {
+      const user = await getCurrentUser();
+      if (user) {
+        await updateUserStats(user.id, POINTS.VERSE_MEMORIZED, true, true);
+        await loadUserStats();
+        toast({
+          title: 'Verse Memorized!',
+          description: `Congratulations! You earned ${POINTS.VERSE_MEMORIZED} points for memorizing this verse.`,
+        });
+      }
+    }
+
+    return result;
+  };
+
+  const handleSelfReview = async (memory: ScriptureMemory, grade: ReviewGrade) => {
+    try {
+      const result = await applyReview(memory, grade);
+      setRevealedReviewId(null);
+      toast({
+        title: 'Review Saved',
+        description: `Next review of ${result.verse_reference}: ${format(getReviewDate(result.next_review!), 'MMM d, yyyy')}`,
+      });
+    } catch (error) {
+      console.error('Error saving review:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save review',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const startPracticeGame = (memory: ScriptureMemory, gameType: string) => {
     setSelectedMemory(memory);
     setSelectedGameType(gameType);
@@ -301,20 +333,13 @@ const ScriptureMemoryPage = () => {
       await updateUserStats(user.id, session.points_earned || 0, true, false);
       await loadUserStats();
 
-      // Update scripture memory practice count and mastery score
+      // Feed the session results into the verse's review schedule. Practising
+      // a verse before it is due is extra practice, not a review.
       if (selectedMemory) {
-        const updatedMemory = {
-          ...selectedMemory,
-          practice_count: (selectedMemory.practice_count || 0) + 1,
-          mastery_score: session.accuracy_score || 0,
-          last_practiced: format(new Date(), 'yyyy-MM-dd'),
-        };
-        
-        await updateScriptureMemory(updatedMemory);
-        setMemories(prev => 
-          prev.map(memory => 
-            memory.id === updatedMemory.id ? updatedMemory : memory
-          )
+        await applyReview(
+          selectedMemory,
+          isDueForReview(selectedMemory) ? gradePracticeSession(session, selectedMemory.verse_text) : null,
+          { mastery_score: session.accuracy_score || 0 }
         );
       }
 
@@ -480,25 +505,6 @@ const ScriptureMemoryPage = () => {
                       />
                     </div>
                     
-                    <div className="space-y-2">
-                      <Label htmlFor="memorized_level">Memory Level</Label>
-                      <Select
-                        value={newMemory.memorized_level.toString()}
-                        onValueChange={value => setNewMemory(prev => ({ ...prev, memorized_level: parseInt(value) }))}
-                      >
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select memory level" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {memoryLevels.map(level => (
-                            <SelectItem key={level.value} value={level.value}>
-                              {level.label}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    
                     <div className="space-y-2">
                       <Label>Tags</Label>
                       <div className="flex flex-wrap gap-2 mb-2">
@@ -592,10 +598,9 @@ const ScriptureMemoryPage = () => {
                       verse_reference: verse.reference,
                       verse_text: verse.text,
                       translation: verse.translation_id,
-                      memorized_level: 1,
                       tags: [],
                       notes: '',
-                      next_review: format(addDays(new Date(), 1), 'yyyy-MM-dd'),
+                      ...getInitialSchedule(),
                       last_practiced: format(new Date(), 'yyyy-MM-dd'),
                       mastery_score: 0.0,
                       practice_count: 0,
@@ -636,11 +641,18 @@ const ScriptureMemoryPage = () => {
 
         {/* Main Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid grid-cols-3 w-full">
+          <TabsList className="grid grid-cols-4 w-full">
             <TabsTrigger value="dashboard" className="flex items-center space-x-2">
               <Trophy className="h-4 w-4" />
               <span>Dashboard</span>
             </TabsTrigger>
+            <TabsTrigger value="review" className="flex items-center space-x-2">
+              <CalendarCheck className="h-4 w-4" />
+              <span>Due Today</span>
+              {dueMemories.length > 0 && (
+                <Badge className="ml-1 bg-gold text-navy">{dueMemories.length}</Badge>
+              )}
+            </TabsTrigger>
             <TabsTrigger value="practice" className="flex items-center space-x-2">
               <Gamepad2 className="h-4 w-4" />
               <span>Practice</span>
@@ -659,6 +671,89 @@ const ScriptureMemoryPage = () => {
             />
           </TabsContent>
 
+          <TabsContent value="review" className="space-y-6">
+            <div className="text-center">
+              <h2 className="text-2xl font-bold text-navy mb-2">Today's Review</h2>
+              <p className="text-navy/70">
+                Recall each verse, then rate how well you remembered it. Your next review is scheduled automatically.
+              </p>
+            </div>
+
+            {dueMemories.length > 0 ? (
+              <div className="space-y-4">
+                {dueMemories.map(memory => (
+                  <Card key={memory.id}>
+                    <CardHeader className="pb-2">
+                      <div className="flex justify-between items-start">
+                        <CardTitle className="text-navy text-xl">{memory.verse_reference}</CardTitle>
+                        <Badge variant="outline">{getMemoryLevelLabel(memory.memorized_level)}</Badge>
+                      </div>
+                      <div className="text-xs text-navy/50 mt-1">
+                        {memory.translation}
+                        {memory.next_review && ` · Due ${format(getReviewDate(memory.next_review), 'MMM d, yyyy')}`}
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      {revealedReviewId === memory.id ? (
+                        <blockquote className="italic border-l-4 border-gold pl-4 py-2 text-navy/80">
+                          "{memory.verse_text}"
+                        </blockquote>
+                      ) : (
+                        <p className="text-navy/60">Say the verse from memory, then reveal it to check yourself.</p>
+                      )}
+                    </CardContent>
+                    <CardFooter className="flex flex-wrap gap-2 justify-between">
+                      {revealedReviewId === memory.id ? (
+                        <div className="flex flex-wrap gap-2">
+                          {REVIEW_GRADES.map(option => (
+                            <Button
+                              key={option.grade}
+                              size="sm"
+                              variant={option.grade < 3 ? 'destructive' : 'outline'}
+                              title={option.description}
+                              onClick={() => handleSelfReview(memory, option.grade)}
+                            >
+                              {option.label}
+                            </Button>
+                          ))}
+                        </div>
+                      ) : (
+                        <Button size="sm" variant="outline" onClick={() => setRevealedReviewId(memory.id!)}>
+                          <Eye className="mr-2 h-4 w-4" />
+                          Show Verse
+                        </Button>
+                      )}
+                      <Select onValueChange={(gameType) => startPracticeGame(memory, gameType)}>
+                        <SelectTrigger className="w-[200px]">
+                          <SelectValue placeholder="Review with a game" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PRACTICE_GAMES.map(game => (
+                            <SelectItem key={game.id} value={game.id}>
+                              {game.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </CardFooter>
+                  </Card>
+                ))}
+              </div>
+            ) : (
+              <Card>
+                <CardContent className="py-12 text-center">
+                  <Check className="h-16 w-16 text-green-600/40 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-navy mb-2">You're all caught up</h3>
+                  <p className="text-navy/60">
+                    {memories.length > 0
+                      ? 'No verses are due for review today. Come back tomorrow!'
+                      : 'Add verses to your library to start building your review schedule'}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
           <TabsContent value="practice" className="space-y-6">
             {memories.length > 0 ? (
               <div className="space-y-6">
@@ -813,7 +908,7 @@ const ScriptureMemoryPage = () => {
                             {memory.next_review && (
                               <div className="text-xs text-navy/50 flex items-center">
                                 <Calendar className="h-3 w-3 mr-1" />
-                                Review: {format(new Date(memory.next_review), 'MMM d, yyyy')}
+                                Review: {format(getReviewDate(memory.next_review), 'MMM d, yyyy')}
                               </div>
                             )}
                           </CardFooter>
@@ -897,25 +992,6 @@ const ScriptureMemoryPage = () => {
                                   />
                                 </div>
                                 
-                                <div className="space-y-2">
-                                  <Label htmlFor="memorized_level_empty">Memory Level</Label>
-                                  <Select
-                                    value={newMemory.memorized_level.toString()}
-                                    onValueChange={value => setNewMemory(prev => ({ ...prev, memorized_level: parseInt(value) }))}
-                                  >
-                                    <SelectTrigger>
-                                      <SelectValue placeholder="Select memory level" />
-                                    </SelectTrigger>
-                                    <SelectContent>
-                                      {memoryLevels.map(level => (
-                                        <SelectItem key={level.value} value={level.value}>
-                                          {level.label}
-                                        </SelectItem>
-                                      ))}
-                                    </SelectContent>
-                                  </Select>
-                                </div>
-                                
                                 <div className="space-y-2">
                                   <Label>Tags</Label>
                                   <div className="flex flex-wrap gap-2 mb-2">
@@ -1095,26 +1171,7 @@ const ScriptureMemoryPage = () => {
                           </div>
                         </div>
                         
-                        {editMode ? (
-                          <div className="space-y-2">
-                            <h3 className="text-sm font-medium text-navy/70">Memory Level</h3>
-                            <Select
-                              value={selectedMemory.memorized_level.toString()}
-                              onValueChange={value => setSelectedMemory(prev => ({ ...prev!, memorized_level: parseInt(value) }))}
-                            >
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select memory level" />
-                              </SelectTrigger>
-                              <SelectContent>
-                                {memoryLevels.map(level => (
-                                  <SelectItem key={level.value} value={level.value}>
-                                    {level.label}
-                                  </SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                          </div>
-                        ) : (
+                        {!editMode && (
                           <div>
                             <h3 className="text-sm font-medium text-navy/70 mb-2">Review Schedule</h3>
                             <div className="flex space-x-4">
@@ -1132,11 +1189,14 @@ const ScriptureMemoryPage = () => {
                                   <span className="text-navy/60">Next review:</span>
                                   <br />
                                   <span className="font-medium">
-                                    {format(new Date(selectedMemory.next_review), 'MMM d, yyyy')}
+                                    {format(getReviewDate(selectedMemory.next_review), 'MMM d, yyyy')}
                                   </span>
                                 </div>
                               )}
                             </div>
+                            <div className="text-xs text-navy/50 mt-2">
+                              Interval: {selectedMemory.interval_days ?? 0} days · Ease: {(selectedMemory.ease_factor ?? 2.5).toFixed(2)} · Lapses: {selectedMemory.lapse_count ?? 0}
+                            </div>
                           </div>
                         )}
                         
@@ -1212,7 +1272,7 @@ const ScriptureMemoryPage = () => {
                             onClick={() => setEditMode(true)}
                           >
                             <Edit className="mr-2 h-4 w-4" />
-                            Practice & Update
+                            Edit Verse
                           </Button>
                           <Button 
                             variant="outline"
@@ -0,0 +1,450 @@
+// Actions the AI coach can propose during a chat. The model calls a tool,
+// chat-stream records the call as a proposal, and nothing changes until the
+// user confirms it; chat-action then carries it out with the user's own
+// credentials so row level security applies.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
+import type { ToolCall, ToolDefinition } from './llm/index.ts';
+
+export type ChatActionType =
+  | 'create_prayer_request'
+  | 'log_habit'
+  | 'add_memory_verse'
+  | 'start_reading_plan'
+  | 'create_spiritual_goal';
+
+export type ChatActionStatus = 'proposed' | 'executed' | 'declined' | 'failed';
+
+export interface ChatAction {
+  id: string;
+  action_type: ChatActionType;
+  params: Record<string, any>;
+  status: ChatActionStatus;
+  result?: Record<string, any> | null;
+  error?: string | null;
+  created_at?: string;
+}
+
+// What the user has that tools can refer to by name
+export interface ActionContext {
+  habits: { id: string; habit_name: string }[];
+  plans: { id: string; title: string; duration_days: number }[];
+  today: string;
+}
+
+export const GOAL_CATEGORIES = [
+  'prayer',
+  'bible_study',
+  'worship',
+  'service',
+  'discipleship',
+  'relationships',
+  'evangelism',
+  'stewardship',
+  'fasting',
+  'sabbath',
+];
+
+// A reply proposes at most this many actions; anything beyond is dropped
+export const MAX_ACTIONS_PER_REPLY = 3;
+const MAX_PLANS_OFFERED = 25;
+const MAX_MILESTONES = 6;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function cleanText(value: unknown, maxLength: number): string {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+}
+
+function cleanDate(value: unknown): string | null {
+  const text = cleanText(value, 10);
+  return DATE_PATTERN.test(text) && !Number.isNaN(Date.parse(text)) ? text : null;
+}
+
+// SM-2 fields of a new memory verse's schedule. The client builds them with
+// getInitialSchedule; any that are missing or unusable are left to the column
+// defaults, which are the same initial values.
+const SCHEDULE_FIELDS = ['ease_factor', 'interval_days', 'repetitions', 'lapse_count', 'memorized_level'] as const;
+
+function cleanSchedule(value: unknown): Record<string, number> {
+  const schedule: Record<string, number> = {};
+  if (!value || typeof value !== 'object') return schedule;
+  for (const field of SCHEDULE_FIELDS) {
+    const number = (value as Record<string, unknown>)[field];
+    if (typeof number === 'number' && Number.isFinite(number) && number >= 0) {
+      schedule[field] = number;
+    }
+  }
+  return schedule;
+}
+
+/**
+ * The user's active habits and the reading plans they could start, so tools
+ * can offer them by name instead of asking the model to guess ids.
+ */
+export async function loadActionContext(supabase: SupabaseClient, userId: string): Promise<ActionContext> {
+  const [{ data: habits }, { data: plans }, { data: progress }] = await Promise.all([
+    supabase
+      .from('spiritual_habits')
+      .select('id,habit_name')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('bible_reading_plans')
+      .select('id,title,duration_days')
+      .eq('is_active', true)
+      .eq('is_premium', false)
+      .order('created_at', { ascending: false })
+      .limit(MAX_PLANS_OFFERED),
+    supabase
+      .from('user_reading_progress')
+      .select('plan_id')
+      .eq('user_id', userId),
+  ]);
+
+  const started = new Set((progress || []).map((row: { plan_id: string }) => row.plan_id));
+  return {
+    habits: habits || [],
+    plans: (plans || []).filter((plan: { id: string }) => !started.has(plan.id)),
+    today: new Date().toISOString().slice(0, 10),
+  };
+}
+
+/**
+ * Tool definitions for this user. Habit and plan tools are only offered when
+ * there is something to choose from.
+ */
+export function buildActionTools(context: ActionContext): ToolDefinition[] {
+  const tools: ToolDefinition[] = [
+    {
+      name: 'create_prayer_request',
+      description: 'Propose adding a prayer request to the user\'s prayer list, written in the first person.',
+      parameters: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', description: 'Short title, max 8 words' },
+          description: { type: 'string', description: 'One or two sentences in the first person' },
+          tags: { type: 'array', items: { type: 'string' }, description: 'Up to 3 lowercase topics' },
+        },
+        required: ['title', 'description'],
+      },
+    },
+    {
+      name: 'add_memory_verse',
+      description: 'Propose adding a Bible passage of at most 3 verses to the user\'s scripture memory list.',
+      parameters: {
+        type: 'object',
+        properties: {
+          reference: { type: 'string', description: 'Bible reference, e.g. "Isaiah 41:10"' },
+          notes: { type: 'string', description: 'One sentence on why this verse fits' },
+        },
+        required: ['reference'],
+      },
+    },
+    {
+      name: 'create_spiritual_goal',
+      description: 'Propose a spiritual goal for the user with a few concrete milestones.',
+      parameters: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          description: { type: 'string' },
+          category: { type: 'string', enum: GOAL_CATEGORIES },
+          target_date: { type: 'string', description: `YYYY-MM-DD, after ${context.today}` },
+          milestones: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                title: { type: 'string' },
+                target_date: { type: 'string', description: 'YYYY-MM-DD' },
+              },
+              required: ['title'],
+            },
+            description: `Up to ${MAX_MILESTONES} steps in order`,
+          },
+        },
+        required: ['title', 'category'],
+      },
+    },
+  ];
+
+  if (context.habits.length > 0) {
+    tools.push({
+      name: 'log_habit',
+      description: 'Propose logging that the user completed one of their spiritual habits.',
+      parameters: {
+        type: 'object',
+        properties: {
+          habit: { type: 'string', enum: context.habits.map(habit => habit.habit_name) },
+          amount: { type: 'integer', minimum: 1, description: 'How many times or minutes; default 1' },
+          date: { type: 'string', description: `YYYY-MM-DD; today is ${context.today}` },
+          notes: { type: 'string' },
+        },
+        required: ['habit'],
+      },
+    });
+  }
+
+  if (context.plans.length > 0) {
+    tools.push({
+      name: 'start_reading_plan',
+      description: 'Propose starting one of the available Bible reading plans.',
+      parameters: {
+        type: 'object',
+        properties: {
+          plan: { type: 'string', enum: context.plans.map(plan => plan.title) },
+        },
+        required: ['plan'],
+      },
+    });
+  }
+
+  return tools;
+}
+
+/**
+ * Turn a tool call into the parameters stored on the proposal, resolving names
+ * to ids. Returns null for unknown tools or calls missing what the action needs.
+ */
+export function normalizeActionCall(
+  call: ToolCall,
+  context: ActionContext
+): { type: ChatActionType; params: Record<string, any> } | null {
+  const args = call.arguments;
+
+  switch (call.name) {
+    case 'create_prayer_request': {
+      const title = cleanText(args.title, 120);
+      const description = cleanText(args.description, 1000);
+      if (!title || !description) return null;
+      const tags = (Array.isArray(args.tags) ? args.tags : [])
+        .map(tag => cleanText(tag, 40).toLowerCase())
+        .filter(Boolean)
+        .slice(0, 3);
+      return { type: 'create_prayer_request', params: { title, description, tags } };
+    }
+
+    case 'log_habit': {
+      const name = cleanText(args.habit, 200).toLowerCase();
+      const habit = context.habits.find(candidate => candidate.habit_name.toLowerCase() === name);
+      if (!habit) return null;
+      const amount = Math.round(Number(args.amount));
+      const date = cleanDate(args.date);
+      return {
+        type: 'log_habit',
+        params: {
+          habit_id: habit.id,
+          habit_name: habit.habit_name,
+          amount: Number.isFinite(amount) && amount > 0 ? amount : 1,
+          // Future dates are not completions yet
+          completed_date: date && date <= context.today ? date : context.today,
+          notes: cleanText(args.notes, 500),
+        },
+      };
+    }
+
+    case 'add_memory_verse': {
+      const reference = cleanText(args.reference, 100);
+      if (!reference) return null;
+      return { type: 'add_memory_verse', params: { reference, notes: cleanText(args.notes, 300) } };
+    }
+
+    case 'start_reading_plan': {
+      const name = cleanText(args.plan, 200).toLowerCase();
+      const plan = context.plans.find(candidate => candidate.title.toLowerCase() === name);
+      if (!plan) return null;
+      return {
+        type: 'start_reading_plan',
+        params: { plan_id: plan.id, plan_title: plan.title, duration_days: plan.duration_days },
+      };
+    }
+
+    case 'create_spiritual_goal': {
+      const title = cleanText(args.title, 120);
+      if (!title) return null;
+      const category = GOAL_CATEGORIES.includes(args.category as string) ? args.category as string : 'discipleship';
+      const targetDate = cleanDate(args.target_date);
+      const milestones = (Array.isArray(args.milestones) ? args.milestones : [])
+        .map((milestone: any) => ({
+          title: cleanText(milestone?.title, 120),
+          target_date: cleanDate(milestone?.target_date),
+        }))
+        .filter(milestone => milestone.title)
+        .slice(0, MAX_MILESTONES);
+      return {
+        type: 'create_spiritual_goal',
+        params: {
+          title,
+          description: cleanText(args.description, 1000),
+          category,
+          target_date: targetDate && targetDate > context.today ? targetDate : null,
+          milestones,
+        },
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Carry out a confirmed action. `supabase` must be a client acting as the
+ * user, so every write is checked by row level security. `extra` carries what
+ * only the client knows, such as the verse text in the user's translation and
+ * the user's own calendar day.
+ */
+export async function executeChatAction(
+  supabase: SupabaseClient,
+  userId: string,
+  action: Pick<ChatAction, 'action_type' | 'params'>,
+  extra: Record<string, any> = {}
+): Promise<Record<string, any>> {
+  const { params } = action;
+  const today = new Date().toISOString().slice(0, 10);
+
+  switch (action.action_type) {
+    case 'create_prayer_request': {
+      const { data, error } = await supabase
+        .from('prayer_requests')
+        .insert({
+          user_id: userId,
+          title: params.title,
+          description: params.description,
+          tags: params.tags || [],
+          is_answered: false,
+          shared: false,
+        })
+        .select('id')
+        .single();
+      if (error) throw error;
+      return { prayer_request_id: data.id };
+    }
+
+    case 'log_habit': {
+      const { data, error } = await supabase
+        .from('habit_logs')
+        .insert({
+          user_id: userId,
+          habit_id: params.habit_id,
+          completed_date: params.completed_date,
+          amount: params.amount,
+          notes: params.notes || null,
+        })
+        .select('id')
+        .single();
+      if (error) throw error;
+      return { habit_log_id: data.id };
+    }
+
+    case 'add_memory_verse': {
+      const verseText = cleanText(extra.verse_text, 4000);
+      if (!verseText) {
+        throw new Error(`The text of ${params.reference} is needed to add it`);
+      }
+      const schedule = cleanSchedule(extra.schedule);
+      const localToday = cleanDate(extra.today) || today;
+      const { data, error } = await supabase
+        .from('scripture_memory')
+        .insert({
+          user_id: userId,
+          verse_reference: cleanText(extra.reference, 100) || params.reference,
+          verse_text: verseText,
+          translation: cleanText(extra.translation, 20) || 'KJV',
+          notes: params.notes || null,
+          tags: [],
+          memorized_level: 1,
+          ...schedule,
+          last_practiced: localToday,
+          next_review: cleanDate(extra.schedule?.next_review) || localToday,
+        })
+        .select('id')
+        .single();
+      if (error) throw error;
+      return { scripture_memory_id: data.id };
+    }
+
+    case 'start_reading_plan': {
+      const { data: existing } = await supabase
+        .from('user_reading_progress')
+        .select('id')
+        .eq('user_id', userId)
+        .eq('plan_id', params.plan_id)
+        .maybeSingle();
+      if (existing) {
+        return { reading_progress_id: existing.id, plan_id: params.plan_id, already_started: true };
+      }
+
+      const { data, error } = await supabase
+        .from('user_reading_progress')
+        .insert({ user_id: userId, plan_id: params.plan_id, current_day: 1, is_completed: false })
+        .select('id')
+        .single();
+      if (error) throw error;
+      return { reading_progress_id: data.id, plan_id: params.plan_id };
+    }
+
+    case 'create_spiritual_goal': {
+      const { data: goal, error } = await supabase
+        .from('spiritual_goals')
+        .insert({
+          user_id: userId,
+          title: params.title,
+          description: params.description || null,
+          category: params.category,
+          target_date: params.target_date || null,
+          status: 'not_started',
+          progress: 0,
+          is_ai_generated: true,
+          ai_context: { source: 'chat' },
+        })
+        .select('id')
+        .single();
+      if (error) throw error;
+
+      const milestones = (params.milestones || []).map((milestone: { title: string; target_date?: string | null }) => ({
+        goal_id: goal.id,
+        title: milestone.title,
+        target_date: milestone.target_date || null,
+        is_completed: false,
+      }));
+      if (milestones.length > 0) {
+        const { error: milestoneError } = await supabase.from('goal_milestones').insert(milestones);
+        if (milestoneError) {
+          // Keep the goal; the milestones can be added from the goals page
+          console.error('Error creating goal milestones:', milestoneError);
+        }
+      }
+      return { goal_id: goal.id };
+    }
+  }
+}
+
+function describeAction(action: Pick<ChatAction, 'action_type' | 'params'>): string {
+  const { params } = action;
+  switch (action.action_type) {
+    case 'create_prayer_request':
+      return `add prayer request "${params.title}"`;
+    case 'log_habit':
+      return `log ${params.habit_name} for ${params.completed_date}`;
+    case 'add_memory_verse':
+      return `add ${params.reference} to scripture memory`;
+    case 'start_reading_plan':
+      return `start the reading plan "${params.plan_title}"`;
+    case 'create_spiritual_goal':
+      return `create the goal "${params.title}"`;
+  }
+}
+
+/**
+ * Earlier proposals and their outcomes, so the coach neither repeats an
+ * action the user declined nor claims one happened before it was confirmed.
+ */
+export function formatActionsForPrompt(actions: ChatAction[]): string {
+  return actions
+    .map(action => {
+      const status = action.status === 'proposed' ? 'awaiting confirmation' : action.status;
+      return `- ${describeAction(action)} (${status})`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,46 @@
+// Chat threads are trees: editing a message or regenerating a reply adds a
+// sibling under the same parent. The conversation the model sees is the path
+// from the root to the message being answered.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
+import type { ContextMessage } from './context-manager.ts';
+
+export interface BranchMessage extends ContextMessage {
+  id: string;
+  parent_id: string | null;
+  status?: 'streaming' | 'complete' | 'failed';
+}
+
+/**
+ * Messages from the root of the thread down to `leafId`, oldest first.
+ * Without a leaf the most recent message is used, which is the whole thread
+ * for threads that never branched. Replies that failed part way are left
+ * out; their partial text stays stored but is not part of the conversation.
+ */
+export async function loadBranch(
+  supabase: SupabaseClient,
+  threadId: string,
+  leafId: string | null
+): Promise<BranchMessage[]> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select('id,parent_id,role,content,created_at,status')
+    .eq('thread_id', threadId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error loading chat branch:', error);
+    return [];
+  }
+
+  const messages: BranchMessage[] = data || [];
+  const byId = new Map(messages.map(message => [message.id, message]));
+
+  const path: BranchMessage[] = [];
+  let current = leafId ? byId.get(leafId) : messages[messages.length - 1];
+  // The size guard stops a corrupted parent cycle from looping forever
+  while (current && path.length < messages.length) {
+    path.push(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return path.reverse().filter(message => message.status !== 'failed');
+}
@@ -0,0 +1,80 @@
+// Server-sent events for chat-stream. Each event is named:
+//   meta  - thread, message ids, sources, safety notices and proposed actions
+//   delta - the next piece of reply text
+//   done  - the final reply text, which replaces whatever was streamed
+//   error - generation failed
+// Delta and done events carry an id of `<assistant message id>:<offset>`, the
+// offset being how much of the reply the client has after that event. A client
+// that loses the connection sends it back as `Last-Event-ID` to resume.
+
+export const CHAT_STREAM_PROTOCOL = 2;
+
+export type ChatStreamEvent = 'meta' | 'delta' | 'done' | 'error';
+
+export interface StreamPosition {
+  messageId: string;
+  offset: number;
+}
+
+export function formatStreamEventId(position: StreamPosition): string {
+  return `${position.messageId}:${position.offset}`;
+}
+
+export function parseStreamEventId(value: string | null): StreamPosition | null {
+  const match = value?.trim().match(/^([0-9a-f-]{36}):(\d+)$/i);
+  return match ? { messageId: match[1], offset: Number(match[2]) } : null;
+}
+
+export interface EventStream {
+  response: Response;
+  send(event: ChatStreamEvent, data: Record<string, unknown>, id?: string): Promise<void>;
+  close(): Promise<void>;
+  // Set once a write fails because the client went away
+  readonly disconnected: boolean;
+}
+
+/**
+ * An SSE response and a writer for it. Writes after the client disconnects
+ * are dropped instead of throwing, so the reply keeps generating and is
+ * saved for the client to resume.
+ */
+export function createEventStream(headers: Record<string, string>): EventStream {
+  const stream = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = stream.writable.getWriter();
+  const encoder = new TextEncoder();
+  let disconnected = false;
+
+  return {
+    response: new Response(stream.readable, {
+      headers: {
+        ...headers,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    }),
+    get disconnected() {
+      return disconnected;
+    },
+    async send(event, data, id) {
+      if (disconnected) return;
+      const lines = [
+        ...(id ? [`id: ${id}`] : []),
+        `event: ${event}`,
+        `data: ${JSON.stringify(data)}`,
+      ];
+      try {
+        await writer.write(encoder.encode(`${lines.join('\n')}\n\n`));
+      } catch {
+        disconnected = true;
+      }
+    },
+    async close() {
+      try {
+        await writer.close();
+      } catch {
+        // Already closed by the client going away
+      }
+    },
+  };
+}
@@ -0,0 +1,114 @@
+// Context management for long chat threads: token estimates, a budget for the
+// prompt, and a rolling summary that older turns are folded into.
+import type { LLMProvider } from './llm/index.ts';
+
+export interface ContextMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  created_at?: string;
+}
+
+export interface ContextPlan {
+  // Turns sent to the model verbatim
+  recent: ContextMessage[];
+  // Older turns that should be folded into the running summary
+  toFold: ContextMessage[];
+}
+
+// Total prompt budget, leaving room in the model window for the reply
+export const DEFAULT_CONTEXT_BUDGET = 6000;
+// Most recent messages kept verbatim (6 user/assistant turns)
+export const DEFAULT_RECENT_MESSAGES = 12;
+
+// Per-message overhead the chat format adds on top of the content
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Approximate token count. English prose averages about four characters per
+ * token; counting words as well keeps short-word text from being underestimated.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  const words = text.trim().split(/\s+/).length;
+  return Math.ceil(Math.max(text.length / 4, words * 1.3));
+}
+
+export function estimateMessageTokens(messages: Pick<ContextMessage, 'content'>[]): number {
+  return messages.reduce((total, message) => total + estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+}
+
+/**
+ * Split history into the turns that fit verbatim and the older ones to summarize.
+ * `budget` is what remains for history after the system prompt, summary and new message.
+ */
+export function planContext(
+  history: ContextMessage[],
+  budget: number,
+  recentLimit = DEFAULT_RECENT_MESSAGES
+): ContextPlan {
+  let start = Math.max(0, history.length - recentLimit);
+  let recent = history.slice(start);
+
+  // Drop the oldest of the recent turns until they fit the budget
+  while (recent.length > 0 && estimateMessageTokens(recent) > budget) {
+    start += 1;
+    recent = history.slice(start);
+  }
+
+  // Never open the verbatim window with an assistant reply cut off from its question
+  if (recent.length > 0 && recent[0].role === 'assistant') {
+    start += 1;
+    recent = history.slice(start);
+  }
+
+  return { recent, toFold: history.slice(0, start) };
+}
+
+const SUMMARY_PROMPT = `You maintain a running summary of a pastoral coaching conversation between a user and TrueNorth, a faith-centered AI companion.
+
+Update the existing summary with the new turns. Keep:
+- people, relationships, church and life circumstances the user mentioned
+- struggles, prayer needs and emotions they shared
+- scripture passages discussed and guidance given
+- commitments, goals or next steps agreed on
+
+Write in the third person about "the user", in plain prose, under 350 words. Drop small talk. Never invent details.`;
+
+function formatTurns(turns: ContextMessage[]): string {
+  return turns
+    .map(turn => `${turn.role === 'user' ? 'User' : 'TrueNorth'}: ${turn.content}`)
+    .join('\n\n');
+}
+
+/**
+ * Fold older turns into the running summary with the provider's fast model
+ */
+export async function summarizeTurns(
+  llm: LLMProvider,
+  previousSummary: string | null,
+  turns: ContextMessage[]
+): Promise<string> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort('Summary timed out'), 20000);
+
+  try {
+    const { content } = await llm.chat(
+      [
+        { role: 'system', content: SUMMARY_PROMPT },
+        {
+          role: 'user',
+          content: `EXISTING SUMMARY:\n${previousSummary || '(none yet)'}\n\nNEW TURNS:\n${formatTurns(turns)}`,
+        },
+      ],
+      { tier: 'fast', temperature: 0.2, maxTokens: 600, signal: controller.signal }
+    );
+
+    const summary = content.trim();
+    if (!summary) {
+      throw new Error('Summary response was empty');
+    }
+    return summary;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
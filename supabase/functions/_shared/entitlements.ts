@@ -0,0 +1,32 @@
+// Server-side check for TrueNorth Pro, matching what the client treats as an
+// active subscription. Expects a service-role client.
+import type { SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
+
+const PRO_STATUSES = ['active', 'trialing'];
+// The shared demo account always has Pro, as it does in the client
+const DEMO_EMAIL = 'demo@example.com';
+
+export async function hasProAccess(supabase: SupabaseClient, user: User): Promise<boolean> {
+  if (user.email === DEMO_EMAIL) return true;
+
+  const [{ data: profile }, { data: customers }] = await Promise.all([
+    supabase.from('profiles').select('dev_simulate_pro').eq('id', user.id).maybeSingle(),
+    supabase.from('stripe_customers').select('customer_id').eq('user_id', user.id).is('deleted_at', null),
+  ]);
+  if (profile?.dev_simulate_pro) return true;
+  if (!customers?.length) return false;
+
+  const { data: subscriptions, error } = await supabase
+    .from('stripe_subscriptions')
+    .select('status')
+    .in('customer_id', customers.map((customer: { customer_id: string }) => customer.customer_id))
+    .in('status', PRO_STATUSES)
+    .is('deleted_at', null)
+    .limit(1);
+
+  if (error) {
+    console.error('Error checking subscription:', error);
+    return false;
+  }
+  return (subscriptions?.length || 0) > 0;
+}
@@ -0,0 +1,89 @@
+// Shared LLM entry point for edge functions. The backend is chosen by env:
+//
+//   LLM_PROVIDER               openai (default) | openai-compatible | local | mock
+//   LLM_BASE_URL               base URL for openai-compatible/local servers
+//                              (local defaults to Ollama at http://localhost:11434/v1)
+//   LLM_API_KEY                key for the backend (falls back to OPENAI_API_KEY)
+//   LLM_MODEL                  main chat model (default gpt-4o)
+//   LLM_FAST_MODEL             cheaper model for background work (default gpt-4o-mini)
+//   LLM_TRANSCRIPTION_MODEL    speech-to-text model (default whisper-1)
+//   LLM_EMBEDDING_MODEL        embedding model (default text-embedding-3-small);
+//                              must produce 1536-dimension vectors
+//   LLM_MOCK_FIXTURES          mock only: JSON array of { match, response }
+import { createOpenAIProvider } from './openai.ts';
+import { createMockProvider, type MockFixture } from './mock.ts';
+import { LLMError, type LLMProvider } from './types.ts';
+
+export * from './types.ts';
+export { createOpenAIProvider } from './openai.ts';
+export { createMockProvider } from './mock.ts';
+
+const LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+let cachedProvider: LLMProvider | null = null;
+
+function env(name: string): string | undefined {
+  return Deno.env.get(name) || undefined;
+}
+
+function loadMockFixtures(): MockFixture[] {
+  const raw = env('LLM_MOCK_FIXTURES');
+  if (!raw) return [];
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.error('Invalid LLM_MOCK_FIXTURES, ignoring:', error);
+    return [];
+  }
+}
+
+/**
+ * The configured provider for this function instance. Throws an LLMError when
+ * the selected backend is missing required configuration.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const providerName = (env('LLM_PROVIDER') || 'openai').toLowerCase();
+  const apiKey = env('LLM_API_KEY') || env('OPENAI_API_KEY');
+  const model = env('LLM_MODEL') || 'gpt-4o';
+  const fastModel = env('LLM_FAST_MODEL') || 'gpt-4o-mini';
+  const transcriptionModel = env('LLM_TRANSCRIPTION_MODEL') || 'whisper-1';
+  const embeddingModel = env('LLM_EMBEDDING_MODEL') || 'text-embedding-3-small';
+
+  switch (providerName) {
+    case 'mock':
+      cachedProvider = createMockProvider({ fixtures: loadMockFixtures() });
+      break;
+
+    case 'local':
+    case 'openai-compatible': {
+      const baseUrl = env('LLM_BASE_URL') || (providerName === 'local' ? LOCAL_BASE_URL : undefined);
+      if (!baseUrl) {
+        throw new LLMError('LLM_BASE_URL must be set for the openai-compatible provider', providerName);
+      }
+      cachedProvider = createOpenAIProvider({
+        name: providerName,
+        baseUrl,
+        apiKey,
+        model,
+        fastModel: env('LLM_FAST_MODEL') || model,
+        transcriptionModel,
+        embeddingModel,
+      });
+      break;
+    }
+
+    case 'openai':
+      if (!apiKey) {
+        throw new LLMError('OPENAI_API_KEY not set', 'openai');
+      }
+      cachedProvider = createOpenAIProvider({ apiKey, model, fastModel, transcriptionModel, embeddingModel });
+      break;
+
+    default:
+      throw new LLMError(`Unknown LLM_PROVIDER "${providerName}"`, providerName);
+  }
+
+  return cachedProvider;
+}
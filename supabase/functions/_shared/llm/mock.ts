@@ -0,0 +1,123 @@
+// Deterministic offline backend for local development and tests. The same
+// input always produces the same output, and nothing leaves the machine.
+import {
+  EMBEDDING_DIMENSIONS,
+  type ChatOptions,
+  type ChatResult,
+  type LLMMessage,
+  type LLMProvider,
+  type ToolCall,
+  type TranscriptionResult,
+} from './types.ts';
+
+export interface MockFixture {
+  // Matched against the system prompt and the last user message
+  match: string | RegExp;
+  response: string;
+  // Returned only when the request offers a tool of the same name
+  toolCalls?: Omit<ToolCall, 'id'>[];
+}
+
+export interface MockProviderConfig {
+  fixtures?: MockFixture[];
+}
+
+export const MOCK_MODEL = 'mock-1';
+
+// Small stable hash so replies vary with the input but never between runs
+function hashText(text: string): string {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// Hashed bag of words: texts sharing words get similar vectors, which is
+// enough to exercise retrieval without a real model
+function embedText(text: string): number[] {
+  const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9']+/g) || []) {
+    const bucket = parseInt(hashText(word), 16) % EMBEDDING_DIMENSIONS;
+    vector[bucket] += 1;
+  }
+  const length = Math.sqrt(vector.reduce((total, value) => total + value * value, 0)) || 1;
+  return vector.map(value => value / length);
+}
+
+function matchesFixture(fixture: MockFixture, text: string): boolean {
+  return typeof fixture.match === 'string' ? text.includes(fixture.match) : fixture.match.test(text);
+}
+
+export function createMockProvider(config: MockProviderConfig = {}): LLMProvider {
+  const findFixture = (messages: LLMMessage[]): MockFixture | undefined => {
+    const system = messages.find(message => message.role === 'system')?.content || '';
+    const lastUser = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+    return config.fixtures?.find(candidate => matchesFixture(candidate, `${system}\n${lastUser}`));
+  };
+
+  const toolCalls = (messages: LLMMessage[], options: ChatOptions): ToolCall[] => {
+    const offered = new Set((options.tools || []).map(tool => tool.name));
+    return (findFixture(messages)?.toolCalls || [])
+      .filter(call => offered.has(call.name))
+      .map((call, index) => ({ ...call, id: `mock_call_${index}` }));
+  };
+
+  const reply = (messages: LLMMessage[], options: ChatOptions): string => {
+    const system = messages.find(message => message.role === 'system')?.content || '';
+    const lastUser = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+
+    const fixture = findFixture(messages);
+    if (fixture) return fixture.response;
+
+    const digest = hashText(`${system}\n${lastUser}`);
+    const excerpt = lastUser.replace(/\s+/g, ' ').slice(0, 120);
+    if (options.json) {
+      return JSON.stringify({ mock: true, digest, input: excerpt });
+    }
+    return `[mock ${digest}] You said: "${excerpt}". This is a deterministic response from the mock provider.`;
+  };
+
+  return {
+    name: 'mock',
+    model: MOCK_MODEL,
+
+    async chat(messages, options = {}): Promise<ChatResult> {
+      const content = reply(messages, options);
+      const calls = toolCalls(messages, options);
+      return {
+        content,
+        model: options.model || MOCK_MODEL,
+        ...(calls.length > 0 ? { toolCalls: calls } : {}),
+        usage: {
+          promptTokens: messages.reduce((total, message) => total + Math.ceil(message.content.length / 4), 0),
+          completionTokens: Math.ceil(content.length / 4),
+        },
+      };
+    },
+
+    async *streamChat(messages, options = {}) {
+      // Word-sized deltas exercise the same code paths as a real stream
+      for (const piece of reply(messages, options).match(/\S+\s*/g) || []) {
+        if (options.signal?.aborted) return;
+        yield piece;
+      }
+      toolCalls(messages, options).forEach(call => options.onToolCall?.(call));
+    },
+
+    async transcribe(audio): Promise<TranscriptionResult> {
+      const bytes = new Uint8Array(await audio.arrayBuffer());
+      const digest = hashText(Array.from(bytes.slice(0, 4096), byte => String.fromCharCode(byte)).join(''));
+      return {
+        text: `[mock transcription ${digest}] ${bytes.length} bytes of audio.`,
+        // Assume roughly 16 kB per second of compressed speech
+        durationSeconds: Math.max(1, Math.round(bytes.length / 16000)),
+      };
+    },
+
+    async embed(texts): Promise<number[][]> {
+      return texts.map(embedText);
+    },
+  };
+}
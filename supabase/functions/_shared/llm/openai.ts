@@ -0,0 +1,219 @@
+// OpenAI chat and transcription backend. Also serves any OpenAI-compatible
+// server (Ollama, LM Studio, vLLM, llama.cpp) through a different base URL.
+import {
+  EMBEDDING_DIMENSIONS,
+  LLMError,
+  type ChatOptions,
+  type ChatResult,
+  type LLMMessage,
+  type LLMProvider,
+  type ToolCall,
+  type TranscriptionOptions,
+  type TranscriptionResult,
+} from './types.ts';
+
+export interface OpenAIProviderConfig {
+  name?: string;
+  baseUrl?: string;
+  // Optional for local servers that don't check keys
+  apiKey?: string;
+  model: string;
+  fastModel?: string;
+  transcriptionModel?: string;
+  embeddingModel?: string;
+}
+
+export const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export function createOpenAIProvider(config: OpenAIProviderConfig): LLMProvider {
+  const name = config.name || 'openai';
+  const baseUrl = (config.baseUrl || OPENAI_BASE_URL).replace(/\/$/, '');
+
+  const headers = (json = true): Record<string, string> => ({
+    ...(json ? { 'Content-Type': 'application/json' } : {}),
+    ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+  });
+
+  const resolveModel = (options: ChatOptions) =>
+    options.model || (options.tier === 'fast' ? config.fastModel || config.model : config.model);
+
+  const requestBody = (messages: LLMMessage[], options: ChatOptions, stream: boolean) => ({
+    model: resolveModel(options),
+    messages,
+    stream,
+    ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+    ...(options.maxTokens !== undefined ? { max_tokens: options.maxTokens } : {}),
+    ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+    ...(options.tools?.length
+      ? {
+          tools: options.tools.map(tool => ({
+            type: 'function',
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+          })),
+        }
+      : {}),
+  });
+
+  const parseToolCall = (id: string, toolName: string, args: string): ToolCall => {
+    let parsed: Record<string, unknown> = {};
+    try {
+      const value = JSON.parse(args || '{}');
+      if (value && typeof value === 'object' && !Array.isArray(value)) parsed = value;
+    } catch (e) {
+      console.error(`Error parsing ${name} tool call arguments for ${toolName}:`, e);
+    }
+    return { id, name: toolName, arguments: parsed };
+  };
+
+  const fail = async (response: Response, action: string): Promise<never> => {
+    let detail: string;
+    try {
+      const body = await response.json();
+      detail = body.error?.message || JSON.stringify(body);
+    } catch {
+      detail = response.statusText;
+    }
+    throw new LLMError(`${name} ${action} failed (${response.status}): ${detail}`, name, response.status);
+  };
+
+  return {
+    name,
+    model: config.model,
+
+    async chat(messages, options = {}): Promise<ChatResult> {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: headers(),
+        body: JSON.stringify(requestBody(messages, options, false)),
+        signal: options.signal,
+      });
+      if (!response.ok) await fail(response, 'chat completion');
+
+      const data = await response.json();
+      const message = data.choices?.[0]?.message;
+      const toolCalls: ToolCall[] = (message?.tool_calls || []).map(
+        (call: { id: string; function: { name: string; arguments: string } }) =>
+          parseToolCall(call.id, call.function.name, call.function.arguments)
+      );
+      return {
+        content: message?.content || '',
+        model: data.model || resolveModel(options),
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
+        usage: data.usage
+          ? { promptTokens: data.usage.prompt_tokens, completionTokens: data.usage.completion_tokens }
+          : undefined,
+      };
+    },
+
+    async *streamChat(messages, options = {}) {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: headers(),
+        body: JSON.stringify(requestBody(messages, options, true)),
+        signal: options.signal,
+      });
+      if (!response.ok) await fail(response, 'chat stream');
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new LLMError(`${name} returned an empty stream`, name);
+      }
+
+      const decoder = new TextDecoder('utf-8');
+      let buffer = '';
+      // Tool calls arrive in fragments keyed by index; they are complete once the stream ends
+      const pendingCalls: { id: string; name: string; args: string }[] = [];
+      const flushToolCalls = () => {
+        for (const call of pendingCalls) {
+          if (call?.name) options.onToolCall?.(parseToolCall(call.id, call.name, call.args));
+        }
+        pendingCalls.length = 0;
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          flushToolCalls();
+          break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        // Keep the last (potentially incomplete) line in the buffer
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.startsWith('data: ')) continue;
+          const data = line.substring(6).trim();
+          if (data === '[DONE]') {
+            flushToolCalls();
+            return;
+          }
+
+          try {
+            const delta = JSON.parse(data).choices?.[0]?.delta;
+            for (const fragment of delta?.tool_calls || []) {
+              const call = (pendingCalls[fragment.index ?? 0] ||= { id: '', name: '', args: '' });
+              if (fragment.id) call.id = fragment.id;
+              if (fragment.function?.name) call.name += fragment.function.name;
+              if (fragment.function?.arguments) call.args += fragment.function.arguments;
+            }
+            if (delta?.content) yield delta.content;
+          } catch (e) {
+            console.error(`Error parsing ${name} stream chunk:`, e, 'Line:', line);
+          }
+        }
+      }
+    },
+
+    async transcribe(audio, options = {}): Promise<TranscriptionResult> {
+      const formData = new FormData();
+      formData.append('file', new File([audio], options.filename || 'audio.mp3', { type: audio.type || 'audio/mpeg' }));
+      formData.append('model', options.model || config.transcriptionModel || 'whisper-1');
+      formData.append('response_format', 'verbose_json');
+      if (options.language) formData.append('language', options.language);
+
+      const response = await fetch(`${baseUrl}/audio/transcriptions`, {
+        method: 'POST',
+        headers: headers(false),
+        body: formData,
+        signal: options.signal,
+      });
+      if (!response.ok) await fail(response, 'transcription');
+
+      const data = await response.json();
+      return { text: data.text || '', durationSeconds: data.duration };
+    },
+
+    async embed(texts, options = {}): Promise<number[][]> {
+      if (texts.length === 0) return [];
+      const model = options.model || config.embeddingModel || 'text-embedding-3-small';
+
+      const response = await fetch(`${baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: headers(),
+        body: JSON.stringify({
+          model,
+          input: texts,
+          // The text-embedding-3 family can be shortened to the stored size
+          ...(model.startsWith('text-embedding-3') ? { dimensions: EMBEDDING_DIMENSIONS } : {}),
+        }),
+        signal: options.signal,
+      });
+      if (!response.ok) await fail(response, 'embedding');
+
+      const data = await response.json();
+      const vectors: number[][] = [...(data.data || [])]
+        .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+        .map((item: { embedding: number[] }) => item.embedding);
+
+      if (vectors.length !== texts.length || vectors.some(vector => vector.length !== EMBEDDING_DIMENSIONS)) {
+        throw new LLMError(
+          `${name} embedding model ${model} must return ${EMBEDDING_DIMENSIONS}-dimension vectors`,
+          name
+        );
+      }
+      return vectors;
+    },
+  };
+}
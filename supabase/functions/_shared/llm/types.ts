@@ -0,0 +1,103 @@
+// Provider-neutral types for the LLM layer shared by edge functions
+
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+}
+
+// "default" is the main conversational model, "fast" a cheaper one for
+// background work such as summaries and classification
+export type ModelTier = 'default' | 'fast';
+
+export interface ChatOptions {
+  // Explicit model name; otherwise chosen from the tier
+  model?: string;
+  tier?: ModelTier;
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a single JSON object as the reply
+  json?: boolean;
+  signal?: AbortSignal;
+  // Functions the model may call instead of, or as well as, replying
+  tools?: ToolDefinition[];
+  // Called once per completed tool call while streaming
+  onToolCall?: (call: ToolCall) => void;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema for the arguments object
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  // Parsed arguments; empty when the model sent invalid JSON
+  arguments: Record<string, unknown>;
+}
+
+export interface ChatResult {
+  content: string;
+  model: string;
+  toolCalls?: ToolCall[];
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+export interface TranscriptionOptions {
+  model?: string;
+  language?: string;
+  filename?: string;
+  signal?: AbortSignal;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  // Length of the audio when the provider reports it
+  durationSeconds?: number;
+}
+
+// Vector size stored in the database; providers must return embeddings of this length
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface EmbeddingOptions {
+  model?: string;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  // Model used for the default tier, recorded with generated replies
+  readonly model: string;
+  chat(messages: LLMMessage[], options?: ChatOptions): Promise<ChatResult>;
+  // Yields content deltas as they arrive
+  streamChat(messages: LLMMessage[], options?: ChatOptions): AsyncGenerator<string>;
+  transcribe(audio: Blob, options?: TranscriptionOptions): Promise<TranscriptionResult>;
+  // One vector per input, in input order
+  embed(texts: string[], options?: EmbeddingOptions): Promise<number[][]>;
+}
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    readonly provider: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
+
+/**
+ * Parse a JSON-mode reply, tolerating a Markdown code fence around it
+ */
+export function parseJsonContent<T = any>(content: string): T {
+  const trimmed = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  return JSON.parse(trimmed) as T;
+}
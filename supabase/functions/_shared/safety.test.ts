@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createMockProvider } from './llm/index.ts';
+import { assessMessage, replyNeedsReview } from './safety.ts';
+
+const classifierSays = (risk: string, category: string | null = null) =>
+  createMockProvider({
+    fixtures: [{ match: 'safety screener', response: JSON.stringify({ risk, category }) }],
+  });
+
+// Without a fixture the mock's reply isn't a verdict, as when the classifier is down
+const classifierDown = createMockProvider();
+
+describe('assessMessage', () => {
+  it('keeps explicit intent at crisis even when the classifier disagrees', async () => {
+    for (const message of ['I want to kill myself', 'I am going to end my life tonight', "I'm so suicidal"]) {
+      const result = await assessMessage(classifierSays('none'), message);
+      expect(result.level, message).toBe('crisis');
+    }
+  });
+
+  it('lets the classifier overrule negated intent', async () => {
+    for (const message of [
+      'I would never kill myself',
+      "I'm not going to kill myself, I just feel low",
+      'I don’t want to take my own life',
+    ]) {
+      const result = await assessMessage(classifierSays('none'), message);
+      expect(result.level, message).toBe('concern');
+    }
+  });
+
+  it('lets the classifier overrule injuries and accidents', async () => {
+    for (const message of ['I hurt myself at the gym', 'I cut myself chopping onions', 'Harming myself by skipping sleep']) {
+      const result = await assessMessage(classifierSays('none'), message);
+      expect(result.level, message).toBe('concern');
+    }
+  });
+
+  it('treats self-harm as a crisis when the classifier agrees', async () => {
+    const result = await assessMessage(classifierSays('crisis', 'suicide_self_harm'), 'I keep cutting myself at night');
+    expect(result).toEqual({ level: 'crisis', category: 'suicide_self_harm', detector: 'both' });
+  });
+
+  it('falls back to the keyword screen when the classifier is unavailable', async () => {
+    const logError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect((await assessMessage(classifierDown, 'I hurt myself again')).level).toBe('crisis');
+    expect((await assessMessage(classifierDown, 'Should I die to self daily?')).level).toBe('none');
+    logError.mockRestore();
+  });
+
+  it('leaves ordinary messages alone', async () => {
+    const result = await assessMessage(classifierSays('none'), 'Can you help me pray for my family?');
+    expect(result).toEqual({ level: 'none', category: null, detector: null });
+  });
+});
+
+describe('replyNeedsReview', () => {
+  const none = { level: 'none', category: null, detector: null } as const;
+
+  it('reviews replies to flagged messages and replies that touch on risk', () => {
+    expect(replyNeedsReview('Here is a prayer for peace.', { level: 'concern', category: 'other', detector: 'classifier' })).toBe(true);
+    expect(replyNeedsReview('If you feel like harming yourself, please reach out.', none)).toBe(false);
+    expect(replyNeedsReview('Talk to someone about self-harm today.', none)).toBe(true);
+    expect(replyNeedsReview('Here is a prayer for peace.', none)).toBe(false);
+  });
+});
@@ -0,0 +1,375 @@
+// Safety checks around chat generation. The user's message is screened
+// before a reply is written and the reply is checked before it is kept.
+// Crisis-level risk replaces the model's answer with a fixed response and
+// hotline resources for the user's country.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
+import { parseJsonContent, type LLMProvider } from './llm/index.ts';
+
+// "concern" is answered with extra care; "crisis" gets the crisis response
+export type RiskLevel = 'none' | 'concern' | 'crisis';
+export type RiskCategory = 'suicide_self_harm' | 'abuse' | 'harm_to_others' | 'other';
+export type SafetyDetector = 'keyword' | 'classifier' | 'both';
+export type SafetyStage = 'input' | 'output';
+
+export interface SafetyAssessment {
+  level: RiskLevel;
+  category: RiskCategory | null;
+  detector: SafetyDetector | null;
+}
+
+export interface CrisisResource {
+  name: string;
+  contact: string;
+  // Number to dial or text, for tel: and sms: links
+  phone?: string;
+  url?: string;
+  // Shown only for these categories; general lines have none
+  categories?: RiskCategory[];
+}
+
+// Sent to the client and stored on the reply so the banner survives a reload
+export interface SafetyNotice {
+  level: Exclude<RiskLevel, 'none'>;
+  category: RiskCategory;
+  region: string;
+  emergencyNumber: string;
+  resources: CrisisResource[];
+}
+
+const NO_RISK: SafetyAssessment = { level: 'none', category: null, detector: null };
+const LEVEL_ORDER: RiskLevel[] = ['none', 'concern', 'crisis'];
+const RISK_CATEGORIES: RiskCategory[] = ['suicide_self_harm', 'abuse', 'harm_to_others', 'other'];
+const CLASSIFIER_TIMEOUT_MS = 8000;
+
+// -------------------- Keyword screen --------------------------------------
+// High-signal first-person phrases. The classifier catches what these miss;
+// these catch what the classifier misses or when it is unavailable. Explicit
+// statements of intent are `firm`: the classifier can't talk them down,
+// unless they are negated ("I would never kill myself").
+interface KeywordRule {
+  pattern: RegExp;
+  level: Exclude<RiskLevel, 'none'>;
+  category: RiskCategory;
+  firm?: boolean;
+}
+
+const KEYWORD_RULES: KeywordRule[] = [
+  { pattern: /\bkill(ing)? myself\b/i, level: 'crisis', category: 'suicide_self_harm', firm: true },
+  { pattern: /\b(end(ing)?|take|taking) my (own )?life\b/i, level: 'crisis', category: 'suicide_self_harm', firm: true },
+  {
+    pattern: /\b(i'?m|i am|feel(ing)?) (so |really |very )?suicidal\b/i,
+    level: 'crisis',
+    category: 'suicide_self_harm',
+    firm: true,
+  },
+  // Also said of injuries and accidents ("I hurt myself at the gym")
+  { pattern: /\b(hurt(ing)?|harm(ing)?|cut(ting)?) myself\b/i, level: 'crisis', category: 'suicide_self_harm' },
+  // "Die to self" and "die to sin" are about discipleship
+  {
+    pattern: /\b(want|wanna|going|plan(ning)?) to die\b(?! to (self|sin|myself|the flesh))/i,
+    level: 'crisis',
+    category: 'suicide_self_harm',
+  },
+  {
+    pattern: /\b(better off (dead|without me)|no reason to (live|go on)|don'?t want to (live|be alive|wake up))\b/i,
+    level: 'crisis',
+    category: 'suicide_self_harm',
+  },
+  {
+    pattern: /\b(i'?m|i am) (being )?(abused|beaten|raped|molested)\b|\b(hits|beats|chokes|strangles|rapes) me\b/i,
+    level: 'crisis',
+    category: 'abuse',
+  },
+  {
+    pattern: /\b(want|going|gonna|plan(ning)?) to (kill|shoot|stab) (him|her|them|someone|somebody|people|everyone)\b/i,
+    level: 'crisis',
+    category: 'harm_to_others',
+  },
+  { pattern: /\b(suicid\w*|self[- ]harm\w*|overdos\w*)\b/i, level: 'concern', category: 'suicide_self_harm' },
+  { pattern: /\b(abus(e|ed|ive)|molest\w*|raped?)\b/i, level: 'concern', category: 'abuse' },
+];
+
+// A negation up to two words before the match ("not going to", "won't ever")
+const NEGATION_BEFORE = /(\bnever|\bnot|n['\u2019]t|\bno longer)\s+(\w+\s+){0,2}$/i;
+
+function matchKeywords(text: string): KeywordRule | null {
+  for (const rule of KEYWORD_RULES) {
+    const match = rule.pattern.exec(text);
+    if (!match) continue;
+    const negated = NEGATION_BEFORE.test(text.slice(0, match.index));
+    return rule.firm && negated ? { ...rule, firm: false } : rule;
+  }
+  return null;
+}
+
+
+// -------------------- Classifier ------------------------------------------
+const INPUT_CLASSIFIER_PROMPT = `You are the safety screener for a Christian coaching chat. Assess the risk in the LATEST user message, using any earlier messages only as context.
+
+- "crisis": the user expresses a current wish, intent or plan to end their life or harm themselves, is in danger from someone now (abuse, assault), or intends to seriously harm someone else.
+- "concern": hopelessness or despair without stated intent, past self-harm or abuse, grief with signs of not coping, or worry that someone they know is at risk.
+- "none": everything else, including ordinary sadness, discussing these subjects in scripture or in general, and prayer for others.
+
+Respond with JSON only: {"risk": "none" | "concern" | "crisis", "category": "suicide_self_harm" | "abuse" | "harm_to_others" | "other" | null}`;
+
+const OUTPUT_CLASSIFIER_PROMPT = `You review a reply an AI coach wrote to a user who may be at risk. Mark it "crisis" if it gives methods, means or doses for self-harm, suicide or violence, encourages or romanticises them, discourages the user from seeking help, or urges someone in danger to stay with the person hurting them. Otherwise mark it "none".
+
+Respond with JSON only: {"risk": "none" | "crisis", "category": "suicide_self_harm" | "abuse" | "harm_to_others" | "other" | null}`;
+
+async function classify(llm: LLMProvider, system: string, content: string): Promise<SafetyAssessment> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort('Safety classification timed out'), CLASSIFIER_TIMEOUT_MS);
+  try {
+    const { content: reply } = await llm.chat(
+      [
+        { role: 'system', content: system },
+        { role: 'user', content },
+      ],
+      { tier: 'fast', temperature: 0, maxTokens: 60, json: true, signal: controller.signal }
+    );
+    const parsed = parseJsonContent<{ risk?: string; category?: string | null }>(reply);
+    if (!LEVEL_ORDER.includes(parsed.risk as RiskLevel)) {
+      throw new Error(`Unexpected safety classifier reply: ${reply.slice(0, 100)}`);
+    }
+    const level = parsed.risk as RiskLevel;
+    if (level === 'none') return NO_RISK;
+    const category = RISK_CATEGORIES.includes(parsed.category as RiskCategory) ? parsed.category as RiskCategory : 'other';
+    return { level, category, detector: 'classifier' };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Combine the two detectors. Keywords can't read context, so unless the
+ * matched rule is firm, a keyword match the classifier disagrees with
+ * raises the level to concern but not to crisis.
+ */
+function combine(keyword: SafetyAssessment, classifier: SafetyAssessment, firm: boolean): SafetyAssessment {
+  if (keyword.level === 'none') return classifier;
+  if (classifier.level === 'none') return firm ? keyword : { ...keyword, level: 'concern' };
+  return LEVEL_ORDER.indexOf(classifier.level) >= LEVEL_ORDER.indexOf(keyword.level)
+    ? { ...classifier, detector: 'both' }
+    : { ...keyword, detector: 'both' };
+}
+
+/**
+ * Screen a user message before replying. `earlier` holds the user's previous
+ * few messages, since risk often builds over several turns. If the classifier
+ * fails, the keyword screen decides on its own.
+ */
+export async function assessMessage(
+  llm: LLMProvider,
+  message: string,
+  earlier: string[] = []
+): Promise<SafetyAssessment> {
+  const rule = matchKeywords(message);
+  const keyword: SafetyAssessment = rule ? { level: rule.level, category: rule.category, detector: 'keyword' } : NO_RISK;
+  const transcript = [...earlier.map(text => `Earlier: ${text}`), `Latest: ${message}`].join('\n\n');
+
+  try {
+    return combine(keyword, await classify(llm, INPUT_CLASSIFIER_PROMPT, transcript), Boolean(rule?.firm));
+  } catch (err) {
+    console.error('Error classifying message safety:', err);
+    return keyword;
+  }
+}
+
+/**
+ * Whether assessReply sends this reply to the classifier: replies to flagged
+ * messages, and replies that touch on risk topics themselves
+ */
+export function replyNeedsReview(reply: string, input: SafetyAssessment): boolean {
+  return input.level !== 'none' || matchKeywords(reply) !== null;
+}
+
+/**
+ * Check a generated reply before it is kept or shown
+ */
+export async function assessReply(
+  llm: LLMProvider,
+  reply: string,
+  message: string,
+  input: SafetyAssessment
+): Promise<SafetyAssessment> {
+  if (!replyNeedsReview(reply, input)) {
+    return NO_RISK;
+  }
+
+  try {
+    const result = await classify(llm, OUTPUT_CLASSIFIER_PROMPT, `User: ${message}\n\nReply: ${reply}`);
+    // The reviewer only decides whether the reply is withheld
+    return result.level === 'crisis' ? { ...result, category: input.category || result.category } : NO_RISK;
+  } catch (err) {
+    console.error('Error classifying reply safety:', err);
+    return NO_RISK;
+  }
+}
+
+// -------------------- Resources -------------------------------------------
+interface RegionResources {
+  emergencyNumber: string;
+  resources: CrisisResource[];
+}
+
+export const DEFAULT_REGION = 'INTL';
+
+const CRISIS_RESOURCES: Record<string, RegionResources> = {
+  US: {
+    emergencyNumber: '911',
+    resources: [
+      { name: '988 Suicide & Crisis Lifeline', contact: 'Call or text 988', phone: '988', url: 'https://988lifeline.org' },
+      { name: 'Crisis Text Line', contact: 'Text HOME to 741741', url: 'https://www.crisistextline.org' },
+      {
+        name: 'National Domestic Violence Hotline',
+        contact: 'Call 1-800-799-7233',
+        phone: '18007997233',
+        url: 'https://www.thehotline.org',
+        categories: ['abuse'],
+      },
+    ],
+  },
+  CA: {
+    emergencyNumber: '911',
+    resources: [
+      { name: '9-8-8 Suicide Crisis Helpline', contact: 'Call or text 988', phone: '988', url: 'https://988.ca' },
+      { name: 'Kids Help Phone', contact: 'Call 1-800-668-6868', phone: '18006686868', url: 'https://kidshelpphone.ca' },
+      { name: 'ShelterSafe', contact: 'Find a nearby shelter', url: 'https://www.sheltersafe.ca', categories: ['abuse'] },
+    ],
+  },
+  GB: {
+    emergencyNumber: '999',
+    resources: [
+      { name: 'Samaritans', contact: 'Call 116 123', phone: '116123', url: 'https://www.samaritans.org' },
+      { name: 'Shout', contact: 'Text SHOUT to 85258', url: 'https://giveusashout.org' },
+      {
+        name: 'National Domestic Abuse Helpline',
+        contact: 'Call 0808 2000 247',
+        phone: '08082000247',
+        url: 'https://www.nationaldahelpline.org.uk',
+        categories: ['abuse'],
+      },
+    ],
+  },
+  IE: {
+    emergencyNumber: '112',
+    resources: [
+      { name: 'Samaritans', contact: 'Call 116 123', phone: '116123', url: 'https://www.samaritans.org' },
+      { name: 'Text About It', contact: 'Text HELLO to 50808', url: 'https://text50808.ie' },
+      { name: "Women's Aid", contact: 'Call 1800 341 900', phone: '1800341900', url: 'https://www.womensaid.ie', categories: ['abuse'] },
+    ],
+  },
+  AU: {
+    emergencyNumber: '000',
+    resources: [
+      { name: 'Lifeline', contact: 'Call 13 11 14', phone: '131114', url: 'https://www.lifeline.org.au' },
+      { name: '1800RESPECT', contact: 'Call 1800 737 732', phone: '1800737732', url: 'https://www.1800respect.org.au', categories: ['abuse'] },
+    ],
+  },
+  NZ: {
+    emergencyNumber: '111',
+    resources: [
+      { name: 'Need to Talk?', contact: 'Call or text 1737', phone: '1737', url: 'https://1737.org.nz' },
+      { name: 'Lifeline Aotearoa', contact: 'Call 0800 543 354', phone: '0800543354', url: 'https://www.lifeline.org.nz' },
+    ],
+  },
+  [DEFAULT_REGION]: {
+    emergencyNumber: 'your local emergency number',
+    resources: [
+      { name: 'Find A Helpline', contact: 'Free, confidential support in your country', url: 'https://findahelpline.com' },
+    ],
+  },
+};
+
+/**
+ * Country code from a locale such as "en-GB", or from an Accept-Language
+ * header. Languages without a supported region get the international list.
+ */
+export function regionFromLocale(locale: string | null | undefined): string {
+  const first = (locale || '').split(',')[0].trim();
+  const region = first.split(/[-_]/)[1]?.toUpperCase();
+  return region && CRISIS_RESOURCES[region] ? region : DEFAULT_REGION;
+}
+
+export function buildSafetyNotice(assessment: SafetyAssessment, region: string): SafetyNotice {
+  const category = assessment.category || 'other';
+  const { emergencyNumber, resources } = CRISIS_RESOURCES[region] || CRISIS_RESOURCES[DEFAULT_REGION];
+  return {
+    level: assessment.level === 'crisis' ? 'crisis' : 'concern',
+    category,
+    region,
+    emergencyNumber,
+    // Category-specific lines first, then the general ones
+    resources: [
+      ...resources.filter(resource => resource.categories?.includes(category)),
+      ...resources.filter(resource => !resource.categories),
+    ],
+  };
+}
+
+// -------------------- Responses -------------------------------------------
+const CRISIS_OPENINGS: Record<RiskCategory, string> = {
+  suicide_self_harm:
+    "I'm really glad you told me. What you're carrying sounds incredibly heavy, and your life matters, to me and to God.",
+  abuse:
+    "Thank you for telling me. What is happening to you is not your fault, and you deserve to be safe.",
+  harm_to_others:
+    "It sounds like you're in a great deal of pain and anger right now. Before anything else, please put distance between yourself and anyone you might hurt.",
+  other:
+    "I'm really glad you reached out. It sounds like you may not be safe right now, and that matters.",
+};
+
+/**
+ * The vetted reply used instead of the model's answer at crisis level.
+ * It is fixed text so it can be reviewed and never drifts with the model.
+ */
+export function buildCrisisResponse(notice: SafetyNotice): string {
+  const resources = notice.resources
+    .map(resource => `- ${resource.name}: ${resource.contact}${resource.url ? ` (${resource.url})` : ''}`)
+    .join('\n');
+
+  return `${CRISIS_OPENINGS[notice.category]}
+
+I'm an AI, and I can't keep you safe the way a person can. Please reach out to someone who can help right now:
+
+${resources}
+
+If you are in immediate danger, call ${notice.emergencyNumber} now.
+
+If you can, let someone you trust know how you're doing today: a friend, a family member or your pastor. You don't have to face this alone. "The LORD is nigh unto them that are of a broken heart" (Psalm 34:18).
+
+I'm still here, and I'm glad to keep talking with you.`;
+}
+
+/**
+ * Extra instructions for replies to messages flagged at concern level
+ */
+export function buildConcernGuidance(notice: SafetyNotice): string {
+  const resources = notice.resources.map(resource => `${resource.name} (${resource.contact})`).join('; ');
+  return `SAFETY: The user's latest message suggests they may be struggling. Respond with extra gentleness. Take what they share seriously, don't minimise it or hurry to a Bible verse, and ask how they are doing. Let them know support is available, such as ${resources}, or ${notice.emergencyNumber} in an emergency. Never give information that could be used to cause harm.`;
+}
+
+/**
+ * Record that a message or reply was flagged. No text, thread or message ids
+ * are stored, only enough to count how often it happens.
+ */
+export async function recordSafetyEvent(
+  supabase: SupabaseClient,
+  userId: string,
+  stage: SafetyStage,
+  assessment: SafetyAssessment,
+  region: string
+): Promise<void> {
+  if (assessment.level === 'none') return;
+  const { error } = await supabase.from('safety_events').insert({
+    user_id: userId,
+    stage,
+    risk_level: assessment.level,
+    category: assessment.category || 'other',
+    detector: assessment.detector || 'keyword',
+    region,
+  });
+  if (error) {
+    console.error('Error recording safety event:', error);
+  }
+}
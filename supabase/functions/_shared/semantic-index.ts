@@ -0,0 +1,159 @@
+// Semantic retrieval over the user's own writing. Database triggers keep
+// `content_embeddings` in step with the source tables and clear the vector when
+// text changes; this module fills in missing vectors and runs similarity search.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
+import type { LLMProvider } from './llm/index.ts';
+
+export type SourceType = 'journal_entry' | 'prayer_request' | 'bible_study_note' | 'reading_reflection';
+
+// What the client needs to label and link a cited item
+export interface RetrievedSource {
+  index: number;
+  type: SourceType;
+  id: string;
+  title: string;
+  date: string | null;
+  excerpt: string;
+  similarity: number;
+  metadata?: Record<string, unknown>;
+}
+
+interface PendingRow {
+  id: string;
+  title: string | null;
+  content: string;
+  content_hash: string;
+}
+
+interface MatchRow {
+  source_type: SourceType;
+  source_id: string;
+  title: string | null;
+  content: string;
+  metadata: Record<string, unknown> | null;
+  source_created_at: string | null;
+  similarity: number;
+}
+
+export const DEFAULT_MATCH_COUNT = 4;
+// Below this the items are rarely about the same thing
+export const DEFAULT_MIN_SIMILARITY = 0.35;
+// Rows embedded per request, so a large backlog never stalls a chat reply
+const SYNC_BATCH_SIZE = 16;
+const EXCERPT_LENGTH = 400;
+
+const SOURCE_LABELS: Record<SourceType, string> = {
+  journal_entry: 'Journal entry',
+  prayer_request: 'Prayer request',
+  bible_study_note: 'Bible study note',
+  reading_reflection: 'Reading plan reflection',
+};
+
+function embeddingInput(title: string | null, content: string): string {
+  return title ? `${title}\n\n${content}` : content;
+}
+
+function excerpt(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > EXCERPT_LENGTH ? `${flat.slice(0, EXCERPT_LENGTH)}…` : flat;
+}
+
+/**
+ * Embed index rows that are new or changed since their last embedding. Pass a
+ * userId to limit the work to one user. Returns the number of rows embedded.
+ */
+export async function syncPendingEmbeddings(
+  supabase: SupabaseClient,
+  llm: LLMProvider,
+  userId?: string,
+  limit = SYNC_BATCH_SIZE
+): Promise<number> {
+  let query = supabase
+    .from('content_embeddings')
+    .select('id,title,content,content_hash')
+    .is('embedding', null)
+    .limit(limit);
+  if (userId) {
+    query = query.eq('user_id', userId);
+  }
+
+  const { data: pending, error } = await query;
+  if (error) {
+    console.error('Error loading pending embeddings:', error);
+    return 0;
+  }
+  if (!pending || pending.length === 0) return 0;
+
+  const rows = pending as PendingRow[];
+  const vectors = await llm.embed(rows.map(row => embeddingInput(row.title, row.content)));
+
+  let embedded = 0;
+  for (let i = 0; i < rows.length; i++) {
+    // The hash guard skips rows edited while we were embedding; they stay pending
+    const { error: updateError } = await supabase
+      .from('content_embeddings')
+      .update({ embedding: vectors[i] })
+      .eq('id', rows[i].id)
+      .eq('content_hash', rows[i].content_hash);
+
+    if (updateError) {
+      console.error('Error saving embedding:', updateError);
+    } else {
+      embedded += 1;
+    }
+  }
+  return embedded;
+}
+
+/**
+ * The user's items most similar to `query`, numbered from 1 for citation
+ */
+export async function searchUserContent(
+  supabase: SupabaseClient,
+  llm: LLMProvider,
+  userId: string,
+  query: string,
+  matchCount = DEFAULT_MATCH_COUNT,
+  minSimilarity = DEFAULT_MIN_SIMILARITY
+): Promise<RetrievedSource[]> {
+  const [queryEmbedding] = await llm.embed([query]);
+
+  const { data, error } = await supabase.rpc('match_user_content', {
+    query_embedding: queryEmbedding,
+    match_user_id: userId,
+    match_count: matchCount,
+    min_similarity: minSimilarity,
+  });
+
+  if (error) {
+    console.error('Error searching user content:', error);
+    return [];
+  }
+
+  return ((data || []) as MatchRow[]).map((row, i) => ({
+    index: i + 1,
+    type: row.source_type,
+    id: row.source_id,
+    title: row.title || SOURCE_LABELS[row.source_type],
+    date: row.source_created_at,
+    excerpt: excerpt(row.content),
+    similarity: row.similarity,
+    ...(row.metadata && Object.keys(row.metadata).length > 0 ? { metadata: row.metadata } : {}),
+  }));
+}
+
+/**
+ * Numbered list of retrieved items plus citation instructions for the system prompt
+ */
+export function formatSourcesForPrompt(sources: RetrievedSource[]): string {
+  const items = sources.map(source => {
+    const date = source.date
+      ? new Date(source.date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+      : 'undated';
+    return `[${source.index}] ${SOURCE_LABELS[source.type]} "${source.title}" (${date}):\n${source.excerpt}`;
+  });
+
+  return `${items.join('\n\n')}
+
+These are excerpts from the user's own journal, prayers and notes that may relate to this message. When you refer to one, mention when they wrote it and cite it with its number in square brackets, e.g. [1]. Only cite items listed here, never quote beyond the excerpt, and leave them out entirely if they are not relevant.`;
+}
@@ -0,0 +1,88 @@
+// Content-addressed cache of generated speech in Supabase Storage. Audio is
+// keyed by a hash of the normalized text and everything that changes how it
+// sounds, so any user asking for the same passage in the same voice gets the
+// stored file instead of a new synthesis. Expects a service-role client.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
+
+export const TTS_CACHE_BUCKET = 'tts-cache';
+// Bump to ignore everything cached so far, e.g. after a change in normalization
+const CACHE_VERSION = 1;
+
+export interface SpeechCacheKeyParts {
+  text: string;
+  provider: string;
+  model: string;
+  voice: string;
+  speed?: number;
+  // Bible translation of scripture audio; the same words can be read
+  // differently per translation, e.g. "LORD"
+  translation?: string;
+}
+
+export interface CachedSpeech {
+  audio: Uint8Array;
+  contentType: string;
+}
+
+/**
+ * Text as it is hashed: Unicode-normalized with whitespace collapsed, so
+ * formatting differences don't produce separate audio
+ */
+export function normalizeSpeechText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+export async function speechCacheKey(parts: SpeechCacheKeyParts): Promise<string> {
+  const material = JSON.stringify([
+    CACHE_VERSION,
+    parts.provider,
+    parts.model,
+    parts.voice,
+    parts.speed || 1,
+    parts.translation?.toLowerCase() || null,
+    normalizeSpeechText(parts.text),
+  ]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Spread across folders so no single listing gets huge
+function cachePath(key: string, provider: string): string {
+  return `${provider}/${key.slice(0, 2)}/${key}`;
+}
+
+export async function readCachedSpeech(
+  supabase: SupabaseClient,
+  key: string,
+  provider: string
+): Promise<CachedSpeech | null> {
+  const { data, error } = await supabase.storage.from(TTS_CACHE_BUCKET).download(cachePath(key, provider));
+  // A missing object is the normal miss; anything else is logged and treated as one
+  if (error || !data) {
+    if (error && !/not.?found|404/i.test(error.message)) {
+      console.error('Error reading cached speech:', error);
+    }
+    return null;
+  }
+
+  return {
+    audio: new Uint8Array(await data.arrayBuffer()),
+    contentType: data.type || 'audio/mpeg',
+  };
+}
+
+export async function writeCachedSpeech(
+  supabase: SupabaseClient,
+  key: string,
+  provider: string,
+  speech: CachedSpeech
+): Promise<void> {
+  const { error } = await supabase.storage
+    .from(TTS_CACHE_BUCKET)
+    .upload(cachePath(key, provider), speech.audio, {
+      contentType: speech.contentType,
+      cacheControl: '31536000',
+      upsert: true,
+    });
+  if (error) console.error('Error caching speech:', error);
+}
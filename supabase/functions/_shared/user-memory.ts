@@ -0,0 +1,219 @@
+// Long-term memory for the AI coach: durable facts about the user extracted
+// from chats and journal entries, and the subset relevant to a new message.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
+import { parseJsonContent, type LLMProvider } from './llm/index.ts';
+
+export type MemoryCategory = 'family' | 'church' | 'struggle' | 'goal' | 'life_event' | 'preference' | 'other';
+export type MemorySourceType = 'chat' | 'journal' | 'manual';
+
+export const MEMORY_CATEGORIES: MemoryCategory[] = [
+  'family',
+  'church',
+  'struggle',
+  'goal',
+  'life_event',
+  'preference',
+  'other',
+];
+
+export interface MemoryFact {
+  id: string;
+  category: MemoryCategory;
+  fact: string;
+  updated_at?: string;
+}
+
+export interface ExtractedFact {
+  category: MemoryCategory;
+  fact: string;
+  // Id of an existing fact this one corrects or supersedes
+  replaces?: string | null;
+}
+
+export interface MemorySource {
+  type: MemorySourceType;
+  id?: string | null;
+}
+
+// Facts considered for retrieval and shown to the extractor for de-duplication
+const MAX_FACTS_LOADED = 100;
+export const DEFAULT_FACT_LIMIT = 8;
+// Who the user is matters in almost every conversation, even without keyword overlap
+const BACKGROUND_CATEGORIES: MemoryCategory[] = ['family', 'church', 'struggle', 'goal'];
+const BACKGROUND_FACT_LIMIT = 4;
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'again', 'also', 'been', 'being', 'could', 'does', 'doing', 'from', 'have',
+  'having', 'into', 'just', 'like', 'more', 'much', 'only', 'other', 'over', 'really', 'some',
+  'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'thing', 'this', 'those',
+  'through', 'very', 'want', 'were', 'what', 'when', 'where', 'which', 'while', 'with', 'would',
+  'your', 'user', 'users',
+]);
+
+function keywords(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[a-z']+/g) || [];
+  return new Set(
+    words
+      .map(word => word.replace(/'s$|'/g, ''))
+      // Crude plural folding so "daughters" matches "daughter"
+      .map(word => (word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+      .filter(word => word.length > 3 && !STOP_WORDS.has(word))
+  );
+}
+
+function normalizeFact(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Load the user's stored facts, most recently updated first
+ */
+export async function loadMemoryFacts(supabase: SupabaseClient, userId: string): Promise<MemoryFact[]> {
+  const { data, error } = await supabase
+    .from('user_memory_facts')
+    .select('id,category,fact,updated_at')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+    .limit(MAX_FACTS_LOADED);
+
+  if (error) {
+    console.error('Error loading memory facts:', error);
+    return [];
+  }
+  return data || [];
+}
+
+/**
+ * Pick the facts worth putting in front of the model for this message: those
+ * sharing keywords with it, topped up with core background facts.
+ */
+export function selectRelevantFacts(facts: MemoryFact[], query: string, limit = DEFAULT_FACT_LIMIT): MemoryFact[] {
+  const queryWords = keywords(query);
+
+  const matched = facts
+    .map((fact, index) => {
+      let overlap = 0;
+      for (const word of keywords(fact.fact)) {
+        if (queryWords.has(word)) overlap += 1;
+      }
+      return { fact, overlap, index };
+    })
+    .filter(candidate => candidate.overlap > 0)
+    // Facts arrive newest first, so ties keep the more recent one
+    .sort((a, b) => b.overlap - a.overlap || a.index - b.index)
+    .slice(0, limit)
+    .map(candidate => candidate.fact);
+
+  const selected = new Set(matched);
+  for (const fact of facts) {
+    if (selected.size >= limit || selected.size >= matched.length + BACKGROUND_FACT_LIMIT) break;
+    if (BACKGROUND_CATEGORIES.includes(fact.category)) selected.add(fact);
+  }
+
+  return [...selected];
+}
+
+export function formatMemoryFacts(facts: MemoryFact[]): string {
+  return facts.map(fact => `- ${fact.fact}`).join('\n');
+}
+
+const EXTRACTION_PROMPT = `You maintain long-term memory for TrueNorth, a faith-centered AI life coach.
+
+From the new material, extract durable facts about the user that would help in future conversations:
+- family: spouse, children, parents and other close people, by name where given
+- church: their church, denomination, ministry or small group involvement
+- struggle: ongoing burdens such as grief, illness, addiction, anxiety, doubt or conflict
+- goal: spiritual or life goals they have stated
+- life_event: significant events such as a move, new job, wedding, diagnosis or loss
+- preference: how they like to be encouraged, pray or study
+- other: anything else durable and personal
+
+Rules:
+- Only record what the user states about themselves. Never infer or invent.
+- Skip passing moods, small talk, and anything only TrueNorth said.
+- Write each fact as one short third-person sentence, e.g. "Has a daughter named Grace who is starting college."
+- Do not repeat an existing fact. If new material corrects or updates one, return the new version with "replaces" set to that fact's id.
+- Return an empty list when there is nothing durable.
+
+Respond with JSON only: {"facts": [{"category": "...", "fact": "...", "replaces": null}]}`;
+
+/**
+ * Ask the fast model for new or updated facts in a piece of text
+ */
+export async function extractMemoryFacts(
+  llm: LLMProvider,
+  text: string,
+  existing: MemoryFact[]
+): Promise<ExtractedFact[]> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort('Memory extraction timed out'), 20000);
+
+  const known = existing.length
+    ? existing.map(fact => `[${fact.id}] (${fact.category}) ${fact.fact}`).join('\n')
+    : '(none yet)';
+
+  try {
+    const { content } = await llm.chat(
+      [
+        { role: 'system', content: EXTRACTION_PROMPT },
+        { role: 'user', content: `EXISTING FACTS:\n${known}\n\nNEW MATERIAL:\n${text}` },
+      ],
+      { tier: 'fast', temperature: 0, maxTokens: 600, json: true, signal: controller.signal }
+    );
+
+    const parsed = parseJsonContent<{ facts?: ExtractedFact[] }>(content);
+    const existingIds = new Set(existing.map(fact => fact.id));
+
+    return (Array.isArray(parsed.facts) ? parsed.facts : [])
+      .filter(item => typeof item?.fact === 'string' && item.fact.trim())
+      .map(item => ({
+        category: MEMORY_CATEGORIES.includes(item.category) ? item.category : 'other',
+        fact: item.fact.trim().slice(0, 300),
+        replaces: item.replaces && existingIds.has(item.replaces) ? item.replaces : null,
+      }));
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Extract facts from `text` and store them, updating superseded facts in place.
+ * Returns the number of facts added or changed.
+ */
+export async function rememberFromText(
+  supabase: SupabaseClient,
+  llm: LLMProvider,
+  userId: string,
+  source: MemorySource,
+  text: string
+): Promise<number> {
+  const existing = await loadMemoryFacts(supabase, userId);
+  const extracted = await extractMemoryFacts(llm, text, existing);
+
+  const seen = new Set(existing.map(fact => normalizeFact(fact.fact)));
+  let changed = 0;
+
+  for (const item of extracted) {
+    const normalized = normalizeFact(item.fact);
+    if (seen.has(normalized)) continue;
+    seen.add(normalized);
+
+    const row = {
+      category: item.category,
+      fact: item.fact,
+      source_type: source.type,
+      source_id: source.id || null,
+    };
+    const { error } = item.replaces
+      ? await supabase.from('user_memory_facts').update(row).eq('id', item.replaces).eq('user_id', userId)
+      : await supabase.from('user_memory_facts').insert({ ...row, user_id: userId });
+
+    if (error) {
+      console.error('Error saving memory fact:', error);
+    } else {
+      changed += 1;
+    }
+  }
+
+  return changed;
+}
@@ -0,0 +1,91 @@
+// Monthly voice quotas and the usage logs they are counted from. Transcription
+// is metered in seconds of audio, speech in characters of text. Limits can be
+// changed by env:
+//
+//   VOICE_STT_FREE_MONTHLY_SECONDS   transcription without Pro (default 30 minutes)
+//   VOICE_STT_PRO_MONTHLY_SECONDS    transcription with Pro (default 10 hours)
+//   VOICE_TTS_PRO_MONTHLY_CHARACTERS premium speech, Pro only (default 200,000)
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
+
+export interface VoiceQuota {
+  used: number;
+  limit: number;
+  // Start of the next month, when usage resets
+  resetsAt: string;
+}
+
+export interface VoiceUsage {
+  since: Date;
+  resetsAt: Date;
+  transcriptionSeconds: number;
+  speechCharacters: number;
+}
+
+function envLimit(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function transcriptionLimit(isPro: boolean): number {
+  return isPro
+    ? envLimit('VOICE_STT_PRO_MONTHLY_SECONDS', 10 * 60 * 60)
+    : envLimit('VOICE_STT_FREE_MONTHLY_SECONDS', 30 * 60);
+}
+
+export function speechLimit(): number {
+  return envLimit('VOICE_TTS_PRO_MONTHLY_CHARACTERS', 200_000);
+}
+
+/**
+ * What the user has used this calendar month (UTC)
+ */
+export async function getMonthlyVoiceUsage(supabase: SupabaseClient, userId: string, now = new Date()): Promise<VoiceUsage> {
+  const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const resetsAt = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+  const { data, error } = await supabase.rpc('get_monthly_voice_usage', {
+    p_user_id: userId,
+    p_since: since.toISOString(),
+  });
+  if (error) {
+    console.error('Error loading voice usage:', error);
+    throw error;
+  }
+
+  const totals = Array.isArray(data) ? data[0] : data;
+  return {
+    since,
+    resetsAt,
+    transcriptionSeconds: Number(totals?.transcription_seconds || 0),
+    speechCharacters: Number(totals?.speech_characters || 0),
+  };
+}
+
+export async function logTranscriptionUsage(
+  supabase: SupabaseClient,
+  usage: { userId: string; durationSeconds: number; model: string; provider: string }
+): Promise<void> {
+  const { error } = await supabase.from('whisper_usage_logs').insert({
+    user_id: usage.userId,
+    duration_seconds: usage.durationSeconds,
+    model: usage.model,
+    provider: usage.provider,
+  });
+  if (error) console.error('Error logging transcription usage:', error);
+}
+
+export async function logSpeechUsage(
+  supabase: SupabaseClient,
+  usage: { userId: string; characters: number; voiceId: string; modelId: string; provider: string; cached?: boolean }
+): Promise<void> {
+  // Cached audio is logged too, but doesn't count towards the allowance
+  const { error } = await supabase.from('voice_usage_logs').insert({
+    user_id: usage.userId,
+    characters: usage.characters,
+    voice_id: usage.voiceId,
+    model_id: usage.modelId,
+    provider: usage.provider,
+    cached: usage.cached || false,
+  });
+  if (error) console.error('Error logging speech usage:', error);
+}
@@ -0,0 +1,102 @@
+// ElevenLabs text-to-speech and speech-to-text. The app's voice names are
+// mapped to ElevenLabs voice ids through ELEVENLABS_VOICE_IDS.
+import {
+  DEFAULT_VOICE,
+  VoiceProviderError,
+  type SpeechProvider,
+  type SpeechResult,
+  type TranscriptionProvider,
+  type VoiceTranscriptionResult,
+} from './types.ts';
+
+export interface ElevenLabsConfig {
+  apiKey: string;
+  // Used for any app voice without an entry in `voiceIds`
+  defaultVoiceId: string;
+  voiceIds?: Record<string, string>;
+  model?: string;
+  transcriptionModel?: string;
+}
+
+const ELEVENLABS_BASE_URL = 'https://api.elevenlabs.io/v1';
+
+async function fail(response: Response, action: string): Promise<never> {
+  let detail: string;
+  try {
+    const body = await response.json();
+    detail = body.detail?.message || body.detail || JSON.stringify(body);
+  } catch {
+    detail = response.statusText;
+  }
+  throw new VoiceProviderError(`elevenlabs ${action} failed (${response.status}): ${detail}`, 'elevenlabs', response.status);
+}
+
+export function createElevenLabsSpeechProvider(config: ElevenLabsConfig): SpeechProvider {
+  const model = config.model || 'eleven_multilingual_v2';
+
+  return {
+    name: 'elevenlabs',
+    model,
+
+    async synthesize(text, options = {}): Promise<SpeechResult> {
+      const voice = config.voiceIds?.[options.voice || DEFAULT_VOICE] || config.defaultVoiceId;
+
+      const response = await fetch(
+        `${ELEVENLABS_BASE_URL}/text-to-speech/${encodeURIComponent(voice)}?output_format=mp3_44100_128`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'xi-api-key': config.apiKey,
+          },
+          body: JSON.stringify({
+            text,
+            model_id: model,
+            ...(options.speed ? { voice_settings: { speed: Math.min(Math.max(options.speed, 0.7), 1.2) } } : {}),
+          }),
+          signal: options.signal,
+        }
+      );
+      if (!response.ok) await fail(response, 'speech');
+
+      return {
+        audio: new Uint8Array(await response.arrayBuffer()),
+        contentType: 'audio/mpeg',
+        voice,
+        model,
+      };
+    },
+  };
+}
+
+export function createElevenLabsTranscriptionProvider(config: ElevenLabsConfig): TranscriptionProvider {
+  const model = config.transcriptionModel || 'scribe_v1';
+
+  return {
+    name: 'elevenlabs',
+
+    async transcribe(audio, options = {}): Promise<VoiceTranscriptionResult> {
+      const formData = new FormData();
+      formData.append('file', new File([audio], options.filename || 'audio.webm', { type: audio.type || 'audio/webm' }));
+      formData.append('model_id', model);
+      if (options.language) formData.append('language_code', options.language);
+
+      const response = await fetch(`${ELEVENLABS_BASE_URL}/speech-to-text`, {
+        method: 'POST',
+        headers: { 'xi-api-key': config.apiKey },
+        body: formData,
+        signal: options.signal,
+      });
+      if (!response.ok) await fail(response, 'transcription');
+
+      const data = await response.json();
+      // Scribe reports word timings rather than a duration
+      const lastWord = Array.isArray(data.words) ? data.words[data.words.length - 1] : null;
+      return {
+        text: data.text || '',
+        model,
+        ...(typeof lastWord?.end === 'number' ? { durationSeconds: lastWord.end } : {}),
+      };
+    },
+  };
+}
@@ -0,0 +1,113 @@
+// Shared voice entry point for edge functions. Backends are chosen by env:
+//
+//   VOICE_TTS_PROVIDER      openai (default) | elevenlabs | stub
+//   VOICE_STT_PROVIDER      openai (default) | elevenlabs | stub; openai goes
+//                           through the LLM layer, so LLM_PROVIDER and
+//                           LLM_TRANSCRIPTION_MODEL apply
+//   OPENAI_TTS_MODEL        speech model (default tts-1)
+//   ELEVENLABS_API_KEY      key for the elevenlabs backend
+//   ELEVENLABS_VOICE_ID     voice used when an app voice has no mapping
+//   ELEVENLABS_VOICE_IDS    JSON object of app voice name to ElevenLabs voice id
+//   ELEVENLABS_MODEL_ID     speech model (default eleven_multilingual_v2)
+//   ELEVENLABS_STT_MODEL    transcription model (default scribe_v1)
+import { createElevenLabsSpeechProvider, createElevenLabsTranscriptionProvider, type ElevenLabsConfig } from './elevenlabs.ts';
+import { createLLMTranscriptionProvider, createOpenAISpeechProvider } from './openai.ts';
+import { createStubSpeechProvider, createStubTranscriptionProvider } from './stub.ts';
+import { VoiceProviderError, type SpeechProvider, type TranscriptionProvider } from './types.ts';
+
+export * from './types.ts';
+
+// Rachel, one of the ElevenLabs premade voices
+const ELEVENLABS_DEFAULT_VOICE_ID = '21m00Tcm4TlvDq8ikWAM';
+
+let cachedSpeechProvider: SpeechProvider | null = null;
+let cachedTranscriptionProvider: TranscriptionProvider | null = null;
+
+function env(name: string): string | undefined {
+  return Deno.env.get(name) || undefined;
+}
+
+function loadElevenLabsConfig(): ElevenLabsConfig {
+  const apiKey = env('ELEVENLABS_API_KEY');
+  if (!apiKey) {
+    throw new VoiceProviderError('ELEVENLABS_API_KEY not set', 'elevenlabs');
+  }
+
+  let voiceIds: Record<string, string> = {};
+  const rawVoiceIds = env('ELEVENLABS_VOICE_IDS');
+  if (rawVoiceIds) {
+    try {
+      voiceIds = JSON.parse(rawVoiceIds);
+    } catch (error) {
+      console.error('Invalid ELEVENLABS_VOICE_IDS, ignoring:', error);
+    }
+  }
+
+  return {
+    apiKey,
+    defaultVoiceId: env('ELEVENLABS_VOICE_ID') || ELEVENLABS_DEFAULT_VOICE_ID,
+    voiceIds,
+    model: env('ELEVENLABS_MODEL_ID'),
+    transcriptionModel: env('ELEVENLABS_STT_MODEL'),
+  };
+}
+
+/**
+ * The configured text-to-speech backend. Throws a VoiceProviderError when it
+ * is missing required configuration.
+ */
+export function getSpeechProvider(): SpeechProvider {
+  if (cachedSpeechProvider) return cachedSpeechProvider;
+
+  const providerName = (env('VOICE_TTS_PROVIDER') || 'openai').toLowerCase();
+  switch (providerName) {
+    case 'stub':
+      cachedSpeechProvider = createStubSpeechProvider();
+      break;
+
+    case 'elevenlabs':
+      cachedSpeechProvider = createElevenLabsSpeechProvider(loadElevenLabsConfig());
+      break;
+
+    case 'openai': {
+      const apiKey = env('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new VoiceProviderError('OPENAI_API_KEY not set', 'openai');
+      }
+      cachedSpeechProvider = createOpenAISpeechProvider({ apiKey, model: env('OPENAI_TTS_MODEL') });
+      break;
+    }
+
+    default:
+      throw new VoiceProviderError(`Unknown VOICE_TTS_PROVIDER "${providerName}"`, providerName);
+  }
+
+  return cachedSpeechProvider;
+}
+
+/**
+ * The configured speech-to-text backend
+ */
+export function getTranscriptionProvider(): TranscriptionProvider {
+  if (cachedTranscriptionProvider) return cachedTranscriptionProvider;
+
+  const providerName = (env('VOICE_STT_PROVIDER') || 'openai').toLowerCase();
+  switch (providerName) {
+    case 'stub':
+      cachedTranscriptionProvider = createStubTranscriptionProvider();
+      break;
+
+    case 'elevenlabs':
+      cachedTranscriptionProvider = createElevenLabsTranscriptionProvider(loadElevenLabsConfig());
+      break;
+
+    case 'openai':
+      cachedTranscriptionProvider = createLLMTranscriptionProvider();
+      break;
+
+    default:
+      throw new VoiceProviderError(`Unknown VOICE_STT_PROVIDER "${providerName}"`, providerName);
+  }
+
+  return cachedTranscriptionProvider;
+}
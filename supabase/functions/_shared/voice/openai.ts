@@ -0,0 +1,83 @@
+// OpenAI text-to-speech. Transcription goes through the shared LLM layer so
+// LLM_PROVIDER (including local and mock backends) applies to it as well.
+import { getLLMProvider } from '../llm/index.ts';
+import { OPENAI_BASE_URL } from '../llm/openai.ts';
+import {
+  APP_VOICES,
+  DEFAULT_VOICE,
+  VoiceProviderError,
+  type SpeechProvider,
+  type SpeechResult,
+  type TranscriptionProvider,
+  type VoiceTranscriptionResult,
+} from './types.ts';
+
+export interface OpenAISpeechConfig {
+  apiKey: string;
+  model?: string;
+  baseUrl?: string;
+}
+
+export function createOpenAISpeechProvider(config: OpenAISpeechConfig): SpeechProvider {
+  const baseUrl = (config.baseUrl || OPENAI_BASE_URL).replace(/\/$/, '');
+  const model = config.model || 'tts-1';
+
+  return {
+    name: 'openai',
+    model,
+
+    async synthesize(text, options = {}): Promise<SpeechResult> {
+      const voice = APP_VOICES.includes(options.voice as typeof APP_VOICES[number]) ? options.voice! : DEFAULT_VOICE;
+
+      const response = await fetch(`${baseUrl}/audio/speech`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${config.apiKey}`,
+        },
+        body: JSON.stringify({
+          model,
+          voice,
+          input: text,
+          response_format: 'mp3',
+          ...(options.speed ? { speed: options.speed } : {}),
+        }),
+        signal: options.signal,
+      });
+
+      if (!response.ok) {
+        let detail: string;
+        try {
+          const body = await response.json();
+          detail = body.error?.message || JSON.stringify(body);
+        } catch {
+          detail = response.statusText;
+        }
+        throw new VoiceProviderError(`openai speech failed (${response.status}): ${detail}`, 'openai', response.status);
+      }
+
+      return {
+        audio: new Uint8Array(await response.arrayBuffer()),
+        contentType: 'audio/mpeg',
+        voice,
+        model,
+      };
+    },
+  };
+}
+
+export function createLLMTranscriptionProvider(): TranscriptionProvider {
+  return {
+    get name() {
+      return getLLMProvider().name;
+    },
+
+    async transcribe(audio, options = {}): Promise<VoiceTranscriptionResult> {
+      const llm = getLLMProvider();
+      const result = await llm.transcribe(audio, options);
+      // The mock backend has no transcription model of its own
+      const model = llm.name === 'mock' ? llm.model : Deno.env.get('LLM_TRANSCRIPTION_MODEL') || 'whisper-1';
+      return { ...result, model };
+    },
+  };
+}
@@ -0,0 +1,77 @@
+// Offline voice backend for local development and tests. Speech is silence of
+// about the length the text would take to read; transcription is a fixed
+// string derived from the audio. Nothing leaves the machine.
+import {
+  DEFAULT_VOICE,
+  type SpeechProvider,
+  type SpeechResult,
+  type TranscriptionProvider,
+  type VoiceTranscriptionResult,
+} from './types.ts';
+
+export const STUB_MODEL = 'stub-1';
+
+const SAMPLE_RATE = 8000;
+// Roughly how fast text is read aloud
+const CHARACTERS_PER_SECOND = 15;
+const MAX_SECONDS = 30;
+
+// 8-bit mono PCM WAV of the given length, all silence
+function silentWav(seconds: number): Uint8Array {
+  const samples = Math.round(seconds * SAMPLE_RATE);
+  const buffer = new ArrayBuffer(44 + samples);
+  const view = new DataView(buffer);
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + samples, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE, true);
+  view.setUint16(32, 1, true);
+  view.setUint16(34, 8, true);
+  writeText(36, 'data');
+  view.setUint32(40, samples, true);
+  // Unsigned 8-bit silence is the midpoint
+  new Uint8Array(buffer, 44).fill(128);
+
+  return new Uint8Array(buffer);
+}
+
+export function createStubSpeechProvider(): SpeechProvider {
+  return {
+    name: 'stub',
+    model: STUB_MODEL,
+
+    async synthesize(text, options = {}): Promise<SpeechResult> {
+      const seconds = Math.min(Math.max(text.length / CHARACTERS_PER_SECOND, 0.5), MAX_SECONDS);
+      return {
+        audio: silentWav(seconds / (options.speed || 1)),
+        contentType: 'audio/wav',
+        voice: options.voice || DEFAULT_VOICE,
+        model: STUB_MODEL,
+      };
+    },
+  };
+}
+
+export function createStubTranscriptionProvider(): TranscriptionProvider {
+  return {
+    name: 'stub',
+
+    async transcribe(audio): Promise<VoiceTranscriptionResult> {
+      return {
+        text: `[stub transcription] ${audio.size} bytes of audio.`,
+        model: STUB_MODEL,
+        // Assume roughly 16 kB per second of compressed speech
+        durationSeconds: Math.max(1, Math.round(audio.size / 16000)),
+      };
+    },
+  };
+}
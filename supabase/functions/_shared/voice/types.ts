@@ -0,0 +1,58 @@
+// Provider-neutral types for speech synthesis and transcription
+
+export interface SpeechOptions {
+  // The app's voice name (alloy, echo, fable, onyx, nova, shimmer); providers
+  // with their own voice ids map it
+  voice?: string;
+  // 0.25 to 4, where 1 is normal speed
+  speed?: number;
+  signal?: AbortSignal;
+}
+
+export interface SpeechResult {
+  audio: Uint8Array;
+  contentType: string;
+  // Provider voice and model actually used, recorded in the usage log
+  voice: string;
+  model: string;
+}
+
+export interface SpeechProvider {
+  readonly name: string;
+  // Default model, part of the cache key for generated audio
+  readonly model: string;
+  synthesize(text: string, options?: SpeechOptions): Promise<SpeechResult>;
+}
+
+export interface VoiceTranscriptionOptions {
+  language?: string;
+  filename?: string;
+  signal?: AbortSignal;
+}
+
+export interface VoiceTranscriptionResult {
+  text: string;
+  model: string;
+  // Length of the audio when the provider reports it
+  durationSeconds?: number;
+}
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(audio: Blob, options?: VoiceTranscriptionOptions): Promise<VoiceTranscriptionResult>;
+}
+
+// Voices the app offers; a provider without them falls back to its default
+export const APP_VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'] as const;
+export const DEFAULT_VOICE = 'alloy';
+
+export class VoiceProviderError extends Error {
+  constructor(
+    message: string,
+    readonly provider: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'VoiceProviderError';
+  }
+}
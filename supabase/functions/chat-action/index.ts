@@ -0,0 +1,106 @@
+// Supabase Edge Function that confirms or declines an action the AI coach
+// proposed in a chat. Confirmed actions run as the user, so row level security
+// decides what they may write; the outcome is recorded on the proposal.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
+import { corsHeaders } from '../_shared/cors-headers.ts';
+import { executeChatAction } from '../_shared/chat-actions.ts';
+
+const ACTION_FIELDS = 'id,action_type,params,status,result,error,created_at,resolved_at';
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { actionId, decision, details } = await req.json().catch(() => ({}));
+    if (!actionId || (decision !== 'confirm' && decision !== 'decline')) {
+      return jsonResponse({ error: 'actionId and a decision of "confirm" or "decline" are required' }, 400);
+    }
+
+    const authorization = req.headers.get('Authorization') || '';
+    const token = authorization.replace('Bearer ', '').trim();
+    if (!token) {
+      return jsonResponse({ error: 'Missing authentication' }, 401);
+    }
+
+    // The audit trail is written with the service role; the action itself as the user
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_ANON_KEY') || '',
+      { global: { headers: { Authorization: authorization } } }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: 'Invalid authentication' }, 401);
+    }
+
+    const { data: action } = await supabase
+      .from('chat_actions')
+      .select(ACTION_FIELDS)
+      .eq('id', actionId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+    if (!action) {
+      return jsonResponse({ error: 'Action not found' }, 404);
+    }
+    if (action.status !== 'proposed') {
+      return jsonResponse({ error: `This action was already ${action.status}`, action }, 409);
+    }
+
+    // Claim the proposal first so a double click can't run it twice
+    const { data: claimed } = await supabase
+      .from('chat_actions')
+      .update({ status: decision === 'confirm' ? 'executed' : 'declined', resolved_at: new Date().toISOString() })
+      .eq('id', actionId)
+      .eq('status', 'proposed')
+      .select(ACTION_FIELDS);
+    if (!claimed || claimed.length === 0) {
+      return jsonResponse({ error: 'This action was already resolved' }, 409);
+    }
+    if (decision === 'decline') {
+      return jsonResponse({ action: claimed[0] });
+    }
+
+    let outcome: Record<string, unknown>;
+    try {
+      outcome = { result: await executeChatAction(userClient, user.id, action, details || {}) };
+    } catch (error: any) {
+      console.error(`Error executing chat action ${action.action_type}:`, error);
+      outcome = { status: 'failed', error: error.message || 'The action could not be completed' };
+    }
+
+    const { data: resolved, error: updateError } = await supabase
+      .from('chat_actions')
+      .update(outcome)
+      .eq('id', actionId)
+      .select(ACTION_FIELDS)
+      .single();
+    if (updateError) {
+      console.error('Error recording chat action outcome:', updateError);
+    }
+
+    return jsonResponse({ action: resolved || { ...claimed[0], ...outcome } });
+  } catch (error: any) {
+    console.error('Error resolving chat action:', error);
+    return jsonResponse({ error: error.message || 'Failed to resolve action' }, 500);
+  }
+});
@@ -0,0 +1,236 @@
+// Supabase Edge Function that turns a chat thread into a journal entry and
+// suggests follow-up prayer requests and memory verses for the user to accept.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
+import { corsHeaders } from '../_shared/cors-headers.ts';
+import { loadBranch } from '../_shared/chat-branches.ts';
+import {
+  DEFAULT_CONTEXT_BUDGET,
+  planContext,
+  summarizeTurns,
+  type ContextMessage,
+} from '../_shared/context-manager.ts';
+import { getLLMProvider, parseJsonContent, type LLMProvider } from '../_shared/llm/index.ts';
+
+interface JournalDraft {
+  title?: string;
+  summary?: string;
+  content?: string;
+  tags?: string[];
+  mood_score?: number;
+  spiritual_score?: number;
+  related_scripture?: string | null;
+  prayer_requests?: { title?: string; description?: string }[];
+  memory_verses?: { reference?: string; reason?: string }[];
+}
+
+// Room for the instructions and the JSON reply
+const PROMPT_OVERHEAD_TOKENS = 1500;
+const MAX_TAGS = 5;
+const MAX_SUGGESTIONS = 3;
+
+const JOURNAL_PROMPT = `You turn a conversation between a user and TrueNorth, a faith-centered AI life coach, into an entry in the user's private spiritual journal.
+
+Write from the user's perspective ("I"), faithfully to what they shared. Never invent events or feelings.
+
+Respond with JSON only:
+{
+  "title": "short, specific title (max 8 words)",
+  "summary": "two or three sentences on what the conversation was about",
+  "content": "a reflective journal entry of 150-300 words in the first person, covering what I brought, what I learned, and any next steps. Use **bold** for a few key phrases.",
+  "tags": ["up to 5 lowercase single-word or hyphenated topics"],
+  "mood_score": 1-10 integer for how I seemed to feel emotionally (1 very low, 10 very well),
+  "spiritual_score": 1-10 integer for how connected to God I seemed (1 distant, 10 very close),
+  "related_scripture": "the single most relevant Bible reference discussed or implied, e.g. \\"Philippians 4:6-7\\", or null",
+  "prayer_requests": [{"title": "short title", "description": "one or two sentences in the first person"}],
+  "memory_verses": [{"reference": "Book chapter:verse(s)", "reason": "one sentence on why it fits"}]
+}
+
+Suggest at most 3 prayer requests, only for needs actually raised, and at most 3 memory verses of no more than 3 verses each. Use empty lists when nothing fits.`;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function clampScore(value: unknown): number | null {
+  const score = Math.round(Number(value));
+  return Number.isFinite(score) ? Math.min(10, Math.max(1, score)) : null;
+}
+
+function cleanText(value: unknown, maxLength: number): string {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+}
+
+function formatTranscript(messages: ContextMessage[]): string {
+  return messages
+    .map(message => `${message.role === 'user' ? 'User' : 'TrueNorth'}: ${message.content}`)
+    .join('\n\n');
+}
+
+/**
+ * The thread as it should be shown to the model: the turns that fit the
+ * budget verbatim, with anything older folded into a summary.
+ */
+async function buildConversation(llm: LLMProvider, messages: ContextMessage[]): Promise<string> {
+  const budget = (Number(Deno.env.get('CHAT_CONTEXT_TOKENS')) || DEFAULT_CONTEXT_BUDGET) - PROMPT_OVERHEAD_TOKENS;
+  const { recent, toFold } = planContext(messages, budget, messages.length);
+
+  const earlier = toFold.length > 0 ? await summarizeTurns(llm, null, toFold) : null;
+
+  return earlier
+    ? `EARLIER IN THE CONVERSATION (summary):\n${earlier}\n\nCONVERSATION:\n${formatTranscript(recent)}`
+    : `CONVERSATION:\n${formatTranscript(recent)}`;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { messages: clientMessages, threadId } = await req.json().catch(() => ({}));
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return jsonResponse({ error: 'Missing authentication' }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: 'Invalid authentication' }, 401);
+    }
+
+    // -------------------- Conversation ----------------------------------
+    // The stored thread is authoritative; the client's copy is the fallback.
+    // Only the branch the user is viewing is journaled.
+    let messages: ContextMessage[] = [];
+
+    if (threadId) {
+      const { data: thread } = await supabase
+        .from('chat_threads')
+        .select('id,active_leaf_id')
+        .eq('id', threadId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (!thread) {
+        return jsonResponse({ error: 'Chat thread not found' }, 404);
+      }
+
+      const branch = await loadBranch(supabase, threadId, thread.active_leaf_id);
+      messages = branch
+        .filter(message => message.content)
+        .map(({ role, content, created_at }) => ({ role, content, created_at }));
+    }
+
+    if (messages.length === 0 && Array.isArray(clientMessages)) {
+      messages = clientMessages
+        .filter((message: any) =>
+          (message?.role === 'user' || message?.role === 'assistant') && typeof message.content === 'string'
+        )
+        .map((message: any) => ({ role: message.role, content: message.content }));
+    }
+
+    if (!messages.some(message => message.role === 'user')) {
+      return jsonResponse({ error: 'The conversation has no messages to journal' }, 400);
+    }
+
+    // -------------------- Extraction ------------------------------------
+    const llm = getLLMProvider();
+    const conversation = await buildConversation(llm, messages);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort('Journal generation timed out'), 45000);
+    let draft: JournalDraft;
+    try {
+      const { content } = await llm.chat(
+        [
+          { role: 'system', content: JOURNAL_PROMPT },
+          { role: 'user', content: conversation },
+        ],
+        { temperature: 0.4, maxTokens: 1200, json: true, signal: controller.signal }
+      );
+      draft = parseJsonContent<JournalDraft>(content);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    const entry = {
+      user_id: user.id,
+      title: cleanText(draft.title, 120) || 'Conversation with TrueNorth',
+      summary: cleanText(draft.summary, 1000),
+      content: cleanText(draft.content, 6000) || cleanText(draft.summary, 1000),
+      tags: (Array.isArray(draft.tags) ? draft.tags : [])
+        .map(tag => cleanText(tag, 40).toLowerCase())
+        .filter(Boolean)
+        .slice(0, MAX_TAGS),
+      mood_score: clampScore(draft.mood_score),
+      spiritual_score: clampScore(draft.spiritual_score),
+      related_scripture: cleanText(draft.related_scripture, 100) || null,
+      source_thread_id: threadId || null,
+      // Written here in plain text; the app encrypts it again for users with a private journal
+      is_encrypted: false,
+      encrypted_payload: null,
+    };
+
+    // -------------------- Save ------------------------------------------
+    // Saving the same thread again refreshes its entry instead of duplicating
+    // it. An encrypted entry is never replaced with this plaintext copy: a new
+    // entry is added instead, which the client seals.
+    let existingId: string | null = null;
+    if (threadId) {
+      const { data: existing } = await supabase
+        .from('journal_entries')
+        .select('id, is_encrypted')
+        .eq('user_id', user.id)
+        .eq('source_thread_id', threadId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      existingId = existing && !existing.is_encrypted ? existing.id : null;
+    }
+
+    const { data: journalEntry, error: saveError } = existingId
+      ? await supabase.from('journal_entries').update(entry).eq('id', existingId).select().single()
+      : await supabase.from('journal_entries').insert(entry).select().single();
+
+    if (saveError || !journalEntry) {
+      console.error('Error saving journal entry:', saveError);
+      return jsonResponse({ error: 'Failed to save journal entry' }, 500);
+    }
+
+    const suggestions = {
+      prayerRequests: (Array.isArray(draft.prayer_requests) ? draft.prayer_requests : [])
+        .map(request => ({
+          title: cleanText(request?.title, 120),
+          description: cleanText(request?.description, 1000),
+        }))
+        .filter(request => request.title && request.description)
+        .slice(0, MAX_SUGGESTIONS),
+      memoryVerses: (Array.isArray(draft.memory_verses) ? draft.memory_verses : [])
+        .map(verse => ({
+          reference: cleanText(verse?.reference, 100),
+          reason: cleanText(verse?.reason, 300),
+        }))
+        .filter(verse => verse.reference)
+        .slice(0, MAX_SUGGESTIONS),
+    };
+
+    return jsonResponse({ journalEntry, suggestions });
+  } catch (error: any) {
+    console.error('Error creating journal entry from chat:', error);
+    return jsonResponse({ error: error.message || 'Failed to create journal entry' }, 500);
+  }
+});
@@ -1,38 +1,186 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
+import {
+  DEFAULT_CONTEXT_BUDGET,
+  estimateTokens,
+  planContext,
+  summarizeTurns,
+  type ContextMessage,
+} from '../_shared/context-manager.ts';
+import { loadBranch, type BranchMessage } from '../_shared/chat-branches.ts';
+import {
+  DEFAULT_COACHING_MODE,
+  PROMPT_VERSION,
+  buildCoachPrompt,
+  normalizeCoachingMode,
+  normalizeTradition,
+} from '../_shared/coach-prompt.ts';
+import {
+  CHAT_STREAM_PROTOCOL,
+  createEventStream,
+  formatStreamEventId,
+  parseStreamEventId,
+  type EventStream,
+} from '../_shared/chat-stream-events.ts';
+import { getLLMProvider, type LLMMessage, type LLMProvider, type ToolCall } from '../_shared/llm/index.ts';
+import {
+  MAX_ACTIONS_PER_REPLY,
+  buildActionTools,
+  formatActionsForPrompt,
+  loadActionContext,
+  normalizeActionCall,
+  type ChatAction,
+} from '../_shared/chat-actions.ts';
+import {
+  formatMemoryFacts,
+  loadMemoryFacts,
+  rememberFromText,
+  selectRelevantFacts,
+} from '../_shared/user-memory.ts';
+import {
+  assessMessage,
+  assessReply,
+  buildConcernGuidance,
+  buildCrisisResponse,
+  buildSafetyNotice,
+  recordSafetyEvent,
+  regionFromLocale,
+  replyNeedsReview,
+  type SafetyNotice,
+} from '../_shared/safety.ts';
+import {
+  formatSourcesForPrompt,
+  searchUserContent,
+  syncPendingEmbeddings,
+  type RetrievedSource,
+} from '../_shared/semantic-index.ts';
 
 // Build CORS headers to allow cross-origin requests with credentials
 function buildCorsHeaders(origin: string | null) {
   return {
     'Access-Control-Allow-Origin': origin || '*',
     'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'authorization, content-type, cache-control, x-client-info, apikey, x-client-info',
+    'Access-Control-Allow-Headers': 'authorization, content-type, cache-control, x-client-info, apikey, x-client-info, last-event-id',
     // Required when using Authorization header across origins
     'Access-Control-Allow-Credentials': 'true',
   } as Record<string, string>;
 }
 
-// -------------------- System prompt --------------------------------------
-const SYSTEM_TEMPLATE = `You are TrueNorth, a faith-centered AI life coach. Your purpose is to provide spiritual guidance, biblical insights, and practical advice to help users grow in their faith journey.
+// Short thread title from the opening message, cut at a word boundary
+function buildThreadTitle(message: string): string {
+  const text = message.replace(/\s+/g, ' ').trim();
+  if (text.length <= 60) return text;
+  const cut = text.slice(0, 60);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${cut.slice(0, lastSpace > 30 ? lastSpace : 60)}…`;
+}
+
+// Let follow-up work finish after the response without holding the stream open
+function runInBackground(task: Promise<unknown>) {
+  const runtime = (globalThis as any).EdgeRuntime;
+  if (runtime?.waitUntil) {
+    runtime.waitUntil(task);
+  }
+}
 
-IMPORTANT GUIDELINES:
-- Base your advice on biblical principles and scripture when appropriate
-- Be respectful of different Christian denominations and theological perspectives
-- Provide scripture references when relevant
-- Be compassionate, encouraging, and supportive
-- When asked about sensitive topics, respond with biblical wisdom and grace
-- Do not share content that contradicts core Christian values
-- You can suggest prayer, Bible reading, or spiritual disciplines when appropriate
-- For theological questions, present mainstream Christian views while acknowledging different perspectives
-- When you don't know something, admit it and suggest the user consult religious authorities
-- Maintain a warm, pastoral tone while being truthful
+// Messages too short to contain anything worth remembering skip extraction
+const MIN_MEMORY_MESSAGE_LENGTH = 20;
+// Earlier proposals in the thread shown to the model
+const MAX_THREAD_ACTIONS = 10;
+// Shown when the model replied with tool calls only
+const ACTIONS_ONLY_REPLY = "Here's what I can do for you. Confirm below if it looks right.";
+// How often the reply text is saved while it streams
+const PERSIST_INTERVAL_MS = 1000;
+// How often a resumed stream checks for more saved text
+const RESUME_POLL_MS = 1000;
+// A streaming reply not saved for this long was cut off with its function
+const STALE_REPLY_MS = 60000;
+// A resumed stream gives up after this long; the client can reconnect again
+const RESUME_WAIT_MS = 120000;
+
+// Continue a reply for a client that reconnected with Last-Event-ID. The
+// generating request keeps saving the text, so this replays what was saved
+// after the client's position until the reply is finished.
+async function resumeReply(
+  supabase: SupabaseClient,
+  events: EventStream,
+  userId: string,
+  lastEventId: string
+) {
+  const position = parseStreamEventId(lastEventId);
+  if (!position) {
+    await events.send('error', { message: 'This reply cannot be resumed' });
+    return;
+  }
 
-USER INFORMATION:
-{{userContext}}
+  let offset = position.offset;
+  let sentMeta = false;
+  const deadline = Date.now() + RESUME_WAIT_MS;
 
-Today's date is ${new Date().toLocaleDateString()}.
+  while (!events.disconnected && Date.now() < deadline) {
+    const { data: reply, error } = await supabase
+      .from('chat_messages')
+      .select('id,thread_id,role,content,status,updated_at,sources,safety')
+      .eq('id', position.messageId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) {
+      console.error("Error loading reply to resume:", error);
+    }
+    if (!reply || reply.role !== 'assistant') {
+      await events.send('error', { message: 'The reply to resume was not found' });
+      return;
+    }
 
-Always respond in a way that encourages spiritual growth and a deeper relationship with God.`;
+    if (!sentMeta) {
+      await events.send('meta', {
+        protocol: CHAT_STREAM_PROTOCOL,
+        threadId: reply.thread_id,
+        ...(reply.sources ? { sources: reply.sources } : {}),
+        ...(reply.safety ? { safety: reply.safety } : {}),
+      });
+      sentMeta = true;
+    }
+
+    const isStale = reply.status === 'streaming'
+      && Date.now() - Date.parse(reply.updated_at || '') > STALE_REPLY_MS;
+    if (reply.status === 'failed' || isStale) {
+      if (isStale) {
+        await supabase.from('chat_messages').update({ status: 'failed' }).eq('id', reply.id).eq('status', 'streaming');
+      }
+      await events.send('error', { message: 'This reply was interrupted. Please try again.' });
+      return;
+    }
+
+    if (reply.status === 'complete') {
+      const { data: actions } = await supabase
+        .from('chat_actions')
+        .select('id,action_type,params,status,result,error,created_at,resolved_at')
+        .eq('message_id', reply.id)
+        .order('created_at', { ascending: true });
+      if (actions && actions.length > 0) {
+        await events.send('meta', { actions });
+      }
+      await events.send(
+        'done',
+        { content: reply.content, messageId: reply.id },
+        formatStreamEventId({ messageId: reply.id, offset: reply.content.length })
+      );
+      return;
+    }
+
+    // Saved text can lag behind what the client already received
+    if (reply.content.length > offset) {
+      await events.send(
+        'delta',
+        { text: reply.content.slice(offset) },
+        formatStreamEventId({ messageId: reply.id, offset: reply.content.length })
+      );
+      offset = reply.content.length;
+    }
+    await new Promise(resolve => setTimeout(resolve, RESUME_POLL_MS));
+  }
+}
 
 serve(async (req) => {
   const origin = req.headers.get('origin');
@@ -60,8 +208,10 @@ serve(async (req) => {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     });
   }
-  const { message, threadId } = body || {};
-  if (!message) {
+  const { message: newMessage, threadId, parentId, regenerateId, locale, mode } = body || {};
+  const lastEventId = req.headers.get('last-event-id');
+  // Regenerating re-answers a stored message, so only a new message needs text
+  if (!lastEventId && !newMessage && !(regenerateId && threadId)) {
     return new Response(JSON.stringify({ error: 'Message is required' }), {
       status: 400,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -73,9 +223,11 @@ serve(async (req) => {
   const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
   const supabase = createClient(supabaseUrl, supabaseKey);
 
-  const openaiApiKey = Deno.env.get('OPENAI_API_KEY') || '';
-  if (!openaiApiKey) {
-    return new Response(JSON.stringify({ error: 'OPENAI_API_KEY not set' }), {
+  let llm: LLMProvider;
+  try {
+    llm = getLLMProvider();
+  } catch (err: any) {
+    return new Response(JSON.stringify({ error: err.message }), {
       status: 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     });
@@ -99,221 +251,487 @@ serve(async (req) => {
   }
 
   // -------------------- SSE setup ---------------------------------------
-  const stream = new TransformStream();
-  const writer = stream.writable.getWriter();
-  const encoder = new TextEncoder();
-  const sendEvent = async (data: any) => {
-    await writer.write(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
-  };
-
-  const responseHeaders = {
-    ...corsHeaders,
-    'Content-Type': 'text/event-stream',
-    'Cache-Control': 'no-cache',
-    'Connection': 'keep-alive',
-  };
-  const response = new Response(stream.readable, { headers: responseHeaders });
-
-  // -------------------- Thread management --------------------------------
-  let currentThreadId = threadId;
-  if (!currentThreadId) {
-    const { data: newThread, error: threadError } = await supabase
+  // The response is returned straight away and the reply is written to it as
+  // it is generated; writes wait for the client to read.
+  const events = createEventStream(corsHeaders);
+
+  if (lastEventId) {
+    runInBackground(
+      resumeReply(supabase, events, user.id, lastEventId)
+        .catch(async (err) => {
+          console.error("Error resuming chat stream:", err);
+          await events.send('error', { message: 'Failed to resume the reply' });
+        })
+        .finally(() => events.close())
+    );
+    return events.response;
+  }
+
+  // Runs after the response is returned so events reach the client as they are written
+  const generating = (async () => {
+    await events.send('meta', { protocol: CHAT_STREAM_PROTOCOL });
+
+    // -------------------- Thread management --------------------------------
+    // The coaching mode and tradition shape the system prompt
+    const { data: preferences } = await supabase
+      .from('user_preferences')
+      .select('verse_translation,theological_tradition,default_coaching_mode')
+      .eq('id', user.id)
+      .maybeSingle();
+    const requestedMode = normalizeCoachingMode(mode);
+
+    let currentThreadId = threadId;
+    if (!currentThreadId) {
+      const { data: newThread, error: threadError } = await supabase
+        .from('chat_threads')
+        .insert({
+          user_id: user.id,
+          title: buildThreadTitle(newMessage),
+          coaching_mode: requestedMode || normalizeCoachingMode(preferences?.default_coaching_mode) || DEFAULT_COACHING_MODE
+        })
+        .select()
+        .single();
+      if (threadError || !newThread) {
+        await events.send('error', { message: 'Failed to create chat thread' });
+        return;
+      }
+      currentThreadId = newThread.id;
+      await events.send('meta', { threadId: currentThreadId });
+    }
+
+    // -------------------- History -----------------------------------------
+    const { data: threadState } = await supabase
       .from('chat_threads')
-      .insert({ user_id: user.id })
-      .select()
-      .single();
-    if (threadError || !newThread) {
-      await sendEvent({ error: 'Failed to create chat thread' });
-      await writer.close();
-      return response;
+      .select('summary,summarized_through,active_leaf_id,coaching_mode')
+      .eq('id', currentThreadId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+    if (!threadState) {
+      await events.send('error', { message: 'Chat thread not found' });
+      return;
     }
-    currentThreadId = newThread.id;
-    await sendEvent({ threadId: currentThreadId });
-  }
 
-  // -------------------- History -----------------------------------------
-  const { data: history } = await supabase
-    .from('chat_messages')
-    .select('*')
-    .eq('thread_id', currentThreadId)
-    .order('created_at', { ascending: true });
-  const previousMessages = (history || []).map(m => ({ role: m.role, content: m.content }));
-
-  // -------------------- User context ------------------------------------
-  const { data: profile } = await supabase.from('profiles').select('*').eq('id', user.id).single();
-  const { data: prayers } = await supabase.from('prayer_requests')
-    .select('title,is_answered')
-    .eq('user_id', user.id)
-    .order('created_at', { ascending: false })
-    .limit(3);
-  const { data: moods } = await supabase.from('mood_entries')
-    .select('mood_score,spiritual_score,entry_date')
-    .eq('user_id', user.id)
-    .order('entry_date', { ascending: false })
-    .limit(3);
-
-  const userName = profile?.display_name || profile?.first_name || user.email.split('@')[0] || 'User';
-  const recentPrayers = (prayers || []).map(p => `- ${p.title}: ${p.is_answered ? '(Answered)' : '(Active)'}`).join('\n') || 'None';
-  const recentMoods = (moods || []).map(m => `- ${m.entry_date}: Mood ${m.mood_score}/10, Spiritual ${m.spiritual_score}/10`).join('\n') || 'None';
-  const userContext = `Name: ${userName}\nEmail: ${user.email}\nRecent Prayers:\n${recentPrayers}\nRecent Moods:\n${recentMoods}`;
-
-  // -------------------- Save user message -------------------------------
-  await supabase.from('chat_messages').insert({
-    thread_id: currentThreadId,
-    user_id: user.id,
-    role: 'user',
-    content: message
-  });
-
-  // -------------------- OpenAI direct call (without LangChain) ----------
-  try {
-    // Save the assistant message with initial empty content
-    const { data: assistantMessage, error: assistantError } = await supabase
-      .from('chat_messages')
-      .insert({
-        thread_id: currentThreadId,
-        user_id: user.id,
-        role: 'assistant',
-        content: '' // Will be updated when streaming is complete
-      })
-      .select()
-      .single();
-    
-    if (assistantError) {
-      console.error("Error creating assistant message:", assistantError);
+    // Switching modes part way through applies from this reply on
+    const coachingMode = requestedMode || normalizeCoachingMode(threadState.coaching_mode) || DEFAULT_COACHING_MODE;
+    if (coachingMode !== threadState.coaching_mode) {
+      const { error: modeError } = await supabase
+        .from('chat_threads')
+        .update({ coaching_mode: coachingMode })
+        .eq('id', currentThreadId);
+      if (modeError) {
+        console.error("Error saving coaching mode:", modeError);
+      }
+    }
+
+    // The reply answers a new user message added after `parentId` (an edit
+    // forks there) or after the branch being viewed. A regenerated reply answers
+    // the same stored user message as the reply it replaces.
+    let message: string = newMessage;
+    let userMessageId: string | null = null;
+    let branchLeafId: string | null = parentId !== undefined ? parentId : threadState.active_leaf_id;
+
+    if (regenerateId) {
+      const { data: replaced } = await supabase
+        .from('chat_messages')
+        .select('role,parent_id')
+        .eq('id', regenerateId)
+        .eq('thread_id', currentThreadId)
+        .maybeSingle();
+      const { data: prompt } = replaced?.parent_id
+        ? await supabase
+          .from('chat_messages')
+          .select('id,role,content,parent_id')
+          .eq('id', replaced.parent_id)
+          .maybeSingle()
+        : { data: null };
+      if (replaced?.role !== 'assistant' || prompt?.role !== 'user') {
+        await events.send('error', { message: 'The reply to regenerate was not found' });
+        return;
+      }
+      message = prompt.content;
+      userMessageId = prompt.id;
+      branchLeafId = prompt.parent_id;
+    }
+
+    const branch: BranchMessage[] = branchLeafId ? await loadBranch(supabase, currentThreadId, branchLeafId) : [];
+    if (branchLeafId && branch.length === 0) {
+      await events.send('error', { message: 'The message to continue from was not found' });
+      return;
     }
 
-    // Prepare messages for OpenAI
-    const messages = [
-      {
-        role: "system",
-        content: SYSTEM_TEMPLATE.replace("{{userContext}}", userContext)
-      },
-      ...previousMessages.map(msg => ({
-        role: msg.role,
-        content: msg.content
-      })),
-      {
-        role: "user",
-        content: message
+    // The running summary covers a prefix of one branch. It applies here only
+    // if the last message it folded in is on this branch.
+    const summarizedIndex = threadState.summarized_through
+      ? branch.findIndex(m => Date.parse(m.created_at || '') === Date.parse(threadState.summarized_through))
+      : -1;
+    // Turns already folded into the running summary are not sent again
+    const unsummarizedMessages: ContextMessage[] = branch.slice(summarizedIndex + 1).filter(m => m.content);
+
+    // -------------------- Safety screen (input) ----------------------------
+    // Runs alongside the context loading below and is awaited before generating
+    const safetyRegion = regionFromLocale(locale || req.headers.get('accept-language'));
+    const earlierUserMessages = unsummarizedMessages
+      .filter(m => m.role === 'user')
+      .slice(-2)
+      .map(m => m.content);
+    const inputSafety = assessMessage(llm, message, earlierUserMessages);
+
+    // -------------------- User context ------------------------------------
+    const { data: profile } = await supabase.from('profiles').select('*').eq('id', user.id).single();
+    const { data: prayers } = await supabase.from('prayer_requests')
+      .select('title,is_answered')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(3);
+    const { data: moods } = await supabase.from('mood_entries')
+      .select('mood_score,spiritual_score,entry_date')
+      .eq('user_id', user.id)
+      .order('entry_date', { ascending: false })
+      .limit(3);
+
+    const userName = profile?.display_name || profile?.first_name || user.email.split('@')[0] || 'User';
+    const recentPrayers = (prayers || []).map(p => `- ${p.title}: ${p.is_answered ? '(Answered)' : '(Active)'}`).join('\n') || 'None';
+    const recentMoods = (moods || []).map(m => `- ${m.entry_date}: Mood ${m.mood_score}/10, Spiritual ${m.spiritual_score}/10`).join('\n') || 'None';
+
+    // Long-term facts relevant to this message and the turns just before it
+    const retrievalQuery = [...unsummarizedMessages.slice(-4).map(m => m.content), message].join('\n');
+    const memoryFacts = selectRelevantFacts(await loadMemoryFacts(supabase, user.id), retrievalQuery);
+    if (memoryFacts.length > 0) {
+      const { error: memoryError } = await supabase
+        .from('user_memory_facts')
+        .update({ last_used_at: new Date().toISOString() })
+        .in('id', memoryFacts.map(fact => fact.id));
+      if (memoryError) {
+        console.error("Error marking memory facts as used:", memoryError);
       }
-    ];
+    }
+    const rememberedFacts = formatMemoryFacts(memoryFacts) || 'None yet';
 
-    // Make streaming request to OpenAI with timeout handling
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort('Request timed out'), 45000); // 45 second timeout
+    const userContext = `Name: ${userName}\nEmail: ${user.email}\nRecent Prayers:\n${recentPrayers}\nRecent Moods:\n${recentMoods}\nWhat You Remember About Them:\n${rememberedFacts}`;
 
+    // -------------------- Grounding in the user's own writing --------------
+    // Items written since the last chat are embedded first so they can be found
+    let sources: RetrievedSource[] = [];
     try {
-      const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${openaiApiKey}`
-        },
-        body: JSON.stringify({
-          model: "gpt-4o",
-          messages: messages,
-          stream: true,
-          temperature: 0.7,
-          max_tokens: 1500 // Limit token count to prevent timeouts
-        }),
-        signal: controller.signal
-      });
+      await syncPendingEmbeddings(supabase, llm, user.id);
+      sources = await searchUserContent(supabase, llm, user.id, retrievalQuery);
+    } catch (err) {
+      // Answer without grounding rather than fail the message
+      console.error("Error retrieving user content:", err);
+    }
 
-      clearTimeout(timeoutId);
+    // -------------------- Actions ----------------------------------------
+    const actionContext = await loadActionContext(supabase, user.id);
+    const { data: threadActions } = await supabase
+      .from('chat_actions')
+      .select('id,action_type,params,status,created_at')
+      .eq('thread_id', currentThreadId)
+      .order('created_at', { ascending: false })
+      .limit(MAX_THREAD_ACTIONS);
+
+    // -------------------- Context budget -----------------------------------
+    const contextBudget = Number(Deno.env.get('CHAT_CONTEXT_TOKENS')) || DEFAULT_CONTEXT_BUDGET;
+    let systemPrompt = buildCoachPrompt({
+      userContext,
+      mode: coachingMode,
+      tradition: normalizeTradition(preferences?.theological_tradition),
+      translation: preferences?.verse_translation,
+    });
+    if (sources.length > 0) {
+      systemPrompt += `\n\nFROM THE USER'S OWN WRITING:\n${formatSourcesForPrompt(sources)}`;
+    }
+    if (threadActions && threadActions.length > 0) {
+      systemPrompt += `\n\nACTIONS IN THIS CONVERSATION:\n${formatActionsForPrompt([...threadActions].reverse() as ChatAction[])}`;
+    }
+    let conversationSummary: string | null = summarizedIndex >= 0 ? threadState.summary || null : null;
+
+    const historyBudget = contextBudget
+      - estimateTokens(systemPrompt)
+      - estimateTokens(message)
+      - estimateTokens(conversationSummary || '')
+      // Headroom for the summary growing when turns are folded in below
+      - 500;
+    const { recent: previousMessages, toFold } = planContext(unsummarizedMessages, Math.max(historyBudget, 0));
+
+    if (toFold.length > 0) {
+      try {
+        conversationSummary = await summarizeTurns(llm, conversationSummary, toFold);
+        const { error: summaryError } = await supabase
+          .from('chat_threads')
+          .update({
+            summary: conversationSummary,
+            summarized_through: toFold[toFold.length - 1].created_at,
+          })
+          .eq('id', currentThreadId);
+        if (summaryError) {
+          console.error("Error saving conversation summary:", summaryError);
+        }
+      } catch (err) {
+        // Fall back to the previous summary; the folded turns are simply left out this time
+        console.error("Error summarizing conversation:", err);
+      }
+    }
 
-      if (!response.ok) {
-        const error = await response.text();
-        console.error("OpenAI API Error:", error);
-        await sendEvent({ error: `OpenAI error: ${error}` });
-        await writer.close();
-        return response;
+    // -------------------- Save user message -------------------------------
+    if (!userMessageId) {
+      const { data: userMessage, error: userMessageError } = await supabase
+        .from('chat_messages')
+        .insert({
+          thread_id: currentThreadId,
+          user_id: user.id,
+          role: 'user',
+          content: message,
+          parent_id: branchLeafId
+        })
+        .select('id')
+        .single();
+      if (userMessageError) {
+        console.error("Error saving user message:", userMessageError);
       }
+      userMessageId = userMessage?.id || null;
+    }
 
-      // Process the stream
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error("Response body is undefined");
+    // -------------------- OpenAI direct call (without LangChain) ----------
+    try {
+      const inputAssessment = await inputSafety;
+      let safety: SafetyNotice | null = null;
+      if (inputAssessment.level !== 'none') {
+        safety = buildSafetyNotice(inputAssessment, safetyRegion);
+        runInBackground(recordSafetyEvent(supabase, user.id, 'input', inputAssessment, safetyRegion));
       }
 
-      const decoder = new TextDecoder("utf-8");
-      let fullResponse = "";
-      let buffer = "";
+      // Save the assistant message with initial empty content
+      const { data: assistantMessage, error: assistantError } = await supabase
+        .from('chat_messages')
+        .insert({
+          thread_id: currentThreadId,
+          user_id: user.id,
+          role: 'assistant',
+          content: '', // Saved as it streams and again when complete
+          status: 'streaming',
+          sources: sources.length > 0 ? sources : null,
+          safety,
+          parent_id: userMessageId,
+          model: llm.model,
+          prompt_version: PROMPT_VERSION
+        })
+        .select()
+        .single();
+    
+      if (assistantError) {
+        console.error("Error creating assistant message:", assistantError);
+      }
 
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) {
-          break;
+      // The new reply ends the branch the user is now viewing
+      if (assistantMessage?.id) {
+        const { error: leafError } = await supabase
+          .from('chat_threads')
+          .update({ active_leaf_id: assistantMessage.id })
+          .eq('id', currentThreadId);
+        if (leafError) {
+          console.error("Error updating active branch:", leafError);
         }
-        
-        // Decode the chunk
-        buffer += decoder.decode(value, { stream: true });
-        
-        // Process complete lines from the buffer
-        let lines = buffer.split('\n');
-        // Keep the last (potentially incomplete) line in the buffer
-        buffer = lines.pop() || "";
-        
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            const data = line.substring(6);
-            
-            // Check for [DONE]
-            if (data.trim() === "[DONE]") {
-              continue;
-            }
-            
-            try {
-              // Parse the JSON data
-              const parsed = JSON.parse(data);
-              const content = parsed.choices?.[0]?.delta?.content || "";
-              
-              if (content) {
-                fullResponse += content;
-                await sendEvent({ content: fullResponse });
-              }
-            } catch (e) {
-              console.error("Error parsing SSE JSON:", e, "Line:", line);
-            }
+      }
+      // Lets the client place both messages in the thread's tree
+      await events.send('meta', {
+        messageIds: { parent: branchLeafId, user: userMessageId, assistant: assistantMessage?.id || null }
+      });
+      const eventId = (content: string) => assistantMessage?.id
+        ? formatStreamEventId({ messageId: assistantMessage.id, offset: content.length })
+        : undefined;
+
+      // Crisis-level messages get the vetted response instead of a generated one
+      if (safety?.level === 'crisis') {
+        const crisisResponse = buildCrisisResponse(safety);
+        await events.send('meta', { safety });
+        if (assistantMessage?.id) {
+          const { error: updateError } = await supabase
+            .from('chat_messages')
+            .update({ content: crisisResponse, status: 'complete', updated_at: new Date().toISOString() })
+            .eq('id', assistantMessage.id);
+          if (updateError) {
+            console.error("Error updating assistant message:", updateError);
           }
         }
+        await events.send(
+          'done',
+          { content: crisisResponse, messageId: assistantMessage?.id || null },
+          eventId(crisisResponse)
+        );
+        return;
       }
 
-      // Update the assistant message with the complete response
-      if (assistantMessage?.id && fullResponse) {
-        const { error: updateError } = await supabase
-          .from('chat_messages')
-          .update({ content: fullResponse })
-          .eq('id', assistantMessage.id);
-          
-        if (updateError) {
-          console.error("Error updating assistant message:", updateError);
+      if (safety) {
+        systemPrompt += `\n\n${buildConcernGuidance(safety)}`;
+      }
+
+      // Prepare messages for the model
+      const messages: LLMMessage[] = [
+        {
+          role: "system",
+          content: conversationSummary
+            ? `${systemPrompt}\n\nEARLIER IN THIS CONVERSATION:\n${conversationSummary}`
+            : systemPrompt
+        },
+        ...previousMessages.map(msg => ({
+          role: msg.role,
+          content: msg.content
+        })),
+        {
+          role: "user",
+          content: message
         }
+      ];
+
+      // Sent ahead of the reply so citations like [1] can be linked as they stream in
+      if (sources.length > 0) {
+        await events.send('meta', { sources });
+      }
+      if (safety) {
+        await events.send('meta', { safety });
       }
 
-      await sendEvent({ done: true, content: fullResponse });
-    } catch (err: any) {
-      clearTimeout(timeoutId);
-      console.error("Error in chat stream:", err);
-      
-      if (err.name === 'AbortError') {
-        await sendEvent({ 
-          error: 'Request timed out. Please try with a shorter message or try again later.' 
+      // Stream the reply; the timeout covers waiting for the first token
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort('Request timed out'), 45000); // 45 second timeout
+
+      let fullResponse = "";
+      // A reply that needs a safety review is held back from the first text
+      // that needs it until the review passes: nothing past that point is
+      // sent or saved before then. Replies to flagged messages are held whole.
+      let shownLength = 0;
+      let holdingBack = replyNeedsReview('', inputAssessment);
+      // Partial text is saved in order, at most once per interval
+      let persisting: Promise<void> = Promise.resolve();
+      let persistedAt = Date.now();
+      const persistReply = (update: Record<string, unknown>) => {
+        if (!assistantMessage?.id) return persisting;
+        persisting = persisting.then(async () => {
+          const { error: updateError } = await supabase
+            .from('chat_messages')
+            .update({ ...update, updated_at: new Date().toISOString() })
+            .eq('id', assistantMessage.id);
+          if (updateError) {
+            console.error("Error updating assistant message:", updateError);
+          }
         });
-      } else {
-        await sendEvent({ 
-          error: `Failed to generate response: ${err.message}`, 
-          details: err.message 
+        return persisting;
+      };
+
+      try {
+        const toolCalls: ToolCall[] = [];
+
+        for await (const content of llm.streamChat(messages, {
+          temperature: 0.7,
+          maxTokens: 1500, // Limit token count to prevent timeouts
+          signal: controller.signal,
+          tools: buildActionTools(actionContext),
+          onToolCall: call => toolCalls.push(call),
+        })) {
+          clearTimeout(timeoutId);
+          fullResponse += content;
+          holdingBack = holdingBack || replyNeedsReview(fullResponse, inputAssessment);
+          if (holdingBack) continue;
+
+          shownLength = fullResponse.length;
+          await events.send('delta', { text: content }, eventId(fullResponse));
+          if (Date.now() - persistedAt >= PERSIST_INTERVAL_MS) {
+            persistedAt = Date.now();
+            persistReply({ content: fullResponse });
+          }
+        }
+        clearTimeout(timeoutId);
+
+        // -------------------- Safety check (output) ------------------------
+        // A reply that could cause harm is replaced before it is saved or the
+        // held-back text is shown
+        const outputAssessment = await assessReply(llm, fullResponse, message, inputAssessment);
+        const replyWithheld = outputAssessment.level === 'crisis';
+        if (replyWithheld) {
+          safety = buildSafetyNotice(outputAssessment, safetyRegion);
+          fullResponse = buildCrisisResponse(safety);
+          runInBackground(recordSafetyEvent(supabase, user.id, 'output', outputAssessment, safetyRegion));
+          await events.send('meta', { safety });
+        }
+
+        // Tool calls become proposals the user confirms from the chat
+        const proposals = replyWithheld ? [] : toolCalls
+          .map(call => normalizeActionCall(call, actionContext))
+          .filter((proposal): proposal is NonNullable<typeof proposal> => proposal !== null)
+          .slice(0, MAX_ACTIONS_PER_REPLY);
+
+        if (proposals.length > 0) {
+          const { data: actions, error: actionsError } = await supabase
+            .from('chat_actions')
+            .insert(proposals.map(proposal => ({
+              thread_id: currentThreadId,
+              message_id: assistantMessage?.id || null,
+              user_id: user.id,
+              action_type: proposal.type,
+              params: proposal.params,
+            })))
+            .select('id,action_type,params,status,result,error,created_at');
+
+          if (actionsError) {
+            console.error("Error saving proposed actions:", actionsError);
+          } else if (actions && actions.length > 0) {
+            await events.send('meta', { actions });
+            if (!fullResponse.trim()) {
+              fullResponse = ACTIONS_ONLY_REPLY;
+            }
+          }
+        }
+
+        // Save the complete response; the done event replaces the streamed text
+        // in case the safety check or tool calls changed it
+        await persistReply({
+          content: fullResponse,
+          status: fullResponse ? 'complete' : 'failed',
+          ...(replyWithheld ? { safety } : {}),
         });
+
+        await events.send(
+          'done',
+          { content: fullResponse, messageId: assistantMessage?.id || null },
+          eventId(fullResponse)
+        );
+
+        // Nothing is remembered from conversations in crisis
+        if (fullResponse && !replyWithheld && message.length >= MIN_MEMORY_MESSAGE_LENGTH) {
+          runInBackground(
+            rememberFromText(
+              supabase,
+              llm,
+              user.id,
+              { type: 'chat', id: currentThreadId },
+              `User: ${message}\n\nTrueNorth: ${fullResponse}`
+            ).catch(err => console.error("Error extracting memory facts:", err))
+          );
+        }
+      } catch (err: any) {
+        clearTimeout(timeoutId);
+        console.error("Error in chat stream:", err);
+        // The text already shown is kept but the reply is left out of the
+        // conversation; held-back text was never checked, so it is dropped
+        await persistReply({ content: fullResponse.slice(0, shownLength), status: 'failed' });
+      
+        if (err.name === 'AbortError') {
+          await events.send('error', {
+            message: 'Request timed out. Please try with a shorter message or try again later.'
+          });
+        } else {
+          await events.send('error', {
+            message: `Failed to generate response: ${err.message}`,
+            details: err.message
+          });
+        }
       }
+    } catch (err: any) {
+      console.error("Error in chat stream:", err);
+      await events.send('error', { message: 'Failed to generate response', details: err.message });
     }
-  } catch (err: any) {
-    console.error("Error in chat stream:", err);
-    await sendEvent({ error: 'Failed to generate response', details: err.message });
-  } finally {
-    await writer.close();
-  }
+  })();
 
-  return response;
+  runInBackground(generating.finally(() => events.close()));
+  return events.response;
 });
\ No newline at end of file
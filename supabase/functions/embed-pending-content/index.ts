@@ -0,0 +1,62 @@
+// Supabase Edge Function that embeds new or edited journal entries, prayers,
+// notes and reflections. chat-stream embeds a user's pending items before each
+// reply; this function catches up the backlog. Call it with a user's token to
+// sync that user, or with the service role key (e.g. from a cron job) for everyone.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
+import { corsHeaders } from '../_shared/cors-headers.ts';
+import { getLLMProvider } from '../_shared/llm/index.ts';
+import { syncPendingEmbeddings } from '../_shared/semantic-index.ts';
+
+// Stop before the edge function wall clock limit; the rest waits for the next call
+const MAX_BATCHES = 20;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') || '', serviceRoleKey);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return jsonResponse({ error: 'Missing authentication' }, 401);
+    }
+
+    let userId: string | undefined;
+    if (token !== serviceRoleKey) {
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+      if (authError || !user) {
+        return jsonResponse({ error: 'Invalid authentication' }, 401);
+      }
+      userId = user.id;
+    }
+
+    const llm = getLLMProvider();
+    let embedded = 0;
+    for (let batch = 0; batch < MAX_BATCHES; batch++) {
+      const count = await syncPendingEmbeddings(supabase, llm, userId);
+      embedded += count;
+      if (count === 0) break;
+    }
+
+    return jsonResponse({ embedded });
+  } catch (error: any) {
+    console.error('Error embedding pending content:', error);
+    return jsonResponse({ error: error.message || 'Failed to embed content' }, 500);
+  }
+});
@@ -0,0 +1,87 @@
+// Supabase Edge Function that updates the AI coach's long-term memory from a
+// journal entry. Chats are handled inline by chat-stream.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
+import { corsHeaders } from '../_shared/cors-headers.ts';
+import { getLLMProvider } from '../_shared/llm/index.ts';
+import { rememberFromText } from '../_shared/user-memory.ts';
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { journalEntryId } = await req.json().catch(() => ({}));
+    if (!journalEntryId) {
+      return jsonResponse({ error: 'journalEntryId is required' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return jsonResponse({ error: 'Missing authentication' }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: 'Invalid authentication' }, 401);
+    }
+
+    const { data: entry, error: entryError } = await supabase
+      .from('journal_entries')
+      .select('id,title,summary,content,is_encrypted')
+      .eq('id', journalEntryId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (entryError) {
+      console.error('Error loading journal entry:', entryError);
+      return jsonResponse({ error: 'Failed to load journal entry' }, 500);
+    }
+    if (!entry) {
+      return jsonResponse({ error: 'Journal entry not found' }, 404);
+    }
+    // Private entries are sealed on the device; there is nothing here to learn from
+    if (entry.is_encrypted) {
+      return jsonResponse({ updated: 0 });
+    }
+
+    const text = [entry.title, entry.summary, entry.content]
+      .filter(Boolean)
+      .join('\n\n')
+      .trim();
+    if (!text) {
+      return jsonResponse({ updated: 0 });
+    }
+
+    const updated = await rememberFromText(
+      supabase,
+      getLLMProvider(),
+      user.id,
+      { type: 'journal', id: entry.id },
+      `Journal entry written by the user:\n${text}`
+    );
+
+    return jsonResponse({ updated });
+  } catch (error: any) {
+    console.error('Error extracting memory facts:', error);
+    return jsonResponse({ error: error.message || 'Failed to extract memory facts' }, 500);
+  }
+});
@@ -0,0 +1,142 @@
+// Supabase Edge Function that writes journaling prompts for a guided template
+// (ACTS, Examen, SOAP, ...) around the passage the user is reading today or
+// today's devotional. The client sends the template sections and context; the
+// reply is one prompt per section id.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
+import { corsHeaders } from '../_shared/cors-headers.ts';
+import { getLLMProvider, parseJsonContent } from '../_shared/llm/index.ts';
+
+const MAX_SECTIONS = 10;
+const MAX_FIELD_LENGTH = 600;
+
+interface SectionInput {
+  id: string;
+  label: string;
+  prompt: string;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function clip(value: unknown): string {
+  return typeof value === 'string' ? value.slice(0, MAX_FIELD_LENGTH).trim() : '';
+}
+
+function describeContext(context: unknown): string {
+  if (!isObject(context)) return '';
+  const { passage, devotional } = context;
+  const lines: string[] = [];
+  if (isObject(passage) && clip(passage.reference)) {
+    lines.push(`Today's reading-plan passage: ${clip(passage.reference)} (${clip(passage.title)})`);
+  }
+  if (isObject(devotional) && clip(devotional.title)) {
+    lines.push(`Today's devotional: "${clip(devotional.title)}" on ${clip(devotional.reference)}`);
+    if (clip(devotional.excerpt)) {
+      lines.push(`Devotional excerpt: ${clip(devotional.excerpt)}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { template, context } = await req.json().catch(() => ({}));
+    const sections: SectionInput[] = (Array.isArray(template?.sections) ? template.sections : [])
+      .slice(0, MAX_SECTIONS)
+      .filter(isObject)
+      .map((section: JsonObject) => ({ id: clip(section.id), label: clip(section.label), prompt: clip(section.prompt) }))
+      .filter((section: SectionInput) => section.id && section.label);
+    if (sections.length === 0) {
+      return jsonResponse({ error: 'template.sections is required' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '').trim();
+    if (!token) {
+      return jsonResponse({ error: 'Missing authentication' }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: 'Invalid authentication' }, 401);
+    }
+
+    const contextText = describeContext(context);
+    if (!contextText) {
+      // Nothing to tailor the prompts to; the template's own prompts stand
+      return jsonResponse({ prompts: {} });
+    }
+
+    const result = await getLLMProvider().chat(
+      [
+        {
+          role: 'system',
+          content:
+            'You write short, warm journaling prompts for a Christian journaling app. ' +
+            'For each section of the journaling format, write one prompt (at most two sentences) ' +
+            'that connects the section to today\'s passage or devotional. Address the reader as "you". ' +
+            'Do not quote scripture at length. Reply with a JSON object mapping each section id to its prompt.',
+        },
+        {
+          role: 'user',
+          content: [
+            `Format: ${clip(template?.name) || 'Guided journal'}`,
+            contextText,
+            'Sections:',
+            ...sections.map(section => `- ${section.id} (${section.label}): ${section.prompt}`),
+          ].join('\n'),
+        },
+      ],
+      { tier: 'fast', temperature: 0.7, maxTokens: 600, json: true }
+    );
+
+    let parsed: JsonObject = {};
+    try {
+      const reply = parseJsonContent<unknown>(result.content);
+      if (isObject(reply)) {
+        parsed = reply;
+      } else {
+        console.error('Journal prompts were not a JSON object:', result.content);
+      }
+    } catch {
+      console.error('Journal prompts were not valid JSON:', result.content);
+    }
+
+    const prompts: Record<string, string> = {};
+    for (const section of sections) {
+      const prompt = parsed[section.id];
+      if (typeof prompt === 'string' && prompt.trim()) {
+        prompts[section.id] = prompt.trim().slice(0, MAX_FIELD_LENGTH);
+      }
+    }
+
+    return jsonResponse({ prompts });
+  } catch (error: any) {
+    console.error('Error generating journal prompts:', error);
+    return jsonResponse({ error: error.message || 'Failed to generate journal prompts' }, 500);
+  }
+});
@@ -0,0 +1,138 @@
+// Supabase Edge Function that reads text aloud with a premium voice. Premium
+// voices are a Pro feature: other users get 402 and the client falls back to
+// the browser's voices. Each request is logged to voice_usage_logs; newly
+// generated audio counts towards a monthly character allowance, audio served
+// from the shared cache doesn't.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
+import { corsHeaders } from '../_shared/cors-headers.ts';
+import { hasProAccess } from '../_shared/entitlements.ts';
+import { DEFAULT_VOICE, getSpeechProvider, VoiceProviderError } from '../_shared/voice/index.ts';
+import { getMonthlyVoiceUsage, logSpeechUsage, speechLimit, type VoiceQuota } from '../_shared/voice-usage.ts';
+import { normalizeSpeechText, readCachedSpeech, speechCacheKey, writeCachedSpeech } from '../_shared/tts-cache.ts';
+
+// The longest input OpenAI accepts in one request
+const MAX_TEXT_LENGTH = 4096;
+
+const functionCorsHeaders = {
+  ...corsHeaders,
+  'Access-Control-Expose-Headers': 'X-TTS-Cache',
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...functionCorsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function audioResponse(audio: Uint8Array, contentType: string, cache: 'hit' | 'miss') {
+  return new Response(audio, {
+    headers: {
+      ...functionCorsHeaders,
+      'Content-Type': contentType,
+      'Content-Length': String(audio.byteLength),
+      'Cache-Control': 'private, max-age=86400',
+      'X-TTS-Cache': cache,
+    },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: functionCorsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { text, voice, speed, translation } = await req.json().catch(() => ({}));
+    const input = typeof text === 'string' ? normalizeSpeechText(text) : '';
+    if (!input) {
+      return jsonResponse({ error: 'text is required' }, 400);
+    }
+    if (input.length > MAX_TEXT_LENGTH) {
+      return jsonResponse({ error: `text must be at most ${MAX_TEXT_LENGTH} characters` }, 400);
+    }
+
+    const token = (req.headers.get('Authorization') || '').replace('Bearer ', '').trim();
+    if (!token) {
+      return jsonResponse({ error: 'Missing authentication' }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: 'Invalid authentication' }, 401);
+    }
+
+    if (!(await hasProAccess(supabase, user))) {
+      return jsonResponse({ error: 'subscription_required', message: 'Premium voices require TrueNorth Pro' }, 402);
+    }
+
+    const provider = getSpeechProvider();
+    const options = {
+      voice: typeof voice === 'string' ? voice : undefined,
+      speed: typeof speed === 'number' ? Math.min(Math.max(speed, 0.25), 4) : undefined,
+    };
+    const cacheKey = await speechCacheKey({
+      text: input,
+      provider: provider.name,
+      model: provider.model,
+      voice: options.voice || DEFAULT_VOICE,
+      speed: options.speed,
+      translation: typeof translation === 'string' ? translation : undefined,
+    });
+
+    // Audio someone has already heard is free, even past the allowance
+    const cached = await readCachedSpeech(supabase, cacheKey, provider.name);
+    if (cached) {
+      await logSpeechUsage(supabase, {
+        userId: user.id,
+        characters: input.length,
+        voiceId: options.voice || DEFAULT_VOICE,
+        modelId: provider.model,
+        provider: provider.name,
+        cached: true,
+      });
+      return audioResponse(cached.audio, cached.contentType, 'hit');
+    }
+
+    const usage = await getMonthlyVoiceUsage(supabase, user.id);
+    const quota: VoiceQuota = {
+      used: usage.speechCharacters,
+      limit: speechLimit(),
+      resetsAt: usage.resetsAt.toISOString(),
+    };
+    if (quota.used + input.length > quota.limit) {
+      return jsonResponse({ error: 'quota_exceeded', message: 'Monthly premium voice limit reached', usage: quota }, 429);
+    }
+
+    const result = await provider.synthesize(input, { ...options, signal: req.signal });
+
+    await Promise.all([
+      writeCachedSpeech(supabase, cacheKey, provider.name, { audio: result.audio, contentType: result.contentType }),
+      logSpeechUsage(supabase, {
+        userId: user.id,
+        characters: input.length,
+        voiceId: result.voice,
+        modelId: result.model,
+        provider: provider.name,
+      }),
+    ]);
+
+    return audioResponse(result.audio, result.contentType, 'miss');
+  } catch (error: any) {
+    console.error('Error in openai-tts:', error);
+    if (error instanceof VoiceProviderError) {
+      return jsonResponse({ error: 'Speech generation failed', details: error.message }, 502);
+    }
+    return jsonResponse({ error: 'Internal server error', details: error.message }, 500);
+  }
+});
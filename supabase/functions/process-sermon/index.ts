@@ -1,8 +1,6 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
-
-// OpenAI client
-const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
+import { getLLMProvider, parseJsonContent, LLMError } from '../_shared/llm/index.ts';
 
 serve(async (req) => {
   try {
@@ -154,55 +152,34 @@ serve(async (req) => {
       .update({ ai_context: { status: "processing", step: "file_downloaded" } })
       .eq("id", sermon_id);
     
-    // Step 1: Transcribe audio using OpenAI Whisper API
-    const formData = new FormData();
-    formData.append('file', new File([fileData], 'audio.mp3', { type: 'audio/mpeg' }));
-    formData.append('model', 'whisper-1');
-    
-    const whisperResponse = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`
-      },
-      body: formData
-    });
-    
-    if (!whisperResponse.ok) { // Moved the enhanced error handling here
- let errorBody;
-      try {
- errorBody = await whisperResponse.json(); // Try parsing as JSON
-      } catch {
- errorBody = await whisperResponse.text(); // Fallback to text if JSON parsing fails
-      }
-
+    // Record a failed step on the sermon and build the error response
+    const failStep = async (step: string, error: unknown) => {
+      const message = `${step} failed: ${error instanceof Error ? error.message : String(error)}`;
       await supabaseAdmin
         .from('sermon_summaries')
-        .update({
-          ai_context: {
-            status: "error",
-            error: `Transcription failed: ${
-              typeof errorBody === "object" ? JSON.stringify(errorBody) : errorBody
-            }`,
-          },
-        })
+        .update({ ai_context: { status: "error", error: message } })
         .eq('id', sermon_id);
 
       return new Response(
-        JSON.stringify({
-          error: `Transcription failed: ${
-            typeof errorBody === "object" ? JSON.stringify(errorBody) : errorBody
-          }`,
-        }),
+        JSON.stringify({ error: message }),
         {
-          status: whisperResponse.status, // Use the actual status code
-          headers: { "Content-Type": "application/json" },
+          status: error instanceof LLMError && error.status ? error.status : 502,
+          headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': 'https://find-true-north.net' },
         }
       );
+    };
+
+    const llm = getLLMProvider();
+
+    // Step 1: Transcribe the audio
+    let transcriptionText: string;
+    try {
+      const transcription = await llm.transcribe(fileData, { filename: 'audio.mp3' });
+      transcriptionText = transcription.text;
+    } catch (error) {
+      return await failStep('Transcription', error);
     }
     
-    const transcriptionResult = await whisperResponse.json();
-    const transcriptionText = transcriptionResult.text;
-    
     // Update processing status
     await supabaseAdmin
       .from('sermon_summaries')
@@ -212,65 +189,24 @@ serve(async (req) => {
       })
       .eq('id', sermon_id);
     
-    // Step 2: Use OpenAI GPT to analyze the transcription and generate summary and questions
-    const gptResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a theological assistant analyzing sermon transcripts. Create a well-structured JSON response with the following keys: "summary" (a concise summary of the sermon, 300-500 words), "keyPoints" (five key theological points or takeaways), "applicationToFaith" (how the sermon applies to a user's daily faith walk), "biblicalThemes" (a list of core biblical themes discussed), "biblicalCharacters" (a list of biblical characters mentioned), "historicalContext" (any relevant historical context discussed), and "followUpQuestions" (eight thought-provoking follow-up questions for deeper discussion).'
-          },
-          {
-            role: 'user',
-            content: `Here is the transcript of a sermon to analyze: ${transcriptionText}`
-          }
-        ],
-        response_format: { type: 'json_object' }
-      })
-    });
-    
-    if (!gptResponse.ok) {
- let errorBody;
-      try {
- errorBody = await gptResponse.json(); // Try parsing as JSON
-      } catch {
- errorBody = await gptResponse.text(); // Fallback to text if JSON parsing fails
-      }
-
-      await supabaseAdmin
-        .from('sermon_summaries')
-        .update({
-          ai_context: {
-            status: "error",
-            error: `AI analysis failed: ${
-              typeof errorBody === "object" ? JSON.stringify(errorBody) : errorBody
-            }`,
-          },
-        })
-        .eq('id', sermon_id);
-
-      return new Response(
-        JSON.stringify({
-          error: `AI analysis failed: ${
-            typeof errorBody === "object" ? JSON.stringify(errorBody) : errorBody
-          }`,
-        }),
+    // Step 2: Analyze the transcription and generate summary and questions
+    let analysisContent: any;
+    try {
+      const analysis = await llm.chat([
         {
-          status: gptResponse.status, // Use the actual status code
-          headers: { "Content-Type": "application/json" },
+          role: 'system',
+          content: `You are a theological assistant analyzing sermon transcripts. Create a well-structured JSON response with the following keys: "summary" (a concise summary of the sermon, 300-500 words), "keyPoints" (five key theological points or takeaways), "applicationToFaith" (how the sermon applies to a user's daily faith walk), "biblicalThemes" (a list of core biblical themes discussed), "biblicalCharacters" (a list of biblical characters mentioned), "historicalContext" (any relevant historical context discussed), and "followUpQuestions" (eight thought-provoking follow-up questions for deeper discussion).`
+        },
+        {
+          role: 'user',
+          content: `Here is the transcript of a sermon to analyze: ${transcriptionText}`
         }
-      );
+      ], { json: true });
+      analysisContent = parseJsonContent(analysis.content);
+    } catch (error) {
+      return await failStep('AI analysis', error);
     }
     
-    const gptResult = await gptResponse.json();
-    const analysisContent = JSON.parse(gptResult.choices[0].message.content);
-    
     // Extract the analysis results from the AI response
     const summaryText = analysisContent.summary;
     const keyPoints = Array.isArray(analysisContent.keyPoints) ? analysisContent.keyPoints : [];
@@ -0,0 +1,114 @@
+// Supabase Edge Function that transcribes recorded speech for voice chat.
+// Everyone gets a monthly allowance of audio; Pro raises it. Each request is
+// logged to whisper_usage_logs with the seconds of audio it used.
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.1';
+import { corsHeaders } from '../_shared/cors-headers.ts';
+import { hasProAccess } from '../_shared/entitlements.ts';
+import { getTranscriptionProvider, VoiceProviderError } from '../_shared/voice/index.ts';
+import { LLMError } from '../_shared/llm/index.ts';
+import {
+  getMonthlyVoiceUsage,
+  logTranscriptionUsage,
+  transcriptionLimit,
+  type VoiceQuota,
+} from '../_shared/voice-usage.ts';
+
+// The OpenAI transcription API rejects larger uploads
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+// For providers that don't report duration; compressed speech is rarely denser
+const ESTIMATED_BYTES_PER_SECOND = 16000;
+
+const functionCorsHeaders = {
+  ...corsHeaders,
+  'Access-Control-Allow-Headers': `${corsHeaders['Access-Control-Allow-Headers']}, x-priority`,
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...functionCorsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: functionCorsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const token = (req.headers.get('Authorization') || '').replace('Bearer ', '').trim();
+    if (!token) {
+      return jsonResponse({ error: 'Missing authentication' }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: 'Invalid authentication' }, 401);
+    }
+
+    const formData = await req.formData().catch(() => null);
+    const audio = formData?.get('audio');
+    if (!(audio instanceof File) || audio.size === 0) {
+      return jsonResponse({ error: 'An audio file is required' }, 400);
+    }
+    if (audio.size > MAX_AUDIO_BYTES) {
+      return jsonResponse({ error: 'Recording is too long to transcribe' }, 413);
+    }
+    const language = formData?.get('language');
+
+    const [isPro, usage] = await Promise.all([
+      hasProAccess(supabase, user),
+      getMonthlyVoiceUsage(supabase, user.id),
+    ]);
+    const quota: VoiceQuota = {
+      used: usage.transcriptionSeconds,
+      limit: transcriptionLimit(isPro),
+      resetsAt: usage.resetsAt.toISOString(),
+    };
+    if (quota.used >= quota.limit) {
+      // Upgrading helps a free user; a Pro user has to wait for the reset
+      return isPro
+        ? jsonResponse({ error: 'quota_exceeded', message: 'Monthly voice transcription limit reached', usage: quota }, 429)
+        : jsonResponse({ error: 'subscription_required', message: 'Free voice transcription used up for this month', usage: quota }, 402);
+    }
+
+    const provider = getTranscriptionProvider();
+    const result = await provider.transcribe(audio, {
+      filename: audio.name || 'recording.webm',
+      ...(typeof language === 'string' && language ? { language } : {}),
+    });
+
+    const durationSeconds = Math.max(
+      1,
+      Math.ceil(result.durationSeconds ?? audio.size / ESTIMATED_BYTES_PER_SECOND)
+    );
+    await logTranscriptionUsage(supabase, {
+      userId: user.id,
+      durationSeconds,
+      model: result.model,
+      provider: provider.name,
+    });
+
+    return jsonResponse({
+      text: result.text,
+      durationSeconds,
+      usage: { ...quota, used: quota.used + durationSeconds },
+    });
+  } catch (error: any) {
+    console.error('Error in whisper-transcription:', error);
+    if (error instanceof VoiceProviderError || error instanceof LLMError) {
+      return jsonResponse({ error: 'Transcription failed', details: error.message }, 502);
+    }
+    return jsonResponse({ error: 'Internal server error', details: error.message }, 500);
+  }
+});
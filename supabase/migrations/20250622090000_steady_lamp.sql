@@ -0,0 +1,32 @@
+/*
+  # Spaced Repetition Scheduling for Scripture Memory
+
+  1. Changes
+    - Add SM-2 scheduling fields to `scripture_memory`
+      - `ease_factor` - per-verse ease factor (starts at 2.5, never below 1.3)
+      - `interval_days` - days between the last review and the next one
+      - `repetitions` - consecutive successful reviews
+      - `lapse_count` - times a learned verse was forgotten
+    - Index verses by user and next review date for the due-today queue
+*/
+
+ALTER TABLE scripture_memory
+ADD COLUMN IF NOT EXISTS ease_factor FLOAT DEFAULT 2.5,
+ADD COLUMN IF NOT EXISTS interval_days INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS repetitions INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS lapse_count INTEGER DEFAULT 0;
+
+-- Seed existing verses from their manually chosen memory level
+UPDATE scripture_memory
+SET
+  interval_days = CASE memorized_level
+    WHEN 2 THEN 3
+    WHEN 3 THEN 7
+    WHEN 4 THEN 14
+    ELSE 30
+  END,
+  repetitions = GREATEST(memorized_level - 1, 0)
+WHERE repetitions = 0 AND memorized_level > 1;
+
+CREATE INDEX IF NOT EXISTS idx_scripture_memory_user_next_review
+  ON scripture_memory(user_id, next_review);
@@ -0,0 +1,142 @@
+/*
+  # Chat Thread History
+
+  1. Tables
+    - Ensure `chat_threads` and `chat_messages` exist (they were created outside migrations)
+    - Add thread metadata to `chat_threads`
+      - `title` - auto-generated from the first message, editable by the user
+      - `is_pinned` / `is_archived` - sidebar organisation
+      - `last_message_at` - sort key, bumped whenever a message is added
+    - Add a full-text `search_vector` to `chat_messages`
+
+  2. Functions
+    - `search_chat_threads(search_query)` - full-text search over the caller's
+      thread titles and messages, returning the best matching snippet per thread
+
+  3. Security
+    - Users can read, rename, pin, archive and delete only their own threads
+    - Users can read and delete their own messages and add only user messages;
+      replies are written by the chat-stream function
+*/
+
+CREATE TABLE IF NOT EXISTS chat_threads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thread_id UUID REFERENCES chat_threads(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL,
+  content TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE chat_threads
+ADD COLUMN IF NOT EXISTS title TEXT,
+ADD COLUMN IF NOT EXISTS is_pinned BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS is_archived BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS last_message_at TIMESTAMPTZ DEFAULT now();
+
+ALTER TABLE chat_messages
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_chat_threads_user_last_message
+  ON chat_threads(user_id, is_archived, last_message_at DESC);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_thread_created
+  ON chat_messages(thread_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_search
+  ON chat_messages USING GIN(search_vector);
+
+-- Backfill titles and activity times for existing threads
+UPDATE chat_threads t
+SET title = left(regexp_replace(m.content, '\s+', ' ', 'g'), 60)
+FROM (
+  SELECT DISTINCT ON (thread_id) thread_id, content
+  FROM chat_messages
+  WHERE role = 'user'
+  ORDER BY thread_id, created_at
+) m
+WHERE m.thread_id = t.id AND t.title IS NULL;
+
+UPDATE chat_threads t
+SET last_message_at = m.last_at
+FROM (
+  SELECT thread_id, max(created_at) AS last_at
+  FROM chat_messages
+  GROUP BY thread_id
+) m
+WHERE m.thread_id = t.id;
+
+-- Keep last_message_at current as messages arrive
+CREATE OR REPLACE FUNCTION touch_chat_thread()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE chat_threads SET last_message_at = now() WHERE id = NEW.thread_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS touch_chat_thread_on_message ON chat_messages;
+CREATE TRIGGER touch_chat_thread_on_message
+  AFTER INSERT ON chat_messages
+  FOR EACH ROW EXECUTE FUNCTION touch_chat_thread();
+
+-- Full-text search over the caller's own threads
+CREATE OR REPLACE FUNCTION search_chat_threads(search_query TEXT)
+RETURNS TABLE (thread_id UUID, snippet TEXT, rank REAL)
+LANGUAGE sql STABLE
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS q
+  ),
+  message_hits AS (
+    SELECT DISTINCT ON (m.thread_id)
+      m.thread_id,
+      ts_headline('english', m.content, query.q, 'MaxWords=18, MinWords=6, StartSel=«, StopSel=»') AS snippet,
+      ts_rank(m.search_vector, query.q) AS rank
+    FROM chat_messages m, query
+    WHERE m.user_id = auth.uid() AND m.search_vector @@ query.q
+    ORDER BY m.thread_id, ts_rank(m.search_vector, query.q) DESC
+  ),
+  title_hits AS (
+    SELECT t.id AS thread_id, t.title AS snippet, 1.0::REAL AS rank
+    FROM chat_threads t
+    WHERE t.user_id = auth.uid() AND t.title ILIKE '%' || search_query || '%'
+  )
+  SELECT hits.thread_id, (array_agg(hits.snippet ORDER BY hits.rank DESC))[1], max(hits.rank)
+  FROM (SELECT * FROM message_hits UNION ALL SELECT * FROM title_hits) hits
+  GROUP BY hits.thread_id
+  ORDER BY max(hits.rank) DESC
+  LIMIT 50;
+$$;
+
+-- Row level security
+ALTER TABLE chat_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own chat threads" ON chat_threads;
+CREATE POLICY "Users can manage their own chat threads"
+  ON chat_threads FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can manage their own chat messages" ON chat_messages;
+
+DROP POLICY IF EXISTS "Users can view their own chat messages" ON chat_messages;
+CREATE POLICY "Users can view their own chat messages"
+  ON chat_messages FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can add their own user messages" ON chat_messages;
+CREATE POLICY "Users can add their own user messages"
+  ON chat_messages FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND role = 'user');
+
+DROP POLICY IF EXISTS "Users can delete their own chat messages" ON chat_messages;
+CREATE POLICY "Users can delete their own chat messages"
+  ON chat_messages FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,12 @@
+/*
+  # Rolling Chat Summaries
+
+  1. Changes
+    - Add a running summary to `chat_threads`
+      - `summary` - condensed account of the turns no longer sent verbatim
+      - `summarized_through` - `created_at` of the last message folded into the summary
+*/
+
+ALTER TABLE chat_threads
+ADD COLUMN IF NOT EXISTS summary TEXT,
+ADD COLUMN IF NOT EXISTS summarized_through TIMESTAMPTZ;
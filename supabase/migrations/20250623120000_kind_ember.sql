@@ -0,0 +1,56 @@
+/*
+  # User Memory Facts
+
+  1. Tables
+    - `user_memory_facts` - durable things the AI coach has learned about a user
+      - `category` - family, church, struggle, goal, life_event, preference or other
+      - `fact` - one short statement in the third person
+      - `source_type` / `source_id` - the chat thread or journal entry it came from,
+        or `manual` when the user added it themselves
+      - `last_used_at` - when the fact was last retrieved into a chat prompt
+
+  2. Security
+    - Users can view, edit and delete only their own facts
+*/
+
+CREATE TABLE IF NOT EXISTS user_memory_facts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  category TEXT NOT NULL DEFAULT 'other'
+    CHECK (category IN ('family', 'church', 'struggle', 'goal', 'life_event', 'preference', 'other')),
+  fact TEXT NOT NULL CHECK (length(trim(fact)) > 0),
+  source_type TEXT NOT NULL DEFAULT 'manual'
+    CHECK (source_type IN ('chat', 'journal', 'manual')),
+  source_id UUID,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_memory_facts_user
+  ON user_memory_facts(user_id, updated_at DESC);
+
+ALTER TABLE user_memory_facts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own memory facts" ON user_memory_facts;
+CREATE POLICY "Users can manage their own memory facts"
+  ON user_memory_facts
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION set_user_memory_facts_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only edits to the fact itself count as updates, not retrieval bookkeeping
+DROP TRIGGER IF EXISTS user_memory_facts_updated_at ON user_memory_facts;
+CREATE TRIGGER user_memory_facts_updated_at
+  BEFORE UPDATE OF category, fact ON user_memory_facts
+  FOR EACH ROW
+  EXECUTE FUNCTION set_user_memory_facts_updated_at();
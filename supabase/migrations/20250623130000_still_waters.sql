@@ -0,0 +1,232 @@
+/*
+  # Semantic Index For Chat Grounding
+
+  1. Extensions
+    - Enable `vector` (pgvector)
+
+  2. Tables
+    - `content_embeddings` - one row per journal entry, prayer request, Bible study
+      note or reading reflection, holding the indexed text and its embedding
+      - `content_hash` - detects edits; the embedding is cleared when the text changes
+      - `embedding` - NULL until the next sync embeds it
+    - Add `sources` to `chat_messages` so replies keep the items they cited
+
+  3. Triggers
+    - Inserts, updates and deletes on the four source tables keep
+      `content_embeddings` in step with the source rows
+
+  4. Functions
+    - `match_user_content(query_embedding, match_user_id, match_count, min_similarity)`
+      nearest items by cosine similarity
+
+  5. Security
+    - Users can read only their own index rows; writes happen through the
+      triggers and the service role
+*/
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS content_embeddings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  source_type TEXT NOT NULL
+    CHECK (source_type IN ('journal_entry', 'prayer_request', 'bible_study_note', 'reading_reflection')),
+  source_id UUID NOT NULL,
+  title TEXT,
+  content TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  metadata JSONB DEFAULT '{}'::jsonb,
+  embedding extensions.vector(1536),
+  source_created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (source_type, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_embeddings_pending
+  ON content_embeddings(user_id)
+  WHERE embedding IS NULL;
+CREATE INDEX IF NOT EXISTS idx_content_embeddings_vector
+  ON content_embeddings USING hnsw (embedding extensions.vector_cosine_ops);
+
+ALTER TABLE content_embeddings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own content embeddings" ON content_embeddings;
+CREATE POLICY "Users can view their own content embeddings"
+  ON content_embeddings FOR SELECT
+  USING (auth.uid() = user_id);
+
+ALTER TABLE chat_messages
+ADD COLUMN IF NOT EXISTS sources JSONB;
+
+-- Insert or refresh one index row; empty text removes it
+CREATE OR REPLACE FUNCTION upsert_content_embedding(
+  p_source_type TEXT,
+  p_source_id UUID,
+  p_user_id UUID,
+  p_title TEXT,
+  p_content TEXT,
+  p_metadata JSONB,
+  p_source_created_at TIMESTAMPTZ
+)
+RETURNS VOID AS $$
+DECLARE
+  -- Embedding models cap their input; long entries are indexed by their opening
+  doc TEXT := left(trim(coalesce(p_content, '')), 8000);
+BEGIN
+  IF p_user_id IS NULL OR doc = '' THEN
+    DELETE FROM content_embeddings
+    WHERE source_type = p_source_type AND source_id = p_source_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO content_embeddings (
+    user_id, source_type, source_id, title, content, content_hash, metadata, source_created_at
+  )
+  VALUES (
+    p_user_id, p_source_type, p_source_id, p_title, doc,
+    md5(coalesce(p_title, '') || E'\n' || doc), coalesce(p_metadata, '{}'::jsonb), p_source_created_at
+  )
+  ON CONFLICT (source_type, source_id) DO UPDATE SET
+    user_id = EXCLUDED.user_id,
+    title = EXCLUDED.title,
+    content = EXCLUDED.content,
+    metadata = EXCLUDED.metadata,
+    source_created_at = EXCLUDED.source_created_at,
+    embedding = CASE
+      WHEN content_embeddings.content_hash = EXCLUDED.content_hash THEN content_embeddings.embedding
+      ELSE NULL
+    END,
+    content_hash = EXCLUDED.content_hash,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Shared trigger; the source type is passed as the trigger argument
+CREATE OR REPLACE FUNCTION sync_content_embedding()
+RETURNS TRIGGER AS $$
+DECLARE
+  doc_type TEXT := TG_ARGV[0];
+  row_data JSONB;
+  doc_title TEXT;
+  doc_content TEXT;
+  doc_metadata JSONB := '{}'::jsonb;
+  plan_title TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM content_embeddings
+    WHERE source_type = doc_type AND source_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  row_data := to_jsonb(NEW);
+
+  CASE doc_type
+    WHEN 'journal_entry' THEN
+      doc_title := row_data->>'title';
+      doc_content := concat_ws(E'\n\n', row_data->>'summary', row_data->>'content');
+    WHEN 'prayer_request' THEN
+      doc_title := row_data->>'title';
+      doc_content := concat_ws(E'\n\n', row_data->>'description', row_data->>'answered_notes');
+      doc_metadata := jsonb_build_object('is_answered', coalesce((row_data->>'is_answered')::boolean, false));
+    WHEN 'bible_study_note' THEN
+      doc_title := row_data->>'title';
+      doc_content := concat_ws(E'\n\n', row_data->>'scripture_reference', row_data->>'content');
+      doc_metadata := jsonb_build_object('scripture_reference', row_data->>'scripture_reference');
+    WHEN 'reading_reflection' THEN
+      SELECT title INTO plan_title FROM bible_reading_plans WHERE id = (row_data->>'plan_id')::uuid;
+      doc_title := concat_ws(' - ', plan_title, 'Day ' || (row_data->>'day_number'));
+      doc_content := row_data->>'reflection_text';
+      doc_metadata := jsonb_build_object(
+        'plan_id', row_data->>'plan_id',
+        'day_number', (row_data->>'day_number')::int
+      );
+  END CASE;
+
+  PERFORM upsert_content_embedding(
+    doc_type,
+    NEW.id,
+    (row_data->>'user_id')::uuid,
+    doc_title,
+    doc_content,
+    doc_metadata,
+    coalesce((row_data->>'created_at')::timestamptz, now())
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS journal_entries_content_embedding ON journal_entries;
+CREATE TRIGGER journal_entries_content_embedding
+  AFTER INSERT OR UPDATE OR DELETE ON journal_entries
+  FOR EACH ROW EXECUTE FUNCTION sync_content_embedding('journal_entry');
+
+DROP TRIGGER IF EXISTS prayer_requests_content_embedding ON prayer_requests;
+CREATE TRIGGER prayer_requests_content_embedding
+  AFTER INSERT OR UPDATE OR DELETE ON prayer_requests
+  FOR EACH ROW EXECUTE FUNCTION sync_content_embedding('prayer_request');
+
+DROP TRIGGER IF EXISTS bible_study_notes_content_embedding ON bible_study_notes;
+CREATE TRIGGER bible_study_notes_content_embedding
+  AFTER INSERT OR UPDATE OR DELETE ON bible_study_notes
+  FOR EACH ROW EXECUTE FUNCTION sync_content_embedding('bible_study_note');
+
+DROP TRIGGER IF EXISTS reading_reflections_content_embedding ON reading_reflections;
+CREATE TRIGGER reading_reflections_content_embedding
+  AFTER INSERT OR UPDATE OR DELETE ON reading_reflections
+  FOR EACH ROW EXECUTE FUNCTION sync_content_embedding('reading_reflection');
+
+-- Index existing content; embeddings are filled in by the next sync
+SELECT upsert_content_embedding(
+  'journal_entry', id, user_id, title, concat_ws(E'\n\n', summary, content), '{}'::jsonb, created_at
+)
+FROM journal_entries;
+
+SELECT upsert_content_embedding(
+  'prayer_request', id, user_id, title, concat_ws(E'\n\n', description, answered_notes),
+  jsonb_build_object('is_answered', coalesce(is_answered, false)), created_at
+)
+FROM prayer_requests;
+
+SELECT upsert_content_embedding(
+  'bible_study_note', id, user_id, title, concat_ws(E'\n\n', scripture_reference, content),
+  jsonb_build_object('scripture_reference', scripture_reference), created_at
+)
+FROM bible_study_notes;
+
+SELECT upsert_content_embedding(
+  'reading_reflection', r.id, r.user_id, concat_ws(' - ', p.title, 'Day ' || r.day_number), r.reflection_text,
+  jsonb_build_object('plan_id', r.plan_id, 'day_number', r.day_number), r.created_at
+)
+FROM reading_reflections r
+LEFT JOIN bible_reading_plans p ON p.id = r.plan_id;
+
+CREATE OR REPLACE FUNCTION match_user_content(
+  query_embedding extensions.vector(1536),
+  match_user_id UUID,
+  match_count INT DEFAULT 5,
+  min_similarity FLOAT DEFAULT 0.3
+)
+RETURNS TABLE (
+  source_type TEXT,
+  source_id UUID,
+  title TEXT,
+  content TEXT,
+  metadata JSONB,
+  source_created_at TIMESTAMPTZ,
+  similarity FLOAT
+) AS $$
+  SELECT
+    e.source_type,
+    e.source_id,
+    e.title,
+    e.content,
+    e.metadata,
+    e.source_created_at,
+    1 - (e.embedding <=> query_embedding) AS similarity
+  FROM content_embeddings e
+  WHERE e.user_id = match_user_id
+    AND e.embedding IS NOT NULL
+    AND 1 - (e.embedding <=> query_embedding) >= min_similarity
+  ORDER BY e.embedding <=> query_embedding
+  LIMIT match_count;
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
@@ -0,0 +1,52 @@
+/*
+  # Chat Actions
+
+  1. Tables
+    - `chat_actions` - actions the AI coach proposed in a chat and what became of them
+      - `message_id` - the assistant message that proposed the action
+      - `action_type` - create_prayer_request, log_habit, add_memory_verse,
+        start_reading_plan or create_spiritual_goal
+      - `params` - the arguments shown to the user on the confirmation card
+      - `status` - proposed, then executed, declined or failed
+      - `result` - ids of the rows the action created
+      - `error` - why a confirmed action could not be carried out
+
+  2. Security
+    - Users can view their own actions. Proposals and status changes are written
+      by the chat-stream and chat-action edge functions, so the audit trail
+      can't be edited from the client.
+*/
+
+CREATE TABLE IF NOT EXISTS chat_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thread_id UUID NOT NULL REFERENCES chat_threads(id) ON DELETE CASCADE,
+  message_id UUID REFERENCES chat_messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  action_type TEXT NOT NULL
+    CHECK (action_type IN (
+      'create_prayer_request',
+      'log_habit',
+      'add_memory_verse',
+      'start_reading_plan',
+      'create_spiritual_goal'
+    )),
+  params JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'proposed'
+    CHECK (status IN ('proposed', 'executed', 'declined', 'failed')),
+  result JSONB,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  resolved_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_actions_thread
+  ON chat_actions(thread_id, created_at);
+
+ALTER TABLE chat_actions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own chat actions" ON chat_actions;
+CREATE POLICY "Users can view their own chat actions"
+  ON chat_actions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,79 @@
+/*
+  # Chat Safety Events
+
+  1. Tables
+    - `safety_events` - one row each time the chat safety check flags risk
+      - `stage` - `input` when the user's message was flagged, `output` when the
+        generated reply was withheld
+      - `risk_level` - `concern` (answered with extra care) or `crisis`
+        (answered with the crisis response and hotline resources)
+      - `category` - suicide_self_harm, abuse, harm_to_others or other
+      - `detector` - `keyword` screen, `classifier` model, or `both`
+      - `region` - country whose hotlines were shown
+    - No message text, thread or message ids are stored, so the table can be
+      audited without exposing what anyone wrote
+
+  2. Modified Tables
+    - `chat_messages.safety` - the risk level, category and resources shown
+      with a reply, so the safety banner is restored when the thread reopens
+
+  3. Functions
+    - `get_safety_event_stats` - daily counts for administrators
+
+  4. Security
+    - RLS is enabled with no policies; rows are written by the chat-stream
+      edge function and read only in aggregate through the stats function
+*/
+
+CREATE TABLE IF NOT EXISTS safety_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  stage TEXT NOT NULL CHECK (stage IN ('input', 'output')),
+  risk_level TEXT NOT NULL CHECK (risk_level IN ('concern', 'crisis')),
+  category TEXT NOT NULL
+    CHECK (category IN ('suicide_self_harm', 'abuse', 'harm_to_others', 'other')),
+  detector TEXT NOT NULL CHECK (detector IN ('keyword', 'classifier', 'both')),
+  region TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_safety_events_created
+  ON safety_events(created_at DESC);
+
+ALTER TABLE safety_events ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE chat_messages
+ADD COLUMN IF NOT EXISTS safety JSONB;
+
+CREATE OR REPLACE FUNCTION get_safety_event_stats(days_back INTEGER DEFAULT 30)
+RETURNS TABLE (
+  day DATE,
+  stage TEXT,
+  risk_level TEXT,
+  category TEXT,
+  event_count BIGINT,
+  user_count BIGINT
+) SECURITY DEFINER AS $$
+BEGIN
+  -- Check if user is admin
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = auth.uid() AND is_admin = true
+  ) THEN
+    RAISE EXCEPTION 'Permission denied: admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    e.created_at::date,
+    e.stage,
+    e.risk_level,
+    e.category,
+    count(*),
+    count(DISTINCT e.user_id)
+  FROM public.safety_events e
+  WHERE e.created_at >= now() - make_interval(days => days_back)
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 1 DESC, 5 DESC;
+END;
+$$ LANGUAGE plpgsql;
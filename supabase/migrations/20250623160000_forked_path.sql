@@ -0,0 +1,99 @@
+/*
+  # Chat Branches and Message Feedback
+
+  1. Changes
+    - `chat_messages` become a tree instead of a list
+      - `parent_id` - the message this one follows; editing a message or
+        regenerating a reply adds a sibling under the same parent
+      - `model` / `prompt_version` - what produced an assistant reply, so
+        ratings can be compared across prompt changes
+    - `chat_threads.active_leaf_id` - last message of the branch the user is viewing
+    - Existing threads are backfilled as a single branch
+
+  2. Tables
+    - `chat_message_feedback` - a thumbs up (1) or down (-1) on an assistant
+      reply, with an optional reason; one rating per user per message
+
+  3. Security
+    - Users can rate only their own messages and see only their own ratings
+*/
+
+ALTER TABLE chat_messages
+ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES chat_messages(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS model TEXT,
+ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_parent
+  ON chat_messages(parent_id);
+
+ALTER TABLE chat_threads
+ADD COLUMN IF NOT EXISTS active_leaf_id UUID REFERENCES chat_messages(id) ON DELETE SET NULL;
+
+-- Each existing message follows the one before it in its thread
+UPDATE chat_messages m
+SET parent_id = ordered.previous_id
+FROM (
+  SELECT
+    id,
+    lag(id) OVER (PARTITION BY thread_id ORDER BY created_at, id) AS previous_id
+  FROM chat_messages
+) ordered
+WHERE m.id = ordered.id
+  AND m.parent_id IS NULL
+  AND ordered.previous_id IS NOT NULL;
+
+UPDATE chat_threads t
+SET active_leaf_id = (
+  SELECT m.id
+  FROM chat_messages m
+  WHERE m.thread_id = t.id
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT 1
+)
+WHERE t.active_leaf_id IS NULL;
+
+CREATE TABLE IF NOT EXISTS chat_message_feedback (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES chat_messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rating SMALLINT NOT NULL CHECK (rating IN (-1, 1)),
+  reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (message_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_message_feedback_created
+  ON chat_message_feedback(created_at DESC);
+
+ALTER TABLE chat_message_feedback ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can rate their own chat messages" ON chat_message_feedback;
+CREATE POLICY "Users can rate their own chat messages"
+  ON chat_message_feedback
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM chat_messages m
+      WHERE m.id = message_id
+        AND m.user_id = auth.uid()
+        AND m.role = 'assistant'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION set_chat_message_feedback_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS chat_message_feedback_updated_at ON chat_message_feedback;
+CREATE TRIGGER chat_message_feedback_updated_at
+  BEFORE UPDATE ON chat_message_feedback
+  FOR EACH ROW
+  EXECUTE FUNCTION set_chat_message_feedback_updated_at();
@@ -0,0 +1,20 @@
+/*
+  # Resumable Chat Replies
+
+  1. Changes
+    - `chat_messages.status` - `streaming` while a reply is being written,
+      then `complete`, or `failed` if generation stopped with an error
+    - `chat_messages.updated_at` - last time the reply text was saved; a
+      streaming reply that stops changing is treated as interrupted
+    - Replies are saved as they stream, so a client that loses its connection
+      can pick up from the stored text
+*/
+
+ALTER TABLE chat_messages
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'complete'
+  CHECK (status IN ('streaming', 'complete', 'failed')),
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_streaming
+  ON chat_messages(thread_id)
+  WHERE status = 'streaming';
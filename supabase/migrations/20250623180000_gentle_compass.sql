@@ -0,0 +1,25 @@
+/*
+  # Coaching Modes and Tradition Preferences
+
+  1. Changes
+    - `chat_threads.coaching_mode` - how the AI coach approaches this
+      conversation: general, prayer partner, Bible scholar, accountability
+      coach or grief companion
+    - `user_preferences.default_coaching_mode` - mode for new conversations
+    - `user_preferences.theological_tradition` - the user's tradition, used to
+      frame doctrine and practice; null means no preference
+    - Quoted verses use the existing `user_preferences.verse_translation`
+*/
+
+ALTER TABLE chat_threads
+ADD COLUMN IF NOT EXISTS coaching_mode TEXT NOT NULL DEFAULT 'general'
+  CHECK (coaching_mode IN ('general', 'prayer_partner', 'bible_scholar', 'accountability_coach', 'grief_companion'));
+
+ALTER TABLE user_preferences
+ADD COLUMN IF NOT EXISTS default_coaching_mode TEXT NOT NULL DEFAULT 'general'
+  CHECK (default_coaching_mode IN ('general', 'prayer_partner', 'bible_scholar', 'accountability_coach', 'grief_companion')),
+ADD COLUMN IF NOT EXISTS theological_tradition TEXT
+  CHECK (theological_tradition IN (
+    'anglican', 'baptist', 'catholic', 'lutheran', 'methodist',
+    'nondenominational', 'orthodox', 'pentecostal', 'reformed'
+  ));
@@ -0,0 +1,34 @@
+/*
+  # Scripture Quotation Checks
+
+  1. Changes
+    - `scripture_checks` on `chat_messages`, `ai_devotionals` and
+      `sermon_summaries` - the result of checking each scripture quotation in
+      the generated text against the real passage: reference, translation,
+      status (verified, corrected, mismatch or unverified), the quoted text and,
+      for corrections, what the model originally wrote
+    - Null means the text hasn't been checked yet
+
+  2. Security
+    - Users can update their own chat messages, but only `content` and
+      `scripture_checks`, so the client can save the checks and corrected
+      quotations; role, status and safety stay with the chat-stream function
+*/
+
+ALTER TABLE chat_messages
+ADD COLUMN IF NOT EXISTS scripture_checks JSONB;
+
+ALTER TABLE ai_devotionals
+ADD COLUMN IF NOT EXISTS scripture_checks JSONB;
+
+ALTER TABLE sermon_summaries
+ADD COLUMN IF NOT EXISTS scripture_checks JSONB;
+
+DROP POLICY IF EXISTS "Users can save checks on their own chat messages" ON chat_messages;
+CREATE POLICY "Users can save checks on their own chat messages"
+  ON chat_messages FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+REVOKE UPDATE ON chat_messages FROM anon, authenticated;
+GRANT UPDATE (content, scripture_checks) ON chat_messages TO authenticated;
@@ -0,0 +1,36 @@
+/*
+  # Voice Usage Metering
+
+  1. Changes
+    - `whisper_usage_logs.provider` and `voice_usage_logs.provider` - which
+      backend handled the request (openai, elevenlabs, stub)
+    - Indexes on `(user_id, created_at)` for the monthly quota checks
+    - `get_monthly_voice_usage(user_id, since)` - seconds transcribed and
+      characters spoken since the start of the billing month. Runs with the
+      caller's rights, so users only ever see their own totals.
+*/
+
+ALTER TABLE whisper_usage_logs
+ADD COLUMN IF NOT EXISTS provider TEXT;
+
+ALTER TABLE voice_usage_logs
+ADD COLUMN IF NOT EXISTS provider TEXT;
+
+CREATE INDEX IF NOT EXISTS whisper_usage_logs_user_created_idx
+  ON whisper_usage_logs(user_id, created_at);
+
+CREATE INDEX IF NOT EXISTS voice_usage_logs_user_created_idx
+  ON voice_usage_logs(user_id, created_at);
+
+CREATE OR REPLACE FUNCTION get_monthly_voice_usage(p_user_id UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (transcription_seconds BIGINT, speech_characters BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    (SELECT COALESCE(SUM(duration_seconds), 0) FROM whisper_usage_logs
+      WHERE user_id = p_user_id AND created_at >= p_since),
+    (SELECT COALESCE(SUM(characters), 0) FROM voice_usage_logs
+      WHERE user_id = p_user_id AND created_at >= p_since);
+$$;
+
+GRANT EXECUTE ON FUNCTION get_monthly_voice_usage(UUID, TIMESTAMPTZ) TO authenticated;
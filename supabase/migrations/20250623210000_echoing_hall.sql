@@ -0,0 +1,30 @@
+/*
+  # Speech Audio Cache
+
+  1. Changes
+    - Private `tts-cache` storage bucket holding generated speech, keyed by a
+      hash of the normalized text, provider, model, voice, speed and
+      translation. Only edge functions (service role) read and write it.
+    - `voice_usage_logs.cached` - the audio came from the cache and cost
+      nothing to generate
+    - `get_monthly_voice_usage` no longer counts cached audio towards the
+      monthly character allowance
+*/
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('tts-cache', 'tts-cache', false)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE voice_usage_logs
+ADD COLUMN IF NOT EXISTS cached BOOLEAN NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION get_monthly_voice_usage(p_user_id UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (transcription_seconds BIGINT, speech_characters BIGINT)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    (SELECT COALESCE(SUM(duration_seconds), 0) FROM whisper_usage_logs
+      WHERE user_id = p_user_id AND created_at >= p_since),
+    (SELECT COALESCE(SUM(characters), 0) FROM voice_usage_logs
+      WHERE user_id = p_user_id AND created_at >= p_since AND NOT cached);
+$$;
@@ -0,0 +1,44 @@
+/*
+  # Guided Journal Templates
+
+  1. Changes
+    - `template_id` on `journal_entries` - the guided format the entry was
+      written with (acts, examen, soap, gratitude); null for free writing
+    - `sections` on `journal_entries` - the answer to each section of the
+      template: id, label, type (text, list, scripture or rating), value and,
+      for scripture sections, the reference
+    - `journal_entry_sections` view - one row per answered section, so
+      analytics can query section answers and ratings directly
+
+  2. Security
+    - The view runs with the caller's permissions, so the existing row level
+      security on `journal_entries` still applies
+*/
+
+ALTER TABLE journal_entries
+ADD COLUMN IF NOT EXISTS template_id TEXT,
+ADD COLUMN IF NOT EXISTS sections JSONB;
+
+CREATE INDEX IF NOT EXISTS journal_entries_user_template_idx
+  ON journal_entries (user_id, template_id, created_at DESC)
+  WHERE template_id IS NOT NULL;
+
+CREATE OR REPLACE VIEW journal_entry_sections WITH (security_invoker = true) AS
+SELECT
+  e.id AS entry_id,
+  e.user_id,
+  e.template_id,
+  e.created_at,
+  section->>'id' AS section_id,
+  section->>'type' AS section_type,
+  section->'value' AS value,
+  CASE
+    WHEN section->>'type' = 'rating' AND jsonb_typeof(section->'value') = 'number'
+    THEN (section->>'value')::int
+  END AS rating,
+  section->>'reference' AS scripture_reference
+FROM journal_entries e
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE WHEN jsonb_typeof(e.sections) = 'array' THEN e.sections ELSE '[]'::jsonb END
+) AS section
+WHERE e.sections IS NOT NULL;
@@ -0,0 +1,118 @@
+/*
+  # Private Journal Encryption
+
+  1. Changes
+    - `journal_encryption_keys` - one row per user who turned on journal
+      encryption. Holds the user's data key wrapped twice: once with a key
+      derived from their passphrase (PBKDF2 salt and iteration count stored
+      alongside) and once with their recovery key. The server never sees the
+      passphrase, the recovery key or the unwrapped data key.
+    - `is_encrypted` and `encrypted_payload` on `journal_entries` - the title,
+      summary, content and template sections of an encrypted entry, sealed
+      with AES-GCM on the device. The plaintext columns hold a placeholder.
+      Tags, scripture references, scores and dates stay readable so filters
+      and analytics keep working.
+    - `sync_content_embedding()` no longer indexes encrypted journal entries,
+      and drops the index row when an entry becomes encrypted, so semantic
+      search and chat citations never see them
+
+  2. Security
+    - RLS on `journal_encryption_keys`; users can only read and change their
+      own keys
+*/
+
+CREATE TABLE IF NOT EXISTS journal_encryption_keys (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  kdf_salt TEXT NOT NULL,
+  kdf_iterations INTEGER NOT NULL,
+  wrapped_key TEXT NOT NULL,
+  recovery_wrapped_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE journal_encryption_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can select their own journal keys"
+  ON journal_encryption_keys
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own journal keys"
+  ON journal_encryption_keys
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own journal keys"
+  ON journal_encryption_keys
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own journal keys"
+  ON journal_encryption_keys
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+ALTER TABLE journal_entries
+ADD COLUMN IF NOT EXISTS is_encrypted BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS encrypted_payload TEXT;
+
+CREATE OR REPLACE FUNCTION sync_content_embedding()
+RETURNS TRIGGER AS $$
+DECLARE
+  doc_type TEXT := TG_ARGV[0];
+  row_data JSONB;
+  doc_title TEXT;
+  doc_content TEXT;
+  doc_metadata JSONB := '{}'::jsonb;
+  plan_title TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM content_embeddings
+    WHERE source_type = doc_type AND source_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  row_data := to_jsonb(NEW);
+
+  -- Encrypted entries are unreadable here; make sure nothing of them stays indexed
+  IF doc_type = 'journal_entry' AND coalesce((row_data->>'is_encrypted')::boolean, false) THEN
+    DELETE FROM content_embeddings
+    WHERE source_type = doc_type AND source_id = NEW.id;
+    RETURN NEW;
+  END IF;
+
+  CASE doc_type
+    WHEN 'journal_entry' THEN
+      doc_title := row_data->>'title';
+      doc_content := concat_ws(E'\n\n', row_data->>'summary', row_data->>'content');
+    WHEN 'prayer_request' THEN
+      doc_title := row_data->>'title';
+      doc_content := concat_ws(E'\n\n', row_data->>'description', row_data->>'answered_notes');
+      doc_metadata := jsonb_build_object('is_answered', coalesce((row_data->>'is_answered')::boolean, false));
+    WHEN 'bible_study_note' THEN
+      doc_title := row_data->>'title';
+      doc_content := concat_ws(E'\n\n', row_data->>'scripture_reference', row_data->>'content');
+      doc_metadata := jsonb_build_object('scripture_reference', row_data->>'scripture_reference');
+    WHEN 'reading_reflection' THEN
+      SELECT title INTO plan_title FROM bible_reading_plans WHERE id = (row_data->>'plan_id')::uuid;
+      doc_title := concat_ws(' - ', plan_title, 'Day ' || (row_data->>'day_number'));
+      doc_content := row_data->>'reflection_text';
+      doc_metadata := jsonb_build_object(
+        'plan_id', row_data->>'plan_id',
+        'day_number', (row_data->>'day_number')::int
+      );
+  END CASE;
+
+  PERFORM upsert_content_embedding(
+    doc_type,
+    NEW.id,
+    (row_data->>'user_id')::uuid,
+    doc_title,
+    doc_content,
+    doc_metadata,
+    coalesce((row_data->>'created_at')::timestamptz, now())
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,71 @@
+/*
+  # Faithfulness Timeline
+
+  1. Changes
+    - `memorized_at` on `scripture_memory` - when the verse first reached
+      memorized level (4+). Stamped by trigger and kept if the level later
+      drops after a lapse.
+    - `completed_at` on `spiritual_goals` - when the goal was marked
+      completed; cleared if it's reopened
+    - Existing memorized verses and completed goals are backfilled from
+      `last_practiced` and `updated_at`, the closest dates available
+    - Indexes for the journal timeline, which lists both by date
+
+  2. Security
+    - No policy changes; the existing row level security on both tables
+      applies to the new columns
+*/
+
+ALTER TABLE scripture_memory
+ADD COLUMN IF NOT EXISTS memorized_at TIMESTAMPTZ;
+
+ALTER TABLE spiritual_goals
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+
+UPDATE scripture_memory
+SET memorized_at = coalesce(last_practiced, created_at, now())
+WHERE memorized_level >= 4 AND memorized_at IS NULL;
+
+UPDATE spiritual_goals
+SET completed_at = coalesce(updated_at, created_at, now())
+WHERE status = 'completed' AND completed_at IS NULL;
+
+CREATE OR REPLACE FUNCTION stamp_scripture_memorized_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.memorized_level >= 4 AND NEW.memorized_at IS NULL THEN
+    NEW.memorized_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS scripture_memory_memorized_at ON scripture_memory;
+CREATE TRIGGER scripture_memory_memorized_at
+  BEFORE INSERT OR UPDATE OF memorized_level ON scripture_memory
+  FOR EACH ROW EXECUTE FUNCTION stamp_scripture_memorized_at();
+
+CREATE OR REPLACE FUNCTION stamp_goal_completed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' THEN
+    NEW.completed_at := coalesce(NEW.completed_at, now());
+  ELSE
+    NEW.completed_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS spiritual_goals_completed_at ON spiritual_goals;
+CREATE TRIGGER spiritual_goals_completed_at
+  BEFORE INSERT OR UPDATE OF status ON spiritual_goals
+  FOR EACH ROW EXECUTE FUNCTION stamp_goal_completed_at();
+
+CREATE INDEX IF NOT EXISTS scripture_memory_user_memorized_idx
+  ON scripture_memory (user_id, memorized_at)
+  WHERE memorized_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS spiritual_goals_user_completed_idx
+  ON spiritual_goals (user_id, completed_at)
+  WHERE completed_at IS NOT NULL;
@@ -0,0 +1,24 @@
+/*
+  # Journal Import
+
+  1. Changes
+    - `import_source` on `journal_entries` - where an imported entry came
+      from (dayone, journey, truenorth, markdown, csv); null for entries
+      written in the app
+    - `import_id` on `journal_entries` - the entry's id in the app it came
+      from, when it has one (Day One and Journey do)
+    - A unique index on `(user_id, import_source, import_id)` so importing
+      the same export twice can't duplicate entries
+
+  2. Security
+    - No policy changes; the existing row level security on
+      `journal_entries` applies to the new columns
+*/
+
+ALTER TABLE journal_entries
+ADD COLUMN IF NOT EXISTS import_source TEXT,
+ADD COLUMN IF NOT EXISTS import_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS journal_entries_user_import_idx
+  ON journal_entries (user_id, import_source, import_id)
+  WHERE import_id IS NOT NULL;
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import path from 'path';
 import react from '@vitejs/plugin-react';
 import { defineConfig } from 'vite';
@@ -12,6 +13,13 @@ export default defineConfig({
       '@': path.resolve(__dirname, './src'),
     },
   },
+  test: {
+    // Placeholders so modules that create the Supabase client load in tests
+    env: {
+      VITE_SUPABASE_URL: 'http://localhost:54321',
+      VITE_SUPABASE_ANON_KEY: 'test-anon-key',
+    },
+  },
   optimizeDeps: {
     exclude: ['lucide-react'],
   },